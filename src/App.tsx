@@ -1,73 +1,389 @@
-import React, { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { FileManager } from './components/FileManager';
 import { ChatInterface } from './components/ChatInterface';
 import { SQLQueryPanel } from './components/SQLQueryPanel';
 import { ExcelDocumentParser } from './components/ExcelDocumentParser';
 import { KnowledgeViewer } from './components/KnowledgeViewer';
-import { Database, MessageSquare, FileText, Sparkles, BookOpen, Brain } from 'lucide-react';
-import { ParsedKnowledge } from './services/GroqService';
+import { KnowledgeDiffViewer } from './components/KnowledgeDiffViewer';
+import { TestRunner } from './components/TestRunner';
+import { RuleValidator } from './components/RuleValidator';
+import { TransformationPipeline } from './components/TransformationPipeline';
+import { ReconciliationGenerator } from './components/ReconciliationGenerator';
+import { TraceabilityMatrix } from './components/TraceabilityMatrix';
+import { TestCaseExporter } from './components/TestCaseExporter';
+import { TestFrameworkExporter } from './components/TestFrameworkExporter';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { SyntheticDataGenerator } from './components/SyntheticDataGenerator';
+import { Database, MessageSquare, FileText, Sparkles, BookOpen, Brain, ClipboardCheck, Shield, Workflow, ArrowLeftRight, GitCompare, Grid3x3, FileSpreadsheet, Package } from 'lucide-react';
+import { ParsedKnowledge, SQLQuery, TableSpecification } from './services/GroqService';
+import SqlEngine from './services/SqlEngine';
+import { asTable, LoadedSheet, mapToSpecification, readSpreadsheet, suggestSpecification } from './services/dataLoader';
+import { DEFAULT_DIALECT, SQL_DIALECTS, SqlDialect } from './services/sqlDialect';
+import { GeneratedTable, toLoadedSheet } from './services/dataGenerator';
+import ProjectStore, { Project, ProjectContent, ProjectFile, ProjectMessage, ProjectSummary } from './services/projectStore';
+import { recordEdit, redoEdit, startHistory, undoEdit } from './services/knowledgeEditor';
+import { moveQuery } from './services/queryLibrary';
+
+interface SheetInfo {
+  sheetName: string;
+  /** Table the sheet is loaded into: its own name, or the mapped specification's. */
+  tableName: string;
+  mappedTo?: string;
+  rowCount: number;
+  columnCount: number;
+  warnings: string[];
+  error?: string;
+}
 
 interface FileInfo {
   name: string;
   size: number;
   uploadedAt: Date;
   status: 'analyzing' | 'ready' | 'error';
+  sheets: SheetInfo[];
+  error?: string;
 }
 
-interface SQLQuery {
-  id: string;
-  query: string;
-  description: string;
+interface StoredQuery extends SQLQuery {
   timestamp: Date;
+  name?: string;
+  tags?: string[];
+  favorite?: boolean;
 }
 
+// Rows sent to the model as a sample of the uploaded data.
+const SAMPLE_ROW_COUNT = 5;
+
+// Generated data is listed with the uploads under this name.
+const SYNTHETIC_FILE_NAME = 'synthetic-data.xlsx';
+
+// Changes are written to the project store once they settle for this long.
+const SAVE_DELAY_MS = 500;
+
+const DEFAULT_PROJECT_NAME = 'My project';
+
+const sampleOf = (sheet?: LoadedSheet): Record<string, unknown>[] | undefined =>
+  sheet?.rows.slice(0, SAMPLE_ROW_COUNT).map(row =>
+    Object.fromEntries(sheet.columns.map((column, index) => [column.sourceName, row[index]]))
+  );
+
+const emptyProject = (dialect: SqlDialect): ProjectContent => ({ knowledge: null, dialect, files: [], queries: [] });
+
+const loadSheet = async (sheet: LoadedSheet, spec?: TableSpecification): Promise<SheetInfo> => {
+  const table = spec ? mapToSpecification(sheet, spec) : asTable(sheet);
+  const warnings: string[] = [];
+  if (table.missingColumns.length > 0) {
+    warnings.push(`Not in file, loaded as NULL: ${table.missingColumns.join(', ')}`);
+  }
+  if (table.unmappedColumns.length > 0) {
+    warnings.push(`Not in specification, skipped: ${table.unmappedColumns.join(', ')}`);
+  }
+
+  const info: SheetInfo = {
+    sheetName: sheet.sheetName,
+    tableName: table.tableName,
+    mappedTo: spec?.tableName,
+    rowCount: 0,
+    columnCount: table.columns.length,
+    warnings,
+  };
+  try {
+    info.rowCount = await SqlEngine.loadTable(table.tableName, table.columns, table.rows);
+  } catch (err) {
+    info.error = err instanceof Error ? err.message : String(err);
+  }
+  return info;
+};
+
 function App() {
   const [files, setFiles] = useState<FileInfo[]>([]);
-  const [sqlQueries, setSqlQueries] = useState<SQLQuery[]>([]);
-  const [activeTab, setActiveTab] = useState<'upload' | 'chat' | 'queries' | 'knowledge' | 'parser'>('upload');
-  const [knowledge, setKnowledge] = useState<ParsedKnowledge | null>(null);
+  const [loadedSheets, setLoadedSheets] = useState<Record<string, LoadedSheet[]>>({});
+  const [sqlQueries, setSqlQueries] = useState<StoredQuery[]>([]);
+  const [uploadedData, setUploadedData] = useState<Record<string, unknown>[] | undefined>(undefined);
+  const [activeTab, setActiveTab] = useState<'upload' | 'chat' | 'queries' | 'knowledge' | 'parser' | 'tests'>('upload');
+  const [knowledgeHistory, setKnowledgeHistory] = useState(() => startHistory(null));
+  const knowledge = knowledgeHistory.present;
   const [error, setError] = useState<string | null>(null);
+  const [dialect, setDialect] = useState<SqlDialect>(DEFAULT_DIALECT);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ProjectMessage[] | undefined>(undefined);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const restoreStarted = useRef(false);
+
+  /** Replaces everything on screen, and in the query engine, with a saved project. */
+  const applyProject = useCallback(async (project: Project) => {
+    SqlEngine.reset();
+    setProjectId(project.id);
+    setKnowledgeHistory(startHistory(project.knowledge));
+    setDialect(project.dialect);
+    setSqlQueries(project.queries);
+    setChatMessages(project.messages);
+    setSavedAt(project.updatedAt);
+    setError(null);
+    setUploadedData(sampleOf(project.files[0]?.sheets[0]));
+    setLoadedSheets(Object.fromEntries(project.files.map(file => [file.name, file.sheets])));
+    setFiles(project.files.map(file => ({ name: file.name, size: file.size, uploadedAt: file.uploadedAt, status: 'analyzing', sheets: [] })));
+
+    for (const file of project.files) {
+      const sheetInfos: SheetInfo[] = [];
+      for (const sheet of file.sheets) {
+        const mappedTo = file.mappings[sheet.sheetName];
+        sheetInfos.push(await loadSheet(sheet, project.knowledge?.tableSpecifications.find(t => t.tableName === mappedTo)));
+      }
+      setFiles(prev => prev.map(f => (f.name === file.name ? {
+        ...f,
+        sheets: sheetInfos,
+        status: sheetInfos.every(sheet => sheet.error) ? 'error' as const : 'ready' as const
+      } : f)));
+    }
+  }, []);
+
+  // Reopen the project used last, or start the first one
+  useEffect(() => {
+    if (restoreStarted.current || !ProjectStore.isAvailable()) return;
+    restoreStarted.current = true;
+    const restore = async () => {
+      try {
+        const saved = await ProjectStore.list();
+        const project = saved.length > 0
+          ? await ProjectStore.open(saved[0].id)
+          : await ProjectStore.create(DEFAULT_PROJECT_NAME, emptyProject(DEFAULT_DIALECT));
+        setProjects(await ProjectStore.list());
+        await applyProject(project);
+      } catch (err) {
+        console.error('Failed to restore the project:', err);
+      }
+    };
+    restore();
+  }, [applyProject]);
+
+  const projectContent = useMemo((): ProjectContent => ({
+    knowledge,
+    dialect,
+    files: files.flatMap((file): ProjectFile[] => {
+      const sheets = loadedSheets[file.name];
+      if (!sheets) return [];
+      const mappings = Object.fromEntries(file.sheets.map(sheet => [sheet.sheetName, sheet.mappedTo]));
+      return [{ name: file.name, size: file.size, uploadedAt: file.uploadedAt, sheets, mappings }];
+    }),
+    queries: sqlQueries,
+    messages: chatMessages,
+  }), [knowledge, dialect, files, loadedSheets, sqlQueries, chatMessages]);
+
+  // Files still loading have no sheet mappings yet, so wait for them
+  const isLoadingFiles = files.some(f => f.status === 'analyzing');
+
+  useEffect(() => {
+    if (!projectId || isLoadingFiles) return;
+    const timer = setTimeout(() => {
+      ProjectStore.save(projectId, projectContent)
+        .then(() => setSavedAt(new Date()))
+        .catch(err => console.error('Failed to save the project:', err));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, projectContent, isLoadingFiles]);
+
+  /** Writes the open project straight away, before another one replaces it. */
+  const saveCurrentProject = async () => {
+    if (projectId && !isLoadingFiles) {
+      await ProjectStore.save(projectId, projectContent);
+    }
+  };
+
+  const handleProjectSwitch = async (id: string) => {
+    if (id === projectId) return;
+    try {
+      await saveCurrentProject();
+      const project = await ProjectStore.open(id);
+      setProjects(await ProjectStore.list());
+      await applyProject(project);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleProjectCreate = async (name: string) => {
+    try {
+      await saveCurrentProject();
+      const project = await ProjectStore.create(name, emptyProject(dialect));
+      setProjects(await ProjectStore.list());
+      await applyProject(project);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
-  const handleFileUpload = (file: File) => {
+  const handleProjectRename = async (id: string, name: string) => {
+    try {
+      await ProjectStore.rename(id, name);
+      setProjects(await ProjectStore.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleProjectDelete = async (id: string) => {
+    try {
+      await ProjectStore.remove(id);
+      const remaining = await ProjectStore.list();
+      if (id === projectId) {
+        // Open the next project, or an empty one when none is left
+        const project = remaining.length > 0
+          ? await ProjectStore.open(remaining[0].id)
+          : await ProjectStore.create(DEFAULT_PROJECT_NAME, emptyProject(dialect));
+        await applyProject(project);
+      }
+      setProjects(await ProjectStore.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const updateFile = (fileName: string, update: (file: FileInfo) => FileInfo) => {
+    setFiles(prev => prev.map(f => (f.name === fileName ? update(f) : f)));
+  };
+
+  const handleFileUpload = async (file: File) => {
+    const previous = files.find(f => f.name === file.name);
     const newFile: FileInfo = {
       name: file.name,
       size: file.size,
       uploadedAt: new Date(),
-      status: 'analyzing'
+      status: 'analyzing',
+      sheets: []
     };
 
-    setFiles(prev => [...prev, newFile]);
+    // Uploading a file again replaces the earlier copy
+    setFiles(prev => [...prev.filter(f => f.name !== file.name), newFile]);
+    // Its tables go with it, so sheets the new copy lacks are not left loaded
+    for (const sheet of previous?.sheets ?? []) {
+      await SqlEngine.dropTable(sheet.tableName).catch(err => console.error('Failed to drop table:', err));
+    }
+
+    try {
+      const sheets = readSpreadsheet(await file.arrayBuffer(), file.name);
+      if (sheets.length === 0) {
+        throw new Error('The file contains no data');
+      }
+      setLoadedSheets(prev => ({ ...prev, [file.name]: sheets }));
 
-    // Simulate file processing
-    setTimeout(() => {
-      setFiles(prev =>
-        prev.map(f =>
-          f.name === file.name ? { ...f, status: 'ready' as const } : f
-        )
-      );
-    }, 3000);
+      // Keep a sample of the first sheet so the chat can see real column names and values
+      setUploadedData(sampleOf(sheets[0]));
+
+      const specifications = knowledge?.tableSpecifications ?? [];
+      const sheetInfos: SheetInfo[] = [];
+      for (const sheet of sheets) {
+        sheetInfos.push(await loadSheet(sheet, suggestSpecification(sheet, specifications)));
+      }
+      updateFile(file.name, f => ({
+        ...f,
+        sheets: sheetInfos,
+        status: sheetInfos.every(sheet => sheet.error) ? 'error' as const : 'ready' as const
+      }));
+    } catch (err) {
+      console.error('Failed to load uploaded file:', err);
+      updateFile(file.name, f => ({
+        ...f,
+        status: 'error' as const,
+        error: err instanceof Error ? err.message : String(err)
+      }));
+    }
+  };
+
+  const handleSyntheticData = async (tables: GeneratedTable[], size: number) => {
+    const previous = files.find(f => f.name === SYNTHETIC_FILE_NAME);
+    setFiles(prev => [
+      ...prev.filter(f => f.name !== SYNTHETIC_FILE_NAME),
+      { name: SYNTHETIC_FILE_NAME, size, uploadedAt: new Date(), status: 'analyzing', sheets: [] }
+    ]);
+
+    const sheets = tables.map(toLoadedSheet);
+    setLoadedSheets(prev => ({ ...prev, [SYNTHETIC_FILE_NAME]: sheets }));
+
+    const sheetInfos: SheetInfo[] = [];
+    for (const [index, sheet] of sheets.entries()) {
+      const spec = knowledge?.tableSpecifications.find(t => t.tableName === tables[index].tableName);
+      sheetInfos.push(await loadSheet(sheet, spec));
+    }
+    // Tables from an earlier run that this one no longer fills
+    previous?.sheets
+      .filter(sheet => !sheetInfos.some(info => info.tableName === sheet.tableName))
+      .forEach(sheet => {
+        SqlEngine.dropTable(sheet.tableName).catch(err => console.error('Failed to drop table:', err));
+      });
+    updateFile(SYNTHETIC_FILE_NAME, f => ({
+      ...f,
+      sheets: sheetInfos,
+      status: sheetInfos.every(sheet => sheet.error) ? 'error' as const : 'ready' as const
+    }));
   };
 
   const handleFileRemove = (fileName: string) => {
+    const removed = files.find(f => f.name === fileName);
+    removed?.sheets.forEach(sheet => {
+      SqlEngine.dropTable(sheet.tableName).catch(err => console.error('Failed to drop table:', err));
+    });
     setFiles(prev => prev.filter(f => f.name !== fileName));
+    setLoadedSheets(prev => {
+      const next = { ...prev };
+      delete next[fileName];
+      return next;
+    });
   };
 
-  const handleSQLGenerated = (query: string, description: string) => {
-    const newQuery: SQLQuery = {
-      id: Date.now().toString(),
-      query,
-      description,
-      timestamp: new Date()
-    };
-    setSqlQueries(prev => [...prev, newQuery]);
+  const handleSheetMapping = async (fileName: string, sheetName: string, specTableName: string | null) => {
+    const sheet = loadedSheets[fileName]?.find(s => s.sheetName === sheetName);
+    const previous = files.find(f => f.name === fileName)?.sheets.find(s => s.sheetName === sheetName);
+    if (!sheet) return;
+
+    const spec = knowledge?.tableSpecifications.find(t => t.tableName === specTableName);
+    const info = await loadSheet(sheet, spec);
+    if (previous && previous.tableName !== info.tableName) {
+      await SqlEngine.dropTable(previous.tableName).catch(err => console.error('Failed to drop table:', err));
+    }
+    updateFile(fileName, f => ({
+      ...f,
+      sheets: f.sheets.map(s => (s.sheetName === sheetName ? info : s))
+    }));
+  };
+
+  const handleSQLGenerated = (queries: SQLQuery[]) => {
+    const timestamp = new Date();
+    setSqlQueries(prev => {
+      // The model reuses simple ids like "1" across requests; keep stored ids unique
+      const existingIds = new Set(prev.map(q => q.id));
+      const newQueries = queries.map((query, index) => ({
+        ...query,
+        id: existingIds.has(query.id) ? `${query.id}_${timestamp.getTime()}_${index}` : query.id,
+        timestamp
+      }));
+      return [...prev, ...newQueries];
+    });
+  };
+
+  const handleQueryUpdate = (id: string, changes: Partial<StoredQuery>) => {
+    setSqlQueries(prev => prev.map(q => (q.id === id ? { ...q, ...changes } : q)));
+  };
+
+  const handleQueriesDelete = (ids: string[]) => {
+    setSqlQueries(prev => prev.filter(q => !ids.includes(q.id)));
+  };
+
+  const handleQueryMove = (id: string, targetId: string) => {
+    setSqlQueries(prev => moveQuery(prev, id, targetId));
   };
 
   const handleKnowledgeParsed = (parsedKnowledge: ParsedKnowledge) => {
-    setKnowledge(parsedKnowledge);
+    setKnowledgeHistory(prev => recordEdit(prev, parsedKnowledge));
     setError(null);
   };
 
+  const handleKnowledgeEdit = (editedKnowledge: ParsedKnowledge) => {
+    setKnowledgeHistory(prev => recordEdit(prev, editedKnowledge));
+  };
+
   const handleError = (errorMessage: string) => {
     setError(errorMessage);
   };
@@ -77,7 +393,8 @@ function App() {
     { id: 'parser' as const, label: 'Document Parser', icon: BookOpen },
     { id: 'knowledge' as const, label: 'Knowledge Base', icon: Brain },
     { id: 'chat' as const, label: 'Chat', icon: MessageSquare },
-    { id: 'queries' as const, label: 'SQL Queries', icon: Database }
+    { id: 'queries' as const, label: 'SQL Queries', icon: Database },
+    { id: 'tests' as const, label: 'Tests', icon: ClipboardCheck }
   ];
 
   return (
@@ -97,6 +414,29 @@ function App() {
             </div>
 
             <div className="flex items-center space-x-4">
+              {projectId && (
+                <ProjectSwitcher
+                  projects={projects}
+                  currentId={projectId}
+                  savedAt={savedAt}
+                  onSwitch={handleProjectSwitch}
+                  onCreate={handleProjectCreate}
+                  onRename={handleProjectRename}
+                  onDelete={handleProjectDelete}
+                />
+              )}
+              <label className="flex items-center space-x-2 text-sm text-gray-500">
+                <span>SQL dialect</span>
+                <select
+                  value={dialect}
+                  onChange={(e) => setDialect(e.target.value as SqlDialect)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+                >
+                  {SQL_DIALECTS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                 <span>Ready</span>
@@ -127,7 +467,8 @@ function App() {
           </div>
         </div>
 
-        <div className="lg:grid lg:grid-cols-3 lg:gap-8">
+        {/* Remounted per project so panels drop state that belongs to the previous one */}
+        <div key={projectId ?? 'unsaved'} className="lg:grid lg:grid-cols-3 lg:gap-8">
           {/* Left Panel - Files */}
           <div className={`lg:block ${activeTab === 'upload' ? 'block' : 'hidden'}`}>
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -141,7 +482,18 @@ function App() {
               ) : (
                 <div className="space-y-6">
                   <FileUpload onFileUpload={handleFileUpload} />
-                  <FileManager files={files} onFileRemove={handleFileRemove} />
+                  <FileManager
+                    files={files}
+                    specifications={knowledge?.tableSpecifications ?? []}
+                    onFileRemove={handleFileRemove}
+                    onSheetMapping={handleSheetMapping}
+                  />
+                </div>
+              )}
+
+              {knowledge && knowledge.tableSpecifications.length > 0 && (
+                <div className="mt-6">
+                  <SyntheticDataGenerator knowledge={knowledge} dialect={dialect} onLoad={handleSyntheticData} />
                 </div>
               )}
             </div>
@@ -156,6 +508,7 @@ function App() {
               </h2>
 
               <ExcelDocumentParser
+                dialect={dialect}
                 onKnowledgeParsed={handleKnowledgeParsed}
                 onError={handleError}
               />
@@ -176,15 +529,25 @@ function App() {
                 Knowledge Base
               </h2>
 
-              {knowledge ? (
-                <KnowledgeViewer knowledge={knowledge} />
-              ) : (
-                <div className="text-center py-12 text-gray-500">
-                  <Brain className="w-12 h-12 mx-auto mb-4 text-gray-300" />
-                  <p>No knowledge base loaded</p>
-                  <p className="text-sm mt-2">Upload a document in the Document Parser tab to get started</p>
-                </div>
-              )}
+              <KnowledgeViewer
+                knowledge={knowledge}
+                dialect={dialect}
+                onImport={handleKnowledgeParsed}
+                onChange={handleKnowledgeEdit}
+                onUndo={() => setKnowledgeHistory(undoEdit)}
+                onRedo={() => setKnowledgeHistory(redoEdit)}
+                canUndo={knowledgeHistory.past.length > 0}
+                canRedo={knowledgeHistory.future.length > 0}
+              />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <GitCompare className="w-5 h-5 mr-2" />
+                Compare Versions
+              </h2>
+
+              <KnowledgeDiffViewer knowledge={knowledge} queries={sqlQueries} projectId={projectId} />
             </div>
           </div>
 
@@ -202,7 +565,14 @@ function App() {
               </div>
 
               <div className="flex-1 min-h-0">
-                <ChatInterface onSQLGenerated={handleSQLGenerated} />
+                <ChatInterface
+                  knowledge={knowledge}
+                  uploadedData={uploadedData}
+                  dialect={dialect}
+                  onSQLGenerated={handleSQLGenerated}
+                  initialMessages={chatMessages}
+                  onMessagesChange={setChatMessages}
+                />
               </div>
             </div>
           </div>
@@ -215,7 +585,85 @@ function App() {
                 Generated SQL
               </h2>
 
-              <SQLQueryPanel queries={sqlQueries} />
+              <SQLQueryPanel
+                queries={sqlQueries}
+                knowledge={knowledge}
+                dialect={dialect}
+                onQueryUpdate={handleQueryUpdate}
+                onQueriesDelete={handleQueriesDelete}
+                onQueryMove={handleQueryMove}
+              />
+            </div>
+          </div>
+
+          {/* Test Runner Panel */}
+          <div className={`lg:block ${activeTab === 'tests' ? 'block' : 'hidden'}`}>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <ClipboardCheck className="w-5 h-5 mr-2" />
+                Test Runner
+              </h2>
+
+              <TestRunner knowledge={knowledge} hasData={Object.keys(loadedSheets).length > 0} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <Shield className="w-5 h-5 mr-2" />
+                Business Rule Validation
+              </h2>
+
+              <RuleValidator knowledge={knowledge} hasData={Object.keys(loadedSheets).length > 0} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <Workflow className="w-5 h-5 mr-2" />
+                Transformation Pipelines
+              </h2>
+
+              <TransformationPipeline knowledge={knowledge} hasData={Object.keys(loadedSheets).length > 0} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <ArrowLeftRight className="w-5 h-5 mr-2" />
+                Reconciliation Tests
+              </h2>
+
+              <ReconciliationGenerator knowledge={knowledge} dialect={dialect} onAdd={handleSQLGenerated} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <Grid3x3 className="w-5 h-5 mr-2" />
+                Traceability
+              </h2>
+
+              <TraceabilityMatrix
+                knowledge={knowledge}
+                queries={sqlQueries}
+                onChange={handleKnowledgeEdit}
+                onQueryUpdate={handleQueryUpdate}
+              />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <FileSpreadsheet className="w-5 h-5 mr-2" />
+                Test Case Workbook
+              </h2>
+
+              <TestCaseExporter knowledge={knowledge} queries={sqlQueries} hasData={Object.keys(loadedSheets).length > 0} />
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-6 flex items-center">
+                <Package className="w-5 h-5 mr-2" />
+                dbt &amp; Great Expectations
+              </h2>
+
+              <TestFrameworkExporter knowledge={knowledge} />
             </div>
           </div>
         </div>
@@ -1,20 +1,50 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Lightbulb } from 'lucide-react';
+import { Send, Bot, User, Lightbulb, AlertCircle, Square, Wrench } from 'lucide-react';
+import GroqService, { ParsedKnowledge, SQLQuery } from '../services/GroqService';
+import { emptyKnowledge } from '../services/knowledgeMerge';
+import { ChatMessage, isAbortError } from '../services/providers';
+import type { SqlDialect } from '../services/sqlDialect';
+import { checkQuery, formatFindings, SqlFinding } from '../services/sqlChecker';
+import { SqlFindingList } from './SqlFindings';
 
 interface Message {
   id: string;
   type: 'user' | 'bot';
   content: string;
   timestamp: Date;
-  sqlQuery?: string;
+  queries?: SQLQuery[];
+  /** What the SQL check found in each query, by query id. */
+  findings?: Record<string, SqlFinding[]>;
+  isError?: boolean;
 }
 
 interface ChatInterfaceProps {
-  onSQLGenerated: (query: string, description: string) => void;
+  knowledge: ParsedKnowledge | null;
+  uploadedData?: Record<string, unknown>[];
+  dialect: SqlDialect;
+  onSQLGenerated: (queries: SQLQuery[]) => void;
+  /** History restored from a saved project. */
+  initialMessages?: Message[];
+  onMessagesChange?: (messages: Message[]) => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated }) => {
-  const [messages, setMessages] = useState<Message[]>([
+const categoryStyles: Record<SQLQuery['category'], string> = {
+  SELECT: 'bg-blue-100 text-blue-800',
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-yellow-100 text-yellow-800',
+  DELETE: 'bg-red-100 text-red-800',
+  VALIDATION: 'bg-purple-100 text-purple-800'
+};
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({
+  knowledge,
+  uploadedData,
+  dialect,
+  onSQLGenerated,
+  initialMessages,
+  onMessagesChange
+}) => {
+  const [messages, setMessages] = useState<Message[]>(() => initialMessages ?? [
     {
       id: '1',
       type: 'bot',
@@ -24,7 +54,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated })
   ]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [repairNote, setRepairNote] = useState('');
+  const [autoFix, setAutoFix] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -32,78 +66,135 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated })
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
-
-  const generateSQLResponse = (userMessage: string) => {
-    const scenarios = [
-      {
-        trigger: ['select', 'all', 'data', 'records'],
-        query: 'SELECT * FROM user_data ORDER BY created_date DESC;',
-        description: 'This query retrieves all records from your dataset, ordered by creation date.'
-      },
-      {
-        trigger: ['count', 'total', 'number'],
-        query: 'SELECT COUNT(*) as total_records FROM user_data WHERE status = "active";',
-        description: 'This query counts all active records in your dataset.'
-      },
-      {
-        trigger: ['average', 'avg', 'mean'],
-        query: 'SELECT AVG(amount) as average_amount FROM user_data WHERE amount > 0;',
-        description: 'This calculates the average amount from non-zero values.'
-      },
-      {
-        trigger: ['group', 'category', 'breakdown'],
-        query: 'SELECT category, COUNT(*) as count, SUM(amount) as total FROM user_data GROUP BY category ORDER BY total DESC;',
-        description: 'This groups your data by category with counts and totals.'
-      },
-      {
-        trigger: ['duplicate', 'duplicate records'],
-        query: 'SELECT email, COUNT(*) as duplicates FROM user_data GROUP BY email HAVING COUNT(*) > 1;',
-        description: 'This finds duplicate records based on email address.'
-      }
-    ];
+  }, [messages, streamingText]);
+
+  useEffect(() => {
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
 
-    const matchedScenario = scenarios.find(scenario =>
-      scenario.trigger.some(trigger => userMessage.toLowerCase().includes(trigger))
-    );
+  // Abort an in-flight request if the chat is unmounted
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
-    return matchedScenario || {
-      query: 'SELECT column_name, data_type FROM information_schema.columns WHERE table_name = "user_data";',
-      description: 'This query shows the structure of your data table.'
-    };
+  // Replays earlier requests and the queries returned for them, so follow-ups
+  // like "now add a filter on site_id" can refine the previous answer.
+  const buildHistory = (): ChatMessage[] =>
+    messages.flatMap((message): ChatMessage[] => {
+      if (message.type === 'user') {
+        return [{ role: 'user', content: message.content }];
+      }
+      if (message.queries) {
+        const queries = message.queries.map(({ query, description, category }) => ({ query, description, category }));
+        return [{ role: 'assistant', content: JSON.stringify(queries) }];
+      }
+      return [];
+    });
+
+  const addBotMessage = (content: string, extra: Partial<Message> = {}) => {
+    setMessages(prev => [...prev, {
+      id: (Date.now() + 1).toString(),
+      type: 'bot',
+      content,
+      timestamp: new Date(),
+      ...extra
+    }]);
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim()) return;
+  const sendRequest = async (request: string) => {
+    if (!request || isTyping) return;
 
     const newUserMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
-      content: inputValue,
+      content: request,
       timestamp: new Date()
     };
 
+    const history = buildHistory();
     setMessages(prev => [...prev, newUserMessage]);
-    setInputValue('');
+    setInputValue(prev => (prev.trim() === request ? '' : prev));
+
+    if (!knowledge && !uploadedData?.length) {
+      addBotMessage('I need something to work from first. Parse an FRS workbook in the Document Parser tab or upload a data file, then ask again.');
+      return;
+    }
+    if (!GroqService.isConfigured()) {
+      addBotMessage('No LLM provider is configured. Set VITE_GROQ_API_KEY (or another VITE_LLM_PROVIDER) in your .env file and restart the app.', { isError: true });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsTyping(true);
+    setStreamingText('');
+    setRepairNote('');
+    try {
+      const queries = await GroqService.generateQueries(knowledge ?? emptyKnowledge(), request, uploadedData, {
+        history,
+        signal: controller.signal,
+        dialect,
+        autoFix: autoFix && !!knowledge,
+        onToken: token => setStreamingText(prev => prev + token),
+        onRetry: () => {
+          setStreamingText('');
+          setRepairNote('Response was invalid, asking the model to fix it...');
+        },
+        onFix: issues => {
+          setStreamingText('');
+          setRepairNote(`The SQL check found ${issues.length} problem${issues.length !== 1 ? 's' : ''}, asking the model to fix ${issues.length !== 1 ? 'them' : 'it'}...`);
+        }
+      });
 
-    // Simulate bot thinking time
-    setTimeout(() => {
-      const sqlResponse = generateSQLResponse(inputValue);
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'bot',
-        content: `Based on your request, I've generated a SQL query for you. ${sqlResponse.description}`,
-        timestamp: new Date(),
-        sqlQuery: sqlResponse.query
-      };
-
-      setMessages(prev => [...prev, botMessage]);
+      if (queries.length === 0) {
+        addBotMessage("I couldn't derive a query for that from the knowledge base. Try naming the table or rule you're interested in.");
+      } else {
+        const findings: Record<string, SqlFinding[]> = {};
+        if (knowledge) {
+          queries.forEach(query => {
+            findings[query.id] = checkQuery(query.query, knowledge);
+          });
+        }
+        const problemCount = Object.values(findings).filter(list => list.length > 0).length;
+        addBotMessage(
+          `I've generated ${queries.length} quer${queries.length !== 1 ? 'ies' : 'y'} for your request. ${queries.length > 1 ? 'They have' : 'It has'} been added to the SQL Queries panel.` +
+          (problemCount > 0 ? ` The SQL check still flags ${problemCount} of them; see below.` : ''),
+          { queries, findings }
+        );
+        // Send SQL to parent component
+        onSQLGenerated(queries);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        addBotMessage('Stopped. Nothing was added to the SQL Queries panel.');
+      } else {
+        console.error('Error generating SQL from chat:', error);
+        addBotMessage(
+          error instanceof Error ? error.message : 'Failed to generate queries',
+          { isError: true }
+        );
+      }
+    } finally {
+      abortControllerRef.current = null;
       setIsTyping(false);
-      
-      // Send SQL to parent component
-      onSQLGenerated(sqlResponse.query, sqlResponse.description);
-    }, 1500);
+      setStreamingText('');
+      setRepairNote('');
+    }
+  };
+
+  const handleSendMessage = () => {
+    sendRequest(inputValue.trim());
+  };
+
+  // Sends a message's findings back as a follow-up, so the model revises those queries
+  const handleFixRequest = (message: Message) => {
+    const report = (message.queries || [])
+      .filter(query => message.findings?.[query.id]?.length)
+      .map(query => `"${query.description}":\n${formatFindings(query.query, message.findings![query.id])}`)
+      .join('\n\n');
+    sendRequest(`Fix the problems the SQL check found in your previous queries and return all of them again:\n\n${report}`);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -113,13 +204,21 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated })
     }
   };
 
-  const suggestedQueries = [
-    "Show me all the data",
-    "Count total records",
-    "Find duplicates",
-    "Group by category",
-    "Calculate averages"
-  ];
+  const suggestedQueries = knowledge && knowledge.tableSpecifications.length > 0
+    ? [
+      `Show all columns of ${knowledge.tableSpecifications[0].tableName}`,
+      "Find duplicate primary keys",
+      "Check NOT NULL columns for missing values",
+      "Validate the business rules",
+      "Count records per table"
+    ]
+    : [
+      "Show me all the data",
+      "Count total records",
+      "Find duplicates",
+      "Group by category",
+      "Calculate averages"
+    ];
 
   return (
     <div className="flex flex-col h-full">
@@ -137,16 +236,44 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated })
                   <Bot className="w-4 h-4 text-gray-600" />
                 )}
               </div>
-              <div className={`rounded-2xl px-4 py-2 ${
-                message.type === 'user' 
-                  ? 'bg-blue-500 text-white' 
-                  : 'bg-gray-100 text-gray-900'
+              <div className={`rounded-2xl px-4 py-2 min-w-0 ${
+                message.type === 'user'
+                  ? 'bg-blue-500 text-white'
+                  : message.isError
+                    ? 'bg-red-50 text-red-700 border border-red-200'
+                    : 'bg-gray-100 text-gray-900'
               }`}>
-                <p className="text-sm">{message.content}</p>
-                {message.sqlQuery && (
-                  <div className="mt-2 p-2 bg-gray-800 rounded-lg">
-                    <code className="text-xs text-green-400 font-mono">{message.sqlQuery}</code>
+                <p className="text-sm flex items-start">
+                  {message.isError && <AlertCircle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />}
+                  <span>{message.content}</span>
+                </p>
+                {message.queries?.map(query => (
+                  <div key={query.id} className="mt-2">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${categoryStyles[query.category]}`}>
+                        {query.category}
+                      </span>
+                      <span className="text-xs text-gray-600">{query.description}</span>
+                    </div>
+                    <div className="p-2 bg-gray-800 rounded-lg overflow-x-auto">
+                      <code className="text-xs text-green-400 font-mono whitespace-pre">{query.query}</code>
+                    </div>
+                    {message.findings?.[query.id]?.length ? (
+                      <div className="mt-1">
+                        <SqlFindingList query={query.query} findings={message.findings[query.id]} />
+                      </div>
+                    ) : null}
                   </div>
+                ))}
+                {message.findings && Object.values(message.findings).some(list => list.length > 0) && (
+                  <button
+                    onClick={() => handleFixRequest(message)}
+                    disabled={isTyping}
+                    className="mt-2 flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    <Wrench className="w-3 h-3" />
+                    <span>Ask to fix these problems</span>
+                  </button>
                 )}
               </div>
             </div>
@@ -159,12 +286,19 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated })
               <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
                 <Bot className="w-4 h-4 text-gray-600" />
               </div>
-              <div className="bg-gray-100 rounded-2xl px-4 py-2">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
-                </div>
+              <div className="bg-gray-100 rounded-2xl px-4 py-2 max-w-xs lg:max-w-md min-w-0">
+                {repairNote && (
+                  <p className="text-xs text-orange-600 mb-1">{repairNote}</p>
+                )}
+                {streamingText ? (
+                  <pre className="text-xs text-gray-700 font-mono whitespace-pre-wrap break-words max-h-48 overflow-y-auto">{streamingText}</pre>
+                ) : (
+                  <div className="flex space-x-1">
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -207,14 +341,35 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ onSQLGenerated })
               style={{ minHeight: '40px', maxHeight: '120px' }}
             />
           </div>
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || isTyping}
-            className="p-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-          >
-            <Send className="w-4 h-4" />
-          </button>
+          {isTyping ? (
+            <button
+              onClick={handleStop}
+              className="p-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors duration-200"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim()}
+              className="p-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          )}
         </div>
+        {knowledge && (
+          <label className="mt-2 flex items-center space-x-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={autoFix}
+              onChange={(e) => setAutoFix(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Check queries against the knowledge base and let the model fix errors automatically</span>
+          </label>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, LayoutGrid, Download } from 'lucide-react';
+import type { ParsedKnowledge } from '../services/GroqService';
+import {
+  edgePath,
+  HEADER_HEIGHT,
+  layoutDiagram,
+  NodePosition,
+  ROW_HEIGHT,
+  toMermaid,
+  toPlantUml,
+  withPositions,
+} from '../services/erDiagram';
+import { downloadFile } from '../services/download';
+
+interface ErDiagramProps {
+  knowledge: ParsedKnowledge;
+  /** Opens a table's details when it is clicked. */
+  onSelectTable: (tableName: string) => void;
+}
+
+interface View {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+type Drag =
+  | { kind: 'pan'; startX: number; startY: number; origin: View }
+  | { kind: 'node'; tableName: string; startX: number; startY: number; origin: NodePosition; moved: boolean };
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 3;
+const DIAGRAM_HEIGHT = 480;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const ErDiagram: React.FC<ErDiagramProps> = ({ knowledge, onSelectTable }) => {
+  const [positions, setPositions] = useState<Record<string, NodePosition>>({});
+  const [view, setView] = useState<View>({ x: 0, y: 0, zoom: 1 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const layout = useMemo(() => layoutDiagram(knowledge), [knowledge]);
+  const diagram = useMemo(() => withPositions(layout, positions), [layout, positions]);
+
+  // React registers wheel listeners as passive, so zooming needs its own listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = svg.getBoundingClientRect();
+      const cursorX = e.clientX - bounds.left;
+      const cursorY = e.clientY - bounds.top;
+      setView(prev => {
+        const zoom = clampZoom(prev.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1));
+        const scale = zoom / prev.zoom;
+        return { zoom, x: cursorX - (cursorX - prev.x) * scale, y: cursorY - (cursorY - prev.y) * scale };
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const fit = () => {
+    const width = svgRef.current?.clientWidth ?? diagram.width;
+    const zoom = clampZoom(Math.min(1, width / Math.max(diagram.width, 1), DIAGRAM_HEIGHT / Math.max(diagram.height, 1)));
+    setView({ x: Math.max(0, (width - diagram.width * zoom) / 2), y: 0, zoom });
+  };
+
+  const zoomBy = (factor: number) => setView(prev => ({ ...prev, zoom: clampZoom(prev.zoom * factor) }));
+
+  const handlePointerDown = (e: React.PointerEvent, tableName?: string) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    const node = tableName ? diagram.nodes.find(entry => entry.tableName === tableName) : undefined;
+    dragRef.current = node
+      ? { kind: 'node', tableName: node.tableName, startX: e.clientX, startY: e.clientY, origin: { x: node.x, y: node.y }, moved: false }
+      : { kind: 'pan', startX: e.clientX, startY: e.clientY, origin: view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (drag.kind === 'pan') {
+      setView({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy });
+      return;
+    }
+    if (!drag.moved && Math.hypot(dx, dy) < 3) return;
+    drag.moved = true;
+    setPositions(prev => ({
+      ...prev,
+      [drag.tableName]: {
+        x: Math.max(0, drag.origin.x + dx / view.zoom),
+        y: Math.max(0, drag.origin.y + dy / view.zoom),
+      },
+    }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    // A table that was clicked rather than dragged opens its details
+    if (drag?.kind === 'node' && !drag.moved) onSelectTable(drag.tableName);
+  };
+
+  const exportSvg = () => {
+    const svg = svgRef.current?.cloneNode(true) as SVGSVGElement | undefined;
+    if (!svg) return;
+    svg.querySelector('[data-viewport]')?.removeAttribute('transform');
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    svg.setAttribute('width', String(diagram.width));
+    svg.setAttribute('height', String(diagram.height));
+    svg.setAttribute('viewBox', `0 0 ${diagram.width} ${diagram.height}`);
+    svg.removeAttribute('class');
+    downloadFile(new XMLSerializer().serializeToString(svg), 'er-diagram.svg', 'image/svg+xml');
+  };
+
+  const iconButton = 'p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200';
+  const exportButton = 'flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center">
+          <button onClick={() => zoomBy(1.2)} className={iconButton} title="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomBy(1 / 1.2)} className={iconButton} title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button onClick={fit} className={iconButton} title="Fit to view">
+            <Maximize2 className="w-4 h-4" />
+          </button>
+          <button onClick={() => setPositions({})} className={iconButton} title="Auto-layout: put moved tables back">
+            <LayoutGrid className="w-4 h-4" />
+          </button>
+          <span className="ml-2 text-xs text-gray-500">{Math.round(view.zoom * 100)}%</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={exportSvg} className={exportButton}>
+            <Download className="w-3 h-3" />
+            <span>SVG</span>
+          </button>
+          <button onClick={() => downloadFile(toMermaid(diagram), 'er-diagram.mmd', 'text/plain')} className={exportButton}>
+            <Download className="w-3 h-3" />
+            <span>Mermaid</span>
+          </button>
+          <button onClick={() => downloadFile(toPlantUml(diagram), 'er-diagram.puml', 'text/plain')} className={exportButton}>
+            <Download className="w-3 h-3" />
+            <span>PlantUML</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg bg-white overflow-hidden" style={{ height: DIAGRAM_HEIGHT }}>
+        <svg
+          ref={svgRef}
+          className="w-full h-full cursor-grab select-none touch-none"
+          fontFamily="ui-sans-serif, system-ui, sans-serif"
+          fontSize={12}
+          onPointerDown={(e) => handlePointerDown(e)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <defs>
+            {/* Crow's foot ends, drawn pointing at the table they touch */}
+            <marker id="er-one" viewBox="0 0 12 12" refX="12" refY="6" markerWidth="12" markerHeight="12" markerUnits="userSpaceOnUse" orient="auto-start-reverse">
+              <path d="M 0 6 L 12 6 M 5 1 L 5 11 M 8 1 L 8 11" fill="none" stroke="#6b7280" strokeWidth="1.2" />
+            </marker>
+            <marker id="er-many" viewBox="0 0 12 12" refX="12" refY="6" markerWidth="12" markerHeight="12" markerUnits="userSpaceOnUse" orient="auto-start-reverse">
+              <path d="M 0 6 L 12 6 M 2 6 L 12 1 M 2 6 L 12 11" fill="none" stroke="#6b7280" strokeWidth="1.2" />
+            </marker>
+          </defs>
+          <g data-viewport transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+            {diagram.edges.map((edge, index) => {
+              const d = edgePath(edge, diagram.nodes);
+              if (!d) return null;
+              return (
+                <path
+                  key={index}
+                  d={d}
+                  fill="none"
+                  stroke="#6b7280"
+                  strokeWidth="1.2"
+                  markerStart={`url(#${edge.type === 'MANY_TO_MANY' ? 'er-many' : 'er-one'})`}
+                  markerEnd={`url(#${edge.type === 'ONE_TO_ONE' ? 'er-one' : 'er-many'})`}
+                >
+                  <title>{`${edge.fromTable}.${edge.fromColumn} → ${edge.toTable}.${edge.toColumn} (${edge.type})`}</title>
+                </path>
+              );
+            })}
+            {diagram.nodes.map(node => (
+              <g
+                key={node.tableName}
+                transform={`translate(${node.x} ${node.y})`}
+                onPointerDown={(e) => handlePointerDown(e, node.tableName)}
+                className="cursor-pointer"
+              >
+                <rect width={node.width} height={node.height} rx="6" fill="#ffffff" />
+                <rect width={node.width} height={HEADER_HEIGHT} rx="6" fill="#eff6ff" />
+                <rect y={HEADER_HEIGHT - 6} width={node.width} height="6" fill="#eff6ff" />
+                <line x1="0" y1={HEADER_HEIGHT} x2={node.width} y2={HEADER_HEIGHT} stroke="#bfdbfe" />
+                <text x="12" y="21" fontWeight="600" fill="#111827">{node.tableName}</text>
+                {node.columns.map((column, index) => {
+                  const y = HEADER_HEIGHT + index * ROW_HEIGHT + 15;
+                  const key = [column.isPrimaryKey && 'PK', column.isForeignKey && 'FK'].filter(Boolean).join(' ');
+                  return (
+                    <g key={index}>
+                      {key && <text x="10" y={y} fontSize="9" fontWeight="600" fill={column.isPrimaryKey ? '#1d4ed8' : '#7c3aed'}>{key}</text>}
+                      <text x="40" y={y} fill="#111827">{column.name}</text>
+                      <text x={node.width - 10} y={y} textAnchor="end" fill="#6b7280">{column.dataType}{column.isNullable ? '' : ' *'}</text>
+                    </g>
+                  );
+                })}
+                <rect width={node.width} height={node.height} rx="6" fill="none" stroke="#93c5fd" />
+              </g>
+            ))}
+          </g>
+        </svg>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Drag the background to pan, scroll to zoom and drag a table to move it. Click a table to open its details. * marks columns that cannot be NULL.
+      </p>
+    </div>
+  );
+};
@@ -1,9 +1,12 @@
 import React, { useState, useCallback } from 'react';
 import * as XLSX from 'xlsx';
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle, Loader } from 'lucide-react';
-import GroqService, { ParsedKnowledge, TableSpecification, FunctionalRequirement, BusinessRule, TestScenario } from '../services/GroqService';
+import { FileSpreadsheet, AlertCircle, CheckCircle, Loader } from 'lucide-react';
+import GroqService, { FailedChunk, ParsedKnowledge, ParseProgress, WorkbookData } from '../services/GroqService';
+import type { SqlDialect } from '../services/sqlDialect';
+import { emptyKnowledge, mergeKnowledge } from '../services/knowledgeMerge';
 
 interface ExcelDocumentParserProps {
+  dialect: SqlDialect;
   onKnowledgeParsed: (knowledge: ParsedKnowledge) => void;
   onError: (error: string) => void;
 }
@@ -13,9 +16,20 @@ interface ParsingStatus {
   progress: number;
   currentStep: string;
   error?: string;
+  chunksCompleted?: number;
+  chunksTotal?: number;
+  failedChunks?: FailedChunk[];
+  ruleBasedSheets?: string[];
+  skippedSheets?: string[];
 }
 
+// Share of the progress bar given to per-chunk extraction; the rest covers
+// reading the file and generating test scenarios.
+const EXTRACTION_START = 10;
+const EXTRACTION_END = 85;
+
 export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
+  dialect,
   onKnowledgeParsed,
   onError
 }) => {
@@ -36,7 +50,7 @@ export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
     setIsDragOver(false);
   }, []);
 
-  const handleDrop = useCallback(async (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
 
@@ -48,14 +62,14 @@ export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
     if (excelFile) {
       await parseExcelFile(excelFile);
     }
-  }, []);
+  };
 
-  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       await parseExcelFile(file);
     }
-  }, []);
+  };
 
   const parseExcelFile = async (file: File) => {
     try {
@@ -69,14 +83,8 @@ export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
       const arrayBuffer = await file.arrayBuffer();
       const workbook = XLSX.read(arrayBuffer, { type: 'array' });
 
-      setParsingStatus({
-        isParsing: true,
-        progress: 30,
-        currentStep: 'Analyzing workbook structure...'
-      });
-
       // Extract workbook information
-      const workbookInfo = {
+      const workbookInfo: WorkbookData = {
         SheetNames: workbook.SheetNames,
         Sheets: workbook.Sheets,
         metadata: {
@@ -88,28 +96,47 @@ export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
 
       setParsingStatus({
         isParsing: true,
-        progress: 60,
-        currentStep: 'Sending to Groq for analysis...'
+        progress: EXTRACTION_START,
+        currentStep: 'Splitting workbook into chunks...'
       });
 
-      // Send to Groq for parsing
-      const knowledge = await GroqService.parseExcelWorkbook(workbookInfo);
-
-      setParsingStatus({
-        isParsing: true,
-        progress: 90,
-        currentStep: 'Processing results...'
+      // Send each chunk to the LLM and merge the results
+      const knowledge = await GroqService.parseExcelWorkbook(workbookInfo, (chunkProgress: ParseProgress) => {
+        const share = chunkProgress.totalChunks > 0 ? chunkProgress.completedChunks / chunkProgress.totalChunks : 1;
+        setParsingStatus({
+          isParsing: true,
+          progress: Math.round(EXTRACTION_START + share * (EXTRACTION_END - EXTRACTION_START)),
+          currentStep: chunkProgress.completedChunks < chunkProgress.totalChunks
+            ? `Extracting ${chunkProgress.currentChunk} (${chunkProgress.completedChunks + 1} of ${chunkProgress.totalChunks})...`
+            : 'Merging extracted knowledge...',
+          chunksCompleted: chunkProgress.completedChunks,
+          chunksTotal: chunkProgress.totalChunks,
+          failedChunks: [...chunkProgress.failedChunks],
+          ruleBasedSheets: chunkProgress.ruleBasedSheets,
+          skippedSheets: chunkProgress.skippedSheets
+        });
       });
 
-      // Generate test scenarios
-      const testScenarios = await GroqService.generateTestScenarios(knowledge);
-      knowledge.testScenarios = testScenarios;
+      // Test scenarios need the LLM; without one the rule-based tables are still usable
+      if (GroqService.isConfigured()) {
+        setParsingStatus(prev => ({
+          ...prev,
+          isParsing: true,
+          progress: EXTRACTION_END,
+          currentStep: 'Generating test scenarios...'
+        }));
 
-      setParsingStatus({
+        // Test cases found in the workbook stay, with their traceability links
+        const testScenarios = await GroqService.generateTestScenarios(knowledge, dialect);
+        knowledge.testScenarios = mergeKnowledge([knowledge, { ...emptyKnowledge(), testScenarios }]).testScenarios;
+      }
+
+      setParsingStatus(prev => ({
+        ...prev,
         isParsing: false,
         progress: 100,
         currentStep: 'Parsing complete!'
-      });
+      }));
 
       onKnowledgeParsed(knowledge);
     } catch (error) {
@@ -164,7 +191,17 @@ export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
                     style={{ width: `${parsingStatus.progress}%` }}
                   />
                 </div>
-                <p className="text-xs text-gray-500 mt-2">{parsingStatus.progress}% complete</p>
+                <p className="text-xs text-gray-500 mt-2">
+                  {parsingStatus.progress}% complete
+                  {parsingStatus.chunksTotal !== undefined && (
+                    <> • {parsingStatus.chunksCompleted} of {parsingStatus.chunksTotal} chunks extracted</>
+                  )}
+                </p>
+                {parsingStatus.failedChunks && parsingStatus.failedChunks.length > 0 && (
+                  <p className="text-xs text-orange-600 mt-1">
+                    {parsingStatus.failedChunks.length} chunk{parsingStatus.failedChunks.length !== 1 ? 's' : ''} could not be extracted
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -187,6 +224,24 @@ export const ExcelDocumentParser: React.FC<ExcelDocumentParserProps> = ({
             <div className="space-y-2">
               <p className="text-lg font-medium text-gray-900">Document Parsed Successfully!</p>
               <p className="text-sm text-gray-500">Knowledge base has been extracted and is ready for use</p>
+              {parsingStatus.ruleBasedSheets && parsingStatus.ruleBasedSheets.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Extracted without the LLM: {parsingStatus.ruleBasedSheets.join(', ')}
+                </p>
+              )}
+              {parsingStatus.skippedSheets && parsingStatus.skippedSheets.length > 0 && (
+                <p className="text-xs text-orange-600">
+                  No LLM provider configured, so these sheets were not analysed: {parsingStatus.skippedSheets.join(', ')}
+                </p>
+              )}
+              {parsingStatus.failedChunks && parsingStatus.failedChunks.length > 0 && (
+                <div className="text-xs text-orange-600">
+                  <p>Skipped chunks:</p>
+                  <ul>
+                    {parsingStatus.failedChunks.map(chunk => <li key={chunk.label}>{chunk.label}: {chunk.reason}</li>)}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         ) : (
@@ -1,19 +1,34 @@
 import React from 'react';
-import { FileSpreadsheet, Calendar, HardDrive, MoreVertical } from 'lucide-react';
+import { FileSpreadsheet, Calendar, HardDrive, MoreVertical, Rows, Table, AlertTriangle } from 'lucide-react';
+import type { TableSpecification } from '../services/GroqService';
+
+interface SheetInfo {
+  sheetName: string;
+  tableName: string;
+  mappedTo?: string;
+  rowCount: number;
+  columnCount: number;
+  warnings: string[];
+  error?: string;
+}
 
 interface FileInfo {
   name: string;
   size: number;
   uploadedAt: Date;
   status: 'analyzing' | 'ready' | 'error';
+  sheets: SheetInfo[];
+  error?: string;
 }
 
 interface FileManagerProps {
   files: FileInfo[];
+  specifications: TableSpecification[];
   onFileRemove: (fileName: string) => void;
+  onSheetMapping: (fileName: string, sheetName: string, specTableName: string | null) => void;
 }
 
-export const FileManager: React.FC<FileManagerProps> = ({ files, onFileRemove }) => {
+export const FileManager: React.FC<FileManagerProps> = ({ files, specifications, onFileRemove, onSheetMapping }) => {
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -68,7 +83,7 @@ export const FileManager: React.FC<FileManagerProps> = ({ files, onFileRemove })
                   file.status === 'analyzing' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'
                 }`}>
                   {file.status === 'ready' ? 'Ready' :
-                   file.status === 'analyzing' ? 'Analyzing...' : 'Error'}
+                   file.status === 'analyzing' ? 'Loading...' : 'Error'}
                 </span>
               </div>
               
@@ -81,6 +96,12 @@ export const FileManager: React.FC<FileManagerProps> = ({ files, onFileRemove })
                   <Calendar className="w-4 h-4" />
                   <span>{formatDate(file.uploadedAt)}</span>
                 </div>
+                {file.status === 'ready' && (
+                  <div className="flex items-center space-x-1">
+                    <Rows className="w-4 h-4" />
+                    <span>{file.sheets.reduce((sum, sheet) => sum + sheet.rowCount, 0).toLocaleString()} rows</span>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -92,6 +113,52 @@ export const FileManager: React.FC<FileManagerProps> = ({ files, onFileRemove })
             </button>
           </div>
           
+          {file.error && (
+            <p className="mt-3 text-sm text-red-600">{file.error}</p>
+          )}
+
+          {file.sheets.length > 0 && (
+            <div className="mt-3 space-y-2">
+              {file.sheets.map(sheet => (
+                <div key={sheet.sheetName} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Table className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <span className="font-mono text-gray-900 truncate" title={sheet.sheetName}>{sheet.tableName}</span>
+                    </div>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {sheet.rowCount.toLocaleString()} rows · {sheet.columnCount} columns
+                    </span>
+                  </div>
+
+                  {specifications.length > 0 && (
+                    <label className="mt-2 flex items-center space-x-2 text-xs text-gray-600">
+                      <span className="whitespace-nowrap">Specification</span>
+                      <select
+                        value={sheet.mappedTo ?? ''}
+                        onChange={(e) => onSheetMapping(file.name, sheet.sheetName, e.target.value || null)}
+                        className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 bg-white"
+                      >
+                        <option value="">None (load as {sheet.sheetName})</option>
+                        {specifications.map(spec => (
+                          <option key={spec.tableName} value={spec.tableName}>{spec.tableName}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+
+                  {sheet.error && <p className="mt-2 text-xs text-red-600">{sheet.error}</p>}
+                  {sheet.warnings.map((warning, index) => (
+                    <p key={index} className="mt-2 text-xs text-yellow-700 flex items-start space-x-1">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                      <span>{warning}</span>
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
           {file.status === 'analyzing' && (
             <div className="mt-3">
               <div className="w-full bg-gray-200 rounded-full h-1">
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GitCompare, Upload, Download, AlertCircle, TestTube, Database } from 'lucide-react';
+import type { ParsedKnowledge, SQLQuery } from '../services/GroqService';
+import { ChangeKind, diffKnowledge, formatChangeReport, objectLabel } from '../services/knowledgeDiff';
+import { importKnowledge, KnowledgeImportError } from '../services/knowledgeFile';
+import ProjectStore, { ProjectSummary } from '../services/projectStore';
+import { downloadFile } from '../services/download';
+
+interface KnowledgeDiffViewerProps {
+  knowledge: ParsedKnowledge | null;
+  /** Stored queries from the SQL panel, linked to the changes that affect them. */
+  queries: SQLQuery[];
+  projectId: string | null;
+}
+
+interface Snapshot {
+  key: string;
+  label: string;
+  knowledge: ParsedKnowledge;
+}
+
+const CURRENT = 'current';
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-orange-100 text-orange-800',
+};
+
+export const KnowledgeDiffViewer: React.FC<KnowledgeDiffViewerProps> = ({ knowledge, queries, projectId }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  // Imported files and opened projects, so a choice is only read once
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [beforeKey, setBeforeKey] = useState('');
+  const [afterKey, setAfterKey] = useState(CURRENT);
+  const [kindFilter, setKindFilter] = useState<ChangeKind | 'all'>('all');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!ProjectStore.isAvailable()) return;
+    ProjectStore.list()
+      .then(list => setProjects(list.filter(project => project.id !== projectId)))
+      .catch(() => setProjects([]));
+  }, [projectId]);
+
+  const resolve = (key: string): Snapshot | undefined =>
+    key === CURRENT
+      ? knowledge ? { key, label: 'Current knowledge base', knowledge } : undefined
+      : snapshots.find(snapshot => snapshot.key === key);
+
+  const before = resolve(beforeKey);
+  const after = resolve(afterKey);
+
+  const beforeKnowledge = before?.knowledge;
+  const afterKnowledge = after?.knowledge;
+  const diff = useMemo(
+    () => (beforeKnowledge && afterKnowledge ? diffKnowledge(beforeKnowledge, afterKnowledge, queries) : null),
+    [beforeKnowledge, afterKnowledge, queries]
+  );
+
+  const choose = async (key: string, setKey: (key: string) => void) => {
+    setError(null);
+    setKey(key);
+    if (!key.startsWith('project:') || snapshots.some(snapshot => snapshot.key === key)) return;
+    try {
+      const project = await ProjectStore.get(key.slice('project:'.length));
+      if (!project?.knowledge) {
+        setError('That project has no knowledge base yet');
+        return;
+      }
+      setSnapshots(prev => [...prev, { key, label: `Project "${project.name}"`, knowledge: project.knowledge! }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = importKnowledge(await file.text(), file.name);
+      const key = `file:${file.name}:${Date.now()}`;
+      setSnapshots(prev => [...prev, { key, label: file.name, knowledge: imported.knowledge }]);
+      setBeforeKey(key);
+    } catch (err) {
+      const issues = err instanceof KnowledgeImportError && err.issues.length > 0
+        ? ` (${err.issues[0].path} ${err.issues[0].message})`
+        : '';
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}${issues}`);
+    }
+  };
+
+  const downloadReport = () => {
+    if (!diff || !before || !after) return;
+    downloadFile(formatChangeReport(diff, { before: before.label, after: after.label }), 'specification-changes.md', 'text/markdown');
+  };
+
+  const renderSelect = (label: string, value: string, onSelect: (key: string) => void) => (
+    <label className="flex-1 text-sm text-gray-600">
+      <span className="block mb-1">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onSelect(e.target.value)}
+        className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+      >
+        <option value="">Choose a version...</option>
+        {knowledge && <option value={CURRENT}>Current knowledge base</option>}
+        {snapshots.filter(snapshot => snapshot.key.startsWith('file:')).map(snapshot => (
+          <option key={snapshot.key} value={snapshot.key}>{snapshot.label}</option>
+        ))}
+        {projects.map(project => (
+          <option key={project.id} value={`project:${project.id}`}>Project "{project.name}"</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const changes = diff?.changes.filter(change => kindFilter === 'all' || change.kind === kindFilter) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Compare two versions of the specification, e.g. the previous release's exported knowledge base with the current one, to see what changed and which tests it affects.
+      </p>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-3">
+        {renderSelect('Older version', beforeKey, (key) => choose(key, setBeforeKey))}
+        {renderSelect('Newer version', afterKey, (key) => choose(key, setAfterKey))}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml"
+          onChange={handleImportFile}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+          title="Load an exported knowledge base file as the older version"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Load file</span>
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {!diff && !error && (
+        <div className="text-center py-8 text-gray-500">
+          <GitCompare className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p>Choose two versions to compare</p>
+          <p className="text-sm mt-2">Load an exported knowledge base file, or pick another saved project</p>
+        </div>
+      )}
+
+      {diff && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm text-gray-600">
+              {diff.changes.length} change{diff.changes.length !== 1 ? 's' : ''} • {diff.affectedScenarioIds.length} scenario{diff.affectedScenarioIds.length !== 1 ? 's' : ''} and {diff.affectedQueryIds.length} quer{diff.affectedQueryIds.length !== 1 ? 'ies' : 'y'} affected
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={kindFilter}
+                onChange={(e) => setKindFilter(e.target.value as ChangeKind | 'all')}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+              >
+                <option value="all">All changes</option>
+                <option value="added">Added</option>
+                <option value="removed">Removed</option>
+                <option value="modified">Modified</option>
+              </select>
+              <button
+                onClick={downloadReport}
+                className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export report</span>
+              </button>
+            </div>
+          </div>
+
+          {diff.changes.length === 0 && (
+            <p className="text-sm text-green-700">The two versions are the same.</p>
+          )}
+
+          <div className="space-y-2">
+            {changes.map((change, index) => (
+              <div key={index} className="bg-white rounded-lg border border-gray-200 p-3">
+                <div className="flex items-center space-x-2">
+                  <span className={`px-1.5 py-0.5 text-xs rounded uppercase ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+                  <span className="text-xs text-gray-500">{objectLabel(change.object)}</span>
+                  <code className="text-sm font-mono text-gray-900">{change.name}</code>
+                </div>
+                {change.details.length > 0 && (
+                  <ul className="mt-2 space-y-0.5 text-xs text-gray-600">
+                    {change.details.map((detail, detailIndex) => <li key={detailIndex}>{detail}</li>)}
+                  </ul>
+                )}
+                {(change.affectedScenarios.length > 0 || change.affectedQueries.length > 0) && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {change.affectedScenarios.map(scenario => (
+                      <span
+                        key={scenario.id}
+                        className="flex items-center px-1.5 py-0.5 text-xs bg-red-50 text-red-700 rounded"
+                        title={scenario.queryIds.length > 0 ? `Queries: ${scenario.queryIds.join(', ')}` : 'Mentioned in the scenario text'}
+                      >
+                        <TestTube className="w-3 h-3 mr-1" />
+                        {scenario.name}
+                      </span>
+                    ))}
+                    {change.affectedQueries.map(query => (
+                      <span key={query.id} className="flex items-center px-1.5 py-0.5 text-xs bg-blue-50 text-blue-700 rounded" title={query.id}>
+                        <Database className="w-3 h-3 mr-1" />
+                        {query.description}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,18 +1,160 @@
-import React, { useState } from 'react';
-import { Database, FileText, Shield, TestTube, ChevronDown, ChevronRight } from 'lucide-react';
-import { ParsedKnowledge, TableSpecification, FunctionalRequirement, BusinessRule, TestScenario } from '../services/GroqService';
+import React, { useEffect, useRef, useState } from 'react';
+import { Database, FileText, Shield, TestTube, ChevronDown, ChevronRight, Download, Upload, Brain, AlertCircle, CheckCircle, Pencil, Check, Plus, Trash2, Undo2, Redo2, Sparkles, Loader, List, Network } from 'lucide-react';
+import GroqService, { Constraint, ParsedKnowledge, Relationship, TableSpecification, TestExpectation } from '../services/GroqService';
+import { generateSchemaDdl, generateTableDdl } from '../services/ddlGenerator';
+import { describeExpectation } from '../services/testRunner';
+import type { SqlDialect } from '../services/sqlDialect';
+import { emptyKnowledge } from '../services/knowledgeMerge';
+import { ErDiagram } from './ErDiagram';
+import {
+  editKnowledge,
+  newBusinessRule,
+  newColumn,
+  newConstraint,
+  newRelationship,
+  newRequirement,
+  newTable,
+  newTestQuery,
+  newTestScenario,
+  newTransformation,
+  renameColumn,
+  renameTable,
+} from '../services/knowledgeEditor';
+import {
+  exportKnowledge,
+  importKnowledge,
+  KnowledgeFileFormat,
+  knowledgeFileName,
+  KnowledgeImportError,
+  knowledgeMimeType,
+} from '../services/knowledgeFile';
+import type { ValidationIssue } from '../services/validation';
+import { downloadFile } from '../services/download';
 
 interface KnowledgeViewerProps {
-  knowledge: ParsedKnowledge;
+  knowledge: ParsedKnowledge | null;
+  dialect: SqlDialect;
+  onImport: (knowledge: ParsedKnowledge) => void;
+  /** Receives the knowledge base after each edit made here. */
+  onChange: (knowledge: ParsedKnowledge) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
-export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) => {
+interface ImportStatus {
+  fileName: string;
+  error?: string;
+  issues: ValidationIssue[];
+  /** What happened to an imported file, e.g. the migrations it went through. */
+  note?: string;
+}
+
+// Issues listed for a malformed import; the rest are counted.
+const MAX_SHOWN_ISSUES = 20;
+
+const CONSTRAINT_TYPES: Constraint['type'][] = ['PRIMARY_KEY', 'FOREIGN_KEY', 'UNIQUE', 'CHECK'];
+const RELATIONSHIP_TYPES: Relationship['type'][] = ['ONE_TO_ONE', 'ONE_TO_MANY', 'MANY_TO_MANY'];
+const VALIDATION_TYPES = ['CHECK', 'TRIGGER', 'PROCEDURE'] as const;
+const EXPECTATION_TYPES: TestExpectation['type'][] = ['NO_ROWS', 'HAS_ROWS', 'ROW_COUNT', 'VALUE_EQUALS'];
+
+const inputClass = 'w-full border border-gray-300 rounded px-2 py-1 text-sm text-gray-900 bg-white';
+const selectClass = 'border border-gray-300 rounded px-2 py-1 text-xs text-gray-900 bg-white';
+
+interface EditableFieldProps {
+  value: string;
+  onCommit: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  /** Monospaced, for SQL. */
+  code?: boolean;
+  className?: string;
+}
+
+// Saves when the field loses focus, so a change is one undo step rather than
+// one per keystroke. Keyed on the value so an undo shows up in the field.
+const EditableField: React.FC<EditableFieldProps> = ({ value, onCommit, placeholder, multiline, code, className = '' }) => {
+  const classes = `${inputClass} ${code ? 'font-mono text-xs' : ''} ${className}`;
+  const commit = (next: string) => {
+    if (next !== value) onCommit(next);
+  };
+  return multiline ? (
+    <textarea
+      key={value}
+      defaultValue={value}
+      placeholder={placeholder}
+      rows={code ? 4 : 2}
+      onBlur={(e) => commit(e.target.value)}
+      className={classes}
+    />
+  ) : (
+    <input
+      key={value}
+      defaultValue={value}
+      placeholder={placeholder}
+      onBlur={(e) => commit(e.target.value)}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={classes}
+    />
+  );
+};
+
+const DeleteButton: React.FC<{ onClick: () => void; title: string }> = ({ onClick, title }) => (
+  <button
+    onClick={onClick}
+    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200 flex-shrink-0"
+    title={title}
+  >
+    <Trash2 className="w-4 h-4" />
+  </button>
+);
+
+const AddButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button
+    onClick={onClick}
+    className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-800 mt-2"
+  >
+    <Plus className="w-3 h-3" />
+    <span>{label}</span>
+  </button>
+);
+
+const splitList = (text: string, separator: RegExp): string[] =>
+  text.split(separator).map(item => item.trim()).filter(Boolean);
+
+export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({
+  knowledge,
+  dialect,
+  onImport,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo
+}) => {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     tables: true,
     requirements: true,
     rules: true,
     scenarios: true
   });
+  const [isEditing, setIsEditing] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [tableView, setTableView] = useState<'list' | 'diagram'>('list');
+  // Table opened from the diagram, highlighted and scrolled to in the list
+  const [focusedTable, setFocusedTable] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (tableView !== 'list' || focusedTable === null) return;
+    document.querySelector(`[data-table-name="${CSS.escape(focusedTable)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [tableView, focusedTable]);
+
+  const openTable = (tableName: string) => {
+    setFocusedTable(tableName);
+    setTableView('list');
+  };
 
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({
@@ -21,87 +163,462 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
     }));
   };
 
-  const renderTableSpecifications = () => (
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const edit = (recipe: (draft: ParsedKnowledge) => void) => {
+    if (!knowledge) return;
+    onChange(editKnowledge(knowledge, recipe));
+  };
+
+  const downloadTableDdl = (table: TableSpecification) => {
+    if (!knowledge) return;
+    downloadFile(generateTableDdl(table, knowledge), `${table.tableName.replace(/[^\w.-]+/g, '_')}.sql`, 'text/sql');
+  };
+
+  const downloadSchemaDdl = () => {
+    if (!knowledge) return;
+    downloadFile(generateSchemaDdl(knowledge), 'schema.sql', 'text/sql');
+  };
+
+  const downloadKnowledge = (format: KnowledgeFileFormat) => {
+    if (!knowledge) return;
+    downloadFile(exportKnowledge(knowledge, format), knowledgeFileName(format), knowledgeMimeType(format));
+  };
+
+  /** Replaces the test scenarios with ones generated from the knowledge base as edited. */
+  const regenerateTestScenarios = async () => {
+    if (!knowledge) return;
+    if (knowledge.testScenarios.length > 0 && !window.confirm('Replace the current test scenarios with newly generated ones?')) return;
+    setIsGenerating(true);
+    setGenerationError(null);
+    try {
+      const testScenarios = await GroqService.generateTestScenarios(knowledge, dialect);
+      onChange({ ...knowledge, testScenarios });
+    } catch (err) {
+      setGenerationError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importKnowledge(await file.text(), file.name);
+      const hasContent = knowledge && (knowledge.tableSpecifications.length > 0 || knowledge.functionalRequirements.length > 0 ||
+        knowledge.businessRules.length > 0 || knowledge.testScenarios.length > 0);
+      if (hasContent && !window.confirm(`Replace the current knowledge base with ${file.name}?`)) return;
+      onImport(imported.knowledge);
+      setImportStatus({
+        fileName: file.name,
+        issues: [],
+        note: imported.migrations.length > 0
+          ? `Upgraded from format version ${imported.sourceVersion}: ${imported.migrations.join('; ')}`
+          : undefined,
+      });
+    } catch (err) {
+      if (err instanceof KnowledgeImportError) {
+        setImportStatus({ fileName: file.name, error: err.message, issues: err.issues });
+      } else {
+        setImportStatus({ fileName: file.name, error: err instanceof Error ? err.message : String(err), issues: [] });
+      }
+    }
+  };
+
+  const renderFileActions = () => (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.yaml,.yml"
+          onChange={handleImportFile}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Import</span>
+        </button>
+        {knowledge && (['json', 'yaml'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => downloadKnowledge(format)}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export {format.toUpperCase()}</span>
+          </button>
+        ))}
+        {knowledge && (
+          <>
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              className={`flex items-center space-x-2 px-3 py-1.5 text-sm rounded-lg transition-colors duration-200 ${
+                isEditing
+                  ? 'text-white bg-blue-500 hover:bg-blue-600'
+                  : 'text-blue-600 bg-white border border-blue-200 hover:bg-blue-50'
+              }`}
+            >
+              {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+              <span>{isEditing ? 'Done editing' : 'Edit'}</span>
+            </button>
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Undo the last change to the knowledge base"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Redo the change that was undone"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {importStatus?.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+          <p className="flex items-center font-medium text-red-700">
+            <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+            Could not import {importStatus.fileName}: {importStatus.error}
+          </p>
+          {importStatus.issues.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-xs text-red-700">
+              {importStatus.issues.slice(0, MAX_SHOWN_ISSUES).map((issue, index) => (
+                <li key={index}>
+                  <code className="font-mono bg-red-100 px-1 rounded">{issue.path}</code> {issue.message}
+                </li>
+              ))}
+              {importStatus.issues.length > MAX_SHOWN_ISSUES && (
+                <li>...and {importStatus.issues.length - MAX_SHOWN_ISSUES} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+      {importStatus && !importStatus.error && (
+        <p className="flex items-center text-xs text-green-700">
+          <CheckCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+          Imported {importStatus.fileName}{importStatus.note && `. ${importStatus.note}`}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderColumnEditor = (table: TableSpecification, index: number) => (
+    <div className="space-y-2">
+      {table.columns.map((column, colIndex) => (
+        <div key={colIndex} className="flex items-center space-x-2 p-2 bg-gray-50 rounded">
+          <EditableField
+            value={column.name}
+            placeholder="Column name"
+            onCommit={(name) => edit(draft => renameColumn(draft, index, colIndex, name))}
+          />
+          <EditableField
+            value={column.dataType}
+            placeholder="Data type"
+            onCommit={(dataType) => edit(draft => { draft.tableSpecifications[index].columns[colIndex].dataType = dataType; })}
+            className="max-w-[10rem]"
+          />
+          <label className="flex items-center space-x-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={column.isPrimaryKey}
+              onChange={(e) => edit(draft => { draft.tableSpecifications[index].columns[colIndex].isPrimaryKey = e.target.checked; })}
+              className="rounded border-gray-300"
+            />
+            <span>PK</span>
+          </label>
+          <label className="flex items-center space-x-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={column.isNullable}
+              onChange={(e) => edit(draft => { draft.tableSpecifications[index].columns[colIndex].isNullable = e.target.checked; })}
+              className="rounded border-gray-300"
+            />
+            <span>NULL</span>
+          </label>
+          <DeleteButton
+            title="Delete column"
+            onClick={() => edit(draft => { draft.tableSpecifications[index].columns.splice(colIndex, 1); })}
+          />
+        </div>
+      ))}
+      <AddButton label="Add column" onClick={() => edit(draft => { draft.tableSpecifications[index].columns.push(newColumn(table)); })} />
+    </div>
+  );
+
+  const renderConstraintEditor = (table: TableSpecification, index: number) => (
+    <div className="space-y-2">
+      {table.constraints.map((constraint, constraintIndex) => {
+        const update = (changes: Partial<Constraint>) => edit(draft => {
+          Object.assign(draft.tableSpecifications[index].constraints[constraintIndex], changes);
+        });
+        return (
+          <div key={constraintIndex} className="flex items-center space-x-2 p-2 bg-gray-50 rounded">
+            <EditableField value={constraint.name} placeholder="Constraint name" onCommit={(name) => update({ name })} />
+            <select
+              value={constraint.type}
+              onChange={(e) => update({ type: e.target.value as Constraint['type'] })}
+              className={selectClass}
+            >
+              {CONSTRAINT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <EditableField
+              value={constraint.columns.join(', ')}
+              placeholder="Columns, comma-separated"
+              onCommit={(columns) => update({ columns: splitList(columns, /,/) })}
+            />
+            {constraint.type === 'FOREIGN_KEY' && (
+              <EditableField
+                value={constraint.reference ?? ''}
+                placeholder="References, e.g. customers(id)"
+                onCommit={(reference) => update({ reference: reference || undefined })}
+              />
+            )}
+            {constraint.type === 'CHECK' && (
+              <EditableField
+                value={constraint.expression ?? ''}
+                placeholder="Boolean SQL expression"
+                code
+                onCommit={(expression) => update({ expression: expression || undefined })}
+              />
+            )}
+            <DeleteButton
+              title="Delete constraint"
+              onClick={() => edit(draft => { draft.tableSpecifications[index].constraints.splice(constraintIndex, 1); })}
+            />
+          </div>
+        );
+      })}
+      <AddButton label="Add constraint" onClick={() => edit(draft => { draft.tableSpecifications[index].constraints.push(newConstraint(table)); })} />
+    </div>
+  );
+
+  const renderRelationshipEditor = (knowledge: ParsedKnowledge, table: TableSpecification, index: number) => (
+    <div className="space-y-2">
+      {table.relationships.map((rel, relIndex) => {
+        const update = (changes: Partial<Relationship>) => edit(draft => {
+          Object.assign(draft.tableSpecifications[index].relationships[relIndex], changes);
+        });
+        return (
+          <div key={relIndex} className="flex items-center space-x-2 p-2 bg-gray-50 rounded text-xs text-gray-600">
+            <EditableField value={rel.fromTable} placeholder="From table" onCommit={(fromTable) => update({ fromTable })} />
+            <EditableField value={rel.fromColumn} placeholder="Column" onCommit={(fromColumn) => update({ fromColumn })} />
+            <span>→</span>
+            <EditableField value={rel.toTable} placeholder="To table" onCommit={(toTable) => update({ toTable })} />
+            <EditableField value={rel.toColumn} placeholder="Column" onCommit={(toColumn) => update({ toColumn })} />
+            <select
+              value={rel.type}
+              onChange={(e) => update({ type: e.target.value as Relationship['type'] })}
+              className={selectClass}
+            >
+              {RELATIONSHIP_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <DeleteButton
+              title="Delete relationship"
+              onClick={() => edit(draft => { draft.tableSpecifications[index].relationships.splice(relIndex, 1); })}
+            />
+          </div>
+        );
+      })}
+      <AddButton
+        label="Add relationship"
+        onClick={() => edit(draft => { draft.tableSpecifications[index].relationships.push(newRelationship(table, knowledge)); })}
+      />
+    </div>
+  );
+
+  const renderTableSpecifications = (knowledge: ParsedKnowledge) => (
     <div className="space-y-4">
       {knowledge.tableSpecifications.map((table, index) => (
-        <div key={index} className="bg-white rounded-lg border border-gray-200 p-4">
-          <div className="flex items-center space-x-2 mb-3">
-            <Database className="w-5 h-5 text-blue-500" />
-            <h4 className="font-semibold text-gray-900">{table.tableName}</h4>
+        <div
+          key={index}
+          data-table-name={table.tableName}
+          className={`bg-white rounded-lg border border-gray-200 p-4 ${table.tableName === focusedTable ? 'ring-2 ring-blue-400' : ''}`}
+        >
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2 flex-1 mr-2">
+              <Database className="w-5 h-5 text-blue-500 flex-shrink-0" />
+              {isEditing ? (
+                <EditableField
+                  value={table.tableName}
+                  placeholder="Table name"
+                  onCommit={(name) => edit(draft => renameTable(draft, index, name))}
+                  className="font-semibold"
+                />
+              ) : (
+                <h4 className="font-semibold text-gray-900">{table.tableName}</h4>
+              )}
+            </div>
+            <div className="flex items-center">
+              <button
+                onClick={() => downloadTableDdl(table)}
+                className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                title="Download CREATE TABLE script"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              {isEditing && (
+                <DeleteButton
+                  title="Delete table"
+                  onClick={() => edit(draft => { draft.tableSpecifications.splice(index, 1); })}
+                />
+              )}
+            </div>
           </div>
 
           <div className="space-y-3">
             <div>
               <h5 className="text-sm font-medium text-gray-700 mb-2">Columns:</h5>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                {table.columns.map((column, colIndex) => (
-                  <div key={colIndex} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                    <span className="text-sm font-medium">{column.name}</span>
-                    <div className="flex items-center space-x-2">
-                      <span className="text-xs text-gray-600">{column.dataType}</span>
-                      {column.isPrimaryKey && (
-                        <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800 rounded">PK</span>
-                      )}
-                      {column.isNullable && (
-                        <span className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-800 rounded">NULL</span>
-                      )}
+              {isEditing ? renderColumnEditor(table, index) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {table.columns.map((column, colIndex) => (
+                    <div key={colIndex} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                      <span className="text-sm font-medium">{column.name}</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-xs text-gray-600">{column.dataType}</span>
+                        {column.isPrimaryKey && (
+                          <span className="px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800 rounded">PK</span>
+                        )}
+                        {column.isNullable && (
+                          <span className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-800 rounded">NULL</span>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
             </div>
 
-            {table.constraints.length > 0 && (
+            {(isEditing || table.constraints.length > 0) && (
               <div>
               <h5 className="text-sm font-medium text-gray-700 mb-2">Constraints:</h5>
-              <div className="space-y-1">
-                {table.constraints.map((constraint, constraintIndex) => (
-                  <div key={constraintIndex} className="text-xs text-gray-600">
-                    <span className="font-medium">{constraint.name}:</span> {constraint.type} on {constraint.columns.join(', ')}
-                  </div>
-                ))}
-              </div>
+              {isEditing ? renderConstraintEditor(table, index) : (
+                <div className="space-y-1">
+                  {table.constraints.map((constraint, constraintIndex) => (
+                    <div key={constraintIndex} className="text-xs text-gray-600">
+                      <span className="font-medium">{constraint.name}:</span> {constraint.type} on {constraint.columns.join(', ')}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
             )}
 
-            {table.relationships.length > 0 && (
+            {(isEditing || table.relationships.length > 0) && (
               <div>
                 <h5 className="text-sm font-medium text-gray-700 mb-2">Relationships:</h5>
-                <div className="space-y-1">
-                  {table.relationships.map((rel, relIndex) => (
-                    <div key={relIndex} className="text-xs text-gray-600">
-                      {rel.fromTable}.{rel.fromColumn} → {rel.toTable}.{rel.toColumn} ({rel.type})
-                    </div>
-                  ))}
-                </div>
+                {isEditing ? renderRelationshipEditor(knowledge, table, index) : (
+                  <div className="space-y-1">
+                    {table.relationships.map((rel, relIndex) => (
+                      <div key={relIndex} className="text-xs text-gray-600">
+                        {rel.fromTable}.{rel.fromColumn} → {rel.toTable}.{rel.toColumn} ({rel.type})
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
       ))}
+      {isEditing && (
+        <AddButton label="Add table" onClick={() => edit(draft => { draft.tableSpecifications.push(newTable(draft)); })} />
+      )}
     </div>
   );
 
-  const renderFunctionalRequirements = () => (
+  const renderFunctionalRequirements = (knowledge: ParsedKnowledge) => (
     <div className="space-y-4">
       {knowledge.functionalRequirements.map((req, index) => (
         <div key={index} className="bg-white rounded-lg border border-gray-200 p-4">
           <div className="flex items-center space-x-2 mb-3">
-            <FileText className="w-5 h-5 text-green-500" />
-            <h4 className="font-semibold text-gray-900">{req.description}</h4>
+            <FileText className="w-5 h-5 text-green-500 flex-shrink-0" />
+            {isEditing ? (
+              <>
+                <EditableField
+                  value={req.description}
+                  placeholder="Requirement"
+                  onCommit={(description) => edit(draft => { draft.functionalRequirements[index].description = description; })}
+                  className="font-semibold"
+                />
+                <DeleteButton
+                  title="Delete requirement"
+                  onClick={() => edit(draft => { draft.functionalRequirements.splice(index, 1); })}
+                />
+              </>
+            ) : (
+              <h4 className="font-semibold text-gray-900">{req.description}</h4>
+            )}
           </div>
 
           <div className="space-y-3">
             <div>
               <h5 className="text-sm font-medium text-gray-700 mb-2">Business Logic:</h5>
-              <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded">{req.businessLogic}</p>
+              {isEditing ? (
+                <EditableField
+                  value={req.businessLogic}
+                  multiline
+                  onCommit={(businessLogic) => edit(draft => { draft.functionalRequirements[index].businessLogic = businessLogic; })}
+                />
+              ) : (
+                <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded">{req.businessLogic}</p>
+              )}
             </div>
 
-            {req.transformations.length > 0 && (
+            {(isEditing || req.transformations.length > 0) && (
               <div>
                 <h5 className="text-sm font-medium text-gray-700 mb-2">Data Transformations:</h5>
                 <div className="space-y-2">
-                  {req.transformations.map((transformation, transIndex) => (
+                  {req.transformations.map((transformation, transIndex) => isEditing ? (
+                    <div key={transIndex} className="bg-blue-50 p-3 rounded space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <EditableField
+                          value={transformation.name}
+                          placeholder="Name"
+                          onCommit={(name) => edit(draft => { draft.functionalRequirements[index].transformations[transIndex].name = name; })}
+                        />
+                        <DeleteButton
+                          title="Delete transformation"
+                          onClick={() => edit(draft => { draft.functionalRequirements[index].transformations.splice(transIndex, 1); })}
+                        />
+                      </div>
+                      <EditableField
+                        value={transformation.description}
+                        placeholder="Description"
+                        onCommit={(description) => edit(draft => { draft.functionalRequirements[index].transformations[transIndex].description = description; })}
+                      />
+                      <EditableField
+                        value={transformation.sqlLogic}
+                        placeholder="SQL logic"
+                        multiline
+                        code
+                        onCommit={(sqlLogic) => edit(draft => { draft.functionalRequirements[index].transformations[transIndex].sqlLogic = sqlLogic; })}
+                      />
+                      <EditableField
+                        value={transformation.conditions.join('\n')}
+                        placeholder="Conditions, one per line"
+                        multiline
+                        code
+                        onCommit={(conditions) => edit(draft => {
+                          draft.functionalRequirements[index].transformations[transIndex].conditions = splitList(conditions, /\n/);
+                        })}
+                      />
+                    </div>
+                  ) : (
                     <div key={transIndex} className="bg-blue-50 p-3 rounded">
                       <div className="font-medium text-sm text-blue-900">{transformation.name}</div>
                       <div className="text-xs text-blue-800 mt-1">{transformation.description}</div>
@@ -109,80 +626,265 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
                     </div>
                   ))}
                 </div>
+                {isEditing && (
+                  <AddButton
+                    label="Add transformation"
+                    onClick={() => edit(draft => { draft.functionalRequirements[index].transformations.push(newTransformation(req)); })}
+                  />
+                )}
               </div>
             )}
           </div>
         </div>
       ))}
+      {isEditing && (
+        <AddButton label="Add requirement" onClick={() => edit(draft => { draft.functionalRequirements.push(newRequirement(draft)); })} />
+      )}
     </div>
   );
 
-  const renderBusinessRules = () => (
+  const renderBusinessRules = (knowledge: ParsedKnowledge) => (
     <div className="space-y-4">
       {knowledge.businessRules.map((rule, index) => (
         <div key={index} className="bg-white rounded-lg border border-gray-200 p-4">
           <div className="flex items-center space-x-2 mb-3">
-            <Shield className="w-5 h-5 text-purple-500" />
-            <h4 className="font-semibold text-gray-900">{rule.rule}</h4>
+            <Shield className="w-5 h-5 text-purple-500 flex-shrink-0" />
+            {isEditing ? (
+              <>
+                <EditableField
+                  value={rule.rule}
+                  placeholder="Rule"
+                  onCommit={(text) => edit(draft => { draft.businessRules[index].rule = text; })}
+                  className="font-semibold"
+                />
+                <DeleteButton
+                  title="Delete business rule"
+                  onClick={() => edit(draft => { draft.businessRules.splice(index, 1); })}
+                />
+              </>
+            ) : (
+              <h4 className="font-semibold text-gray-900">{rule.rule}</h4>
+            )}
           </div>
 
           <div className="space-y-2">
-            <div className="text-sm text-gray-600 bg-gray-50 p-3 rounded">
-              <span className="font-medium">SQL Condition:</span> {rule.sqlCondition}
-            </div>
+            {isEditing ? (
+              <EditableField
+                value={rule.sqlCondition}
+                placeholder="SQL condition every valid row meets"
+                multiline
+                code
+                onCommit={(sqlCondition) => edit(draft => { draft.businessRules[index].sqlCondition = sqlCondition; })}
+              />
+            ) : (
+              <div className="text-sm text-gray-600 bg-gray-50 p-3 rounded">
+                <span className="font-medium">SQL Condition:</span> {rule.sqlCondition}
+              </div>
+            )}
             <div className="flex items-center space-x-2">
               <span className="text-xs text-gray-500">Validation Type:</span>
-              <span className={`px-2 py-1 text-xs rounded ${
-                rule.validationType === 'CHECK' ? 'bg-blue-100 text-blue-800' :
-                rule.validationType === 'TRIGGER' ? 'bg-orange-100 text-orange-800' :
-                'bg-purple-100 text-purple-800'
-              }`}>
-                {rule.validationType}
-              </span>
+              {isEditing ? (
+                <select
+                  value={rule.validationType}
+                  onChange={(e) => edit(draft => { draft.businessRules[index].validationType = e.target.value as typeof rule.validationType; })}
+                  className={selectClass}
+                >
+                  {VALIDATION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              ) : (
+                <span className={`px-2 py-1 text-xs rounded ${
+                  rule.validationType === 'CHECK' ? 'bg-blue-100 text-blue-800' :
+                  rule.validationType === 'TRIGGER' ? 'bg-orange-100 text-orange-800' :
+                  'bg-purple-100 text-purple-800'
+                }`}>
+                  {rule.validationType}
+                </span>
+              )}
             </div>
           </div>
         </div>
       ))}
+      {isEditing && (
+        <AddButton label="Add business rule" onClick={() => edit(draft => { draft.businessRules.push(newBusinessRule(draft)); })} />
+      )}
     </div>
   );
 
-  const renderTestScenarios = () => (
+  const renderExpectationEditor = (expectation: TestExpectation | undefined, onUpdate: (expectation: TestExpectation) => void) => {
+    const current = expectation ?? { type: 'NO_ROWS' as const };
+    return (
+      <div className="flex items-center space-x-2 text-xs text-gray-500">
+        <span>Expect:</span>
+        <select
+          value={current.type}
+          onChange={(e) => onUpdate({ type: e.target.value as TestExpectation['type'] })}
+          className={selectClass}
+        >
+          {EXPECTATION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        {current.type === 'ROW_COUNT' && (
+          <select
+            value={current.operator ?? '='}
+            onChange={(e) => onUpdate({ ...current, operator: e.target.value as TestExpectation['operator'] })}
+            className={selectClass}
+          >
+            {(['=', '!=', '<', '<=', '>', '>='] as const).map(operator => <option key={operator} value={operator}>{operator}</option>)}
+          </select>
+        )}
+        {current.type === 'VALUE_EQUALS' && (
+          <EditableField
+            value={current.column ?? ''}
+            placeholder="Column (first when empty)"
+            onCommit={(column) => onUpdate({ ...current, column: column || undefined })}
+          />
+        )}
+        {(current.type === 'ROW_COUNT' || current.type === 'VALUE_EQUALS') && (
+          <EditableField
+            value={current.value === undefined ? '' : String(current.value)}
+            placeholder="Value"
+            onCommit={(value) => onUpdate({
+              ...current,
+              value: current.type === 'ROW_COUNT' || (value.trim() !== '' && !isNaN(Number(value))) ? Number(value) : value,
+            })}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderTestScenarios = (knowledge: ParsedKnowledge) => (
     <div className="space-y-4">
       {knowledge.testScenarios.map((scenario, index) => (
         <div key={index} className="bg-white rounded-lg border border-gray-200 p-4">
           <div className="flex items-center space-x-2 mb-3">
-            <TestTube className="w-5 h-5 text-red-500" />
-            <h4 className="font-semibold text-gray-900">{scenario.name}</h4>
+            <TestTube className="w-5 h-5 text-red-500 flex-shrink-0" />
+            {isEditing ? (
+              <>
+                <EditableField
+                  value={scenario.name}
+                  placeholder="Scenario name"
+                  onCommit={(name) => edit(draft => {
+                    draft.testScenarios[index].name = name;
+                    draft.testScenarios[index].testQueries.forEach(query => { query.testScenario = name; });
+                  })}
+                  className="font-semibold"
+                />
+                <DeleteButton
+                  title="Delete test scenario"
+                  onClick={() => edit(draft => { draft.testScenarios.splice(index, 1); })}
+                />
+              </>
+            ) : (
+              <h4 className="font-semibold text-gray-900">{scenario.name}</h4>
+            )}
           </div>
 
           <div className="space-y-3">
             <div>
               <h5 className="text-sm font-medium text-gray-700 mb-2">Description:</h5>
-              <p className="text-sm text-gray-600">{scenario.description}</p>
+              {isEditing ? (
+                <EditableField
+                  value={scenario.description}
+                  multiline
+                  onCommit={(description) => edit(draft => { draft.testScenarios[index].description = description; })}
+                />
+              ) : (
+                <p className="text-sm text-gray-600">{scenario.description}</p>
+              )}
+              {scenario.covers && scenario.covers.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">Covers: {scenario.covers.join(', ')}</p>
+              )}
             </div>
 
             <div>
               <h5 className="text-sm font-medium text-gray-700 mb-2">Test Queries:</h5>
               <div className="space-y-2">
-                {scenario.testQueries.map((query, queryIndex) => (
+                {scenario.testQueries.map((query, queryIndex) => isEditing ? (
+                  <div key={queryIndex} className="bg-gray-50 p-3 rounded space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <EditableField
+                        value={query.description}
+                        placeholder="What the query checks"
+                        onCommit={(description) => edit(draft => { draft.testScenarios[index].testQueries[queryIndex].description = description; })}
+                      />
+                      <DeleteButton
+                        title="Delete test query"
+                        onClick={() => edit(draft => { draft.testScenarios[index].testQueries.splice(queryIndex, 1); })}
+                      />
+                    </div>
+                    <EditableField
+                      value={query.query}
+                      placeholder="SQL"
+                      multiline
+                      code
+                      onCommit={(sql) => edit(draft => { draft.testScenarios[index].testQueries[queryIndex].query = sql; })}
+                    />
+                    {renderExpectationEditor(query.expectation, (expectation) => edit(draft => {
+                      draft.testScenarios[index].testQueries[queryIndex].expectation = expectation;
+                    }))}
+                  </div>
+                ) : (
                   <div key={queryIndex} className="bg-gray-50 p-3 rounded">
                     <div className="text-xs font-medium text-gray-700 mb-1">{query.description}</div>
                     <div className="text-xs font-mono bg-gray-100 p-2 rounded">{query.query}</div>
+                    {query.expectation && (
+                      <div className="text-xs text-gray-500 mt-1">Expect: {describeExpectation(query.expectation)}</div>
+                    )}
                   </div>
                 ))}
               </div>
+              {isEditing && (
+                <AddButton
+                  label="Add test query"
+                  onClick={() => edit(draft => { draft.testScenarios[index].testQueries.push(newTestQuery(scenario)); })}
+                />
+              )}
             </div>
 
             <div>
               <h5 className="text-sm font-medium text-gray-700 mb-2">Expected Results:</h5>
-              <p className="text-sm text-gray-600 bg-green-50 p-3 rounded">{scenario.expectedResults}</p>
+              {isEditing ? (
+                <EditableField
+                  value={scenario.expectedResults}
+                  multiline
+                  onCommit={(expectedResults) => edit(draft => { draft.testScenarios[index].expectedResults = expectedResults; })}
+                />
+              ) : (
+                <p className="text-sm text-gray-600 bg-green-50 p-3 rounded">{scenario.expectedResults}</p>
+              )}
             </div>
           </div>
         </div>
       ))}
+      {isEditing && (
+        <AddButton label="Add test scenario" onClick={() => edit(draft => { draft.testScenarios.push(newTestScenario(draft)); })} />
+      )}
     </div>
   );
 
+  if (!knowledge) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center py-12 text-gray-500">
+          <Brain className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+          <p>No knowledge base loaded</p>
+          <p className="text-sm mt-2">Upload a document in the Document Parser tab, import a saved knowledge base file, or write one by hand</p>
+          <button
+            onClick={() => {
+              onChange(emptyKnowledge());
+              setIsEditing(true);
+            }}
+            className="mt-4 inline-flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+          >
+            <Pencil className="w-4 h-4" />
+            <span>Start an empty knowledge base</span>
+          </button>
+        </div>
+        {renderFileActions()}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -192,6 +894,8 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
         </div>
       </div>
 
+      {renderFileActions()}
+
       {/* Table Specifications */}
       <div className="bg-gray-50 rounded-lg p-4">
         <button
@@ -204,7 +908,36 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
         </button>
         {expandedSections.tables && (
           <div className="mt-4">
-            {renderTableSpecifications()}
+            {knowledge.tableSpecifications.length > 0 && (
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center border border-gray-200 rounded-lg bg-white overflow-hidden">
+                  <button
+                    onClick={() => setTableView('list')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-sm ${tableView === 'list' ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    <List className="w-4 h-4" />
+                    <span>List</span>
+                  </button>
+                  <button
+                    onClick={() => setTableView('diagram')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-sm ${tableView === 'diagram' ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    <Network className="w-4 h-4" />
+                    <span>Diagram</span>
+                  </button>
+                </div>
+                <button
+                  onClick={downloadSchemaDdl}
+                  className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download schema DDL</span>
+                </button>
+              </div>
+            )}
+            {tableView === 'diagram' && knowledge.tableSpecifications.length > 0
+              ? <ErDiagram knowledge={knowledge} onSelectTable={openTable} />
+              : renderTableSpecifications(knowledge)}
           </div>
         )}
       </div>
@@ -221,7 +954,7 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
         </button>
         {expandedSections.requirements && (
           <div className="mt-4">
-            {renderFunctionalRequirements()}
+            {renderFunctionalRequirements(knowledge)}
           </div>
         )}
       </div>
@@ -238,7 +971,7 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
         </button>
         {expandedSections.rules && (
           <div className="mt-4">
-            {renderBusinessRules()}
+            {renderBusinessRules(knowledge)}
           </div>
         )}
       </div>
@@ -255,7 +988,26 @@ export const KnowledgeViewer: React.FC<KnowledgeViewerProps> = ({ knowledge }) =
         </button>
         {expandedSections.scenarios && (
           <div className="mt-4">
-            {renderTestScenarios()}
+            {GroqService.isConfigured() && (
+              <div className="flex items-center justify-end mb-3 space-x-3">
+                {generationError && (
+                  <p className="flex items-center text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {generationError}
+                  </p>
+                )}
+                <button
+                  onClick={regenerateTestScenarios}
+                  disabled={isGenerating}
+                  className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200 disabled:opacity-50"
+                  title="Generate test scenarios from the knowledge base as it is now"
+                >
+                  {isGenerating ? <Loader className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  <span>{isGenerating ? 'Generating...' : 'Regenerate test scenarios'}</span>
+                </button>
+              </div>
+            )}
+            {renderTestScenarios(knowledge)}
           </div>
         )}
       </div>
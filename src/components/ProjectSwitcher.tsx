@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import type { ProjectSummary } from '../services/projectStore';
+
+interface ProjectSwitcherProps {
+  projects: ProjectSummary[];
+  currentId: string;
+  /** When the current project was last written to the browser, or null before the first save. */
+  savedAt: Date | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  currentId,
+  savedAt,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const [editing, setEditing] = useState<'new' | 'rename' | null>(null);
+  const [name, setName] = useState('');
+
+  const current = projects.find(project => project.id === currentId);
+
+  const startEditing = (mode: 'new' | 'rename') => {
+    setEditing(mode);
+    setName(mode === 'rename' ? current?.name ?? '' : '');
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (editing === 'new') onCreate(name.trim());
+    if (editing === 'rename') onRename(currentId, name.trim());
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (current && window.confirm(`Delete the project "${current.name}" with its data, queries and chat history?`)) {
+      onDelete(currentId);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={submit} className="flex items-center space-x-1">
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+          placeholder={editing === 'new' ? 'New project name' : 'Project name'}
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 w-44"
+        />
+        <button type="submit" className="p-1.5 text-green-600 hover:bg-green-50 rounded" title="Save">
+          <Check className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => setEditing(null)} className="p-1.5 text-gray-400 hover:bg-gray-100 rounded" title="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      <FolderOpen className="w-4 h-4 text-gray-400" />
+      <select
+        value={currentId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white max-w-[12rem]"
+        title={savedAt ? `Saved in this browser at ${savedAt.toLocaleTimeString()}` : 'Not saved yet'}
+      >
+        {[...projects].sort((a, b) => a.name.localeCompare(b.name)).map(project => (
+          <option key={project.id} value={project.id}>{project.name}</option>
+        ))}
+      </select>
+      <button onClick={() => startEditing('new')} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="New project">
+        <Plus className="w-4 h-4" />
+      </button>
+      <button onClick={() => startEditing('rename')} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Rename project">
+        <Pencil className="w-4 h-4" />
+      </button>
+      <button onClick={handleDelete} className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded" title="Delete project">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
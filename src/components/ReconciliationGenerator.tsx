@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, ArrowRight, AlertTriangle, Plus, CheckCircle } from 'lucide-react';
+import type { DataTransformation, ParsedKnowledge, SQLQuery } from '../services/GroqService';
+import type { SqlDialect } from '../services/sqlDialect';
+import { generateReconciliationSuite, linkingTransformations, ReconciliationSuite } from '../services/reconciliation';
+
+interface ReconciliationGeneratorProps {
+  knowledge: ParsedKnowledge | null;
+  dialect: SqlDialect;
+  onAdd: (queries: SQLQuery[]) => void;
+}
+
+interface TransformationEntry {
+  requirementId: string;
+  transformation: DataTransformation;
+}
+
+export const ReconciliationGenerator: React.FC<ReconciliationGeneratorProps> = ({ knowledge, dialect, onAdd }) => {
+  const [sourceName, setSourceName] = useState('');
+  const [targetName, setTargetName] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [suite, setSuite] = useState<ReconciliationSuite | null>(null);
+  const [addedAt, setAddedAt] = useState<Date | null>(null);
+
+  const tables = knowledge?.tableSpecifications ?? [];
+  const entries: TransformationEntry[] = knowledge?.functionalRequirements.flatMap(requirement =>
+    requirement.transformations.map(transformation => ({ requirementId: requirement.id, transformation }))
+  ) ?? [];
+  const source = tables.find(table => table.tableName === sourceName);
+  const target = tables.find(table => table.tableName === targetName);
+
+  const selectTables = (nextSource: string, nextTarget: string) => {
+    setSourceName(nextSource);
+    setTargetName(nextTarget);
+    setSuite(null);
+    setAddedAt(null);
+    const sourceSpec = tables.find(table => table.tableName === nextSource);
+    const targetSpec = tables.find(table => table.tableName === nextTarget);
+    if (!knowledge || !sourceSpec || !targetSpec) {
+      setSelected(new Set());
+      return;
+    }
+    // Start from the transformations that link the two tables
+    const linking = linkingTransformations(knowledge, sourceSpec, targetSpec);
+    setSelected(new Set(entries.flatMap((entry, index) => (linking.includes(entry.transformation) ? [index] : []))));
+  };
+
+  const toggleTransformation = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+    setSuite(null);
+    setAddedAt(null);
+  };
+
+  const handleGenerate = () => {
+    if (!source || !target) return;
+    const transformations = entries.filter((_, index) => selected.has(index)).map(entry => entry.transformation);
+    setSuite(generateReconciliationSuite(source, target, transformations, dialect));
+    setAddedAt(null);
+  };
+
+  const handleAdd = () => {
+    if (!suite) return;
+    onAdd(suite.queries);
+    setAddedAt(new Date());
+  };
+
+  if (tables.length < 2) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <ArrowLeftRight className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No tables to reconcile yet</p>
+        <p className="text-sm mt-2">Parse a specification with a source and a target table first</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Row counts, sums, EXCEPT diffs, a full outer join diff, column diffs and checksums between a source table and the table it is loaded into.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={sourceName}
+          onChange={(e) => selectTables(e.target.value, targetName)}
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+        >
+          <option value="">Source table</option>
+          {tables.map(table => (
+            <option key={table.tableName} value={table.tableName}>{table.tableName}</option>
+          ))}
+        </select>
+        <ArrowRight className="w-4 h-4 text-gray-400" />
+        <select
+          value={targetName}
+          onChange={(e) => selectTables(sourceName, e.target.value)}
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+        >
+          <option value="">Target table</option>
+          {tables.filter(table => table.tableName !== sourceName).map(table => (
+            <option key={table.tableName} value={table.tableName}>{table.tableName}</option>
+          ))}
+        </select>
+      </div>
+
+      {source && target && (
+        <>
+          {entries.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-700 mb-1">Transformations that link them</p>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {entries.map((entry, index) => (
+                  <label key={index} className="flex items-start space-x-2 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(index)}
+                      onChange={() => toggleTransformation(index)}
+                      className="mt-0.5 rounded border-gray-300"
+                    />
+                    <span>
+                      <span className="text-gray-400">{entry.requirementId}</span> {entry.transformation.name}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleGenerate}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors duration-200"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+            <span>Generate</span>
+          </button>
+        </>
+      )}
+
+      {suite && (
+        <div className="space-y-3">
+          {suite.warnings.map((warning, index) => (
+            <p key={index} className="flex items-start text-xs text-yellow-700">
+              <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+              {warning}
+            </p>
+          ))}
+
+          <div className="bg-gray-50 rounded p-2 text-xs">
+            <p className="font-medium text-gray-700 mb-1">Column mapping</p>
+            {suite.mappings.map(mapping => (
+              <p key={mapping.target} className="font-mono text-gray-800">
+                {mapping.target}
+                {suite.keyColumns.includes(mapping.target) && <span className="text-gray-400"> (key)</span>}
+                {' ← '}
+                {mapping.source}
+                {mapping.origin === 'name' && <span className="text-gray-400 font-sans"> by name</span>}
+              </p>
+            ))}
+          </div>
+
+          <ul className="space-y-1 text-xs text-gray-700">
+            {suite.queries.map(query => (
+              <li key={query.id} className="flex items-start">
+                <span className="px-1.5 py-0.5 mr-2 text-[10px] bg-purple-100 text-purple-800 rounded flex-shrink-0">VALIDATION</span>
+                {query.description}
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={handleAdd}
+            disabled={addedAt !== null}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add {suite.queries.length} queries to Generated SQL</span>
+          </button>
+
+          {addedAt && (
+            <p className="flex items-center text-xs text-green-700">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Added at {addedAt.toLocaleTimeString()}; run them from the SQL Queries tab.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
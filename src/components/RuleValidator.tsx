@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { Play, Loader2, ChevronDown, ChevronRight, ChevronLeft, Shield } from 'lucide-react';
+import type { BusinessRule, ParsedKnowledge } from '../services/GroqService';
+import type { QueryResult } from '../services/SqlEngine';
+import {
+  compileRule,
+  fetchViolations,
+  RuleReport,
+  RuleStatus,
+  validateRule,
+  VIOLATION_PAGE_SIZE,
+} from '../services/ruleValidator';
+
+interface RuleValidatorProps {
+  knowledge: ParsedKnowledge | null;
+  /** Whether any uploaded data is loaded; without it every table is empty. */
+  hasData: boolean;
+}
+
+interface ViolationPage {
+  page: number;
+  result?: QueryResult;
+  error?: string;
+}
+
+const statusStyles: Record<RuleStatus, string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800',
+  error: 'bg-orange-100 text-orange-800',
+  'needs-artefact': 'bg-purple-100 text-purple-800',
+  'not-runnable': 'bg-gray-100 text-gray-700',
+};
+
+const statusLabels: Record<RuleStatus, string> = {
+  pass: 'Passed',
+  fail: 'Violated',
+  error: 'Error',
+  'needs-artefact': 'Needs DB artefact',
+  'not-runnable': 'Not runnable here',
+};
+
+const messageStyles: Record<RuleStatus, string> = {
+  pass: 'text-green-700',
+  fail: 'text-red-700',
+  error: 'text-orange-700',
+  'needs-artefact': 'text-purple-700',
+  'not-runnable': 'text-gray-600',
+};
+
+export const RuleValidator: React.FC<RuleValidatorProps> = ({ knowledge, hasData }) => {
+  const [reports, setReports] = useState<Record<string, RuleReport>>({});
+  const [pages, setPages] = useState<Record<string, ViolationPage>>({});
+  const [running, setRunning] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const rules = knowledge?.businessRules ?? [];
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const loadPage = async (report: RuleReport, page: number) => {
+    try {
+      const result = await fetchViolations(report, page);
+      setPages(prev => ({ ...prev, [report.ruleId]: { page, result } }));
+    } catch (error) {
+      setPages(prev => ({
+        ...prev,
+        [report.ruleId]: { page, error: error instanceof Error ? error.message : String(error) },
+      }));
+    }
+  };
+
+  const run = async (toRun: BusinessRule[]) => {
+    if (!knowledge) return;
+    setRunning(new Set(toRun.map(rule => rule.id)));
+    for (const rule of toRun) {
+      const report = await validateRule(rule, knowledge);
+      setReports(prev => ({ ...prev, [rule.id]: report }));
+      setPages(prev => {
+        const next = { ...prev };
+        delete next[rule.id];
+        return next;
+      });
+      if (report.status === 'fail') {
+        await loadPage(report, 0);
+      }
+      setRunning(prev => {
+        const next = new Set(prev);
+        next.delete(rule.id);
+        return next;
+      });
+      // Violations open so the offending rows are visible straight away
+      if (report.status === 'fail' || report.status === 'error') {
+        setExpanded(prev => new Set(prev).add(rule.id));
+      }
+    }
+  };
+
+  const renderViolations = (report: RuleReport) => {
+    const current = pages[report.ruleId];
+    if (!current || report.violationCount === undefined) return null;
+    if (current.error) {
+      return <p className="mt-2 text-xs text-orange-700">Could not fetch the violating rows: {current.error}</p>;
+    }
+    const result = current.result;
+    if (!result || result.rows.length === 0) return null;
+
+    const first = current.page * VIOLATION_PAGE_SIZE + 1;
+    const last = current.page * VIOLATION_PAGE_SIZE + result.rows.length;
+    const pageCount = Math.ceil(report.violationCount / VIOLATION_PAGE_SIZE);
+
+    return (
+      <div className="mt-2 border border-red-100 rounded overflow-hidden">
+        <div className="overflow-x-auto max-h-64">
+          <table className="min-w-full text-xs">
+            <thead className="bg-red-50 sticky top-0">
+              <tr>
+                {result.columns.map((column, index) => (
+                  <th key={index} className="px-3 py-1.5 text-left font-medium text-red-800 whitespace-nowrap">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {result.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((value, cellIndex) => (
+                    <td key={cellIndex} className="px-3 py-1 font-mono text-gray-800 whitespace-nowrap">
+                      {value === null ? <span className="text-gray-400">NULL</span> : String(value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center justify-between px-3 py-1.5 text-xs text-gray-500 bg-gray-50">
+          <span>Rows {first}–{last} of {report.violationCount}</span>
+          {pageCount > 1 && (
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => loadPage(report, current.page - 1)}
+                disabled={current.page === 0}
+                className="p-1 hover:bg-gray-200 rounded disabled:opacity-40"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span>{current.page + 1} / {pageCount}</span>
+              <button
+                onClick={() => loadPage(report, current.page + 1)}
+                disabled={current.page + 1 >= pageCount}
+                className="p-1 hover:bg-gray-200 rounded disabled:opacity-40"
+                title="Next page"
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (!knowledge || rules.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <Shield className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No business rules yet</p>
+        <p className="text-sm mt-2">Parse an FRS workbook with an LLM provider configured to extract them</p>
+      </div>
+    );
+  }
+
+  const results = Object.values(reports);
+  const count = (status: RuleStatus) => results.filter(report => report.status === status).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600 space-x-3">
+          <span>{rules.length} rule{rules.length !== 1 ? 's' : ''}</span>
+          {results.length > 0 && (
+            <>
+              <span className="text-green-700">{count('pass')} passed</span>
+              <span className="text-red-700">{count('fail')} violated</span>
+              <span className="text-orange-700">{count('error')} errors</span>
+              {count('needs-artefact') > 0 && (
+                <span className="text-purple-700">{count('needs-artefact')} need a DB artefact</span>
+              )}
+              {count('not-runnable') > 0 && (
+                <span className="text-gray-500">{count('not-runnable')} not runnable in the browser</span>
+              )}
+            </>
+          )}
+        </div>
+        <button
+          onClick={() => run(rules)}
+          disabled={running.size > 0}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+        >
+          {running.size > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          <span>Validate all</span>
+        </button>
+      </div>
+
+      {!hasData && (
+        <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-100 rounded p-2">
+          No data is loaded, so every table is empty. Upload data files in the Files tab to validate real rows.
+        </p>
+      )}
+
+      {rules.map(rule => {
+        const report = reports[rule.id];
+        const isRunning = running.has(rule.id);
+        const isExpanded = expanded.has(rule.id);
+        const compiled = report ?? compileRule(rule, knowledge);
+
+        return (
+          <div key={rule.id} className="border border-gray-200 rounded-lg">
+            <div className="p-3 flex items-center justify-between">
+              <button
+                onClick={() => toggleExpanded(rule.id)}
+                className="flex items-center space-x-2 text-left min-w-0"
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                <span className="font-medium text-gray-900 truncate">{rule.rule}</span>
+              </button>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                {report && !isRunning && (
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles[report.status]}`}>
+                    {statusLabels[report.status]}
+                  </span>
+                )}
+                <button
+                  onClick={() => run([rule])}
+                  disabled={running.size > 0}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-50"
+                  title="Validate rule"
+                >
+                  {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+
+            {isExpanded && (
+              <div className="px-3 pb-3 space-y-2 border-t border-gray-100 pt-3">
+                <p className="text-xs text-gray-500">
+                  {rule.validationType}{compiled.tableName && ` · ${compiled.tableName}`}
+                </p>
+                {compiled.violationQuery ? (
+                  <pre className="text-xs font-mono bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">{compiled.violationQuery}</pre>
+                ) : (
+                  <pre className="text-xs font-mono bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">{rule.sqlCondition}</pre>
+                )}
+                {compiled.note && <p className="text-xs text-gray-500">{compiled.note}</p>}
+                {!report && compiled.error && <p className="text-xs text-orange-700">{compiled.error}</p>}
+                {report && (
+                  <p className={`text-xs ${messageStyles[report.status]}`}>
+                    {report.message}
+                    {report.durationMs !== undefined && (
+                      <span className="text-gray-400"> · {report.durationMs.toFixed(0)} ms</span>
+                    )}
+                  </p>
+                )}
+                {report && renderViolations(report)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,19 +1,125 @@
-import React, { useState } from 'react';
-import { Copy, Play, Download, Code2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Copy, Play, Download, Code2, Loader2, AlertCircle, AlertTriangle, Search, Star, Trash2, ArrowUp, ArrowDown, Pencil, Tag, FileArchive } from 'lucide-react';
+import type { ParsedKnowledge } from '../services/GroqService';
+import SqlEngine, { QueryResult, SqlExecutionError } from '../services/SqlEngine';
+import { dialectLabel, engineLimitation, SQL_DIALECTS, SqlDialect, transpileForEngine, transpileQuery } from '../services/sqlDialect';
+import { checkQuery, SqlFinding } from '../services/sqlChecker';
+import {
+  ALL,
+  combinedScript,
+  EMPTY_FILTER,
+  filterQueries,
+  NO_SCENARIO,
+  parseTags,
+  QueryFilter,
+  queryFileName,
+  queryFiles,
+  querySql,
+  queryTitle,
+  scenariosOf,
+  tagsOf,
+} from '../services/queryLibrary';
+import { createZip } from '../services/zip';
+import { HighlightedSql, SqlFindingList } from './SqlFindings';
+import { downloadFile } from '../services/download';
 
 interface SQLQuery {
   id: string;
   query: string;
   description: string;
+  category: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'VALIDATION';
+  testScenario?: string;
+  dialect?: SqlDialect;
   timestamp: Date;
+  name?: string;
+  tags?: string[];
+  favorite?: boolean;
 }
 
 interface SQLQueryPanelProps {
   queries: SQLQuery[];
+  knowledge: ParsedKnowledge | null;
+  /** The dialect selected for the workspace, offered first when converting. */
+  dialect: SqlDialect;
+  onQueryUpdate: (id: string, changes: Partial<Omit<SQLQuery, 'id' | 'timestamp'>>) => void;
+  onQueriesDelete: (ids: string[]) => void;
+  /** Moves a query to where another one is in the list. */
+  onQueryMove: (id: string, targetId: string) => void;
 }
 
-export const SQLQueryPanel: React.FC<SQLQueryPanelProps> = ({ queries }) => {
+interface ExecutionState {
+  status: 'running' | 'done' | 'error';
+  result?: QueryResult;
+  error?: string;
+  durationMs?: number;
+}
+
+const MAX_RESULT_ROWS = 100;
+
+const CATEGORIES: SQLQuery['category'][] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'VALIDATION'];
+
+const formatDuration = (durationMs: number) => `${durationMs.toFixed(durationMs < 10 ? 1 : 0)} ms`;
+
+export const SQLQueryPanel: React.FC<SQLQueryPanelProps> = ({ queries, knowledge, dialect, onQueryUpdate, onQueriesDelete, onQueryMove }) => {
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QueryFilter>(EMPTY_FILTER);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // The query whose name or tags are being edited
+  const [editing, setEditing] = useState<{ id: string; field: 'name' | 'tags' } | null>(null);
+  const [executions, setExecutions] = useState<Record<string, ExecutionState>>({});
+  const [conversionWarnings, setConversionWarnings] = useState<Record<string, string[]>>({});
+
+  // Re-checked whenever a query is converted or the knowledge base changes
+  const findings = useMemo(() => {
+    const byId: Record<string, SqlFinding[]> = {};
+    if (knowledge) {
+      queries.forEach(query => {
+        byId[query.id] = checkQuery(query.query, knowledge);
+      });
+    }
+    return byId;
+  }, [queries, knowledge]);
+
+  const convertQuery = (query: string, id: string, target: SqlDialect) => {
+    const result = transpileQuery(query, target, knowledge?.tableSpecifications);
+    onQueryUpdate(id, { query: result.query, dialect: target });
+    setConversionWarnings(prev => ({ ...prev, [id]: result.warnings }));
+    setExecutions(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  // The workspace dialect first, then the others
+  const conversionTargets = [
+    ...SQL_DIALECTS.filter(option => option.id === dialect),
+    ...SQL_DIALECTS.filter(option => option.id !== dialect),
+  ];
+
+  const executeQuery = async (query: string, id: string) => {
+    setExecutions(prev => ({ ...prev, [id]: { status: 'running' } }));
+    // Written for the workspace dialect; the engine runs SQLite
+    const { query: sql, warnings } = transpileForEngine(query, knowledge?.tableSpecifications);
+    try {
+      if (knowledge) {
+        await SqlEngine.ensureSchema(knowledge);
+      }
+      // Rolled back, as test runs and rule checks are, so INSERT/UPDATE/DELETE cannot change the loaded data
+      const result = await SqlEngine.execute(sql, { rollback: true });
+      setExecutions(prev => ({ ...prev, [id]: { status: 'done', result, durationMs: result.durationMs } }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setExecutions(prev => ({
+        ...prev,
+        [id]: {
+          status: 'error',
+          error: engineLimitation(message, warnings) ?? message,
+          durationMs: err instanceof SqlExecutionError ? err.durationMs : undefined,
+        },
+      }));
+    }
+  };
 
   const copyToClipboard = async (query: string, id: string) => {
     try {
@@ -25,17 +131,116 @@ export const SQLQueryPanel: React.FC<SQLQueryPanelProps> = ({ queries }) => {
     }
   };
 
-  const downloadQuery = (query: string, description: string) => {
-    const content = `-- ${description}\n-- Generated on ${new Date().toLocaleString()}\n\n${query}`;
-    const blob = new Blob([content], { type: 'text/sql' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'query.sql';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const visible = useMemo(() => filterQueries(queries, filter), [queries, filter]);
+  const selected = visible.filter(query => selectedIds.has(query.id));
+  // Bulk actions apply to the ticked queries, or to every query shown when none is ticked
+  const bulkTarget = selected.length > 0 ? selected : visible;
+
+  const updateFilter = (changes: Partial<QueryFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const deleteQueries = (ids: string[]) => {
+    const count = ids.length;
+    if (count === 0 || !window.confirm(`Delete ${count} quer${count !== 1 ? 'ies' : 'y'}? This cannot be undone.`)) return;
+    onQueriesDelete(ids);
+    setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+  };
+
+  const commitEdit = (queryItem: SQLQuery, value: string) => {
+    if (editing?.field === 'name') {
+      const name = value.trim();
+      if (name !== queryTitle(queryItem)) onQueryUpdate(queryItem.id, { name: name || undefined });
+    } else if (editing?.field === 'tags') {
+      onQueryUpdate(queryItem.id, { tags: parseTags(value) });
+    }
+    setEditing(null);
+  };
+
+  const renderEditInput = (queryItem: SQLQuery, defaultValue: string, placeholder: string) => (
+    <input
+      autoFocus
+      defaultValue={defaultValue}
+      placeholder={placeholder}
+      onBlur={(e) => commitEdit(queryItem, e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          e.currentTarget.value = defaultValue;
+          e.currentTarget.blur();
+        }
+      }}
+      className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-0.5 text-sm text-gray-900"
+    />
+  );
+
+  const renderExecution = (execution?: ExecutionState) => {
+    if (!execution || execution.status === 'running') return null;
+
+    if (execution.status === 'error') {
+      return (
+        <div className="px-4 py-3 bg-red-50 border-t border-red-100 text-sm text-red-700 flex items-start space-x-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-mono break-all">{execution.error}</p>
+            {execution.durationMs !== undefined && (
+              <p className="text-xs text-red-500 mt-1">Failed after {formatDuration(execution.durationMs)}</p>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    const result = execution.result!;
+    const summary = result.isMutation
+      ? `${result.rowCount} row${result.rowCount !== 1 ? 's' : ''} affected, then rolled back; the loaded data is unchanged`
+      : `${result.rowCount} row${result.rowCount !== 1 ? 's' : ''} returned`;
+
+    return (
+      <div className="border-t border-gray-100">
+        <div className="px-4 py-2 text-xs text-gray-600 flex items-center justify-between">
+          <span>{summary}</span>
+          <span>{formatDuration(result.durationMs)}</span>
+        </div>
+        {result.columns.length > 0 && (
+          <div className="overflow-x-auto max-h-80">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {result.columns.map((column, index) => (
+                    <th key={index} className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.rows.slice(0, MAX_RESULT_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((value, cellIndex) => (
+                      <td key={cellIndex} className="px-3 py-1.5 font-mono text-gray-800 whitespace-nowrap">
+                        {value === null ? <span className="text-gray-400">NULL</span> : String(value)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.rows.length > MAX_RESULT_ROWS && (
+              <p className="px-4 py-2 text-xs text-gray-500">
+                Showing the first {MAX_RESULT_ROWS} of {result.rows.length} rows
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    );
   };
 
   if (queries.length === 0) {
@@ -48,22 +253,173 @@ export const SQLQueryPanel: React.FC<SQLQueryPanelProps> = ({ queries }) => {
     );
   }
 
+  const scenarios = scenariosOf(queries);
+  const tags = tagsOf(queries);
+  const filterClass = 'border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white';
+  const bulkButton = 'flex items-center space-x-1 px-2 py-1 text-xs text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200';
+
   return (
     <div className="space-y-4">
-      <div className="flex items-center justify-between mb-6">
-        <h3 className="text-lg font-semibold text-gray-900">Generated Queries</h3>
-        <span className="text-sm text-gray-500">{queries.length} quer{queries.length !== 1 ? 'ies' : 'y'}</span>
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Query Library</h3>
+        <span className="text-sm text-gray-500">
+          {visible.length !== queries.length && `${visible.length} of `}{queries.length} quer{queries.length !== 1 ? 'ies' : 'y'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            value={filter.search}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="Search names, descriptions, SQL and tags"
+            className="w-full border border-gray-300 rounded-md pl-8 pr-2 py-1.5 text-sm text-gray-900"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={filter.category} onChange={(e) => updateFilter({ category: e.target.value as QueryFilter['category'] })} className={filterClass}>
+            <option value={ALL}>All categories</option>
+            {CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+          <select value={filter.scenario} onChange={(e) => updateFilter({ scenario: e.target.value })} className={filterClass}>
+            <option value={ALL}>All scenarios</option>
+            <option value={NO_SCENARIO}>No scenario</option>
+            {scenarios.map(scenario => <option key={scenario} value={scenario}>{scenario}</option>)}
+          </select>
+          {tags.length > 0 && (
+            <select value={filter.tag} onChange={(e) => updateFilter({ tag: e.target.value })} className={filterClass}>
+              <option value={ALL}>All tags</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          )}
+          <button
+            onClick={() => updateFilter({ favoritesOnly: !filter.favoritesOnly })}
+            className={`flex items-center space-x-1 px-2 py-1 text-sm rounded-md border ${filter.favoritesOnly ? 'border-yellow-300 bg-yellow-50 text-yellow-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+          >
+            <Star className={`w-4 h-4 ${filter.favoritesOnly ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+            <span>Favourites</span>
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2 pt-1">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={visible.length > 0 && selected.length === visible.length}
+              onChange={(e) => setSelectedIds(e.target.checked ? new Set(visible.map(query => query.id)) : new Set())}
+            />
+            <span>{selected.length > 0 ? `${selected.length} selected` : 'Select all'}</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => downloadFile(combinedScript(bulkTarget), 'queries.sql', 'text/sql')}
+              disabled={bulkTarget.length === 0}
+              className={`${bulkButton} disabled:opacity-50`}
+              title="One script with a comment header above each query"
+            >
+              <Download className="w-3 h-3" />
+              <span>Export .sql</span>
+            </button>
+            <button
+              onClick={() => downloadFile(createZip(queryFiles(bulkTarget)), 'queries.zip', 'application/zip')}
+              disabled={bulkTarget.length === 0}
+              className={`${bulkButton} disabled:opacity-50`}
+              title="A zip with one named .sql file per query"
+            >
+              <FileArchive className="w-3 h-3" />
+              <span>Export zip</span>
+            </button>
+            {selected.length > 0 && (
+              <button
+                onClick={() => deleteQueries(selected.map(query => query.id))}
+                className="flex items-center space-x-1 px-2 py-1 text-xs text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 transition-colors duration-200"
+              >
+                <Trash2 className="w-3 h-3" />
+                <span>Delete</span>
+              </button>
+            )}
+          </div>
+        </div>
       </div>
-      
-      {queries.map((queryItem) => (
+
+      {visible.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-6">No queries match the search and filters.</p>
+      )}
+
+      {visible.map((queryItem, index) => (
         <div key={queryItem.id} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
           <div className="p-4 border-b border-gray-100">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-2 mb-2">
+              <input type="checkbox" checked={selectedIds.has(queryItem.id)} onChange={() => toggleSelected(queryItem.id)} />
+              <button
+                onClick={() => onQueryUpdate(queryItem.id, { favorite: !queryItem.favorite })}
+                className="text-gray-300 hover:text-yellow-500"
+                title={queryItem.favorite ? 'Remove from favourites' : 'Add to favourites'}
+              >
+                <Star className={`w-4 h-4 ${queryItem.favorite ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+              </button>
+              {editing?.id === queryItem.id && editing.field === 'name'
+                ? renderEditInput(queryItem, queryTitle(queryItem), 'Query name')
+                : (
+                  <>
+                    <span className="font-medium text-gray-900 truncate" title={queryTitle(queryItem)}>{queryTitle(queryItem)}</span>
+                    <button onClick={() => setEditing({ id: queryItem.id, field: 'name' })} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Rename">
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
                 <Code2 className="w-5 h-5 text-blue-500" />
-                <span className="font-medium text-gray-900">SQL Query</span>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                  queryItem.category === 'SELECT' ? 'bg-blue-100 text-blue-800' :
+                  queryItem.category === 'INSERT' ? 'bg-green-100 text-green-800' :
+                  queryItem.category === 'UPDATE' ? 'bg-yellow-100 text-yellow-800' :
+                  queryItem.category === 'DELETE' ? 'bg-red-100 text-red-800' :
+                  'bg-purple-100 text-purple-800'
+                }`}>
+                  {queryItem.category}
+                </span>
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                  {queryItem.dialect ? dialectLabel(queryItem.dialect) : 'Unspecified dialect'}
+                </span>
+                {queryItem.testScenario && (
+                  <button
+                    onClick={() => updateFilter({ scenario: queryItem.testScenario! })}
+                    className="px-2 py-0.5 text-xs rounded-full bg-red-50 text-red-700 hover:bg-red-100"
+                    title="Show the queries of this scenario"
+                  >
+                    {queryItem.testScenario}
+                  </button>
+                )}
+                {editing?.id === queryItem.id && editing.field === 'tags'
+                  ? renderEditInput(queryItem, (queryItem.tags ?? []).join(', '), 'Tags, separated by commas')
+                  : (queryItem.tags ?? []).map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => updateFilter({ tag })}
+                      className="px-2 py-0.5 text-xs rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100"
+                      title="Show the queries with this tag"
+                    >
+                      #{tag}
+                    </button>
+                  ))}
               </div>
-              <div className="flex items-center space-x-2">
+              <div className="flex items-center space-x-1">
+                <select
+                  value=""
+                  onChange={(e) => convertQuery(queryItem.query, queryItem.id, e.target.value as SqlDialect)}
+                  className="text-xs border border-gray-300 rounded px-1.5 py-1 text-gray-600 bg-white"
+                  title="Convert to another SQL dialect"
+                >
+                  <option value="" disabled>Convert to…</option>
+                  {conversionTargets
+                    .filter(option => option.id !== queryItem.dialect)
+                    .map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                </select>
                 <button
                   onClick={() => copyToClipboard(queryItem.query, queryItem.id)}
                   className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
@@ -72,26 +428,64 @@ export const SQLQueryPanel: React.FC<SQLQueryPanelProps> = ({ queries }) => {
                   <Copy className="w-4 h-4" />
                 </button>
                 <button
-                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
+                  onClick={() => executeQuery(queryItem.query, queryItem.id)}
+                  disabled={executions[queryItem.id]?.status === 'running'}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-50"
                   title="Execute query"
                 >
-                  <Play className="w-4 h-4" />
+                  {executions[queryItem.id]?.status === 'running' ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Play className="w-4 h-4" />
+                  )}
                 </button>
                 <button
-                  onClick={() => downloadQuery(queryItem.query, queryItem.description)}
+                  onClick={() => downloadFile(querySql(queryItem), queryFileName(queryItem), 'text/sql')}
                   className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200"
                   title="Download query"
                 >
                   <Download className="w-4 h-4" />
                 </button>
+                <button onClick={() => setEditing({ id: queryItem.id, field: 'tags' })} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200" title="Edit tags">
+                  <Tag className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onQueryMove(queryItem.id, visible[index - 1].id)}
+                  disabled={index === 0}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onQueryMove(queryItem.id, visible[index + 1].id)}
+                  disabled={index === visible.length - 1}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => deleteQueries([queryItem.id])}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors duration-200"
+                  title="Delete query"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
               </div>
             </div>
-            <p className="text-sm text-gray-600 mt-2">{queryItem.description}</p>
+            {queryItem.name?.trim() && <p className="text-sm text-gray-600 mt-2">{queryItem.description}</p>}
+            {conversionWarnings[queryItem.id]?.map((warning, index) => (
+              <p key={index} className="mt-2 text-xs text-yellow-700 flex items-start space-x-1">
+                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>{warning}</span>
+              </p>
+            ))}
           </div>
           
           <div className="relative">
             <pre className="bg-gray-900 text-green-400 p-4 text-sm font-mono overflow-x-auto">
-              <code>{queryItem.query}</code>
+              <code><HighlightedSql query={queryItem.query} findings={findings[queryItem.id] ?? []} /></code>
             </pre>
             
             {copiedId === queryItem.id && (
@@ -100,6 +494,14 @@ export const SQLQueryPanel: React.FC<SQLQueryPanelProps> = ({ queries }) => {
               </div>
             )}
           </div>
+
+          {findings[queryItem.id]?.length > 0 && (
+            <div className="px-4 py-3 bg-yellow-50 border-t border-yellow-100">
+              <SqlFindingList query={queryItem.query} findings={findings[queryItem.id]} />
+            </div>
+          )}
+
+          {renderExecution(executions[queryItem.id])}
           
           <div className="px-4 py-2 bg-gray-50 text-xs text-gray-500">
             Generated on {queryItem.timestamp.toLocaleString()}
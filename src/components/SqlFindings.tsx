@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { findingLocation, SqlFinding } from '../services/sqlChecker';
+
+interface SqlFindingListProps {
+  query: string;
+  findings: SqlFinding[];
+}
+
+interface HighlightedSqlProps {
+  query: string;
+  findings: SqlFinding[];
+}
+
+/** The problems the SQL check found in a query, with their line and column. */
+export const SqlFindingList: React.FC<SqlFindingListProps> = ({ query, findings }) => (
+  <ul className="space-y-1">
+    {findings.map((finding, index) => {
+      const location = findingLocation(query, finding);
+      return (
+        <li
+          key={index}
+          className={`text-xs flex items-start space-x-1 ${finding.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+        >
+          {finding.severity === 'error'
+            ? <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            : <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+          <span>
+            {location && <span className="font-medium">{location}: </span>}
+            {finding.message}
+          </span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+/** Query text with the parts that have findings underlined; hovering shows the message. */
+export const HighlightedSql: React.FC<HighlightedSqlProps> = ({ query, findings }) => {
+  const marked = findings
+    .filter(finding => finding.span && finding.span.end > finding.span.start)
+    .sort((a, b) => a.span!.start - b.span!.start);
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  marked.forEach((finding, index) => {
+    const { start, end } = finding.span!;
+    // Overlapping spans keep the first finding's underline
+    if (start < position) return;
+    parts.push(query.slice(position, start));
+    parts.push(
+      <span
+        key={index}
+        title={finding.message}
+        className={`underline decoration-wavy ${finding.severity === 'error' ? 'decoration-red-500' : 'decoration-yellow-400'}`}
+      >
+        {query.slice(start, end)}
+      </span>
+    );
+    position = end;
+  });
+  parts.push(query.slice(position));
+
+  return <>{parts}</>;
+};
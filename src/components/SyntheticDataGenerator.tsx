@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Wand2, Download, Database, Loader2, AlertTriangle } from 'lucide-react';
+import type { ParsedKnowledge } from '../services/GroqService';
+import type { SqlDialect } from '../services/sqlDialect';
+import {
+  DEFAULT_GENERATOR_OPTIONS,
+  GeneratedTable,
+  generateDataset,
+  generateInsertScript,
+  GeneratorOptions,
+  toCsv,
+  toWorkbook,
+} from '../services/dataGenerator';
+import { downloadFile } from '../services/download';
+
+interface SyntheticDataGeneratorProps {
+  knowledge: ParsedKnowledge;
+  dialect: SqlDialect;
+  onLoad: (tables: GeneratedTable[], size: number) => Promise<void>;
+}
+
+const MAX_ROWS_PER_TABLE = 10000;
+
+export const SyntheticDataGenerator: React.FC<SyntheticDataGeneratorProps> = ({ knowledge, dialect, onLoad }) => {
+  const [options, setOptions] = useState<GeneratorOptions>(DEFAULT_GENERATOR_OPTIONS);
+  const [tables, setTables] = useState<GeneratedTable[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadedAt, setLoadedAt] = useState<Date | null>(null);
+
+  const updateOptions = (changes: Partial<GeneratorOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setTables(null);
+    setLoadedAt(null);
+  };
+
+  const handleGenerate = () => {
+    setTables(generateDataset(knowledge, options));
+    setLoadedAt(null);
+  };
+
+  const fileName = (tableName: string) => tableName.replace(/[^\w.-]+/g, '_');
+
+  const handleLoad = async () => {
+    if (!tables) return;
+    setIsLoading(true);
+    try {
+      const size = (XLSX.write(toWorkbook(tables), { type: 'array', bookType: 'xlsx' }) as ArrayBuffer).byteLength;
+      await onLoad(tables, size);
+      setLoadedAt(new Date());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totalRows = tables?.reduce((sum, table) => sum + table.rows.length, 0) ?? 0;
+  const edgeRows = tables?.reduce((sum, table) => sum + table.edgeCases.length, 0) ?? 0;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="font-medium text-gray-900 flex items-center">
+          <Wand2 className="w-4 h-4 mr-2 text-purple-500" />
+          Synthetic test data
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Rows for every table in the knowledge base, following its types, keys, relationships and CHECK rules.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>Rows per table</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_ROWS_PER_TABLE}
+            value={options.rowsPerTable}
+            onChange={(e) => updateOptions({ rowsPerTable: Math.min(MAX_ROWS_PER_TABLE, Math.max(1, Number(e.target.value) || 1)) })}
+            className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Seed</span>
+          <input
+            type="number"
+            value={options.seed}
+            onChange={(e) => updateOptions({ seed: Number(e.target.value) || 0 })}
+            className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={options.edgeCases}
+            onChange={(e) => updateOptions({ edgeCases: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          <span>Add edge cases (boundaries, NULLs, duplicates, orphan keys)</span>
+        </label>
+      </div>
+
+      <button
+        onClick={handleGenerate}
+        className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors duration-200"
+      >
+        <Wand2 className="w-4 h-4" />
+        <span>Generate</span>
+      </button>
+
+      {tables && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            {totalRows} rows in {tables.length} table{tables.length !== 1 ? 's' : ''}
+            {edgeRows > 0 && `, ${edgeRows} of them edge cases`}
+          </p>
+
+          <div className="space-y-2">
+            {tables.map(table => (
+              <div key={table.tableName} className="bg-gray-50 rounded p-2 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800">{table.tableName}</span>
+                  <div className="flex items-center space-x-2 text-gray-500">
+                    <span>{table.rows.length} rows</span>
+                    <button
+                      onClick={() => downloadFile(toCsv(table), `${fileName(table.tableName)}.csv`, 'text/csv')}
+                      className="text-blue-600 hover:underline"
+                      title="Download as CSV"
+                    >
+                      CSV
+                    </button>
+                  </div>
+                </div>
+                {table.warnings.map((warning, index) => (
+                  <p key={index} className="flex items-start mt-1 text-yellow-700">
+                    <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleLoad}
+              disabled={isLoading}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Database className="w-4 h-4" />}
+              <span>Load into query engine</span>
+            </button>
+            <button
+              onClick={() => XLSX.writeFile(toWorkbook(tables), 'synthetic-data.xlsx')}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Excel</span>
+            </button>
+            <button
+              onClick={() => downloadFile(generateInsertScript(tables, dialect), 'synthetic-data.sql', 'text/sql')}
+              className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>INSERT script</span>
+            </button>
+          </div>
+
+          {loadedAt && (
+            <p className="text-xs text-green-700">Loaded at {loadedAt.toLocaleTimeString()}; it is listed under Your Files.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
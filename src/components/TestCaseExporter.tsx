@@ -0,0 +1,184 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { FileSpreadsheet, Download, Loader2, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+import type { ParsedKnowledge, SQLQuery } from '../services/GroqService';
+import {
+  collectTestCases,
+  DEFAULT_TEMPLATE,
+  loadTemplate,
+  runTestCases,
+  saveTemplate,
+  SheetGrouping,
+  TemplateColumn,
+  TEST_CASE_FIELDS,
+  TestCaseField,
+  toTestCaseWorkbook,
+} from '../services/testCaseExport';
+
+interface TestCaseExporterProps {
+  knowledge: ParsedKnowledge | null;
+  /** Stored queries from the SQL panel, exported alongside the scenario queries. */
+  queries: SQLQuery[];
+  /** Whether any uploaded data is loaded, so the tests can be run before exporting. */
+  hasData: boolean;
+}
+
+export const TestCaseExporter: React.FC<TestCaseExporterProps> = ({ knowledge, queries, hasData }) => {
+  const [template, setTemplate] = useState<TemplateColumn[]>(loadTemplate);
+  const [grouping, setGrouping] = useState<SheetGrouping>('table');
+  const [includeStored, setIncludeStored] = useState(true);
+  const [runTests, setRunTests] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cases = useMemo(
+    () => (knowledge ? collectTestCases(knowledge, includeStored ? queries : []) : []),
+    [knowledge, queries, includeStored]
+  );
+
+  if (!knowledge || cases.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <FileSpreadsheet className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No test cases to export yet</p>
+        <p className="text-sm mt-2">Parse a specification with test scenarios, or generate queries in the SQL panel</p>
+      </div>
+    );
+  }
+
+  const updateTemplate = (next: TemplateColumn[]) => {
+    setTemplate(next);
+    saveTemplate(next);
+  };
+
+  const updateColumn = (index: number, changes: Partial<TemplateColumn>) => {
+    updateTemplate(template.map((column, i) => (i === index ? { ...column, ...changes } : column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...template];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateTemplate(next);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const exported = runTests && hasData ? await runTestCases(cases, knowledge) : cases;
+      XLSX.writeFile(toTestCaseWorkbook(exported, knowledge, template, grouping), 'test-cases.xlsx');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const scenarioCount = cases.filter(testCase => testCase.source === 'Test scenario').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-600">
+          {cases.length} test case{cases.length !== 1 ? 's' : ''} • {scenarioCount} from test scenarios, {cases.length - scenarioCount} stored
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as SheetGrouping)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+          >
+            <option value="table">One sheet per table</option>
+            <option value="requirement">One sheet per requirement</option>
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={exporting || template.length === 0}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            <span>{exporting ? 'Exporting...' : 'Export xlsx'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <input type="checkbox" checked={includeStored} onChange={(e) => setIncludeStored(e.target.checked)} />
+          <span>Include queries from the SQL panel</span>
+        </label>
+        <label className={`flex items-center space-x-2 ${hasData ? '' : 'text-gray-400'}`} title={hasData ? undefined : 'Upload data to run the tests'}>
+          <input type="checkbox" checked={runTests && hasData} disabled={!hasData} onChange={(e) => setRunTests(e.target.checked)} />
+          <span>Run the tests and fill in the actual results</span>
+        </label>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg">
+        <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+          <span className="text-sm font-medium text-gray-700">Columns</span>
+          <button
+            onClick={() => updateTemplate(DEFAULT_TEMPLATE)}
+            className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700"
+            title="Go back to the default columns"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset</span>
+          </button>
+        </div>
+        <div className="p-3 space-y-2">
+          {template.map((column, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                value={column.header}
+                onChange={(e) => updateColumn(index, { header: e.target.value })}
+                className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+                placeholder="Header"
+              />
+              <select
+                value={column.field}
+                onChange={(e) => updateColumn(index, { field: e.target.value as TestCaseField })}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+              >
+                {TEST_CASE_FIELDS.map(field => (
+                  <option key={field.id} value={field.id}>{field.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => moveColumn(index, -1)}
+                disabled={index === 0}
+                className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+                title="Move left"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveColumn(index, 1)}
+                disabled={index === template.length - 1}
+                className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+                title="Move right"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => updateTemplate(template.filter((_, i) => i !== index))}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"
+                title="Remove column"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateTemplate([...template, { header: 'New column', field: 'blank' }])}
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add column</span>
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { Package, Download, AlertTriangle } from 'lucide-react';
+import type { ParsedKnowledge } from '../services/GroqService';
+import { buildTestExport, DbtRelationKind, DEFAULT_EXPORT_OPTIONS } from '../services/testFrameworkExport';
+import { downloadFile } from '../services/download';
+import { createZip } from '../services/zip';
+
+interface TestFrameworkExporterProps {
+  knowledge: ParsedKnowledge | null;
+}
+
+export const TestFrameworkExporter: React.FC<TestFrameworkExporterProps> = ({ knowledge }) => {
+  const [relationKind, setRelationKind] = useState<DbtRelationKind>(DEFAULT_EXPORT_OPTIONS.relationKind);
+  const [sourceName, setSourceName] = useState(DEFAULT_EXPORT_OPTIONS.sourceName);
+
+  const exported = useMemo(
+    () => (knowledge ? buildTestExport(knowledge, { relationKind, sourceName: sourceName.trim() || DEFAULT_EXPORT_OPTIONS.sourceName }) : null),
+    [knowledge, relationKind, sourceName]
+  );
+
+  if (!knowledge || !exported || knowledge.tableSpecifications.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <Package className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No tables to write tests for yet</p>
+        <p className="text-sm mt-2">Parse a specification to export dbt tests and Great Expectations suites</p>
+      </div>
+    );
+  }
+
+  const downloadZip = () => {
+    const files = exported.files.map(file => ({ ...file, name: `specification-tests/${file.name}` }));
+    downloadFile(createZip(files), 'specification-tests.zip', 'application/zip');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-600">
+          {exported.genericTests} column test{exported.genericTests !== 1 ? 's' : ''} • {exported.singularTests} SQL test{exported.singularTests !== 1 ? 's' : ''} • {exported.expectations} expectation{exported.expectations !== 1 ? 's' : ''}
+        </div>
+        <button
+          onClick={downloadZip}
+          className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+        >
+          <Download className="w-4 h-4" />
+          <span>Download zip</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <span>dbt tables are</span>
+          <select
+            value={relationKind}
+            onChange={(e) => setRelationKind(e.target.value as DbtRelationKind)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+          >
+            <option value="source">Sources</option>
+            <option value="model">Models</option>
+          </select>
+        </label>
+        {relationKind === 'source' && (
+          <label className="flex items-center space-x-2" title="Used for tables without a schema">
+            <span>Source name</span>
+            <input
+              value={sourceName}
+              onChange={(e) => setSourceName(e.target.value)}
+              className="w-32 border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900"
+            />
+          </label>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Nullability and keys become not_null, unique and relationships tests. CHECK constraints, business rules and test scenario queries become SQL tests.
+      </p>
+
+      {exported.notes.length > 0 && (
+        <div className="border border-orange-200 bg-orange-50 rounded-lg p-3">
+          <div className="flex items-center text-sm font-medium text-orange-800 mb-1">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            Notes
+          </div>
+          <ul className="space-y-0.5 text-xs text-orange-700">
+            {exported.notes.map((note, index) => <li key={index}>{note}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Play, Loader2, CheckCircle, XCircle, AlertCircle, ChevronDown, ChevronRight, TestTube } from 'lucide-react';
+import type { ParsedKnowledge, TestScenario } from '../services/GroqService';
+import {
+  describeExpectation,
+  QueryOutcome,
+  runScenario,
+  ScenarioOutcome,
+  TestStatus,
+} from '../services/testRunner';
+
+interface TestRunnerProps {
+  knowledge: ParsedKnowledge | null;
+  /** Whether any uploaded data is loaded; without it every table is empty. */
+  hasData: boolean;
+}
+
+const statusStyles: Record<TestStatus, string> = {
+  pass: 'bg-green-100 text-green-800',
+  fail: 'bg-red-100 text-red-800',
+  error: 'bg-orange-100 text-orange-800',
+  'not-runnable': 'bg-gray-100 text-gray-700',
+};
+
+const statusLabels: Record<TestStatus, string> = {
+  pass: 'Passed',
+  fail: 'Failed',
+  error: 'Error',
+  'not-runnable': 'Not runnable here',
+};
+
+const StatusIcon: React.FC<{ status: TestStatus }> = ({ status }) => {
+  if (status === 'pass') return <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />;
+  if (status === 'fail') return <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />;
+  if (status === 'not-runnable') return <AlertCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />;
+  return <AlertCircle className="w-4 h-4 text-orange-500 flex-shrink-0" />;
+};
+
+export const TestRunner: React.FC<TestRunnerProps> = ({ knowledge, hasData }) => {
+  const [outcomes, setOutcomes] = useState<Record<string, ScenarioOutcome>>({});
+  const [running, setRunning] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const scenarios = knowledge?.testScenarios ?? [];
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const run = async (toRun: TestScenario[]) => {
+    if (!knowledge) return;
+    setRunning(new Set(toRun.map(scenario => scenario.id)));
+    for (const scenario of toRun) {
+      const outcome = await runScenario(scenario, knowledge);
+      setOutcomes(prev => ({ ...prev, [scenario.id]: outcome }));
+      setRunning(prev => {
+        const next = new Set(prev);
+        next.delete(scenario.id);
+        return next;
+      });
+      // Failures open so the offending rows are visible straight away
+      if (outcome.status !== 'pass') {
+        setExpanded(prev => new Set(prev).add(scenario.id));
+      }
+    }
+  };
+
+  const renderOffendingRows = (outcome: QueryOutcome) => {
+    if (outcome.offendingRows.length === 0) return null;
+    return (
+      <div className="mt-2 border border-red-100 rounded overflow-hidden">
+        <div className="overflow-x-auto max-h-64">
+          <table className="min-w-full text-xs">
+            <thead className="bg-red-50 sticky top-0">
+              <tr>
+                {outcome.columns.map((column, index) => (
+                  <th key={index} className="px-3 py-1.5 text-left font-medium text-red-800 whitespace-nowrap">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {outcome.offendingRows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((value, cellIndex) => (
+                    <td key={cellIndex} className="px-3 py-1 font-mono text-gray-800 whitespace-nowrap">
+                      {value === null ? <span className="text-gray-400">NULL</span> : String(value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {outcome.offendingCount > outcome.offendingRows.length && (
+          <p className="px-3 py-1.5 text-xs text-gray-500 bg-gray-50">
+            Showing the first {outcome.offendingRows.length} of {outcome.offendingCount} offending rows
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  if (!knowledge || scenarios.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <TestTube className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No test scenarios yet</p>
+        <p className="text-sm mt-2">Parse an FRS workbook with an LLM provider configured to generate them</p>
+      </div>
+    );
+  }
+
+  const results = Object.values(outcomes);
+  const count = (status: TestStatus) => results.filter(outcome => outcome.status === status).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-600 space-x-3">
+          <span>{scenarios.length} scenario{scenarios.length !== 1 ? 's' : ''}</span>
+          {results.length > 0 && (
+            <>
+              <span className="text-green-700">{count('pass')} passed</span>
+              <span className="text-red-700">{count('fail')} failed</span>
+              <span className="text-orange-700">{count('error')} errors</span>
+              {count('not-runnable') > 0 && (
+                <span className="text-gray-500">{count('not-runnable')} not runnable in the browser</span>
+              )}
+            </>
+          )}
+        </div>
+        <button
+          onClick={() => run(scenarios)}
+          disabled={running.size > 0}
+          className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors duration-200"
+        >
+          {running.size > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          <span>Run all</span>
+        </button>
+      </div>
+
+      {!hasData && (
+        <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-100 rounded p-2">
+          No data is loaded, so every table is empty. Upload data files in the Files tab to test real rows.
+        </p>
+      )}
+
+      {scenarios.map(scenario => {
+        const outcome = outcomes[scenario.id];
+        const isRunning = running.has(scenario.id);
+        const isExpanded = expanded.has(scenario.id);
+
+        return (
+          <div key={scenario.id} className="border border-gray-200 rounded-lg">
+            <div className="p-3 flex items-center justify-between">
+              <button
+                onClick={() => toggleExpanded(scenario.id)}
+                className="flex items-center space-x-2 text-left min-w-0"
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                <span className="font-medium text-gray-900 truncate">{scenario.name}</span>
+              </button>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                {outcome && !isRunning && (
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles[outcome.status]}`}>
+                    {statusLabels[outcome.status]}
+                  </span>
+                )}
+                <button
+                  onClick={() => run([scenario])}
+                  disabled={running.size > 0}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-50"
+                  title="Run scenario"
+                >
+                  {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+
+            {isExpanded && (
+              <div className="px-3 pb-3 space-y-3 border-t border-gray-100 pt-3">
+                <p className="text-sm text-gray-600">{scenario.description}</p>
+                <p className="text-xs text-gray-500">Expected: {scenario.expectedResults}</p>
+                {scenario.testQueries.length === 0 && (
+                  <p className="text-xs text-orange-700">This scenario has no test queries.</p>
+                )}
+                {scenario.testQueries.map(query => {
+                  const queryOutcome = outcome?.queries.find(result => result.queryId === query.id);
+                  const expectation = queryOutcome?.expectation ?? query.expectation;
+                  return (
+                    <div key={query.id} className="bg-gray-50 rounded p-3">
+                      <div className="flex items-start space-x-2">
+                        {queryOutcome && <StatusIcon status={queryOutcome.status} />}
+                        <div className="min-w-0 flex-1">
+                          <p className="text-xs font-medium text-gray-700">{query.description}</p>
+                          {expectation && (
+                            <p className="text-xs text-gray-500 mt-0.5">
+                              Expect: {describeExpectation(expectation)}
+                              {queryOutcome?.inferred && ' (inferred from the expected results)'}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <pre className="mt-2 text-xs font-mono bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">{query.query}</pre>
+                      {queryOutcome && (
+                        <p className={`mt-2 text-xs ${queryOutcome.status === 'pass' ? 'text-green-700' : queryOutcome.status === 'fail' ? 'text-red-700' : queryOutcome.status === 'not-runnable' ? 'text-gray-600' : 'text-orange-700'}`}>
+                          {queryOutcome.message}
+                          {queryOutcome.durationMs !== undefined && (
+                            <span className="text-gray-400"> · {queryOutcome.durationMs.toFixed(0)} ms</span>
+                          )}
+                        </p>
+                      )}
+                      {queryOutcome && renderOffendingRows(queryOutcome)}
+                    </div>
+                  );
+                })}
+                {outcome && (
+                  <p className="text-xs text-gray-400">Last run {outcome.ranAt.toLocaleString()}</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
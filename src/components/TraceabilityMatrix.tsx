@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Grid3x3, Check, Download, AlertTriangle } from 'lucide-react';
+import type { ParsedKnowledge, SQLQuery, TestScenario } from '../services/GroqService';
+import {
+  buildTraceability,
+  queryCovers,
+  scenarioOf,
+  toggleCover,
+  toTraceabilityWorkbook,
+  traceItemLabel,
+} from '../services/traceability';
+
+interface TraceabilityMatrixProps {
+  knowledge: ParsedKnowledge | null;
+  /** Stored queries from the SQL panel; those of a scenario appear in the query view. */
+  queries: SQLQuery[];
+  onChange: (knowledge: ParsedKnowledge) => void;
+  onQueryUpdate: (id: string, changes: Partial<SQLQuery>) => void;
+}
+
+/** A column of the matrix: a whole scenario, or one of the queries that test it. */
+interface MatrixColumn {
+  key: string;
+  title: string;
+  subtitle: string;
+  /** Whether the column covers the item through its own links. */
+  links: (id: string) => boolean;
+  /** Whether it covers the item only through its scenario's links. */
+  inherits: (id: string) => boolean;
+  toggle: (id: string) => void;
+}
+
+export const TraceabilityMatrix: React.FC<TraceabilityMatrixProps> = ({ knowledge, queries, onChange, onQueryUpdate }) => {
+  const [view, setView] = useState<'scenarios' | 'queries'>('scenarios');
+
+  const matrix = useMemo(() => (knowledge ? buildTraceability(knowledge, queries) : null), [knowledge, queries]);
+
+  if (!knowledge || !matrix || matrix.items.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <Grid3x3 className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No requirements or business rules to trace yet</p>
+        <p className="text-sm mt-2">Parse a specification, or add requirements in the Knowledge Base</p>
+      </div>
+    );
+  }
+
+  const updateScenario = (index: number, change: (scenario: TestScenario) => TestScenario) => {
+    onChange({
+      ...knowledge,
+      testScenarios: knowledge.testScenarios.map((scenario, i) => (i === index ? change(scenario) : scenario)),
+    });
+  };
+
+  const scenarioColumns: MatrixColumn[] = knowledge.testScenarios.map((scenario, index) => ({
+    key: scenario.id,
+    title: scenario.name,
+    subtitle: scenario.id,
+    links: id => (scenario.covers ?? []).includes(id),
+    inherits: id => matrix.coverage[id]?.scenarioIds.includes(scenario.id) && !(scenario.covers ?? []).includes(id),
+    toggle: id => updateScenario(index, current => ({ ...current, covers: toggleCover(current.covers ?? [], id) })),
+  }));
+
+  const queryColumns: MatrixColumn[] = [
+    ...knowledge.testScenarios.flatMap((scenario, index) => scenario.testQueries.map((query, queryIndex) => ({
+      key: `${scenario.id}/${query.id}`,
+      title: query.description || query.id,
+      subtitle: scenario.name,
+      links: (id: string) => (query.covers ?? []).includes(id),
+      inherits: (id: string) => query.covers === undefined && (scenario.covers ?? []).includes(id),
+      toggle: (id: string) => updateScenario(index, current => ({
+        ...current,
+        testQueries: current.testQueries.map((entry, i) => (
+          i === queryIndex ? { ...entry, covers: toggleCover(queryCovers(entry, current), id) } : entry
+        )),
+      })),
+    }))),
+    ...matrix.storedQueries.map(query => {
+      const scenario = scenarioOf(query, knowledge.testScenarios);
+      return {
+        key: `stored/${query.id}`,
+        title: query.description || query.id,
+        subtitle: scenario ? `${scenario.name} (stored)` : 'Stored query',
+        links: (id: string) => (query.covers ?? []).includes(id),
+        inherits: (id: string) => query.covers === undefined && (scenario?.covers ?? []).includes(id),
+        toggle: (id: string) => onQueryUpdate(query.id, { covers: toggleCover(queryCovers(query, scenario), id) }),
+      };
+    }),
+  ];
+
+  const columns = view === 'scenarios' ? scenarioColumns : queryColumns;
+  const coveredCount = matrix.items.length - matrix.uncovered.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className={`text-sm ${matrix.uncovered.length > 0 ? 'text-red-600' : 'text-green-700'}`}>
+          {coveredCount} of {matrix.items.length} requirements and rules covered
+          {matrix.uncovered.length > 0 && ` • ${matrix.uncovered.length} without a test`}
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={view}
+            onChange={(e) => setView(e.target.value as 'scenarios' | 'queries')}
+            className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 bg-white"
+          >
+            <option value="scenarios">By scenario</option>
+            <option value="queries">By query</option>
+          </select>
+          <button
+            onClick={() => XLSX.writeFile(toTraceabilityWorkbook(matrix), 'traceability-matrix.xlsx')}
+            className="flex items-center space-x-2 px-3 py-1.5 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export xlsx</span>
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Click a cell to link or unlink a test. A light tick means the query inherits the link from its scenario.
+      </p>
+
+      {columns.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {view === 'scenarios' ? 'There are no test scenarios yet.' : 'There are no test queries yet.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="sticky left-0 bg-gray-50 px-3 py-2 text-left font-medium text-gray-700 min-w-[14rem]">Requirement or rule</th>
+                {columns.map(column => (
+                  <th key={column.key} className="px-2 py-2 font-medium text-gray-700 align-bottom max-w-[8rem]" title={`${column.title}\n${column.subtitle}`}>
+                    <div className="truncate">{column.title}</div>
+                    <div className="truncate font-normal text-gray-400">{column.subtitle}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.items.map(item => {
+                const uncovered = matrix.uncovered.includes(item.id);
+                return (
+                  <tr key={`${item.kind}:${item.id}`} className={`border-t border-gray-100 ${uncovered ? 'bg-red-50' : ''}`}>
+                    <td className={`sticky left-0 px-3 py-2 ${uncovered ? 'bg-red-50' : 'bg-white'}`}>
+                      <div className="flex items-center space-x-1">
+                        {uncovered && <AlertTriangle className="w-3 h-3 text-red-500 flex-shrink-0" />}
+                        <span className="font-mono font-medium text-gray-900">{item.id}</span>
+                        <span className="text-gray-400">{traceItemLabel(item.kind)}</span>
+                      </div>
+                      <div className="text-gray-600 truncate max-w-[20rem]" title={item.description}>{item.description}</div>
+                    </td>
+                    {columns.map(column => {
+                      const linked = column.links(item.id);
+                      const inherited = !linked && column.inherits(item.id);
+                      return (
+                        <td key={column.key} className="px-2 py-2 text-center">
+                          <button
+                            onClick={() => column.toggle(item.id)}
+                            className="w-6 h-6 inline-flex items-center justify-center rounded border border-gray-200 hover:bg-blue-50"
+                            title={linked ? 'Unlink' : 'Link'}
+                          >
+                            {linked && <Check className="w-4 h-4 text-green-600" />}
+                            {inherited && <Check className="w-4 h-4 text-gray-300" />}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
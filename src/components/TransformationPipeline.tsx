@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Loader2, CheckCircle, XCircle, AlertCircle, MinusCircle, ChevronDown, ChevronRight, ChevronLeft, Workflow } from 'lucide-react';
+import type { SqlValue } from 'sql.js';
+import type { FunctionalRequirement, ParsedKnowledge } from '../services/GroqService';
+import type { QueryResult } from '../services/SqlEngine';
+import {
+  compareWithTarget,
+  fetchStepRows,
+  PipelineRun,
+  runPipeline,
+  STEP_PAGE_SIZE,
+  StepOutcome,
+  StepStatus,
+} from '../services/transformationPipeline';
+
+interface TransformationPipelineProps {
+  knowledge: ParsedKnowledge | null;
+  /** Whether any uploaded data is loaded; without it every table is empty. */
+  hasData: boolean;
+}
+
+const StatusIcon: React.FC<{ status: StepStatus }> = ({ status }) => {
+  if (status === 'ok') return <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />;
+  if (status === 'error') return <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />;
+  if (status === 'not-runnable') return <AlertCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />;
+  return <MinusCircle className="w-4 h-4 text-gray-400 flex-shrink-0" />;
+};
+
+const kindLabels: Record<NonNullable<StepOutcome['kind']>, string> = {
+  query: 'SELECT',
+  insert: 'INSERT',
+  derive: 'Derived column',
+  update: 'UPDATE',
+  delete: 'DELETE',
+};
+
+const RowsTable: React.FC<{ columns: string[]; rows: SqlValue[][]; tone?: 'gray' | 'red' }> = ({ columns, rows, tone = 'gray' }) => (
+  <div className="overflow-x-auto max-h-64">
+    <table className="min-w-full text-xs">
+      <thead className={`${tone === 'red' ? 'bg-red-50' : 'bg-gray-100'} sticky top-0`}>
+        <tr>
+          {columns.map((column, index) => (
+            <th key={index} className={`px-3 py-1.5 text-left font-medium whitespace-nowrap ${tone === 'red' ? 'text-red-800' : 'text-gray-700'}`}>{column}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 bg-white">
+        {rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>
+            {row.map((value, cellIndex) => (
+              <td key={cellIndex} className="px-3 py-1 font-mono text-gray-800 whitespace-nowrap">
+                {value === null ? <span className="text-gray-400">NULL</span> : String(value)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+/** Pages through an intermediate table. */
+const StepRows: React.FC<{ tableName: string; rowCount: number }> = ({ tableName, rowCount }) => {
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStepRows(tableName, page)
+      .then(rows => {
+        setResult(rows);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [tableName, page]);
+
+  if (error) return <p className="mt-2 text-xs text-orange-700">Could not read {tableName}: {error}</p>;
+  if (!result) return null;
+  if (rowCount === 0) return <p className="mt-2 text-xs text-gray-500">The step produced no rows.</p>;
+
+  const pageCount = Math.ceil(rowCount / STEP_PAGE_SIZE);
+  return (
+    <div className="mt-2 border border-gray-200 rounded overflow-hidden">
+      <RowsTable columns={result.columns} rows={result.rows} />
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs text-gray-500 bg-gray-50">
+        <span>Rows {page * STEP_PAGE_SIZE + 1}–{page * STEP_PAGE_SIZE + result.rows.length} of {rowCount} in {tableName}</span>
+        {pageCount > 1 && (
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="p-1 hover:bg-gray-200 rounded disabled:opacity-40"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <span>{page + 1} / {pageCount}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount}
+              className="p-1 hover:bg-gray-200 rounded disabled:opacity-40"
+              title="Next page"
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const TransformationPipeline: React.FC<TransformationPipelineProps> = ({ knowledge, hasData }) => {
+  const [runs, setRuns] = useState<Record<string, PipelineRun>>({});
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [running, setRunning] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [inspected, setInspected] = useState<string | null>(null);
+
+  const requirements = knowledge?.functionalRequirements.filter(req => req.transformations.length > 0) ?? [];
+  const tableNames = knowledge?.tableSpecifications.map(spec => spec.tableName) ?? [];
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const run = async (requirement: FunctionalRequirement) => {
+    if (!knowledge) return;
+    setRunning(requirement.id);
+    setInspected(null);
+    try {
+      const result = await runPipeline(requirement, knowledge, targets[requirement.id]);
+      // Without a chosen target, compare with the table the pipeline writes, if it is loaded
+      if (!targets[requirement.id] && result.resultTable && result.targetName && tableNames.includes(result.targetName)) {
+        result.comparison = await compareWithTarget(result.resultTable, result.targetName);
+        setTargets(prev => ({ ...prev, [requirement.id]: result.targetName! }));
+      }
+      setRuns(prev => ({ ...prev, [requirement.id]: result }));
+      setExpanded(prev => new Set(prev).add(requirement.id));
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const changeTarget = async (requirementId: string, target: string) => {
+    setTargets(prev => ({ ...prev, [requirementId]: target }));
+    const current = runs[requirementId];
+    if (!current?.resultTable) return;
+    const comparison = target ? await compareWithTarget(current.resultTable, target) : undefined;
+    setRuns(prev => ({ ...prev, [requirementId]: { ...prev[requirementId], comparison } }));
+  };
+
+  const renderStep = (step: StepOutcome, index: number, requirementId: string) => {
+    const key = `${requirementId}:${index}`;
+    return (
+      <div key={index} className="bg-gray-50 rounded p-3">
+        <div className="flex items-start space-x-2">
+          <StatusIcon status={step.status} />
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center space-x-2">
+              <span className="text-xs font-medium text-gray-700">{index + 1}. {step.name}</span>
+              {step.kind && (
+                <span className="px-1.5 py-0.5 text-[10px] bg-blue-100 text-blue-800 rounded">{kindLabels[step.kind]}</span>
+              )}
+            </div>
+            <p className={`text-xs mt-0.5 ${step.status === 'error' ? 'text-red-700' : step.status === 'skipped' || step.status === 'not-runnable' ? 'text-gray-500' : 'text-green-700'}`}>
+              {step.message}
+              {step.durationMs !== undefined && <span className="text-gray-400"> · {step.durationMs.toFixed(0)} ms</span>}
+            </p>
+            {step.ignoredConditions.length > 0 && (
+              <p className="text-xs text-yellow-700 mt-0.5">Not applied (not SQL): {step.ignoredConditions.join('; ')}</p>
+            )}
+          </div>
+          {step.outputTable && (
+            <button
+              onClick={() => setInspected(inspected === key ? null : key)}
+              className="text-xs text-blue-600 hover:underline flex-shrink-0"
+            >
+              {inspected === key ? 'Hide rows' : 'Show rows'}
+            </button>
+          )}
+        </div>
+        {step.sql && (
+          <pre className="mt-2 text-xs font-mono bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">{step.sql}</pre>
+        )}
+        {inspected === key && step.outputTable && <StepRows tableName={step.outputTable} rowCount={step.rowsAfter ?? 0} />}
+      </div>
+    );
+  };
+
+  const renderComparison = (current: PipelineRun) => {
+    const comparison = current.comparison;
+    if (!comparison) return null;
+    const styles = comparison.status === 'match'
+      ? 'bg-green-50 border-green-100 text-green-800'
+      : comparison.status === 'mismatch' ? 'bg-red-50 border-red-100 text-red-800' : 'bg-orange-50 border-orange-100 text-orange-800';
+    return (
+      <div className={`border rounded p-3 text-xs space-y-2 ${styles}`}>
+        <p className="flex items-center font-medium">
+          {comparison.status === 'match' ? <CheckCircle className="w-4 h-4 mr-1" /> : <AlertCircle className="w-4 h-4 mr-1" />}
+          {comparison.message}
+        </p>
+        {comparison.columns.length > 0 && (
+          <p className="text-gray-600">
+            Expected {comparison.expectedRows} rows, {comparison.actualTable} has {comparison.actualRows}; compared on {comparison.columns.join(', ')}
+            {comparison.extraColumns.length > 0 && `; not compared: ${comparison.extraColumns.join(', ')}`}
+          </p>
+        )}
+        {comparison.onlyExpectedSample.length > 0 && (
+          <div>
+            <p className="text-gray-700 mb-1">Expected but not in {comparison.actualTable} ({comparison.onlyExpected}):</p>
+            <div className="border border-red-100 rounded overflow-hidden">
+              <RowsTable columns={comparison.columns} rows={comparison.onlyExpectedSample} tone="red" />
+            </div>
+          </div>
+        )}
+        {comparison.onlyActualSample.length > 0 && (
+          <div>
+            <p className="text-gray-700 mb-1">In {comparison.actualTable} but not expected ({comparison.onlyActual}):</p>
+            <div className="border border-red-100 rounded overflow-hidden">
+              <RowsTable columns={comparison.columns} rows={comparison.onlyActualSample} tone="red" />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (!knowledge || requirements.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <Workflow className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+        <p>No transformations yet</p>
+        <p className="text-sm mt-2">Functional requirements with data transformations appear here</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {!hasData && (
+        <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-100 rounded p-2">
+          No data is loaded, so every table is empty. Upload data files in the Files tab to run the pipelines on real rows.
+        </p>
+      )}
+
+      {requirements.map(requirement => {
+        const current = runs[requirement.id];
+        const isRunning = running === requirement.id;
+        const isExpanded = expanded.has(requirement.id);
+
+        return (
+          <div key={requirement.id} className="border border-gray-200 rounded-lg">
+            <div className="p-3 flex items-center justify-between">
+              <button
+                onClick={() => toggleExpanded(requirement.id)}
+                className="flex items-center space-x-2 text-left min-w-0"
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                <span className="font-medium text-gray-900 truncate">{requirement.description}</span>
+              </button>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <span className="text-xs text-gray-500">{requirement.transformations.length} step{requirement.transformations.length !== 1 ? 's' : ''}</span>
+                <button
+                  onClick={() => run(requirement)}
+                  disabled={running !== null}
+                  className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors duration-200 disabled:opacity-50"
+                  title="Run pipeline"
+                >
+                  {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+
+            {isExpanded && (
+              <div className="px-3 pb-3 space-y-3 border-t border-gray-100 pt-3">
+                <label className="flex items-center space-x-2 text-xs text-gray-600">
+                  <span>Compare the result with</span>
+                  <select
+                    value={targets[requirement.id] ?? ''}
+                    onChange={(e) => changeTarget(requirement.id, e.target.value)}
+                    className="border border-gray-300 rounded-md px-2 py-1 text-xs text-gray-900 bg-white"
+                  >
+                    <option value="">No comparison</option>
+                    {tableNames.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </label>
+
+                {current
+                  ? current.steps.map((step, index) => renderStep(step, index, requirement.id))
+                  : requirement.transformations.map((transformation, index) => (
+                    <div key={index} className="bg-gray-50 rounded p-3">
+                      <p className="text-xs font-medium text-gray-700">{index + 1}. {transformation.name}</p>
+                      <pre className="mt-2 text-xs font-mono bg-gray-100 p-2 rounded overflow-x-auto whitespace-pre-wrap">{transformation.sqlLogic}</pre>
+                    </div>
+                  ))}
+
+                {current && renderComparison(current)}
+                {current && (
+                  <p className="text-xs text-gray-400">Last run {current.ranAt.toLocaleString()}</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,4 +1,29 @@
-import Groq from 'groq-sdk';
+import type { WorkSheet } from 'xlsx';
+import {
+  ChatMessage,
+  CompletionRequest,
+  createProviderFromEnv,
+  fingerprintMessages,
+  isAbortError,
+  LLMProvider,
+  TokenHandler,
+} from './providers';
+import {
+  formatIssues,
+  LLMResponseValidationError,
+  validateParsedKnowledge,
+  validateSQLQueries,
+  validateTestScenarios,
+  ValidationIssue,
+  ValidationResult,
+} from './validation';
+import { chunkWorkbook, estimateTokens, WorkbookChunk } from './workbookChunker';
+import { emptyKnowledge, mergeKnowledge } from './knowledgeMerge';
+import { extractSpecSheets } from './specSheetExtractor';
+import { trimHistory } from './conversationHistory';
+import { DEFAULT_DIALECT, dialectPromptRules, SqlDialect } from './sqlDialect';
+import { checkQuery, formatFindings, hasErrors } from './sqlChecker';
+import { linkCoverage } from './traceability';
 
 export interface ParsedKnowledge {
   tableSpecifications: TableSpecification[];
@@ -28,6 +53,8 @@ export interface Constraint {
   type: 'PRIMARY_KEY' | 'FOREIGN_KEY' | 'UNIQUE' | 'CHECK';
   columns: string[];
   reference?: string;
+  /** Boolean SQL expression of a CHECK constraint. */
+  expression?: string;
 }
 
 export interface Relationship {
@@ -65,6 +92,23 @@ export interface TestScenario {
   description: string;
   testQueries: SQLQuery[];
   expectedResults: string;
+  /** Ids of the functional requirements and business rules the scenario tests. */
+  covers?: string[];
+}
+
+/**
+ * What a test query's result must look like for the test to pass. Test
+ * queries conventionally select the rows that break a rule, so most expect
+ * NO_ROWS.
+ */
+export interface TestExpectation {
+  type: 'NO_ROWS' | 'HAS_ROWS' | 'ROW_COUNT' | 'VALUE_EQUALS';
+  /** ROW_COUNT: how the number of rows compares with `value`; `=` when unset. */
+  operator?: '=' | '!=' | '<' | '<=' | '>' | '>=';
+  /** ROW_COUNT: the expected number of rows. VALUE_EQUALS: the value every row must have. */
+  value?: string | number;
+  /** VALUE_EQUALS: the column to compare; the first column when unset. */
+  column?: string;
 }
 
 export interface SQLQuery {
@@ -73,24 +117,158 @@ export interface SQLQuery {
   description: string;
   category: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'VALIDATION';
   testScenario?: string;
+  /** Dialect the query is written in; unset for queries from before dialects were tracked. */
+  dialect?: SqlDialect;
+  /** For test queries: the result that makes the test pass. */
+  expectation?: TestExpectation;
+  /** Ids of the requirements and rules the query tests; when unset it tests what its scenario covers. */
+  covers?: string[];
+}
+
+export interface WorkbookData {
+  SheetNames: string[];
+  Sheets: Record<string, WorkSheet>;
+  metadata?: {
+    fileName: string;
+    fileSize: number;
+    sheetCount: number;
+  };
+}
+
+export interface FailedChunk {
+  label: string;
+  /** Why it was skipped: responses that stayed invalid, or a provider or network error. */
+  reason: string;
+}
+
+export interface ParseProgress {
+  completedChunks: number;
+  totalChunks: number;
+  /** Label of the chunk that is being extracted next, or of the last one once done. */
+  currentChunk: string;
+  failedChunks: FailedChunk[];
+  /** Sheets converted by the rule-based extractor without calling the LLM. */
+  ruleBasedSheets: string[];
+  /** Unrecognised sheets left out because no LLM provider is configured. */
+  skippedSheets: string[];
+}
+
+export interface StreamHandlers {
+  onToken?: TokenHandler;
+  /** Called when a response failed validation and the model is asked to repair it. */
+  onRetry?: (issues: ValidationIssue[]) => void;
+}
+
+export interface QueryGenerationOptions extends StreamHandlers {
+  /** Earlier turns of the conversation, oldest first. */
+  history?: ChatMessage[];
+  signal?: AbortSignal;
+  dialect?: SqlDialect;
+  /** Check the queries against the knowledge base and ask the model to fix any errors found. */
+  autoFix?: boolean;
+  /** Called when checked queries have errors and the model is asked to fix them. */
+  onFix?: (issues: ValidationIssue[]) => void;
 }
 
+// How many times the model may be asked to fix output that fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
+// How many times the model may be asked to fix queries that fail the SQL check.
+const MAX_FIX_ATTEMPTS = 2;
+
+// Prompt budget per workbook chunk. Leaves room in a 32k context for the
+// system prompt, the 4k response and any repair round-trips.
+const CHUNK_TOKEN_BUDGET = 6000;
+
+const QUERY_MAX_TOKENS = 2000;
+const SUMMARY_MAX_TOKENS = 300;
+
 class GroqService {
-  private groq: Groq;
-  private apiKey: string;
+  private provider: LLMProvider;
+  // Summaries of dropped conversation turns, keyed by their fingerprint, so a
+  // long chat is not re-summarised on every message.
+  private summaryCache = new Map<string, string>();
+
+  constructor(provider: LLMProvider = createProviderFromEnv()) {
+    this.provider = provider;
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
 
-  constructor() {
-    this.apiKey = process.env.VITE_GROQ_API_KEY || '';
-    this.groq = new Groq({
-      apiKey: this.apiKey,
+  /**
+   * Table-specification sheets are extracted by rules first. The remaining
+   * sheets go to the LLM chunk by chunk (map) and everything is merged
+   * (reduce). A failing chunk is reported through `onProgress` and skipped;
+   * the parse only fails when nothing could be extracted at all.
+   */
+  async parseExcelWorkbook(
+    workbookData: WorkbookData,
+    onProgress?: (progress: ParseProgress) => void
+  ): Promise<ParsedKnowledge> {
+    const extraction = extractSpecSheets(workbookData);
+    const llmWorkbook: WorkbookData = { ...workbookData, SheetNames: extraction.unrecognisedSheets };
+    const useLLM = this.provider.isConfigured();
+    const chunks = useLLM ? chunkWorkbook(llmWorkbook, CHUNK_TOKEN_BUDGET) : [];
+    const skippedSheets = useLLM ? [] : chunkWorkbook(llmWorkbook, Infinity).flatMap(chunk => chunk.sheetNames);
+
+    if (extraction.tables.length === 0 && chunks.length === 0) {
+      throw new Error(skippedSheets.length > 0
+        ? 'No LLM provider is configured and no table specification sheets were recognised'
+        : 'The workbook does not contain any data to parse');
+    }
+
+    const parts: ParsedKnowledge[] = [{ ...emptyKnowledge(), tableSpecifications: extraction.tables }];
+    const failedChunks: FailedChunk[] = [];
+    const report = (completedChunks: number, currentChunk: string) => onProgress?.({
+      completedChunks,
+      totalChunks: chunks.length,
+      currentChunk,
+      failedChunks,
+      ruleBasedSheets: extraction.recognisedSheets,
+      skippedSheets
     });
+    let lastError: unknown;
+
+    for (let index = 0; index < chunks.length; index++) {
+      report(index, chunks[index].label);
+      try {
+        parts.push(await this.extractKnowledge(chunks[index], chunks.length));
+      } catch (error) {
+        lastError = error;
+        failedChunks.push({ label: chunks[index].label, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    report(chunks.length, chunks.length > 0 ? chunks[chunks.length - 1].label : '');
+
+    if (extraction.tables.length === 0 && failedChunks.length === chunks.length) {
+      throw lastError;
+    }
+    if (failedChunks.length > 0) {
+      console.warn('Skipped workbook chunks that could not be extracted:', failedChunks);
+    }
+    // Rule-based tables come first so their exact column types, keys and
+    // nullability win the merge.
+    const merged = mergeKnowledge(parts);
+    // Test cases written in the workbook keep their links to what they test
+    return { ...merged, testScenarios: linkCoverage(merged.testScenarios, merged) };
   }
 
-  async parseExcelWorkbook(workbookData: any): Promise<ParsedKnowledge> {
+  private async extractKnowledge(chunk: WorkbookChunk, totalChunks: number): Promise<ParsedKnowledge> {
     try {
-      const workbookText = this.convertWorkbookToText(workbookData);
+      const userContent = totalChunks === 1
+        ? `Analyze this Excel workbook:\n\n${chunk.text}`
+        : `Analyze this part of an Excel workbook (${chunk.label}). Extract only what appears in this part:\n\n${chunk.text}`;
 
-      const response = await this.groq.chat.completions.create({
+      return await this.completeValidated('knowledge base', validateParsedKnowledge, {
         messages: [
           {
             role: "system",
@@ -98,85 +276,175 @@ class GroqService {
             1. Table specifications (column names, data types, constraints)
             2. Functional requirements and business rules
             3. Data transformation rules
-            4. Test scenarios and validation rules
+            4. Test scenarios and validation rules written in the workbook, each with the ids of the requirements and business rules it tests in "covers"
 
             Return the analysis in JSON format with the following structure:
             {
-              "tableSpecifications": [...],
-              "functionalRequirements": [...],
-              "businessRules": [...],
-              "testScenarios": [...]
+              "tableSpecifications": [{
+                "tableName": "string",
+                "columns": [{ "name": "string", "dataType": "string", "isNullable": true, "isPrimaryKey": false, "description": "string" }],
+                "constraints": [{ "name": "string", "type": "PRIMARY_KEY|FOREIGN_KEY|UNIQUE|CHECK", "columns": ["string"], "reference": "string", "expression": "CHECK condition" }],
+                "relationships": [{ "fromTable": "string", "toTable": "string", "fromColumn": "string", "toColumn": "string", "type": "ONE_TO_ONE|ONE_TO_MANY|MANY_TO_MANY" }]
+              }],
+              "functionalRequirements": [{
+                "id": "string", "description": "string", "businessLogic": "string",
+                "transformations": [{ "name": "string", "description": "string", "sqlLogic": "string", "conditions": ["string"] }]
+              }],
+              "businessRules": [{ "id": "string", "rule": "string", "sqlCondition": "string", "validationType": "CHECK|TRIGGER|PROCEDURE" }],
+              "testScenarios": [{
+                "id": "string", "name": "string", "description": "string", "expectedResults": "string", "covers": ["requirement or business rule id"],
+                "testQueries": [{ "id": "string", "query": "SQL", "description": "string", "category": "VALIDATION" }]
+              }]
             }`
           },
           {
             role: "user",
-            content: `Analyze this Excel workbook:\n\n${workbookText}`
+            content: userContent
           }
         ],
-        model: "mixtral-8x7b-32768",
         temperature: 0.1,
-        max_tokens: 4000,
+        maxTokens: 4000,
       });
-
-      const result = response.choices[0].message.content;
-      return this.parseGroqResponse(result);
     } catch (error) {
-      console.error('Error parsing Excel workbook with Groq:', error);
-      throw new Error('Failed to parse Excel workbook');
+      console.error('Error parsing Excel workbook with LLM:', error);
+      if (error instanceof LLMResponseValidationError) throw error;
+      // Keep the cause, so an outage is not mistaken for bad responses
+      throw new Error(`Failed to parse Excel workbook: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   async generateQueries(
     knowledge: ParsedKnowledge,
     userRequest: string,
-    uploadedData?: any
+    uploadedData?: Record<string, unknown>[],
+    options: QueryGenerationOptions = {}
   ): Promise<SQLQuery[]> {
+    const dialect = options.dialect ?? DEFAULT_DIALECT;
     try {
       const context = this.buildContext(knowledge, uploadedData);
+      const systemMessage: ChatMessage = {
+        role: "system",
+        content: `You are a SQL expert. Based on the provided knowledge base, generate SQL queries for the user's request.
+        Consider the table specifications, business rules, and functional requirements.
+        Earlier turns of the conversation are included; when the user refines a previous request, return the updated queries.
 
-      const response = await this.groq.chat.completions.create({
-        messages: [
-          {
-            role: "system",
-            content: `You are a SQL expert. Based on the provided knowledge base, generate SQL queries for the user's request.
-            Consider the table specifications, business rules, and functional requirements.
+        ${dialectPromptRules(dialect)}
 
-            Return queries in JSON format:
-            [
-              {
-                "id": "unique_id",
-                "query": "SQL_QUERY",
-                "description": "What this query does",
-                "category": "SELECT|INSERT|UPDATE|DELETE|VALIDATION"
-              }
-            ]`
-          },
+        Return queries in JSON format:
+        [
           {
-            role: "user",
-            content: `Knowledge Base:\n${context}\n\nUser Request: ${userRequest}`
+            "id": "unique_id",
+            "query": "SQL_QUERY",
+            "description": "What this query does",
+            "category": "SELECT|INSERT|UPDATE|DELETE|VALIDATION"
           }
-        ],
-        model: "mixtral-8x7b-32768",
+        ]`
+      };
+      const requestMessage: ChatMessage = {
+        role: "user",
+        content: `Knowledge Base:\n${context}\n\nUser Request: ${userRequest}`
+      };
+      const history = await this.fitHistory(
+        options.history || [],
+        this.provider.contextWindow - QUERY_MAX_TOKENS - estimateTokens(systemMessage.content + requestMessage.content),
+        options.signal
+      );
+
+      const request: CompletionRequest = {
+        messages: [systemMessage, ...history, requestMessage],
         temperature: 0.2,
-        max_tokens: 2000,
-      });
-
-      const result = response.choices[0].message.content;
-      return this.parseQueryResponse(result);
+        maxTokens: QUERY_MAX_TOKENS,
+        signal: options.signal,
+      };
+      let queries = await this.completeValidated('SQL queries', validateSQLQueries, request, options);
+
+      for (let attempt = 0; options.autoFix && attempt < MAX_FIX_ATTEMPTS; attempt++) {
+        const failing = queries
+          .map((query, index) => ({ query, index, findings: checkQuery(query.query, knowledge) }))
+          .filter(({ findings }) => hasErrors(findings));
+        if (failing.length === 0) break;
+
+        options.onFix?.(failing.flatMap(({ index, findings }) =>
+          findings.map(finding => ({ path: `$[${index}].query`, message: finding.message }))
+        ));
+        const report = failing
+          .map(({ query, findings }) => `Query ${query.id}:\n${formatFindings(query.query, findings)}`)
+          .join('\n\n');
+        request.messages = [
+          ...request.messages,
+          { role: 'assistant', content: JSON.stringify(queries) },
+          {
+            role: 'user',
+            content: `Checking these queries against the knowledge base found problems. Fix them and return the complete JSON array with every query, keeping the ids, and no commentary:\n\n${report}`
+          }
+        ];
+        queries = await this.completeValidated('SQL queries', validateSQLQueries, request, options);
+      }
+      return queries.map(query => ({ ...query, dialect }));
     } catch (error) {
-      console.error('Error generating queries with Groq:', error);
+      if (isAbortError(error)) throw error;
+      console.error('Error generating queries with LLM:', error);
+      if (error instanceof LLMResponseValidationError) throw error;
       throw new Error('Failed to generate queries');
     }
   }
 
-  async generateTestScenarios(knowledge: ParsedKnowledge): Promise<TestScenario[]> {
+  /**
+   * Keeps the newest turns that fit `tokenBudget`. Older turns are replaced by
+   * a model-written summary, or simply dropped if summarising fails.
+   */
+  private async fitHistory(history: ChatMessage[], tokenBudget: number, signal?: AbortSignal): Promise<ChatMessage[]> {
+    const { kept, dropped } = trimHistory(history, tokenBudget - SUMMARY_MAX_TOKENS);
+    if (dropped.length === 0) {
+      return kept;
+    }
+
+    const key = fingerprintMessages(dropped);
+    let summary = this.summaryCache.get(key);
+    if (summary === undefined) {
+      try {
+        summary = await this.provider.complete({
+          messages: [
+            {
+              role: 'system',
+              content: 'Summarise this conversation about SQL queries in a few sentences. Keep table names, column names, filters and the latest version of each query the user asked for.'
+            },
+            {
+              role: 'user',
+              content: dropped.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n\n')
+            }
+          ],
+          temperature: 0,
+          maxTokens: SUMMARY_MAX_TOKENS,
+          signal,
+        });
+        this.summaryCache.set(key, summary);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Could not summarise earlier conversation; trimming it instead:', error);
+        return kept;
+      }
+    }
+
+    return [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }, ...kept];
+  }
+
+  async generateTestScenarios(knowledge: ParsedKnowledge, dialect: SqlDialect = DEFAULT_DIALECT): Promise<TestScenario[]> {
     try {
-      const response = await this.groq.chat.completions.create({
+      const scenarios = await this.completeValidated('test scenarios', validateTestScenarios, {
         messages: [
           {
             role: "system",
             content: `You are a QA expert. Based on the provided knowledge base, generate comprehensive test scenarios.
             Include data validation, business rule testing, and edge cases.
+            Write each test query so that its result can be checked automatically, preferably by selecting the rows that break the rule,
+            and give it an "expectation": {"type": "NO_ROWS"} when any returned row is a failure, {"type": "HAS_ROWS"} when at least one row must come back,
+            {"type": "ROW_COUNT", "operator": "=|!=|<|<=|>|>=", "value": N} for a number of rows, or {"type": "VALUE_EQUALS", "column": "name", "value": X}
+            when every returned row must have that value, e.g. a COUNT(*) that must be 0.
+            List in "covers" the ids of the functional requirements and business rules each scenario tests, so every requirement can be traced to its tests.
+            Give a query its own "covers" only when it tests less than its whole scenario.
+
+            ${dialectPromptRules(dialect)}
 
             Return test scenarios in JSON format:
             [
@@ -184,8 +452,11 @@ class GroqService {
                 "id": "unique_id",
                 "name": "Test Scenario Name",
                 "description": "What this test validates",
-                "testQueries": [...],
-                "expectedResults": "Expected outcome"
+                "testQueries": [
+                  { "id": "unique_id", "query": "SQL_QUERY", "description": "What this query checks", "category": "VALIDATION", "expectation": { "type": "NO_ROWS" } }
+                ],
+                "expectedResults": "Expected outcome",
+                "covers": ["FR001", "BR002"]
               }
             ]`
           },
@@ -194,80 +465,21 @@ class GroqService {
             content: `Generate test scenarios for this knowledge base:\n${JSON.stringify(knowledge, null, 2)}`
           }
         ],
-        model: "mixtral-8x7b-32768",
         temperature: 0.3,
-        max_tokens: 3000,
+        maxTokens: 3000,
       });
-
-      const result = response.choices[0].message.content;
-      return this.parseTestScenarioResponse(result);
+      return linkCoverage(scenarios, knowledge).map(scenario => ({
+        ...scenario,
+        testQueries: scenario.testQueries.map(query => ({ ...query, dialect }))
+      }));
     } catch (error) {
-      console.error('Error generating test scenarios with Groq:', error);
+      console.error('Error generating test scenarios with LLM:', error);
+      if (error instanceof LLMResponseValidationError) throw error;
       throw new Error('Failed to generate test scenarios');
     }
   }
 
-  private convertWorkbookToText(workbookData: any): string {
-    // Convert Excel workbook data to text format for LLM processing
-    let text = '';
-
-    if (workbookData.SheetNames) {
-      text += `Workbook contains ${workbookData.SheetNames.length} sheets:\n`;
-      workbookData.SheetNames.forEach((sheetName: string) => {
-        text += `\nSheet: ${sheetName}\n`;
-        const sheet = workbookData.Sheets[sheetName];
-        if (sheet) {
-          text += this.convertSheetToText(sheet);
-        }
-      });
-    }
-
-    return text;
-  }
-
-  private convertSheetToText(sheet: any): string {
-    let text = '';
-    const range = sheet['!ref'];
-    if (range) {
-      const [start, end] = range.split(':');
-      const startCol = this.getColumnIndex(start.match(/[A-Z]+/)[0]);
-      const startRow = parseInt(start.match(/\d+/)[0]);
-      const endCol = this.getColumnIndex(end.match(/[A-Z]+/)[0]);
-      const endRow = parseInt(end.match(/\d+/)[0]);
-
-      for (let row = startRow; row <= endRow; row++) {
-        for (let col = startCol; col <= endCol; col++) {
-          const cellAddress = this.getColumnLetter(col) + row;
-          const cell = sheet[cellAddress];
-          if (cell && cell.v !== undefined) {
-            text += `${cell.v}\t`;
-          }
-        }
-        text += '\n';
-      }
-    }
-    return text;
-  }
-
-  private getColumnIndex(columnLetter: string): number {
-    let index = 0;
-    for (let i = 0; i < columnLetter.length; i++) {
-      index = index * 26 + (columnLetter.charCodeAt(i) - 64);
-    }
-    return index;
-  }
-
-  private getColumnLetter(index: number): string {
-    let letter = '';
-    while (index > 0) {
-      index--;
-      letter = String.fromCharCode(65 + (index % 26)) + letter;
-      index = Math.floor(index / 26);
-    }
-    return letter;
-  }
-
-  private buildContext(knowledge: ParsedKnowledge, uploadedData?: any): string {
+  private buildContext(knowledge: ParsedKnowledge, uploadedData?: Record<string, unknown>[]): string {
     let context = 'Knowledge Base:\n';
 
     // Add table specifications
@@ -299,54 +511,61 @@ class GroqService {
     return context;
   }
 
-  private parseGroqResponse(response: string): ParsedKnowledge {
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) ||
-                       response.match(/```\s*([\s\S]*?)\s*```/) ||
-                       [null, response];
+  /**
+   * Sends the request and validates the reply. Invalid output is answered with
+   * a repair prompt listing the exact problems, up to MAX_REPAIR_ATTEMPTS times.
+   */
+  private async completeValidated<T>(
+    target: string,
+    validate: (value: unknown) => ValidationResult<T>,
+    request: CompletionRequest,
+    handlers: StreamHandlers = {}
+  ): Promise<T> {
+    let messages: ChatMessage[] = request.messages;
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        handlers.onRetry?.(issues);
+      }
+      const response = handlers.onToken
+        ? await this.provider.stream({ ...request, messages }, handlers.onToken)
+        : await this.provider.complete({ ...request, messages });
+      const parsed = this.extractJson(response);
+      const result: ValidationResult<T> = parsed.ok ? validate(parsed.value) : parsed;
+      if (result.ok) {
+        return result.value;
+      }
 
-      const jsonString = jsonMatch[1] || response;
-      return JSON.parse(jsonString);
-    } catch (error) {
-      console.error('Error parsing Groq response:', error);
-      throw new Error('Invalid response format from Groq');
+      issues = result.issues;
+      console.warn(`Invalid ${target} from LLM (attempt ${attempt + 1}):`, issues);
+      messages = [
+        ...messages,
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your previous response is not valid ${target} JSON. Fix these problems and return the complete corrected JSON only, with no commentary:\n${formatIssues(issues)}`
+        }
+      ];
     }
-  }
 
-  private parseQueryResponse(response: string): SQLQuery[] {
-    try {
-      const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) ||
-                       response.match(/```\s*([\s\S]*?)\s*```/) ||
-                       [null, response];
-
-      const jsonString = jsonMatch[1] || response;
-      const queries = JSON.parse(jsonString);
-
-      return queries.map((query: any, index: number) => ({
-        id: query.id || `query_${Date.now()}_${index}`,
-        query: query.query,
-        description: query.description,
-        category: query.category || 'SELECT',
-        timestamp: new Date()
-      }));
-    } catch (error) {
-      console.error('Error parsing query response:', error);
-      throw new Error('Invalid query response format');
-    }
+    throw new LLMResponseValidationError(target, issues, MAX_REPAIR_ATTEMPTS + 1);
   }
 
-  private parseTestScenarioResponse(response: string): TestScenario[] {
-    try {
-      const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) ||
-                       response.match(/```\s*([\s\S]*?)\s*```/) ||
-                       [null, response];
+  private extractJson(response: string): ValidationResult<unknown> {
+    // Extract JSON from response (handle markdown code blocks)
+    const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) ||
+                     response.match(/```\s*([\s\S]*?)\s*```/) ||
+                     [null, response];
 
-      const jsonString = jsonMatch[1] || response;
-      return JSON.parse(jsonString);
+    const jsonString = jsonMatch[1] || response;
+    try {
+      return { ok: true, value: JSON.parse(jsonString) };
     } catch (error) {
-      console.error('Error parsing test scenario response:', error);
-      throw new Error('Invalid test scenario response format');
+      return {
+        ok: false,
+        issues: [{ path: '$', message: `is not valid JSON (${error instanceof Error ? error.message : String(error)})` }]
+      };
     }
   }
 }
@@ -0,0 +1,229 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import wasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import type { ParsedKnowledge, TableSpecification } from './GroqService';
+
+export interface QueryResult {
+  columns: string[];
+  rows: SqlValue[][];
+  /** Rows returned by the last statement, or rows changed when it returned none. */
+  rowCount: number;
+  durationMs: number;
+  /** True when the last statement was DML and `rowCount` counts changed rows. */
+  isMutation: boolean;
+}
+
+export class SqlExecutionError extends Error {
+  constructor(message: string, public readonly durationMs: number) {
+    super(message);
+    this.name = 'SqlExecutionError';
+  }
+}
+
+export const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+/** Splits `schema.table` so schema-qualified names can live in attached databases. */
+export const splitTableName = (tableName: string): { schema?: string; table: string } => {
+  const parts = tableName.split('.');
+  return parts.length > 1
+    ? { schema: parts.slice(0, -1).join('_'), table: parts[parts.length - 1] }
+    : { table: tableName };
+};
+
+export const qualifiedName = (tableName: string): string => {
+  const { schema, table } = splitTableName(tableName);
+  return schema ? `${quoteIdentifier(schema)}.${quoteIdentifier(table)}` : quoteIdentifier(table);
+};
+
+// SQLite accepts almost any type name but not arbitrary text inside the
+// parentheses, e.g. Oracle's VARCHAR2(100 CHAR).
+const sqliteType = (dataType: string): string => {
+  const match = dataType.trim().match(/^[A-Za-z_]\w*(\s+[A-Za-z_]\w*)*(\s*\(\s*[+-]?\d+\s*(,\s*[+-]?\d+\s*)?\))?/);
+  return match ? match[0].trim() : 'TEXT';
+};
+
+export interface TableColumn {
+  name: string;
+  dataType: string;
+}
+
+const columnDefinition = (column: TableColumn): string =>
+  `${quoteIdentifier(column.name)} ${sqliteType(column.dataType)}`;
+
+/**
+ * SQLite (compiled to WebAssembly) running entirely in the browser. Tables are
+ * created from the knowledge base so generated queries can be tried out
+ * without a database server.
+ */
+class SqlEngine {
+  private sqlPromise: Promise<SqlJsStatic> | null = null;
+  private db: Database | null = null;
+  private schemas = new Set<string>();
+
+  private async getDatabase(): Promise<Database> {
+    if (!this.sqlPromise) {
+      this.sqlPromise = initSqlJs({ locateFile: () => wasmUrl });
+    }
+    const SQL = await this.sqlPromise;
+    if (!this.db) {
+      this.db = new SQL.Database();
+    }
+    return this.db;
+  }
+
+  /**
+   * Creates any table in the knowledge base that does not exist yet. Only
+   * columns and their declared types are created: constraints are left out on
+   * purpose so data that violates them can still be loaded and then found by
+   * validation queries.
+   */
+  async ensureSchema(knowledge: ParsedKnowledge): Promise<void> {
+    const db = await this.getDatabase();
+    knowledge.tableSpecifications.forEach(table => this.createTable(db, table));
+  }
+
+  /**
+   * Runs one or more statements and returns the last result set. With
+   * `rollback`, every change the statements make is undone afterwards, so
+   * test queries cannot alter the loaded data.
+   */
+  async execute(sql: string, options: { rollback?: boolean } = {}): Promise<QueryResult> {
+    const db = await this.getDatabase();
+    if (options.rollback) db.exec('SAVEPOINT isolated_run');
+    const started = performance.now();
+    try {
+      // Statements are prepared one by one: a statement with result columns is
+      // a query even when it returns no rows, which `exec` cannot tell apart
+      // from a write.
+      let last: { columns: string[]; rows: SqlValue[][] } | null = null;
+      let changed = 0;
+      for (const statement of db.iterateStatements(sql)) {
+        try {
+          const columns = statement.getColumnNames();
+          const before = this.totalChanges(db);
+          const rows: SqlValue[][] = [];
+          while (statement.step()) rows.push(statement.get());
+          if (columns.length > 0) {
+            last = { columns, rows };
+          } else {
+            changed = this.totalChanges(db) - before;
+          }
+        } finally {
+          statement.free();
+        }
+      }
+      const durationMs = performance.now() - started;
+      if (last) {
+        return { columns: last.columns, rows: last.rows, rowCount: last.rows.length, durationMs, isMutation: false };
+      }
+      return { columns: [], rows: [], rowCount: changed, durationMs, isMutation: true };
+    } catch (error) {
+      throw new SqlExecutionError(
+        error instanceof Error ? error.message : String(error),
+        performance.now() - started
+      );
+    } finally {
+      if (options.rollback) db.exec('ROLLBACK TO isolated_run; RELEASE isolated_run');
+    }
+  }
+
+  // Rows changed since the database was opened; unlike getRowsModified() it
+  // is not left over from an earlier write when a statement changes nothing.
+  private totalChanges(db: Database): number {
+    return Number(db.exec('SELECT total_changes()')[0].values[0][0]);
+  }
+
+  /**
+   * Replaces the table with the given columns and rows, inside one
+   * transaction. Returns the number of rows loaded.
+   */
+  async loadTable(tableName: string, columns: TableColumn[], rows: SqlValue[][]): Promise<number> {
+    const db = await this.getDatabase();
+    if (columns.length === 0) {
+      throw new SqlExecutionError(`${tableName} has no columns to load`, 0);
+    }
+
+    const name = qualifiedName(tableName);
+    const placeholders = columns.map(() => '?').join(', ');
+    this.attachSchema(db, tableName);
+    db.run('BEGIN');
+    try {
+      db.run(`DROP TABLE IF EXISTS ${name}`);
+      db.run(`CREATE TABLE ${name} (${columns.map(columnDefinition).join(', ')})`);
+      const insert = db.prepare(`INSERT INTO ${name} VALUES (${placeholders})`);
+      try {
+        rows.forEach(row => insert.run(row));
+      } finally {
+        insert.free();
+      }
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw new SqlExecutionError(error instanceof Error ? error.message : String(error), 0);
+    }
+    return rows.length;
+  }
+
+  /** Discards every table, e.g. when another project is opened. */
+  reset(): void {
+    this.db?.close();
+    this.db = null;
+    this.schemas.clear();
+  }
+
+  async dropTable(tableName: string): Promise<void> {
+    const db = await this.getDatabase();
+    if (this.existingColumns(db, tableName) !== null) {
+      db.run(`DROP TABLE ${qualifiedName(tableName)}`);
+    }
+  }
+
+  // SQLite resolves `schema.table` against attached databases, and still
+  // finds the table by its bare name when the query leaves the schema out.
+  private attachSchema(db: Database, tableName: string): void {
+    const { schema } = splitTableName(tableName);
+    if (schema && !this.schemas.has(schema)) {
+      db.run(`ATTACH DATABASE ':memory:' AS ${quoteIdentifier(schema)}`);
+      this.schemas.add(schema);
+    }
+  }
+
+  private createTable(db: Database, table: TableSpecification): void {
+    this.attachSchema(db, table.tableName);
+
+    const name = qualifiedName(table.tableName);
+    const columns = table.columns.map(columnDefinition);
+    if (columns.length === 0) return;
+
+    const existing = this.existingColumns(db, table.tableName);
+    if (existing === null) {
+      db.run(`CREATE TABLE ${name} (${columns.join(', ')})`);
+      return;
+    }
+    // The knowledge base may have gained columns since the table was created.
+    table.columns.forEach((column, index) => {
+      if (!existing.has(column.name.toLowerCase())) {
+        db.run(`ALTER TABLE ${name} ADD COLUMN ${columns[index]}`);
+      }
+    });
+  }
+
+  /** Column names of a table, in order, or null if it does not exist. */
+  async columnsOf(tableName: string): Promise<string[] | null> {
+    return this.tableColumns(await this.getDatabase(), tableName);
+  }
+
+  private tableColumns(db: Database, tableName: string): string[] | null {
+    const { schema, table } = splitTableName(tableName);
+    const pragma = `PRAGMA ${schema ? `${quoteIdentifier(schema)}.` : ''}table_info(${quoteIdentifier(table)})`;
+    const [result] = db.exec(pragma);
+    return result ? result.values.map(row => String(row[1])) : null;
+  }
+
+  /** Lower-cased column names of an existing table, or null if it does not exist. */
+  private existingColumns(db: Database, tableName: string): Set<string> | null {
+    const columns = this.tableColumns(db, tableName);
+    return columns && new Set(columns.map(column => column.toLowerCase()));
+  }
+}
+
+export default new SqlEngine();
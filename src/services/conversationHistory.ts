@@ -0,0 +1,35 @@
+import type { ChatMessage } from './providers';
+import { estimateTokens } from './workbookChunker';
+
+// Hard cap on replayed turns, independent of the token budget, so a long
+// session of tiny messages does not drown the knowledge base context.
+export const MAX_HISTORY_MESSAGES = 20;
+
+export interface TrimmedHistory {
+  /** Most recent messages that fit the budget, oldest first. */
+  kept: ChatMessage[];
+  /** Older messages that did not fit, oldest first. */
+  dropped: ChatMessage[];
+}
+
+const messageTokens = (message: ChatMessage) => estimateTokens(message.content) + 4;
+
+/** Splits history into the newest turns that fit `tokenBudget` and the rest. */
+export const trimHistory = (history: ChatMessage[], tokenBudget: number): TrimmedHistory => {
+  let used = 0;
+  let start = history.length;
+
+  while (start > 0 && history.length - start < MAX_HISTORY_MESSAGES) {
+    const tokens = messageTokens(history[start - 1]);
+    if (used + tokens > tokenBudget) break;
+    used += tokens;
+    start--;
+  }
+
+  // Never open the replayed history with an assistant turn that lost its question.
+  while (start < history.length && history[start].role === 'assistant') {
+    start++;
+  }
+
+  return { kept: history.slice(start), dropped: history.slice(0, start) };
+};
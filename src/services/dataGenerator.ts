@@ -0,0 +1,802 @@
+import * as XLSX from 'xlsx';
+import type { SqlValue } from 'sql.js';
+import type { ColumnDefinition, ParsedKnowledge, TableSpecification } from './GroqService';
+import { foreignKeysOf, formatIdentifier, formatTableName, orderTablesByDependencies } from './ddlGenerator';
+import { inferColumnType, LoadedSheet, normalizeIdentifier } from './dataLoader';
+import { cleanCondition, compileRule } from './ruleValidator';
+import { typeCategory } from './sqlChecker';
+import type { SqlDialect } from './sqlDialect';
+import { Expression, parseSqlExpression, SqlSyntaxError } from './sqlParser';
+
+export interface GeneratorOptions {
+  rowsPerTable: number;
+  /** Appends rows with boundary values, NULLs, duplicate keys and orphan foreign keys. */
+  edgeCases: boolean;
+  /** The same seed and knowledge base always give the same data. */
+  seed: number;
+}
+
+export type EdgeCaseKind = 'boundary' | 'null' | 'duplicate' | 'orphan';
+
+export interface EdgeCase {
+  kind: EdgeCaseKind;
+  /** Index into the table's `rows`. */
+  row: number;
+  columns: string[];
+  description: string;
+  /** True when the row deliberately breaks a constraint or rule. */
+  violates: boolean;
+}
+
+export interface GeneratedTable {
+  tableName: string;
+  columns: { name: string; dataType: string }[];
+  rows: SqlValue[][];
+  edgeCases: EdgeCase[];
+  /** Constraints and rules the generator could not honour. */
+  warnings: string[];
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = { rowsPerTable: 50, edgeCases: false, seed: 1 };
+
+type ValueKind = 'integer' | 'decimal' | 'date' | 'timestamp' | 'time' | 'boolean' | 'text';
+
+interface ColumnPlan {
+  column: ColumnDefinition;
+  index: number;
+  kind: ValueKind;
+  /** Digits after the decimal point, for decimals. */
+  scale: number;
+  /** Maximum length, for text. */
+  length?: number;
+  /** Inclusive range; days since 1970-01-01 for dates and timestamps. */
+  min: number;
+  max: number;
+  /** The condition that set each bound, when a rule did rather than the type. */
+  minSource?: string;
+  maxSource?: string;
+  values?: SqlValue[];
+  excluded: SqlValue[];
+  prefix?: string;
+  unique: boolean;
+  isKey: boolean;
+  /** Values a unique column has handed out so far. */
+  used: Set<SqlValue>;
+}
+
+/** `left operator right` between two columns of the same row, e.g. start_date <= end_date. */
+interface Ordering {
+  left: ColumnPlan;
+  operator: string;
+  right: ColumnPlan;
+}
+
+type ForeignKey = ReturnType<typeof foreignKeysOf>[number];
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const bareName = (tableName: string) => tableName.split('.').pop() || tableName;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDays = (text: string): number | undefined => {
+  const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS : undefined;
+};
+
+const fromDays = (days: number) => new Date(Math.round(days) * DAY_MS).toISOString().slice(0, 10);
+
+// mulberry32: small, fast and good enough to make test data reproducible
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+  return {
+    next,
+    int,
+    pick: <T>(items: T[]): T => items[int(0, items.length - 1)],
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth', 'Aiko', 'Carlos', 'Fatima', 'Wei', 'Priya', 'Olga'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Tanaka', 'Kowalski', 'Nguyen', 'Okafor', 'Silva', 'Patel', 'Müller', "O'Brien"];
+const CITIES = ['London', 'New York', 'Tokyo', 'Berlin', 'Paris', 'Sydney', 'Toronto', 'Singapore', 'Madrid', 'Mumbai'];
+const COUNTRIES = ['United Kingdom', 'United States', 'Japan', 'Germany', 'France', 'Australia', 'Canada', 'Singapore', 'Spain', 'India'];
+const STREETS = ['High Street', 'Main Street', 'Station Road', 'Park Avenue', 'Church Lane', 'Market Square'];
+const COMPANIES = ['Acme', 'Globex', 'Initech', 'Umbrella', 'Stark', 'Wayne', 'Hooli', 'Vandelay'];
+const PRODUCTS = ['Widget', 'Gadget', 'Sprocket', 'Gizmo', 'Bracket', 'Adapter', 'Cable', 'Valve'];
+const STATUSES = ['ACTIVE', 'INACTIVE', 'PENDING', 'CLOSED'];
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY'];
+const WORDS = ['standard', 'priority', 'review', 'monthly', 'regional', 'account', 'transfer', 'adjustment', 'order', 'service'];
+
+/** A plausible value for a text column, judged by its name. */
+const textValue = (name: string, random: Random, row: number): string => {
+  const column = name.toLowerCase();
+  if (/e_?mail/.test(column)) {
+    return `${random.pick(FIRST_NAMES).toLowerCase()}.${random.pick(LAST_NAMES).toLowerCase().replace(/[^a-z]/g, '')}${row + 1}@example.com`;
+  }
+  if (/first_?name|given_?name|forename/.test(column)) return random.pick(FIRST_NAMES);
+  if (/last_?name|surname|family_?name/.test(column)) return random.pick(LAST_NAMES);
+  if (/(company|supplier|vendor|organi[sz]ation|employer)/.test(column)) return `${random.pick(COMPANIES)} ${random.pick(['Ltd', 'Inc', 'GmbH', 'Corp'])}`;
+  if (/(product|item)/.test(column)) return `${random.pick(PRODUCTS)} ${random.int(100, 999)}`;
+  if (/name/.test(column)) return `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+  if (/(phone|mobile|fax)/.test(column)) return `+1-555-${String(random.int(0, 9999)).padStart(4, '0')}`;
+  if (/city|town/.test(column)) return random.pick(CITIES);
+  if (/country/.test(column)) return random.pick(COUNTRIES);
+  if (/(address|street)/.test(column)) return `${random.int(1, 250)} ${random.pick(STREETS)}`;
+  if (/(post_?code|zip)/.test(column)) return String(random.int(10000, 99999));
+  if (/currency/.test(column)) return random.pick(CURRENCIES);
+  if (/(status|state)$/.test(column)) return random.pick(STATUSES);
+  if (/(code|ref|number|no)$/.test(column)) return `${column.slice(0, 3).toUpperCase()}${String(random.int(0, 99999)).padStart(5, '0')}`;
+  if (/(description|comment|note|remark)/.test(column)) {
+    return `${random.pick(WORDS)} ${random.pick(WORDS)} ${random.pick(WORDS)}`.replace(/^\w/, letter => letter.toUpperCase());
+  }
+  return `${random.pick(WORDS)}_${random.int(1, 999)}`;
+};
+
+/** Ranges that look like real data for common column names. */
+const typicalRange = (plan: Pick<ColumnPlan, 'column' | 'kind'>): [number, number] => {
+  const column = plan.column.name.toLowerCase();
+  if (plan.kind === 'date' || plan.kind === 'timestamp') {
+    return /(birth|dob)/.test(column)
+      ? [toDays('1950-01-01')!, toDays('2005-12-31')!]
+      : [toDays('2020-01-01')!, toDays('2025-12-31')!];
+  }
+  if (plan.kind === 'time') return [0, 86399];
+  if (/(^|_)age$/.test(column)) return [18, 90];
+  if (/(year|yr)$/.test(column)) return [2015, 2026];
+  if (/(percent|pct|rate|ratio)/.test(column)) return [0, 100];
+  if (/(qty|quantity|count|units|number_of)/.test(column)) return [1, 100];
+  if (/(amount|amt|price|cost|total|salary|balance|fee|value|revenue)/.test(column)) return [1, 10000];
+  return [1, 1000];
+};
+
+/** Value kind, scale, length and the hard limits of a declared data type. */
+const typeLimits = (dataType: string): Pick<ColumnPlan, 'kind' | 'scale' | 'length'> & { min: number; max: number } => {
+  const type = dataType.trim().toUpperCase();
+  const [, precisionText, scaleText] = type.match(/\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/) ?? [];
+  const unbounded = { min: -1e9, max: 1e9 };
+
+  switch (typeCategory(type)) {
+    case 'boolean':
+      return { kind: 'boolean', scale: 0, min: 0, max: 1 };
+    case 'date':
+      if (/^DATE\b/.test(type)) return { kind: 'date', scale: 0, ...unbounded };
+      if (/^TIME\b/.test(type)) return { kind: 'time', scale: 0, min: 0, max: 86399 };
+      return { kind: 'timestamp', scale: 0, ...unbounded };
+    case 'numeric': {
+      if (/^TINYINT\b/.test(type)) return { kind: 'integer', scale: 0, min: 0, max: 255 };
+      if (/^SMALLINT\b/.test(type)) return { kind: 'integer', scale: 0, min: -32768, max: 32767 };
+      if (/^(INT|INTEGER|BIGINT|SERIAL|BIGSERIAL)\b/.test(type)) return { kind: 'integer', scale: 0, ...unbounded };
+      if (/^(NUMBER|NUMERIC|DECIMAL|DEC)\b/.test(type) && precisionText) {
+        const scale = Number(scaleText ?? 0);
+        const limit = 10 ** (Number(precisionText) - scale) - 10 ** -scale;
+        return { kind: scale === 0 ? 'integer' : 'decimal', scale, min: -limit, max: limit };
+      }
+      return { kind: 'decimal', scale: 2, ...unbounded };
+    }
+    default:
+      return { kind: 'text', scale: 0, length: precisionText ? Number(precisionText) : undefined, ...unbounded };
+  }
+};
+
+/** Smallest step between two values of the column: 1, 0.01, or a day. */
+const unit = (plan: ColumnPlan) => (plan.kind === 'decimal' ? 10 ** -plan.scale : 1);
+
+const formatValue = (plan: ColumnPlan, value: number): SqlValue => {
+  switch (plan.kind) {
+    case 'date':
+      return fromDays(value);
+    case 'timestamp': {
+      const seconds = Math.round((value - Math.floor(value)) * 86400);
+      return `${fromDays(Math.floor(value))} ${new Date(seconds * 1000).toISOString().slice(11, 19)}`;
+    }
+    case 'time':
+      return new Date(Math.round(value) * 1000).toISOString().slice(11, 19);
+    case 'decimal':
+      return Number(value.toFixed(plan.scale));
+    default:
+      return Math.round(value);
+  }
+};
+
+/** A constant in a condition, as a number for numeric and date columns. */
+const constantValue = (expression: Expression, plan: ColumnPlan): number | string | undefined => {
+  if (expression.kind === 'unary' && expression.operator === '-') {
+    const value = constantValue(expression.operand, plan);
+    return typeof value === 'number' ? -value : undefined;
+  }
+  if (expression.kind !== 'literal') return undefined;
+  if (plan.kind === 'date' || plan.kind === 'timestamp') {
+    return ['string', 'date'].includes(expression.type) ? toDays(expression.value) : undefined;
+  }
+  if (plan.kind === 'text') {
+    return expression.type === 'string' || expression.type === 'number' ? expression.value : undefined;
+  }
+  if (expression.type === 'boolean') return /^true$/i.test(expression.value) ? 1 : 0;
+  const number = Number(expression.value);
+  return ['number', 'string'].includes(expression.type) && !Number.isNaN(number) ? number : undefined;
+};
+
+const FLIPPED: Record<string, string> = { '<': '>', '>': '<', '<=': '>=', '>=': '<=', '=': '=', '<>': '<>', '!=': '!=' };
+
+/**
+ * Narrows column plans with the parts of a condition the generator
+ * understands: comparisons with constants, BETWEEN, IN, IS NOT NULL,
+ * LIKE 'prefix%' and comparisons between two columns, joined with AND.
+ * Returns the parts it could not use.
+ */
+const applyCondition = (
+  expression: Expression,
+  source: string,
+  plans: Map<string, ColumnPlan>,
+  orderings: Ordering[]
+): Expression[] => {
+  const planFor = (operand: Expression) =>
+    operand.kind === 'column' ? plans.get(operand.path[operand.path.length - 1].toLowerCase()) : undefined;
+  const text = source.slice(expression.start, expression.end);
+
+  const setMin = (plan: ColumnPlan, value: number, exclusive: boolean) => {
+    const min = exclusive ? value + unit(plan) : value;
+    if (plan.minSource === undefined || min > plan.min) Object.assign(plan, { min, minSource: text });
+  };
+  const setMax = (plan: ColumnPlan, value: number, exclusive: boolean) => {
+    const max = exclusive ? value - unit(plan) : value;
+    if (plan.maxSource === undefined || max < plan.max) Object.assign(plan, { max, maxSource: text });
+  };
+
+  switch (expression.kind) {
+    case 'binary': {
+      if (expression.operator === 'AND') {
+        return [
+          ...applyCondition(expression.left, source, plans, orderings),
+          ...applyCondition(expression.right, source, plans, orderings),
+        ];
+      }
+      if (!(expression.operator in FLIPPED)) return [expression];
+      const leftPlan = planFor(expression.left);
+      const rightPlan = planFor(expression.right);
+      if (leftPlan && rightPlan) {
+        orderings.push({ left: leftPlan, operator: expression.operator, right: rightPlan });
+        return [];
+      }
+      const plan = leftPlan ?? rightPlan;
+      const operator = leftPlan ? expression.operator : FLIPPED[expression.operator];
+      const value = plan && constantValue(leftPlan ? expression.right : expression.left, plan);
+      if (!plan || value === undefined) return [expression];
+
+      if (operator === '=') {
+        plan.values = [plan.kind === 'date' || plan.kind === 'timestamp' ? formatValue(plan, value as number) : value];
+      } else if (operator === '<>' || operator === '!=') {
+        plan.excluded.push(typeof value === 'number' && plan.kind !== 'text' ? formatValue(plan, value) : value);
+      } else if (typeof value !== 'number') {
+        return [expression];
+      } else if (operator.startsWith('>')) {
+        setMin(plan, value, operator === '>');
+      } else {
+        setMax(plan, value, operator === '<');
+      }
+      return [];
+    }
+
+    case 'between': {
+      const plan = planFor(expression.expression);
+      const low = plan && constantValue(expression.low, plan);
+      const high = plan && constantValue(expression.high, plan);
+      if (!plan || expression.negated || typeof low !== 'number' || typeof high !== 'number') return [expression];
+      setMin(plan, low, false);
+      setMax(plan, high, false);
+      return [];
+    }
+
+    case 'in': {
+      const plan = planFor(expression.expression);
+      const values = plan && expression.list.map(item => constantValue(item, plan));
+      if (!plan || !values || expression.query || values.some(value => value === undefined)) {
+        return [expression];
+      }
+      if (expression.negated) {
+        plan.excluded.push(...(values as SqlValue[]));
+      } else {
+        plan.values = values.map(value =>
+          typeof value === 'number' && (plan.kind === 'date' || plan.kind === 'timestamp') ? formatValue(plan, value) : value!
+        );
+      }
+      return [];
+    }
+
+    case 'isNull': {
+      // Regular rows never hold NULL, so IS NOT NULL needs nothing more
+      return planFor(expression.expression) && expression.negated ? [] : [expression];
+    }
+
+    case 'like': {
+      const plan = planFor(expression.expression);
+      const pattern = expression.pattern.kind === 'literal' ? expression.pattern.value : '';
+      const prefix = pattern.match(/^([^%_]*)%$/)?.[1];
+      if (!plan || expression.negated || prefix === undefined) return [expression];
+      plan.prefix = prefix;
+      return [];
+    }
+
+    default:
+      return [expression];
+  }
+};
+
+/** CHECK constraints of a table and the CHECK rules that apply to it. */
+const tableConditions = (table: TableSpecification, knowledge: ParsedKnowledge): { text: string; label: string }[] => [
+  ...table.constraints
+    .filter(constraint => constraint.type === 'CHECK' && constraint.expression)
+    .map(constraint => ({ text: constraint.expression!, label: `CHECK ${constraint.name}` })),
+  ...knowledge.businessRules
+    .filter(rule => rule.validationType === 'CHECK' && !/^(SELECT|WITH)\b/i.test(cleanCondition(rule.sqlCondition)))
+    .filter(rule => sameName(compileRule(rule, knowledge).tableName ?? '', table.tableName))
+    .map(rule => ({ text: cleanCondition(rule.sqlCondition), label: rule.rule })),
+];
+
+const primaryKeyColumns = (table: TableSpecification): string[] => {
+  const constraint = table.constraints.find(entry => entry.type === 'PRIMARY_KEY');
+  return constraint?.columns.length
+    ? constraint.columns
+    : table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+};
+
+// A rule bound on one side only moves the typical range along with it
+const fitRange = (plan: ColumnPlan, warnings: string[]) => {
+  if (plan.min <= plan.max) return;
+  const [typicalMin, typicalMax] = typicalRange(plan);
+  if (plan.maxSource === undefined) plan.max = plan.min + typicalMax - typicalMin;
+  else if (plan.minSource === undefined) plan.min = plan.max - (typicalMax - typicalMin);
+  else warnings.push(`${plan.column.name} has no value that satisfies ${plan.minSource} and ${plan.maxSource}`);
+};
+
+const planColumns = (table: TableSpecification, knowledge: ParsedKnowledge, warnings: string[]) => {
+  const keyColumns = primaryKeyColumns(table);
+  const uniqueColumns = new Set([
+    ...(keyColumns.length === 1 ? keyColumns : []),
+    ...table.constraints
+      .filter(constraint => constraint.type === 'UNIQUE' && constraint.columns.length === 1)
+      .map(constraint => constraint.columns[0]),
+  ].map(name => name.toLowerCase()));
+
+  const plans = table.columns.map((column, index): ColumnPlan => {
+    const { min, max, ...limits } = typeLimits(column.dataType || 'VARCHAR(255)');
+    const [typicalMin, typicalMax] = typicalRange({ column, kind: limits.kind });
+    return {
+      column,
+      index,
+      ...limits,
+      min: Math.max(min, typicalMin),
+      max: Math.min(max, typicalMax),
+      excluded: [],
+      unique: uniqueColumns.has(column.name.toLowerCase()),
+      isKey: keyColumns.some(name => sameName(name, column.name)),
+      used: new Set(),
+    };
+  });
+
+  const byName = new Map(plans.map(plan => [plan.column.name.toLowerCase(), plan]));
+  const orderings: Ordering[] = [];
+  tableConditions(table, knowledge).forEach(condition => {
+    try {
+      const unused = applyCondition(parseSqlExpression(condition.text), condition.text, byName, orderings);
+      unused.forEach(part => {
+        warnings.push(`Not enforced (${condition.label}): ${condition.text.slice(part.start, part.end)}`);
+      });
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error;
+      warnings.push(`Could not read ${condition.label}: ${error.message}`);
+    }
+  });
+
+  plans.forEach(plan => fitRange(plan, warnings));
+
+  // Values are swapped to satisfy a <= b, so both must fit the range they share
+  orderings.forEach(({ left, operator, right }) => {
+    const [low, high] = operator.startsWith('<') ? [left, right] : operator.startsWith('>') ? [right, left] : [];
+    if (!low || !high) return;
+    high.min = Math.max(high.min, low.min);
+    low.max = Math.min(low.max, high.max);
+  });
+  plans.forEach(plan => fitRange(plan, warnings));
+
+  return { plans, orderings, keyColumns };
+};
+
+const fitLength = (plan: ColumnPlan, text: string) => (plan.length ? text.slice(0, plan.length) : text);
+
+const randomValue = (plan: ColumnPlan, random: Random, row: number): SqlValue => {
+  if (plan.values?.length) return random.pick(plan.values);
+  for (let attempt = 0; attempt < 20; attempt++) {
+    let value: SqlValue;
+    if (plan.kind === 'text') {
+      value = fitLength(plan, (plan.prefix ?? '') + textValue(plan.column.name, random, row));
+    } else if (plan.kind === 'boolean') {
+      value = random.int(0, 1);
+    } else if (plan.kind === 'decimal') {
+      value = formatValue(plan, plan.min + random.next() * (plan.max - plan.min));
+    } else if (plan.kind === 'timestamp') {
+      value = formatValue(plan, random.int(plan.min, plan.max) + random.int(0, 86399) / 86400);
+    } else {
+      value = formatValue(plan, random.int(Math.ceil(plan.min), Math.floor(plan.max)));
+    }
+    if (!plan.excluded.includes(value)) return value;
+  }
+  return null;
+};
+
+/**
+ * The row-th distinct value of a unique column. Text keys and codes are
+ * numbered; other text, such as an email address, is made unique with a
+ * suffix when it repeats.
+ */
+const uniqueValue = (plan: ColumnPlan, table: TableSpecification, row: number, random: Random): SqlValue => {
+  if (plan.values?.length) return plan.values[row % plan.values.length];
+  switch (plan.kind) {
+    case 'text': {
+      if (plan.isKey || /(^id|_id|code|key)$/i.test(plan.column.name)) {
+        const prefix = plan.prefix ?? bareName(table.tableName).replace(/[^A-Za-z]/g, '').slice(0, 3).toUpperCase();
+        return fitLength(plan, `${prefix}${String(row + 1).padStart(5, '0')}`);
+      }
+      let value = randomValue(plan, random, row);
+      if (value === null || plan.used.has(value)) value = fitLength(plan, `${value ?? plan.column.name}_${row + 1}`);
+      plan.used.add(value);
+      return value;
+    }
+    case 'boolean':
+      return row % 2;
+    default:
+      return formatValue(plan, Math.ceil(plan.min) + row * unit(plan));
+  }
+};
+
+const compareValues = (left: SqlValue, operator: string, right: SqlValue) => {
+  if (left === null || right === null) return true;
+  switch (operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '=': return left === right;
+    default: return left !== right;
+  }
+};
+
+/** Swaps or shifts values until column-to-column comparisons hold. */
+const applyOrderings = (row: SqlValue[], orderings: Ordering[]) => {
+  orderings.forEach(({ left, operator, right }) => {
+    if (compareValues(row[left.index], operator, row[right.index])) return;
+    if (operator === '=') {
+      row[right.index] = row[left.index];
+      return;
+    }
+    if (operator !== '<>' && operator !== '!=' && row[left.index] !== row[right.index]) {
+      [row[left.index], row[right.index]] = [row[right.index], row[left.index]];
+      return;
+    }
+    // Equal values under a strict comparison: move the right side one step
+    const value = row[right.index];
+    const step = operator.startsWith('<') || operator === '<>' || operator === '!=' ? 1 : -1;
+    if (typeof value === 'number') row[right.index] = formatValue(right, value + step * unit(right));
+    else if (typeof value === 'string' && toDays(value) !== undefined) {
+      row[right.index] = formatValue(right, toDays(value)! + step) + value.slice(10);
+    }
+  });
+};
+
+/** Columns a foreign key points at: the named ones, or the referenced table's primary key. */
+const referencedColumns = (key: ForeignKey, parent: TableSpecification) =>
+  (key.referencedColumns.length > 0 ? key.referencedColumns : primaryKeyColumns(parent))
+    .map(name => parent.columns.findIndex(column => sameName(column.name, name)));
+
+const findTable = (tables: GeneratedTable[], name: string) =>
+  tables.find(table => sameName(table.tableName, name)) ??
+  tables.find(table => sameName(bareName(table.tableName), bareName(name)));
+
+/** Values well outside anything the referenced column holds. */
+const orphanValue = (plan: ColumnPlan, row: number): SqlValue =>
+  plan.kind === 'text' ? fitLength(plan, `ORPHAN${row + 1}`) : plan.kind === 'date' ? '1900-01-01' : -999000 - row;
+
+const boundaryEdgeCases = (plans: ColumnPlan[], base: SqlValue[]) => {
+  const cases: { row: SqlValue[]; edge: Omit<EdgeCase, 'row'> }[] = [];
+  const add = (plan: ColumnPlan, value: SqlValue, description: string, violates: boolean) => {
+    const row = [...base];
+    row[plan.index] = value;
+    cases.push({ row, edge: { kind: 'boundary', columns: [plan.column.name], description, violates } });
+  };
+
+  plans.filter(plan => !plan.isKey && !plan.values).forEach(plan => {
+    if (plan.kind === 'text') {
+      if (plan.length) add(plan, (plan.prefix ?? '').padEnd(plan.length, 'X'), `${plan.column.name} at its maximum length of ${plan.length}`, false);
+      return;
+    }
+    if (plan.kind === 'boolean' || plan.kind === 'time') return;
+    if (plan.minSource !== undefined) {
+      add(plan, formatValue(plan, plan.min), `${plan.column.name} at the lower bound of ${plan.minSource}`, false);
+      add(plan, formatValue(plan, plan.min - unit(plan)), `${plan.column.name} just below the lower bound of ${plan.minSource}`, true);
+    }
+    if (plan.maxSource !== undefined) {
+      add(plan, formatValue(plan, plan.max), `${plan.column.name} at the upper bound of ${plan.maxSource}`, false);
+      add(plan, formatValue(plan, plan.max + unit(plan)), `${plan.column.name} just above the upper bound of ${plan.maxSource}`, true);
+    }
+  });
+  return cases;
+};
+
+const generateTable = (
+  table: TableSpecification,
+  knowledge: ParsedKnowledge,
+  generated: GeneratedTable[],
+  options: GeneratorOptions,
+  random: Random
+): GeneratedTable => {
+  const warnings: string[] = [];
+  const { plans, orderings, keyColumns } = planColumns(table, knowledge, warnings);
+  const keyPlans = plans.filter(plan => plan.isKey);
+
+  // Each foreign key draws whole rows from the referenced table's valid rows
+  const foreignKeys = foreignKeysOf(table, knowledge).flatMap(key => {
+    const parent = findTable(generated, key.referencedTable);
+    const columns = key.columns.map(name => plans.find(plan => sameName(plan.column.name, name)));
+    if (columns.some(plan => plan === undefined)) {
+      warnings.push(`Foreign key ${key.name} names a column ${table.tableName} does not have`);
+      return [];
+    }
+    if (!parent) {
+      const inModel = knowledge.tableSpecifications.some(spec => sameName(spec.tableName, key.referencedTable));
+      warnings.push(inModel
+        ? `${key.referencedTable} is on a foreign-key cycle with ${table.tableName}; ${key.columns.join(', ')} ${columns.every(plan => plan!.column.isNullable) ? 'left NULL' : 'not matched to it'}`
+        : `${key.referencedTable} is not in the knowledge base; ${key.columns.join(', ')} not matched to it`);
+      return inModel && columns.every(plan => plan!.column.isNullable) ? [{ plans: columns as ColumnPlan[], parentRows: [], sources: [] }] : [];
+    }
+    const spec = knowledge.tableSpecifications.find(entry => sameName(entry.tableName, parent.tableName))!;
+    const sources = referencedColumns(key, spec);
+    if (sources.length !== columns.length || sources.some(index => index < 0)) {
+      warnings.push(`Foreign key ${key.name} does not match the columns of ${parent.tableName}`);
+      return [];
+    }
+    const parentRows = parent.rows.filter((_, index) => !parent.edgeCases.some(edge => edge.row === index));
+    return [{ plans: columns as ColumnPlan[], parentRows, sources }];
+  });
+  const foreignKeyColumns = new Set(foreignKeys.flatMap(key => key.plans));
+
+  const rows: SqlValue[][] = [];
+  const seenKeys = new Set<string>();
+  for (let index = 0; rows.length < options.rowsPerTable && index < options.rowsPerTable * 5; index++) {
+    const rowIndex = rows.length;
+    const row = plans.map(plan => {
+      if (foreignKeyColumns.has(plan)) return null;
+      return plan.unique ? uniqueValue(plan, table, rowIndex, random) : randomValue(plan, random, rowIndex);
+    });
+    foreignKeys.forEach(key => {
+      if (key.parentRows.length === 0) return;
+      const isUnique = key.plans.length === 1 && key.plans[0].unique;
+      const parentRow = isUnique ? key.parentRows[rowIndex] : random.pick(key.parentRows);
+      key.plans.forEach((plan, position) => {
+        row[plan.index] = parentRow ? parentRow[key.sources[position]] : null;
+      });
+    });
+    applyOrderings(row, orderings);
+
+    // Composite keys: skip the row if its combination was already used
+    if (keyPlans.length > 1) {
+      const key = JSON.stringify(keyPlans.map(plan => row[plan.index]));
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+    }
+    rows.push(row);
+  }
+  if (rows.length < options.rowsPerTable) {
+    warnings.push(`Only ${rows.length} distinct ${keyColumns.join(', ')} combinations could be made`);
+  }
+  plans.filter(plan => plan.unique && (plan.kind === 'boolean' || plan.values)).forEach(plan => {
+    const distinct = plan.kind === 'boolean' ? 2 : plan.values!.length;
+    if (rows.length > distinct) warnings.push(`${plan.column.name} is unique but has only ${distinct} allowed values`);
+  });
+  plans.filter(plan => plan.unique && plan.kind !== 'text' && plan.kind !== 'boolean' && !plan.values).forEach(plan => {
+    if (Math.ceil(plan.min) + (rows.length - 1) * unit(plan) > plan.max) {
+      warnings.push(`${plan.column.name} runs past ${formatValue(plan, plan.max)} to stay unique`);
+    }
+  });
+
+  const edgeCases: EdgeCase[] = [];
+  if (options.edgeCases && rows.length > 0) {
+    const extra: { row: SqlValue[]; edge: Omit<EdgeCase, 'row'> }[] = [];
+    // Edge rows get fresh keys so only the edge itself is unusual
+    const freshKeys = (row: SqlValue[], offset: number, keep: string[] = []) => {
+      plans.filter(plan => plan.unique && !foreignKeyColumns.has(plan) && !keep.includes(plan.column.name)).forEach(plan => {
+        row[plan.index] = uniqueValue(plan, table, rows.length + offset, random);
+      });
+      const redrawn = keyPlans.filter(plan => !foreignKeyColumns.has(plan));
+      if (keyPlans.length > 1 && redrawn.length > 0) {
+        for (let attempt = 0; attempt < 20 && seenKeys.has(JSON.stringify(keyPlans.map(plan => row[plan.index]))); attempt++) {
+          redrawn.forEach(plan => {
+            row[plan.index] = randomValue(plan, random, rows.length + offset);
+          });
+        }
+        seenKeys.add(JSON.stringify(keyPlans.map(plan => row[plan.index])));
+      }
+      return row;
+    };
+    const base = () => freshKeys([...rows[0]], extra.length);
+
+    boundaryEdgeCases(plans, rows[0]).forEach(({ row, edge }) => {
+      extra.push({ row: freshKeys(row, extra.length, edge.columns), edge });
+    });
+
+    plans.filter(plan => !plan.isKey).forEach(plan => {
+      const row = base();
+      row[plan.index] = null;
+      extra.push({
+        row,
+        edge: {
+          kind: 'null',
+          columns: [plan.column.name],
+          description: plan.column.isNullable ? `${plan.column.name} is NULL` : `${plan.column.name} is NULL but declared NOT NULL`,
+          violates: !plan.column.isNullable,
+        },
+      });
+    });
+
+    if (keyColumns.length > 0) {
+      extra.push({
+        row: [...rows[0]],
+        edge: { kind: 'duplicate', columns: keyColumns, description: `Repeats the primary key of row 1`, violates: true },
+      });
+    }
+    table.constraints
+      .filter(constraint => constraint.type === 'UNIQUE')
+      .forEach(constraint => {
+        const row = base();
+        constraint.columns.forEach(name => {
+          const plan = plans.find(entry => sameName(entry.column.name, name));
+          if (plan) row[plan.index] = rows[0][plan.index];
+        });
+        extra.push({
+          row,
+          edge: { kind: 'duplicate', columns: constraint.columns, description: `Repeats ${constraint.name} of row 1`, violates: true },
+        });
+      });
+
+    foreignKeys.filter(key => key.parentRows.length > 0).forEach(key => {
+      const row = base();
+      key.plans.forEach(plan => {
+        row[plan.index] = orphanValue(plan, extra.length);
+      });
+      extra.push({
+        row,
+        edge: {
+          kind: 'orphan',
+          columns: key.plans.map(plan => plan.column.name),
+          description: `${key.plans.map(plan => plan.column.name).join(', ')} has no matching row in the referenced table`,
+          violates: true,
+        },
+      });
+    });
+
+    extra.forEach(({ row, edge }) => {
+      edgeCases.push({ ...edge, row: rows.length });
+      rows.push(row);
+    });
+  }
+
+  return {
+    tableName: table.tableName,
+    columns: table.columns.map(column => ({ name: column.name, dataType: column.dataType })),
+    rows,
+    edgeCases,
+    warnings,
+  };
+};
+
+/**
+ * Generates rows for every table in the knowledge base. Tables are filled in
+ * dependency order so foreign keys can take their values from rows already
+ * generated for the referenced table. Values follow the declared types, the
+ * primary and unique keys, and the CHECK constraints and rules that can be
+ * read as ranges, lists or comparisons; anything else is listed in the
+ * table's warnings. Regular rows never hold NULL: NULLs, like the other
+ * edge cases, are only added on request.
+ */
+export const generateDataset = (knowledge: ParsedKnowledge, options: GeneratorOptions): GeneratedTable[] => {
+  const random = createRandom(options.seed);
+  const generated: GeneratedTable[] = [];
+  orderTablesByDependencies(knowledge).tables.forEach(table => {
+    generated.push(generateTable(table, knowledge, generated, options, random));
+  });
+  return generated;
+};
+
+/** A valid sheet name for `tableName`, not yet in `used` (lower-cased), which it is added to. */
+export const sheetName = (tableName: string, used: Set<string>) => {
+  // Excel limits sheet names to 31 characters and forbids a few
+  const base = tableName.replace(/[\\/?*[\]:]/g, '_').slice(0, 31);
+  let name = base;
+  for (let count = 2; used.has(name.toLowerCase()); count++) {
+    name = `${base.slice(0, 31 - String(count).length - 1)}_${count}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+/** One sheet per table, plus an "Edge cases" sheet listing the deliberate oddities. */
+export const toWorkbook = (tables: GeneratedTable[]): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+  tables.forEach(table => {
+    const sheet = XLSX.utils.aoa_to_sheet([table.columns.map(column => column.name), ...table.rows]);
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName(table.tableName, used));
+  });
+
+  const edgeCases = tables.flatMap(table => table.edgeCases.map(edge => [
+    table.tableName, edge.row + 2, edge.kind, edge.columns.join(', '), edge.description, edge.violates ? 'yes' : 'no',
+  ]));
+  if (edgeCases.length > 0) {
+    const sheet = XLSX.utils.aoa_to_sheet([['Table', 'Sheet row', 'Kind', 'Columns', 'Description', 'Breaks a rule'], ...edgeCases]);
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName('Edge cases', used));
+  }
+  return workbook;
+};
+
+export const toCsv = (table: GeneratedTable): string =>
+  XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet([table.columns.map(column => column.name), ...table.rows]));
+
+const sqlLiteral = (value: SqlValue, dataType: string, dialect: SqlDialect): string => {
+  if (value === null) return 'NULL';
+  const category = typeCategory(dataType);
+  if (category === 'boolean' && typeof value === 'number') {
+    return dialect === 'postgresql' || dialect === 'snowflake' ? (value ? 'TRUE' : 'FALSE') : String(value);
+  }
+  if (typeof value === 'number') return String(value);
+  const text = `'${String(value).replace(/'/g, "''")}'`;
+  if (dialect === 'oracle' && category === 'date' && toDays(String(value)) !== undefined) {
+    return `${String(value).length > 10 ? 'TIMESTAMP' : 'DATE'} ${text}`;
+  }
+  return text;
+};
+
+/**
+ * INSERT statements for every table, in dependency order, one row per
+ * statement so the script runs on every supported dialect.
+ */
+export const generateInsertScript = (tables: GeneratedTable[], dialect: SqlDialect): string => {
+  const sections = tables.map(table => {
+    const columns = table.columns.map(column => formatIdentifier(column.name)).join(', ');
+    const lines = table.rows.map((row, index) => {
+      const edge = table.edgeCases.find(entry => entry.row === index);
+      const values = row.map((value, column) => sqlLiteral(value, table.columns[column].dataType, dialect)).join(', ');
+      const statement = `INSERT INTO ${formatTableName(table.tableName)} (${columns}) VALUES (${values});`;
+      return edge ? `-- Edge case (${edge.kind}): ${edge.description}\n${statement}` : statement;
+    });
+    return [`-- ${table.tableName}: ${table.rows.length} row${table.rows.length !== 1 ? 's' : ''}`, ...lines].join('\n');
+  });
+
+  return [
+    `-- Synthetic test data (${tables.length} table${tables.length !== 1 ? 's' : ''})`,
+    `-- Generated on ${new Date().toLocaleString()}`,
+    '',
+    sections.join('\n\n'),
+    '',
+  ].join('\n');
+};
+
+/** A generated table in the shape of an uploaded sheet, so it loads the same way. */
+export const toLoadedSheet = (table: GeneratedTable): LoadedSheet => ({
+  sheetName: table.tableName,
+  tableName: normalizeIdentifier(bareName(table.tableName)),
+  columns: table.columns.map((column, index) => ({
+    name: normalizeIdentifier(column.name),
+    sourceName: column.name,
+    type: inferColumnType(table.rows.map(row => row[index])),
+  })),
+  rows: table.rows,
+});
@@ -0,0 +1,201 @@
+import * as XLSX from 'xlsx';
+import type { WorkSheet } from 'xlsx';
+import type { SqlValue } from 'sql.js';
+import type { TableSpecification } from './GroqService';
+
+export type InferredType = 'INTEGER' | 'REAL' | 'BOOLEAN' | 'DATE' | 'TEXT';
+
+export interface LoadedColumn {
+  /** Normalised, SQL-safe column name. */
+  name: string;
+  /** Header text as it appeared in the file. */
+  sourceName: string;
+  type: InferredType;
+}
+
+export interface LoadedSheet {
+  sheetName: string;
+  /** Table name used when the sheet is not mapped to a specification. */
+  tableName: string;
+  columns: LoadedColumn[];
+  rows: SqlValue[][];
+}
+
+/** Columns and rows ready to be loaded into the query engine. */
+export interface MappedTable {
+  tableName: string;
+  columns: { name: string; dataType: string }[];
+  rows: SqlValue[][];
+  /** Sheet columns with no matching specification column; their data is not loaded. */
+  unmappedColumns: string[];
+  /** Specification columns the sheet does not provide; they are loaded as NULL. */
+  missingColumns: string[];
+}
+
+/** Lower-case snake_case: "Customer ID" and "CustomerId" both become customer_id. */
+export const normalizeIdentifier = (name: string): string => {
+  const normalized = name
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '');
+  return /^\d/.test(normalized) ? `_${normalized}` : normalized;
+};
+
+const uniqueNames = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map((name, index) => {
+    const base = name || `column_${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+// Leading zeros mark codes such as "007" that must stay text.
+const NUMERIC = /^[+-]?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+const BOOLEAN_TEXT = ['true', 'false', 'yes', 'no', 'y', 'n'];
+
+const isNumeric = (value: unknown) =>
+  typeof value === 'number' || (typeof value === 'string' && NUMERIC.test(value.trim()));
+
+const isDate = (value: unknown) =>
+  value instanceof Date || (typeof value === 'string' && ISO_DATE.test(value.trim()));
+
+const isBoolean = (value: unknown) =>
+  typeof value === 'boolean' || (typeof value === 'string' && BOOLEAN_TEXT.includes(value.trim().toLowerCase()));
+
+const isEmpty = (value: unknown) => value === null || value === undefined || (typeof value === 'string' && !value.trim());
+
+/** The narrowest type that fits every non-empty value; TEXT when a column has none. */
+export const inferColumnType = (values: unknown[]): InferredType => {
+  const present = values.filter(value => !isEmpty(value));
+  if (present.length === 0) return 'TEXT';
+  if (present.every(isBoolean) && present.some(value => typeof value === 'boolean' || !isNumeric(value))) {
+    return 'BOOLEAN';
+  }
+  if (present.every(isNumeric)) {
+    return present.every(value => Number.isInteger(Number(value))) ? 'INTEGER' : 'REAL';
+  }
+  if (present.every(isDate)) return 'DATE';
+  return 'TEXT';
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// SQLite has no date type; ISO-8601 text sorts and compares correctly and
+// works with its date functions.
+const formatDate = (date: Date): string => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const hasTime = date.getHours() || date.getMinutes() || date.getSeconds();
+  return hasTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` : day;
+};
+
+const toSqlValue = (value: unknown, type: InferredType): SqlValue => {
+  if (isEmpty(value)) return null;
+  switch (type) {
+    case 'INTEGER':
+    case 'REAL':
+      return Number(value);
+    case 'BOOLEAN':
+      return value === true || ['true', 'yes', 'y'].includes(String(value).trim().toLowerCase()) ? 1 : 0;
+    case 'DATE':
+      return value instanceof Date ? formatDate(value) : String(value).trim().replace('T', ' ');
+    default:
+      return value instanceof Date ? formatDate(value) : String(value);
+  }
+};
+
+const fileBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Rows searched for the header, which may sit below a title or notes.
+const HEADER_SEARCH_ROWS = 10;
+
+const filledCells = (row: unknown[]) => row.filter(value => !isEmpty(value)).length;
+
+/**
+ * Reads one sheet. The header is the first of the leading rows with the most
+ * filled cells, so a title above the table is skipped; every later non-empty
+ * row is data.
+ */
+export const readSheet = (sheet: WorkSheet, sheetName: string, tableName: string = sheetName): LoadedSheet | null => {
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null, blankrows: false });
+  let headerIndex = -1;
+  grid.slice(0, HEADER_SEARCH_ROWS).forEach((row, index) => {
+    if (filledCells(row) > (headerIndex < 0 ? 0 : filledCells(grid[headerIndex]))) headerIndex = index;
+  });
+  if (headerIndex < 0) return null;
+
+  const header = grid[headerIndex].map(value => (isEmpty(value) ? '' : String(value).trim()));
+  const body = grid.slice(headerIndex + 1).filter(row => row.some(value => !isEmpty(value)));
+  const width = body.reduce((max, row) => Math.max(max, row.length), header.length);
+
+  const names = uniqueNames(Array.from({ length: width }, (_, index) => normalizeIdentifier(header[index] || '')));
+  const columns: LoadedColumn[] = names.map((name, index) => ({
+    name,
+    sourceName: header[index] || name,
+    type: inferColumnType(body.map(row => row[index])),
+  }));
+  const rows = body.map(row => columns.map((column, index) => toSqlValue(row[index], column.type)));
+
+  return { sheetName, tableName: normalizeIdentifier(tableName) || 'sheet', columns, rows };
+};
+
+/**
+ * Parses an uploaded .xlsx, .xls or .csv file into one table per non-empty
+ * sheet. A CSV has a single sheet, which is named after the file.
+ */
+export const readSpreadsheet = (buffer: ArrayBuffer, fileName: string): LoadedSheet[] => {
+  const isCsv = /\.csv$/i.test(fileName);
+  // CSV values are kept as text so inference, not SheetJS, decides that "007" is not a number.
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true, raw: isCsv });
+
+  const sheets = workbook.SheetNames
+    .map(sheetName => readSheet(workbook.Sheets[sheetName], sheetName, isCsv ? fileBaseName(fileName) : sheetName))
+    .filter((sheet): sheet is LoadedSheet => sheet !== null);
+
+  const tableNames = uniqueNames(sheets.map(sheet => sheet.tableName));
+  return sheets.map((sheet, index) => ({ ...sheet, tableName: tableNames[index] }));
+};
+
+const bareTableName = (tableName: string) => normalizeIdentifier(tableName.split('.').pop() || tableName);
+
+/** The specification whose table name matches the sheet or file name, if any. */
+export const suggestSpecification = (
+  sheet: LoadedSheet,
+  specifications: TableSpecification[]
+): TableSpecification | undefined => {
+  const candidates = [sheet.tableName, normalizeIdentifier(sheet.sheetName)];
+  return specifications.find(spec => candidates.includes(bareTableName(spec.tableName)));
+};
+
+/** Loads a sheet as-is under its own table name, with the inferred column types. */
+export const asTable = (sheet: LoadedSheet): MappedTable => ({
+  tableName: sheet.tableName,
+  columns: sheet.columns.map(column => ({ name: column.name, dataType: column.type })),
+  rows: sheet.rows,
+  unmappedColumns: [],
+  missingColumns: [],
+});
+
+/**
+ * Reshapes a sheet to a table specification: columns are matched by
+ * normalised name and ordered as in the specification, and take its
+ * declared data types.
+ */
+export const mapToSpecification = (sheet: LoadedSheet, spec: TableSpecification): MappedTable => {
+  const sheetIndex = new Map(sheet.columns.map((column, index) => [column.name, index]));
+  const sourceIndexes = spec.columns.map(column => sheetIndex.get(normalizeIdentifier(column.name)));
+  const mapped = new Set(sourceIndexes.filter((index): index is number => index !== undefined));
+
+  return {
+    tableName: spec.tableName,
+    columns: spec.columns.map(column => ({ name: column.name, dataType: column.dataType })),
+    rows: sheet.rows.map(row => sourceIndexes.map(index => (index === undefined ? null : row[index]))),
+    unmappedColumns: sheet.columns.filter((_, index) => !mapped.has(index)).map(column => column.sourceName),
+    missingColumns: spec.columns.filter((_, index) => sourceIndexes[index] === undefined).map(column => column.name),
+  };
+};
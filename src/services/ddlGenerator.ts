@@ -0,0 +1,224 @@
+import type { ParsedKnowledge, TableSpecification } from './GroqService';
+
+interface ForeignKey {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface TableOrder {
+  /** Referenced tables come before the tables that reference them. */
+  tables: TableSpecification[];
+  /** Tables on a foreign-key cycle; their cyclic keys are added with ALTER TABLE afterwards. */
+  cyclicTables: string[];
+}
+
+const SIMPLE_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+
+// Names that are valid identifiers but reserved words in most databases.
+const RESERVED = new Set([
+  'all', 'and', 'as', 'by', 'case', 'check', 'column', 'constraint', 'create', 'date', 'default', 'delete',
+  'distinct', 'drop', 'else', 'end', 'from', 'group', 'having', 'in', 'index', 'insert', 'into', 'is', 'join',
+  'key', 'level', 'not', 'null', 'number', 'on', 'or', 'order', 'primary', 'references', 'select', 'set', 'size',
+  'table', 'then', 'to', 'union', 'unique', 'update', 'user', 'values', 'when', 'where', 'with',
+]);
+
+/** Leaves plain names bare so the script reads like hand-written DDL; quotes the rest. */
+export const formatIdentifier = (name: string): string =>
+  SIMPLE_IDENTIFIER.test(name) && !RESERVED.has(name.toLowerCase()) ? name : `"${name.replace(/"/g, '""')}"`;
+
+export const formatTableName = (tableName: string): string =>
+  tableName.split('.').map(formatIdentifier).join('.');
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const columnList = (columns: string[]) => columns.map(formatIdentifier).join(', ');
+
+const quoteLiteral = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+/** `schema.table(column, ...)` as written in FOREIGN_KEY constraints. */
+const parseReference = (reference: string): { table: string; columns: string[] } => {
+  const match = reference.trim().match(/^([^(]+?)\s*(?:\(([^)]*)\))?$/);
+  if (!match) return { table: reference.trim(), columns: [] };
+  const columns = (match[2] || '').split(',').map(column => column.trim().replace(/"/g, '')).filter(Boolean);
+  return { table: match[1].replace(/"/g, ''), columns };
+};
+
+const foreignKeyName = (tableName: string, columns: string[]) =>
+  ['fk', tableName.split('.').pop(), ...columns].join('_').replace(/[^A-Za-z0-9_]/g, '_');
+
+/**
+ * Foreign keys of a table, from its FOREIGN_KEY constraints and from any
+ * relationship in the model where it is the `toTable` (the "many" side, which
+ * holds the key). MANY_TO_MANY relationships need a link table and are skipped.
+ */
+export const foreignKeysOf = (table: TableSpecification, knowledge?: ParsedKnowledge): ForeignKey[] => {
+  const keys: ForeignKey[] = table.constraints
+    .filter(constraint => constraint.type === 'FOREIGN_KEY' && constraint.reference)
+    .map(constraint => {
+      const reference = parseReference(constraint.reference!);
+      return {
+        name: constraint.name,
+        columns: constraint.columns,
+        referencedTable: reference.table,
+        referencedColumns: reference.columns,
+      };
+    });
+
+  const relationships = knowledge
+    ? knowledge.tableSpecifications.flatMap(spec => spec.relationships)
+    : table.relationships;
+  relationships
+    .filter(rel => rel.type !== 'MANY_TO_MANY' && sameName(rel.toTable, table.tableName))
+    .forEach(rel => {
+      const covered = keys.some(key =>
+        key.columns.length === 1 && sameName(key.columns[0], rel.toColumn) && sameName(key.referencedTable, rel.fromTable)
+      );
+      if (!covered) {
+        keys.push({
+          name: foreignKeyName(table.tableName, [rel.toColumn]),
+          columns: [rel.toColumn],
+          referencedTable: rel.fromTable,
+          referencedColumns: [rel.fromColumn],
+        });
+      }
+    });
+
+  return keys;
+};
+
+/** Orders tables so that every table comes after the tables its foreign keys reference. */
+export const orderTablesByDependencies = (knowledge: ParsedKnowledge): TableOrder => {
+  const tables = knowledge.tableSpecifications;
+  const findTable = (name: string) => tables.find(table => sameName(table.tableName, name));
+  const dependencies = new Map(tables.map(table => [
+    table,
+    new Set(
+      foreignKeysOf(table, knowledge)
+        .map(key => findTable(key.referencedTable))
+        .filter((dependency): dependency is TableSpecification => dependency !== undefined && dependency !== table)
+    ),
+  ]));
+
+  const ordered: TableSpecification[] = [];
+  const remaining = [...tables];
+  while (remaining.length > 0) {
+    // Take the first table, in document order, whose dependencies are all placed.
+    const index = remaining.findIndex(table => [...dependencies.get(table)!].every(dep => ordered.includes(dep)));
+    if (index < 0) break;
+    ordered.push(...remaining.splice(index, 1));
+  }
+
+  return { tables: [...ordered, ...remaining], cyclicTables: remaining.map(table => table.tableName) };
+};
+
+const foreignKeyClause = (key: ForeignKey) => {
+  const referenced = key.referencedColumns.length > 0 ? ` (${columnList(key.referencedColumns)})` : '';
+  return `CONSTRAINT ${formatIdentifier(key.name)} FOREIGN KEY (${columnList(key.columns)}) ` +
+    `REFERENCES ${formatTableName(key.referencedTable)}${referenced}`;
+};
+
+const createTable = (table: TableSpecification, foreignKeys: ForeignKey[]): string => {
+  const lines = table.columns.map(column =>
+    `${formatIdentifier(column.name)} ${column.dataType || 'VARCHAR(255)'}${column.isNullable && !column.isPrimaryKey ? '' : ' NOT NULL'}`
+  );
+  const notes: string[] = [];
+
+  const primaryKey = table.constraints.find(constraint => constraint.type === 'PRIMARY_KEY');
+  const primaryKeyColumns = primaryKey?.columns.length
+    ? primaryKey.columns
+    : table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+  if (primaryKeyColumns.length > 0) {
+    const name = primaryKey?.name || `pk_${table.tableName.split('.').pop()}`;
+    lines.push(`CONSTRAINT ${formatIdentifier(name)} PRIMARY KEY (${columnList(primaryKeyColumns)})`);
+  }
+
+  table.constraints.forEach(constraint => {
+    if (constraint.type === 'UNIQUE') {
+      lines.push(`CONSTRAINT ${formatIdentifier(constraint.name)} UNIQUE (${columnList(constraint.columns)})`);
+    } else if (constraint.type === 'CHECK') {
+      if (constraint.expression) {
+        lines.push(`CONSTRAINT ${formatIdentifier(constraint.name)} CHECK (${constraint.expression})`);
+      } else {
+        notes.push(`-- CHECK ${constraint.name} on ${constraint.columns.join(', ')} has no expression and was left out`);
+      }
+    }
+  });
+
+  foreignKeys.forEach(key => lines.push(foreignKeyClause(key)));
+
+  return [
+    ...notes,
+    `CREATE TABLE ${formatTableName(table.tableName)} (`,
+    lines.map(line => `    ${line}`).join(',\n'),
+    ');',
+  ].join('\n');
+};
+
+const comments = (table: TableSpecification): string[] =>
+  table.columns
+    .filter(column => column.description?.trim())
+    .map(column =>
+      `COMMENT ON COLUMN ${formatTableName(table.tableName)}.${formatIdentifier(column.name)} IS ${quoteLiteral(column.description!.trim())};`
+    );
+
+const header = (title: string) => [
+  `-- ${title}`,
+  `-- Generated on ${new Date().toLocaleString()}`,
+  '',
+].join('\n');
+
+/**
+ * `CREATE TABLE` for one table with its constraints and column comments.
+ * Passing the whole model also picks up relationships recorded on other tables.
+ */
+export const generateTableDdl = (table: TableSpecification, knowledge?: ParsedKnowledge): string => {
+  const foreignKeys = foreignKeysOf(table, knowledge);
+  const dependsOn = [...new Set(foreignKeys.map(key => key.referencedTable))]
+    .filter(name => !sameName(name, table.tableName));
+
+  return [
+    header(`DDL for ${table.tableName}`),
+    ...(dependsOn.length > 0 ? [`-- Create first: ${dependsOn.join(', ')}`, ''] : []),
+    createTable(table, foreignKeys),
+    ...comments(table),
+    '',
+  ].join('\n');
+};
+
+/**
+ * One script for the whole model, with referenced tables created first.
+ * Foreign keys that close a cycle cannot be created inline, so they are
+ * added with ALTER TABLE once every table exists.
+ */
+export const generateSchemaDdl = (knowledge: ParsedKnowledge): string => {
+  const { tables, cyclicTables } = orderTablesByDependencies(knowledge);
+  const created: string[] = [];
+  const deferred: string[] = [];
+
+  const statements = tables.map(table => {
+    const isCyclic = cyclicTables.includes(table.tableName);
+    const inline: ForeignKey[] = [];
+    foreignKeysOf(table, knowledge).forEach(key => {
+      const referencedExists = sameName(key.referencedTable, table.tableName) ||
+        created.some(name => sameName(name, key.referencedTable)) ||
+        !knowledge.tableSpecifications.some(spec => sameName(spec.tableName, key.referencedTable));
+      if (isCyclic && !referencedExists) {
+        deferred.push(`ALTER TABLE ${formatTableName(table.tableName)} ADD ${foreignKeyClause(key)};`);
+      } else {
+        inline.push(key);
+      }
+    });
+    created.push(table.tableName);
+
+    return [createTable(table, inline), ...comments(table)].join('\n');
+  });
+
+  return [
+    header(`Schema DDL (${tables.length} table${tables.length !== 1 ? 's' : ''})`),
+    statements.join('\n\n'),
+    ...(deferred.length > 0 ? ['', '-- Foreign keys on a dependency cycle', ...deferred] : []),
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,12 @@
+/** Saves `content` as a file through the browser's download prompt. */
+export const downloadFile = (content: BlobPart, fileName: string, type: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
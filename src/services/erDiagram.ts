@@ -0,0 +1,274 @@
+import type { ParsedKnowledge, Relationship, TableSpecification } from './GroqService';
+import { foreignKeysOf, orderTablesByDependencies } from './ddlGenerator';
+
+/** A line between two tables, drawn from the referenced ("one") table to the one holding the key. */
+export interface DiagramEdge {
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string;
+  type: Relationship['type'];
+}
+
+export interface DiagramColumn {
+  name: string;
+  dataType: string;
+  isPrimaryKey: boolean;
+  isForeignKey: boolean;
+  isNullable: boolean;
+}
+
+export interface DiagramNode {
+  tableName: string;
+  columns: DiagramColumn[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiagramLayout {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  width: number;
+  height: number;
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export const HEADER_HEIGHT = 32;
+export const ROW_HEIGHT = 22;
+const MIN_NODE_WIDTH = 180;
+// Rough width of a character of the 12px diagram font
+const CHAR_WIDTH = 7;
+const LAYER_GAP = 100;
+const NODE_GAP = 40;
+const MARGIN = 20;
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const findTable = (name: string, tables: TableSpecification[]) =>
+  tables.find(table => sameName(table.tableName, name)) ??
+  tables.find(table => sameName(table.tableName.split('.').pop()!, name.split('.').pop()!));
+
+const primaryKeyOf = (table: TableSpecification): string[] => {
+  const columns = table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+  return columns.length > 0
+    ? columns
+    : table.constraints.find(constraint => constraint.type === 'PRIMARY_KEY')?.columns ?? [];
+};
+
+/**
+ * Every relationship between tables of the knowledge base, from the
+ * relationships it lists and from FOREIGN_KEY constraints no relationship
+ * already covers. Table names are the ones in the knowledge base.
+ */
+export const diagramEdges = (knowledge: ParsedKnowledge): DiagramEdge[] => {
+  const tables = knowledge.tableSpecifications;
+  const edges: DiagramEdge[] = [];
+  tables.flatMap(table => table.relationships).forEach(rel => {
+    const from = findTable(rel.fromTable, tables);
+    const to = findTable(rel.toTable, tables);
+    if (!from || !to) return;
+    const edge = { fromTable: from.tableName, fromColumn: rel.fromColumn, toTable: to.tableName, toColumn: rel.toColumn, type: rel.type };
+    // The same relationship is often listed on both of its tables
+    if (!edges.some(existing => JSON.stringify(existing).toLowerCase() === JSON.stringify(edge).toLowerCase())) edges.push(edge);
+  });
+  tables.forEach(table => {
+    foreignKeysOf(table, knowledge).forEach(key => {
+      const referenced = findTable(key.referencedTable, tables);
+      const toColumn = key.columns[0];
+      if (!referenced || !toColumn) return;
+      const covered = edges.some(edge => sameName(edge.toTable, table.tableName) && sameName(edge.toColumn, toColumn));
+      if (covered) return;
+      edges.push({
+        fromTable: referenced.tableName,
+        fromColumn: key.referencedColumns[0] ?? primaryKeyOf(referenced)[0] ?? '',
+        toTable: table.tableName,
+        toColumn,
+        type: 'ONE_TO_MANY',
+      });
+    });
+  });
+  return edges;
+};
+
+const diagramColumns = (table: TableSpecification, edges: DiagramEdge[]): DiagramColumn[] => {
+  const key = primaryKeyOf(table);
+  const foreign = table.constraints.filter(constraint => constraint.type === 'FOREIGN_KEY').flatMap(constraint => constraint.columns);
+  return table.columns.map(column => ({
+    name: column.name,
+    dataType: column.dataType,
+    isPrimaryKey: key.some(name => sameName(name, column.name)),
+    isForeignKey: foreign.some(name => sameName(name, column.name)) ||
+      edges.some(edge => edge.toTable === table.tableName && sameName(edge.toColumn, column.name) && edge.type !== 'MANY_TO_MANY'),
+    isNullable: column.isNullable,
+  }));
+};
+
+/**
+ * Lays the tables out in columns, left to right: tables nothing references
+ * first, and each table one column to the right of the tables it references.
+ * Within a column, tables sit near the tables they reference, to keep lines short.
+ */
+export const layoutDiagram = (knowledge: ParsedKnowledge): DiagramLayout => {
+  const edges = diagramEdges(knowledge);
+  const { tables } = orderTablesByDependencies(knowledge);
+  const parents = (table: TableSpecification) => edges
+    .filter(edge => edge.toTable === table.tableName && edge.fromTable !== table.tableName && edge.type !== 'MANY_TO_MANY')
+    .map(edge => edge.fromTable);
+
+  const layerOf = new Map<string, number>();
+  tables.forEach(table => {
+    const placed = parents(table).filter(parent => layerOf.has(parent));
+    layerOf.set(table.tableName, placed.length > 0 ? Math.max(...placed.map(parent => layerOf.get(parent)! + 1)) : 0);
+  });
+
+  const layers: TableSpecification[][] = [];
+  tables.forEach(table => {
+    const layer = layerOf.get(table.tableName)!;
+    layers[layer] = [...(layers[layer] ?? []), table];
+  });
+
+  const rowOf = new Map<string, number>();
+  layers.forEach(layer => {
+    const barycenter = (table: TableSpecification) => {
+      const rows = parents(table).map(parent => rowOf.get(parent)).filter((row): row is number => row !== undefined);
+      return rows.length > 0 ? rows.reduce((sum, row) => sum + row, 0) / rows.length : Infinity;
+    };
+    // A stable sort keeps dependency order among tables with the same barycenter
+    layer.sort((a, b) => (barycenter(a) === barycenter(b) ? 0 : barycenter(a) < barycenter(b) ? -1 : 1));
+    layer.forEach((table, row) => rowOf.set(table.tableName, row));
+  });
+
+  const nodes: DiagramNode[] = [];
+  let x = MARGIN;
+  let height = 0;
+  layers.forEach(layer => {
+    const sized = layer.map(table => {
+      const columns = diagramColumns(table, edges);
+      const longest = Math.max(
+        table.tableName.length,
+        ...columns.map(column => column.name.length + column.dataType.length + 6)
+      );
+      return {
+        tableName: table.tableName,
+        columns,
+        width: Math.max(MIN_NODE_WIDTH, longest * CHAR_WIDTH + 24),
+        height: HEADER_HEIGHT + Math.max(columns.length, 1) * ROW_HEIGHT,
+      };
+    });
+    const layerWidth = Math.max(...sized.map(node => node.width));
+    let y = MARGIN;
+    sized.forEach(node => {
+      nodes.push({ ...node, x, y });
+      y += node.height + NODE_GAP;
+    });
+    height = Math.max(height, y - NODE_GAP + MARGIN);
+    x += layerWidth + LAYER_GAP;
+  });
+
+  return { nodes, edges, width: Math.max(x - LAYER_GAP + MARGIN, 0), height };
+};
+
+/** The layout with tables moved by hand, and its size grown to fit them. */
+export const withPositions = (layout: DiagramLayout, positions: Record<string, NodePosition>): DiagramLayout => {
+  const nodes = layout.nodes.map(node => ({ ...node, ...positions[node.tableName] }));
+  return {
+    ...layout,
+    nodes,
+    width: Math.max(layout.width, ...nodes.map(node => node.x + node.width + MARGIN)),
+    height: Math.max(layout.height, ...nodes.map(node => node.y + node.height + MARGIN)),
+  };
+};
+
+const rowCenter = (node: DiagramNode, column: string) => {
+  const index = node.columns.findIndex(entry => sameName(entry.name, column));
+  return node.y + (index < 0 ? HEADER_HEIGHT / 2 : HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2);
+};
+
+/**
+ * SVG path of an edge, leaving and entering the tables beside the columns it
+ * joins. Both ends are horizontal so the cardinality markers sit square.
+ */
+export const edgePath = (edge: DiagramEdge, nodes: DiagramNode[]): string | null => {
+  const from = nodes.find(node => node.tableName === edge.fromTable);
+  const to = nodes.find(node => node.tableName === edge.toTable);
+  if (!from || !to) return null;
+  const y1 = rowCenter(from, edge.fromColumn);
+  const y2 = rowCenter(to, edge.toColumn);
+  const handle = 50;
+
+  if (from === to || Math.abs(from.x - to.x) < 1) {
+    const x1 = from.x + from.width;
+    const x2 = to.x + to.width;
+    return `M ${x1} ${y1} C ${x1 + handle} ${y1}, ${x2 + handle} ${y2}, ${x2} ${y2}`;
+  }
+  const rightward = to.x > from.x;
+  const x1 = rightward ? from.x + from.width : from.x;
+  const x2 = rightward ? to.x : to.x + to.width;
+  const direction = rightward ? 1 : -1;
+  return `M ${x1} ${y1} C ${x1 + direction * handle} ${y1}, ${x2 - direction * handle} ${y2}, ${x2} ${y2}`;
+};
+
+// Names Mermaid and PlantUML accept unquoted as entity aliases
+const entityName = (tableName: string) => tableName.replace(/[^A-Za-z0-9_]/g, '_');
+
+// Mermaid attribute types are single words; sizes such as (10,2) are dropped
+const mermaidType = (dataType: string) =>
+  (/,/.test(dataType) ? dataType.replace(/\(.*$/, '') : dataType).replace(/[^A-Za-z0-9_()]/g, '') || 'unknown';
+
+// Crow's foot notation, which Mermaid and PlantUML write the same way
+const CARDINALITY: Record<Relationship['type'], string> = {
+  ONE_TO_ONE: '||--||',
+  ONE_TO_MANY: '||--o{',
+  MANY_TO_MANY: '}o--o{',
+};
+
+const plainText = (text: string) => text.replace(/["\n\r]/g, ' ').trim();
+
+/** The diagram as a Mermaid `erDiagram`. */
+export const toMermaid = (layout: DiagramLayout): string => {
+  const lines = ['erDiagram'];
+  layout.edges.forEach(edge => {
+    lines.push(`    ${entityName(edge.fromTable)} ${CARDINALITY[edge.type]} ${entityName(edge.toTable)} : "${plainText(edge.toColumn)}"`);
+  });
+  layout.nodes.forEach(node => {
+    lines.push(`    ${entityName(node.tableName)} {`);
+    node.columns.forEach(column => {
+      const keys = [column.isPrimaryKey && 'PK', column.isForeignKey && 'FK'].filter(Boolean).join(', ');
+      lines.push(`        ${mermaidType(column.dataType)} ${entityName(column.name)}${keys ? ` ${keys}` : ''}`);
+    });
+    lines.push('    }');
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * The diagram as a PlantUML entity diagram in IE notation. Key columns come
+ * first, above a separator; `*` marks columns that cannot be NULL.
+ */
+export const toPlantUml = (layout: DiagramLayout): string => {
+  const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+  layout.nodes.forEach(node => {
+    const row = (column: DiagramColumn) => {
+      const stereotypes = [column.isPrimaryKey && '<<PK>>', column.isForeignKey && '<<FK>>'].filter(Boolean).join(' ');
+      return `  ${column.isNullable ? '' : '* '}${column.name} : ${plainText(column.dataType)}${stereotypes ? ` ${stereotypes}` : ''}`;
+    };
+    const keys = node.columns.filter(column => column.isPrimaryKey);
+    const rest = node.columns.filter(column => !column.isPrimaryKey);
+    lines.push(`entity "${plainText(node.tableName)}" as ${entityName(node.tableName)} {`);
+    lines.push(...keys.map(row));
+    if (keys.length > 0) lines.push('  --');
+    lines.push(...rest.map(row));
+    lines.push('}', '');
+  });
+  layout.edges.forEach(edge => {
+    lines.push(`${entityName(edge.fromTable)} ${CARDINALITY[edge.type]} ${entityName(edge.toTable)} : ${plainText(edge.toColumn)}`);
+  });
+  lines.push('@enduml');
+  return `${lines.join('\n')}\n`;
+};
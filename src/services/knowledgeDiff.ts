@@ -0,0 +1,448 @@
+import type {
+  BusinessRule,
+  ColumnDefinition,
+  Constraint,
+  DataTransformation,
+  FunctionalRequirement,
+  ParsedKnowledge,
+  Relationship,
+  SQLQuery,
+  TableSpecification,
+  TestScenario,
+} from './GroqService';
+import { isSignificant, tokenize, unquote } from './sqlTokenizer';
+
+export type ChangeKind = 'added' | 'removed' | 'modified';
+
+export type ChangedObject = 'table' | 'column' | 'constraint' | 'relationship' | 'requirement' | 'transformation' | 'businessRule';
+
+/** A table, or one of its columns, that a change touches. */
+interface ObjectReference {
+  table?: string;
+  column?: string;
+}
+
+export interface AffectedScenario {
+  id: string;
+  name: string;
+  /** Ids of the scenario's queries that use the changed object; empty when only its text mentions it. */
+  queryIds: string[];
+}
+
+export interface AffectedQuery {
+  id: string;
+  /** The query's description or, when it has none, the start of its SQL. */
+  description: string;
+}
+
+const QUERY_LABEL_LENGTH = 40;
+
+const queryLabel = (query: SQLQuery): string => {
+  if (query.description.trim()) return query.description.trim();
+  const sql = query.query.replace(/\s+/g, ' ').trim();
+  if (!sql) return query.id;
+  return sql.length > QUERY_LABEL_LENGTH ? `${sql.slice(0, QUERY_LABEL_LENGTH).trimEnd()}…` : sql;
+};
+
+export interface KnowledgeChange {
+  kind: ChangeKind;
+  object: ChangedObject;
+  /** What changed, e.g. `sales.orders.amount` or `BR-3`. */
+  name: string;
+  /** What changed on a modified object, e.g. `type: DECIMAL(10,2) → DECIMAL(12,2)`. */
+  details: string[];
+  /** Test scenarios with a query that uses the changed object. */
+  affectedScenarios: AffectedScenario[];
+  /** Stored queries that use the changed object. */
+  affectedQueries: AffectedQuery[];
+}
+
+export interface KnowledgeDiff {
+  changes: KnowledgeChange[];
+  /** Scenarios affected by at least one change. */
+  affectedScenarioIds: string[];
+  /** Stored queries affected by at least one change. */
+  affectedQueryIds: string[];
+}
+
+interface DetectedChange {
+  kind: ChangeKind;
+  object: ChangedObject;
+  name: string;
+  details: string[];
+  references: ObjectReference[];
+  /** Ids, e.g. of a business rule, that a scenario's text may mention. */
+  mentions: string[];
+}
+
+const normalize = (value: string | undefined): string =>
+  (value || '').toLowerCase().replace(/["'`[\]]/g, '').replace(/\s+/g, ' ').trim();
+
+const bareName = (tableName: string) => tableName.split('.').pop() ?? tableName;
+
+const describe = (value: string | boolean | undefined): string =>
+  value === undefined || value === '' ? '(none)' : String(value);
+
+/** `label: before → after` for each field that differs. */
+const fieldChanges = <T>(before: T, after: T, fields: [string, (item: T) => string | boolean | undefined][]): string[] =>
+  fields.flatMap(([label, read]) => {
+    const a = read(before);
+    const b = read(after);
+    const same = typeof a === 'string' || typeof b === 'string' ? normalize(a as string) === normalize(b as string) : a === b;
+    return same ? [] : [`${label}: ${describe(a)} → ${describe(b)}`];
+  });
+
+/** Pairs items by key, in the order of `after` followed by the removed ones. */
+const match = <T>(before: T[], after: T[], key: (item: T) => string) => {
+  const previous = new Map(before.map(item => [key(item), item]));
+  const current = new Set(after.map(key));
+  return {
+    added: after.filter(item => !previous.has(key(item))),
+    removed: before.filter(item => !current.has(key(item))),
+    kept: after.filter(item => previous.has(key(item))).map(item => [previous.get(key(item))!, item] as const),
+  };
+};
+
+const constraintKey = (c: Constraint) =>
+  normalize(c.name) || `${c.type}|${c.columns.map(normalize).sort().join(',')}`;
+
+const relationshipKey = (r: Relationship) =>
+  [r.fromTable, r.fromColumn, r.toTable, r.toColumn].map(normalize).join('|');
+
+const describeConstraint = (c: Constraint) =>
+  `${c.name || c.type}: ${c.type} on ${c.columns.join(', ')}`;
+
+const describeRelationship = (r: Relationship) =>
+  `${r.fromTable}.${r.fromColumn} → ${r.toTable}.${r.toColumn}`;
+
+const diffColumns = (tableName: string, before: ColumnDefinition[], after: ColumnDefinition[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, column => normalize(column.name));
+  const change = (kind: ChangeKind, column: ColumnDefinition, details: string[]): DetectedChange =>
+    ({ kind, object: 'column', name: `${tableName}.${column.name}`, details, references: [{ table: tableName, column: column.name }], mentions: [] });
+  return [
+    ...added.map(column => change('added', column, [`type: ${column.dataType}`])),
+    ...removed.map(column => change('removed', column, [])),
+    ...kept.flatMap(([old, column]) => {
+      const details = fieldChanges(old, column, [
+        ['type', c => c.dataType.replace(/\s+/g, '').toUpperCase()],
+        ['nullable', c => c.isNullable],
+        ['primary key', c => c.isPrimaryKey],
+        ['description', c => c.description],
+      ]);
+      return details.length > 0 ? [change('modified', column, details)] : [];
+    }),
+  ];
+};
+
+const diffConstraints = (tableName: string, before: Constraint[], after: Constraint[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, constraintKey);
+  const change = (kind: ChangeKind, constraint: Constraint, details: string[]): DetectedChange => ({
+    kind,
+    object: 'constraint',
+    name: `${tableName}: ${describeConstraint(constraint)}`,
+    details,
+    references: constraint.columns.length > 0
+      ? constraint.columns.map(column => ({ table: tableName, column }))
+      : [{ table: tableName }],
+    mentions: [],
+  });
+  return [
+    ...added.map(constraint => change('added', constraint, [])),
+    ...removed.map(constraint => change('removed', constraint, [])),
+    ...kept.flatMap(([old, constraint]) => {
+      const details = fieldChanges(old, constraint, [
+        ['type', c => c.type],
+        ['columns', c => c.columns.join(', ')],
+        ['reference', c => c.reference],
+        ['expression', c => c.expression],
+      ]);
+      return details.length > 0 ? [change('modified', constraint, details)] : [];
+    }),
+  ];
+};
+
+const diffRelationships = (before: Relationship[], after: Relationship[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, relationshipKey);
+  const change = (kind: ChangeKind, rel: Relationship, details: string[]): DetectedChange => ({
+    kind,
+    object: 'relationship',
+    name: describeRelationship(rel),
+    details,
+    references: [{ table: rel.fromTable, column: rel.fromColumn }, { table: rel.toTable, column: rel.toColumn }],
+    mentions: [],
+  });
+  return [
+    ...added.map(rel => change('added', rel, [`type: ${rel.type}`])),
+    ...removed.map(rel => change('removed', rel, [])),
+    ...kept.flatMap(([old, rel]) => {
+      const details = fieldChanges(old, rel, [['type', r => r.type]]);
+      return details.length > 0 ? [change('modified', rel, details)] : [];
+    }),
+  ];
+};
+
+const diffTables = (before: TableSpecification[], after: TableSpecification[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, table => normalize(table.tableName));
+  const tableChange = (kind: ChangeKind, table: TableSpecification): DetectedChange => ({
+    kind,
+    object: 'table',
+    name: table.tableName,
+    details: kind === 'added' ? [`${table.columns.length} column${table.columns.length !== 1 ? 's' : ''}`] : [],
+    references: [{ table: table.tableName }],
+    mentions: [],
+  });
+  return [
+    ...added.map(table => tableChange('added', table)),
+    ...removed.map(table => tableChange('removed', table)),
+    ...kept.flatMap(([old, table]) => [
+      ...diffColumns(table.tableName, old.columns, table.columns),
+      ...diffConstraints(table.tableName, old.constraints, table.constraints),
+      ...diffRelationships(old.relationships, table.relationships),
+    ]),
+  ];
+};
+
+/**
+ * Lower-cased names a query uses: each dotted name as written, e.g.
+ * `sales.orders` or `o.amount`, and every name on its own.
+ */
+export const identifiersIn = (sql: string): Set<string> => {
+  const tokens = tokenize(sql).filter(isSignificant);
+  const names = new Set<string>();
+  let parts: string[] = [];
+  const flush = () => {
+    if (parts.length > 0) names.add(parts.join('.'));
+    parts = [];
+  };
+  tokens.forEach((token, index) => {
+    if (token.type === 'word' || token.type === 'quoted') {
+      const name = normalize(token.type === 'quoted' ? unquote(token.text) : token.text);
+      names.add(name);
+      if (parts.length === 0 || tokens[index - 1]?.text === '.') parts.push(name);
+      else {
+        flush();
+        parts.push(name);
+      }
+    } else if (token.text !== '.') {
+      flush();
+    }
+  });
+  flush();
+  return names;
+};
+
+/**
+ * Tables and columns a piece of SQL names, resolved against both versions
+ * of the model, so a changed rule or transformation can be linked to the
+ * tests that read the same data.
+ */
+const referencesIn = (sqls: string[], tables: TableSpecification[]): ObjectReference[] => {
+  const names = sqls.flatMap(sql => Array.from(identifiersIn(sql)));
+  const lastParts = new Set(names.map(name => name.split('.').pop()!));
+  const references: ObjectReference[] = [];
+  tables.forEach(table => {
+    if (names.includes(normalize(table.tableName)) || names.includes(normalize(bareName(table.tableName)))) {
+      references.push({ table: table.tableName });
+    }
+    table.columns
+      .filter(column => lastParts.has(normalize(column.name)))
+      .forEach(column => references.push({ table: table.tableName, column: column.name }));
+  });
+  return references;
+};
+
+const diffTransformations = (requirementId: string, before: DataTransformation[], after: DataTransformation[], tables: TableSpecification[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, transformation => normalize(transformation.name));
+  const change = (kind: ChangeKind, transformation: DataTransformation, details: string[], old?: DataTransformation): DetectedChange => ({
+    kind,
+    object: 'transformation',
+    name: `${requirementId}: ${transformation.name}`,
+    details,
+    references: referencesIn(
+      [transformation, old].flatMap(t => (t ? [t.sqlLogic, ...t.conditions] : [])),
+      tables
+    ).filter(reference => reference.column),
+    mentions: [requirementId, transformation.name],
+  });
+  return [
+    ...added.map(transformation => change('added', transformation, [])),
+    ...removed.map(transformation => change('removed', transformation, [])),
+    ...kept.flatMap(([old, transformation]) => {
+      const details = fieldChanges(old, transformation, [
+        ['description', t => t.description],
+        ['SQL logic', t => t.sqlLogic],
+        ['conditions', t => t.conditions.join('; ')],
+      ]);
+      return details.length > 0 ? [change('modified', transformation, details, old)] : [];
+    }),
+  ];
+};
+
+const requirementKey = (requirement: FunctionalRequirement) => normalize(requirement.id) || normalize(requirement.description);
+
+const diffRequirements = (before: FunctionalRequirement[], after: FunctionalRequirement[], tables: TableSpecification[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, requirementKey);
+  const change = (kind: ChangeKind, requirement: FunctionalRequirement, details: string[]): DetectedChange => ({
+    kind,
+    object: 'requirement',
+    name: requirement.id ? `${requirement.id}: ${requirement.description}` : requirement.description,
+    details,
+    references: [],
+    mentions: requirement.id ? [requirement.id] : [],
+  });
+  return [
+    ...added.map(requirement => change('added', requirement, [])),
+    ...removed.map(requirement => change('removed', requirement, [])),
+    ...kept.flatMap(([old, requirement]) => {
+      const details = fieldChanges(old, requirement, [
+        ['description', r => r.description],
+        ['business logic', r => r.businessLogic],
+      ]);
+      return [
+        ...(details.length > 0 ? [change('modified', requirement, details)] : []),
+        ...diffTransformations(requirement.id || requirement.description, old.transformations, requirement.transformations, tables),
+      ];
+    }),
+  ];
+};
+
+const ruleKey = (rule: BusinessRule) => normalize(rule.id) || normalize(rule.rule);
+
+const diffBusinessRules = (before: BusinessRule[], after: BusinessRule[], tables: TableSpecification[]): DetectedChange[] => {
+  const { added, removed, kept } = match(before, after, ruleKey);
+  const change = (kind: ChangeKind, rule: BusinessRule, details: string[], old?: BusinessRule): DetectedChange => ({
+    kind,
+    object: 'businessRule',
+    name: rule.id ? `${rule.id}: ${rule.rule}` : rule.rule,
+    details,
+    references: referencesIn([rule.sqlCondition, old?.sqlCondition ?? ''], tables).filter(reference => reference.column),
+    mentions: rule.id ? [rule.id] : [],
+  });
+  return [
+    ...added.map(rule => change('added', rule, [])),
+    ...removed.map(rule => change('removed', rule, [])),
+    ...kept.flatMap(([old, rule]) => {
+      const details = fieldChanges(old, rule, [
+        ['rule', r => r.rule],
+        ['SQL condition', r => r.sqlCondition],
+        ['validation type', r => r.validationType],
+      ]);
+      return details.length > 0 ? [change('modified', rule, details, old)] : [];
+    }),
+  ];
+};
+
+// Whether a query's SQL touches one of the referenced tables or columns.
+// A column counts when the query also names its table, since names like `id`
+// are in almost every table.
+const touches = (names: Set<string>, references: ObjectReference[]): boolean => {
+  const usesTable = (table: string) => names.has(normalize(table)) || names.has(normalize(bareName(table)));
+  return references.some(reference => {
+    if (!reference.table) return false;
+    if (!usesTable(reference.table)) return false;
+    if (!reference.column) return true;
+    const column = normalize(reference.column);
+    return Array.from(names).some(name => name === column || name.endsWith(`.${column}`));
+  });
+};
+
+const mentionedIn = (texts: string[], mentions: string[]) =>
+  mentions.some(mention => {
+    const needle = normalize(mention);
+    return needle.length > 0 && texts.some(text => normalize(text).includes(needle));
+  });
+
+/**
+ * Compares two versions of a knowledge base: tables, columns, constraints,
+ * relationships, requirements with their transformations, and business rules.
+ * Each change lists the test scenarios and stored queries whose SQL uses the
+ * objects it touches. Scenarios come from both versions, the newer one
+ * winning, so tests that still rely on something removed are found too.
+ */
+export const diffKnowledge = (before: ParsedKnowledge, after: ParsedKnowledge, queries: SQLQuery[] = []): KnowledgeDiff => {
+  const tables = [...after.tableSpecifications, ...before.tableSpecifications];
+  const detected = [
+    ...diffTables(before.tableSpecifications, after.tableSpecifications),
+    ...diffRequirements(before.functionalRequirements, after.functionalRequirements, tables),
+    ...diffBusinessRules(before.businessRules, after.businessRules, tables),
+  ];
+
+  const scenarioIds = new Set(after.testScenarios.map(scenario => scenario.id));
+  const scenarios: TestScenario[] = [
+    ...after.testScenarios,
+    ...before.testScenarios.filter(scenario => !scenarioIds.has(scenario.id)),
+  ];
+  const scenarioQueries = scenarios.map(scenario => scenario.testQueries.map(query => ({ query, names: identifiersIn(query.query) })));
+  const storedQueries = queries.map(query => ({ query, names: identifiersIn(query.query) }));
+
+  const changes = detected.map(({ references, mentions, ...change }): KnowledgeChange => ({
+    ...change,
+    affectedScenarios: scenarios.flatMap((scenario, index) => {
+      const queryIds = scenarioQueries[index].filter(entry => touches(entry.names, references)).map(entry => entry.query.id);
+      const mentioned = mentionedIn([scenario.name, scenario.description, scenario.expectedResults], mentions);
+      return queryIds.length > 0 || mentioned ? [{ id: scenario.id, name: scenario.name, queryIds }] : [];
+    }),
+    affectedQueries: storedQueries
+      .filter(entry => touches(entry.names, references))
+      .map(entry => ({ id: entry.query.id, description: queryLabel(entry.query) })),
+  }));
+
+  return {
+    changes,
+    affectedScenarioIds: Array.from(new Set(changes.flatMap(change => change.affectedScenarios.map(scenario => scenario.id)))),
+    affectedQueryIds: Array.from(new Set(changes.flatMap(change => change.affectedQueries.map(query => query.id)))),
+  };
+};
+
+const OBJECT_LABELS: Record<ChangedObject, string> = {
+  table: 'Table',
+  column: 'Column',
+  constraint: 'Constraint',
+  relationship: 'Relationship',
+  requirement: 'Requirement',
+  transformation: 'Transformation',
+  businessRule: 'Business rule',
+};
+
+export const objectLabel = (object: ChangedObject) => OBJECT_LABELS[object];
+
+const SECTIONS: { title: string; objects: ChangedObject[] }[] = [
+  { title: 'Tables and columns', objects: ['table', 'column'] },
+  { title: 'Constraints and relationships', objects: ['constraint', 'relationship'] },
+  { title: 'Requirements and transformations', objects: ['requirement', 'transformation'] },
+  { title: 'Business rules', objects: ['businessRule'] },
+];
+
+/** The diff as a Markdown change report, grouped by kind of object. */
+export const formatChangeReport = (diff: KnowledgeDiff, labels: { before: string; after: string }): string => {
+  const count = (kind: ChangeKind) => diff.changes.filter(change => change.kind === kind).length;
+  const lines = [
+    '# Specification change report',
+    '',
+    `Compared **${labels.before}** with **${labels.after}** on ${new Date().toLocaleString()}.`,
+    '',
+    `- ${diff.changes.length} change${diff.changes.length !== 1 ? 's' : ''}: ${count('added')} added, ${count('removed')} removed, ${count('modified')} modified`,
+    `- ${diff.affectedScenarioIds.length} test scenario${diff.affectedScenarioIds.length !== 1 ? 's' : ''} affected`,
+    `- ${diff.affectedQueryIds.length} stored quer${diff.affectedQueryIds.length !== 1 ? 'ies' : 'y'} affected`,
+  ];
+  if (diff.changes.length === 0) {
+    lines.push('', 'The two versions are the same.');
+  }
+
+  SECTIONS.forEach(section => {
+    const changes = diff.changes.filter(change => section.objects.includes(change.object));
+    if (changes.length === 0) return;
+    lines.push('', `## ${section.title}`, '');
+    changes.forEach(change => {
+      lines.push(`- **${change.kind.toUpperCase()}** ${objectLabel(change.object).toLowerCase()} \`${change.name}\``);
+      change.details.forEach(detail => lines.push(`  - ${detail}`));
+      if (change.affectedScenarios.length > 0) {
+        lines.push(`  - Affected test scenarios: ${change.affectedScenarios.map(scenario => `${scenario.name} (${scenario.id})`).join(', ')}`);
+      }
+      if (change.affectedQueries.length > 0) {
+        lines.push(`  - Affected queries: ${change.affectedQueries.map(query => `${query.description} (${query.id})`).join(', ')}`);
+      }
+    });
+  });
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,175 @@
+import type {
+  BusinessRule,
+  ColumnDefinition,
+  Constraint,
+  DataTransformation,
+  FunctionalRequirement,
+  ParsedKnowledge,
+  Relationship,
+  SQLQuery,
+  TableSpecification,
+  TestScenario,
+} from './GroqService';
+
+/** Edits that can be undone, oldest first, are capped at this many. */
+export const MAX_HISTORY = 100;
+
+/** The knowledge base with the versions before and after it, for undo and redo. */
+export interface KnowledgeHistory {
+  past: ParsedKnowledge[];
+  present: ParsedKnowledge | null;
+  future: ParsedKnowledge[];
+}
+
+/** A history with nothing to undo, e.g. for a freshly opened project. */
+export const startHistory = (knowledge: ParsedKnowledge | null): KnowledgeHistory =>
+  ({ past: [], present: knowledge, future: [] });
+
+/** Makes `next` the current knowledge base; anything that was undone can no longer be redone. */
+export const recordEdit = (history: KnowledgeHistory, next: ParsedKnowledge): KnowledgeHistory => {
+  if (next === history.present) return history;
+  const past = history.present ? [...history.past, history.present].slice(-MAX_HISTORY) : history.past;
+  return { past, present: next, future: [] };
+};
+
+export const undoEdit = (history: KnowledgeHistory): KnowledgeHistory => {
+  if (history.past.length === 0) return history;
+  const previous = history.past[history.past.length - 1];
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: history.present ? [history.present, ...history.future] : history.future,
+  };
+};
+
+export const redoEdit = (history: KnowledgeHistory): KnowledgeHistory => {
+  if (history.future.length === 0) return history;
+  const [next, ...future] = history.future;
+  return {
+    past: history.present ? [...history.past, history.present].slice(-MAX_HISTORY) : history.past,
+    present: next,
+    future,
+  };
+};
+
+/**
+ * Applies `recipe` to a copy of the knowledge base, so the version in the
+ * history stays as it was.
+ */
+export const editKnowledge = (knowledge: ParsedKnowledge, recipe: (draft: ParsedKnowledge) => void): ParsedKnowledge => {
+  const draft = structuredClone(knowledge);
+  recipe(draft);
+  return draft;
+};
+
+// Ids the user has not chosen, unique within the list they are added to.
+const nextId = (prefix: string, ids: string[]): string => {
+  const taken = new Set(ids);
+  let n = ids.length + 1;
+  while (taken.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+};
+
+// Names for new items, so an added item can be told apart before it is renamed.
+const nextName = (prefix: string, names: string[]): string => {
+  const taken = new Set(names.map(name => name.toLowerCase()));
+  let n = names.length + 1;
+  while (taken.has(`${prefix}${n}`.toLowerCase())) n++;
+  return `${prefix}${n}`;
+};
+
+export const newTable = (knowledge: ParsedKnowledge): TableSpecification => ({
+  tableName: nextName('new_table_', knowledge.tableSpecifications.map(t => t.tableName)),
+  columns: [{ name: 'id', dataType: 'INTEGER', isNullable: false, isPrimaryKey: true }],
+  constraints: [],
+  relationships: [],
+});
+
+export const newColumn = (table: TableSpecification): ColumnDefinition => ({
+  name: nextName('column_', table.columns.map(c => c.name)),
+  dataType: 'VARCHAR(255)',
+  isNullable: true,
+  isPrimaryKey: false,
+});
+
+export const newConstraint = (table: TableSpecification): Constraint => ({
+  name: nextName(`${table.tableName.split('.').pop()}_constraint_`, table.constraints.map(c => c.name)),
+  type: 'UNIQUE',
+  columns: table.columns.slice(0, 1).map(c => c.name),
+});
+
+export const newRelationship = (table: TableSpecification, knowledge: ParsedKnowledge): Relationship => {
+  const target = knowledge.tableSpecifications.find(t => t.tableName !== table.tableName) ?? table;
+  const targetKey = target.columns.find(c => c.isPrimaryKey) ?? target.columns[0];
+  return {
+    fromTable: table.tableName,
+    fromColumn: table.columns[0]?.name ?? '',
+    toTable: target.tableName,
+    toColumn: targetKey?.name ?? '',
+    type: 'ONE_TO_MANY',
+  };
+};
+
+export const newRequirement = (knowledge: ParsedKnowledge): FunctionalRequirement => ({
+  id: nextId('FR-', knowledge.functionalRequirements.map(r => r.id)),
+  description: 'New requirement',
+  businessLogic: '',
+  transformations: [],
+});
+
+export const newTransformation = (requirement: FunctionalRequirement): DataTransformation => ({
+  name: nextName('transformation_', requirement.transformations.map(t => t.name)),
+  description: '',
+  sqlLogic: '',
+  conditions: [],
+});
+
+export const newBusinessRule = (knowledge: ParsedKnowledge): BusinessRule => ({
+  id: nextId('BR-', knowledge.businessRules.map(r => r.id)),
+  rule: 'New business rule',
+  sqlCondition: '',
+  validationType: 'CHECK',
+});
+
+export const newTestScenario = (knowledge: ParsedKnowledge): TestScenario => ({
+  id: nextId('TS-', knowledge.testScenarios.map(s => s.id)),
+  name: 'New test scenario',
+  description: '',
+  testQueries: [],
+  expectedResults: '',
+});
+
+export const newTestQuery = (scenario: TestScenario): SQLQuery => ({
+  id: nextId(`${scenario.id}-Q`, scenario.testQueries.map(q => q.id)),
+  query: '',
+  description: 'New test query',
+  category: 'VALIDATION',
+  testScenario: scenario.name,
+  expectation: { type: 'NO_ROWS' },
+});
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Renames a table along with every relationship that points at it. */
+export const renameTable = (draft: ParsedKnowledge, tableIndex: number, name: string): void => {
+  const oldName = draft.tableSpecifications[tableIndex].tableName;
+  draft.tableSpecifications[tableIndex].tableName = name;
+  draft.tableSpecifications.forEach(table => table.relationships.forEach(rel => {
+    if (sameName(rel.fromTable, oldName)) rel.fromTable = name;
+    if (sameName(rel.toTable, oldName)) rel.toTable = name;
+  }));
+};
+
+/** Renames a column along with the constraints and relationships that use it. */
+export const renameColumn = (draft: ParsedKnowledge, tableIndex: number, columnIndex: number, name: string): void => {
+  const table = draft.tableSpecifications[tableIndex];
+  const oldName = table.columns[columnIndex].name;
+  table.columns[columnIndex].name = name;
+  table.constraints.forEach(constraint => {
+    constraint.columns = constraint.columns.map(column => (sameName(column, oldName) ? name : column));
+  });
+  draft.tableSpecifications.forEach(other => other.relationships.forEach(rel => {
+    if (sameName(rel.fromTable, table.tableName) && sameName(rel.fromColumn, oldName)) rel.fromColumn = name;
+    if (sameName(rel.toTable, table.tableName) && sameName(rel.toColumn, oldName)) rel.toColumn = name;
+  }));
+};
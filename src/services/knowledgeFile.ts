@@ -0,0 +1,181 @@
+import type { ParsedKnowledge } from './GroqService';
+import { validateParsedKnowledge, ValidationIssue } from './validation';
+import { parseYaml, toYaml, YamlSyntaxError } from './yaml';
+
+export type KnowledgeFileFormat = 'json' | 'yaml';
+
+/** Identifies a knowledge base file, so other JSON or YAML is not mistaken for one. */
+export const KNOWLEDGE_FORMAT_ID = 'excel-sql-analyzer/knowledge-base';
+
+/** Version written by this build; older files are migrated when imported. */
+export const KNOWLEDGE_FORMAT_VERSION = 1;
+
+export interface KnowledgeDocument {
+  format: typeof KNOWLEDGE_FORMAT_ID;
+  version: number;
+  /** ISO timestamp of the export. */
+  exportedAt: string;
+  knowledge: ParsedKnowledge;
+}
+
+export interface ImportedKnowledge {
+  knowledge: ParsedKnowledge;
+  /** Version the file was written in; 0 for a bare knowledge base without the envelope. */
+  sourceVersion: number;
+  /** Migrations applied to bring the file up to date, in order. */
+  migrations: string[];
+}
+
+export class KnowledgeImportError extends Error {
+  constructor(message: string, public readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'KnowledgeImportError';
+  }
+}
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (document: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Steps from each older version to the next one. When the document format
+ * changes, bump KNOWLEDGE_FORMAT_VERSION and add the step from the previous
+ * version here; imports run every step from the file's version onwards.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: 'Wrapped a bare knowledge base in a versioned document',
+    migrate: document => ({
+      format: KNOWLEDGE_FORMAT_ID,
+      version: 1,
+      exportedAt: new Date(0).toISOString(),
+      knowledge: document,
+    }),
+  },
+];
+
+const FILE_EXTENSIONS: Record<KnowledgeFileFormat, string> = {
+  json: 'json',
+  yaml: 'yaml',
+};
+
+export const knowledgeFileName = (format: KnowledgeFileFormat): string =>
+  `knowledge-base.${FILE_EXTENSIONS[format]}`;
+
+export const knowledgeMimeType = (format: KnowledgeFileFormat): string =>
+  format === 'json' ? 'application/json' : 'application/yaml';
+
+/** The knowledge base as a versioned document, ready to be saved and committed. */
+export const exportKnowledge = (knowledge: ParsedKnowledge, format: KnowledgeFileFormat): string => {
+  const document: KnowledgeDocument = {
+    format: KNOWLEDGE_FORMAT_ID,
+    version: KNOWLEDGE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    knowledge,
+  };
+  if (format === 'yaml') {
+    return `# Knowledge base exported from Excel SQL Analyzer\n${toYaml(document)}`;
+  }
+  return `${JSON.stringify(document, null, 2)}\n`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Line and column of a character offset, for pointing at JSON syntax errors. */
+const lineAndColumn = (text: string, offset: number) => {
+  const before = text.slice(0, offset).split('\n');
+  return `line ${before.length}, column ${before[before.length - 1].length + 1}`;
+};
+
+const parseText = (text: string, format: KnowledgeFileFormat): unknown => {
+  if (format === 'yaml') {
+    try {
+      return parseYaml(text);
+    } catch (error) {
+      if (!(error instanceof YamlSyntaxError)) throw error;
+      throw new KnowledgeImportError('The file is not valid YAML', [{ path: `line ${error.line}`, message: error.message.replace(/^Line \d+: /, '') }]);
+    }
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Browsers report either an offset or a line and column
+    const position = message.match(/position (\d+)/);
+    const lineColumn = message.match(/line (\d+) column (\d+)/);
+    const path = position
+      ? lineAndColumn(text, Number(position[1]))
+      : lineColumn ? `line ${lineColumn[1]}, column ${lineColumn[2]}` : '$';
+    throw new KnowledgeImportError('The file is not valid JSON', [{ path, message }]);
+  }
+};
+
+/** The file's format from its extension, or from its first character when the name says nothing. */
+export const detectFormat = (text: string, fileName = ''): KnowledgeFileFormat => {
+  if (/\.ya?ml$/i.test(fileName)) return 'yaml';
+  if (/\.json$/i.test(fileName)) return 'json';
+  return /^\s*[[{]/.test(text) ? 'json' : 'yaml';
+};
+
+const documentVersion = (document: unknown): number => {
+  if (!isRecord(document)) {
+    throw new KnowledgeImportError('The file does not hold a knowledge base', [
+      { path: '$', message: `expected object, got ${Array.isArray(document) ? 'array' : document === null ? 'null' : typeof document}` },
+    ]);
+  }
+  if (document.format === undefined && 'tableSpecifications' in document) return 0;
+  if (document.format !== KNOWLEDGE_FORMAT_ID) {
+    throw new KnowledgeImportError('The file does not hold a knowledge base', [
+      { path: '$.format', message: `expected "${KNOWLEDGE_FORMAT_ID}", got ${JSON.stringify(document.format ?? null)}` },
+    ]);
+  }
+  const version = document.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new KnowledgeImportError('The file has no valid format version', [
+      { path: '$.version', message: `expected a whole number from 1, got ${JSON.stringify(version ?? null)}` },
+    ]);
+  }
+  if (version > KNOWLEDGE_FORMAT_VERSION) {
+    throw new KnowledgeImportError('The file was written by a newer version of the app', [
+      { path: '$.version', message: `version ${version} is newer than the supported version ${KNOWLEDGE_FORMAT_VERSION}` },
+    ]);
+  }
+  return version;
+};
+
+/**
+ * Reads a knowledge base file written by `exportKnowledge`, in JSON or YAML,
+ * or a bare `ParsedKnowledge` object. Older versions are migrated first. A
+ * malformed file raises a KnowledgeImportError whose issues give the path
+ * of each problem, e.g. `$.knowledge.tableSpecifications[2].columns[0].name`.
+ */
+export const importKnowledge = (text: string, fileName?: string): ImportedKnowledge => {
+  const parsed = parseText(text, detectFormat(text, fileName));
+  const sourceVersion = documentVersion(parsed);
+
+  let document = parsed as Record<string, unknown>;
+  const applied: string[] = [];
+  MIGRATIONS
+    .filter(migration => migration.from >= sourceVersion)
+    .sort((a, b) => a.from - b.from)
+    .forEach(migration => {
+      document = migration.migrate(document);
+      applied.push(migration.description);
+    });
+
+  const result = validateParsedKnowledge(document.knowledge);
+  if (!result.ok) {
+    // A migrated bare knowledge base was the document root
+    const prefix = sourceVersion === 0 ? '$' : '$.knowledge';
+    const issues = result.issues.map(issue => ({ ...issue, path: issue.path.replace(/^\$/, prefix) }));
+    throw new KnowledgeImportError(
+      `The knowledge base has ${issues.length} problem${issues.length !== 1 ? 's' : ''}`,
+      issues
+    );
+  }
+  return { knowledge: result.value, sourceVersion, migrations: applied };
+};
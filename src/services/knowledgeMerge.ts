@@ -0,0 +1,147 @@
+import type {
+  BusinessRule,
+  ColumnDefinition,
+  Constraint,
+  FunctionalRequirement,
+  ParsedKnowledge,
+  Relationship,
+  TableSpecification,
+  TestScenario,
+} from './GroqService';
+
+// Names from different chunks often differ only in case, quoting or spacing.
+const normalize = (value: string | undefined): string =>
+  (value || '').toLowerCase().replace(/["'`[\]]/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Appends the items of `incoming` that are not already in `existing`,
+ * combining duplicates with `combine` so later chunks can fill in gaps.
+ */
+const mergeBy = <T>(
+  existing: T[],
+  incoming: T[],
+  key: (item: T) => string,
+  combine: (current: T, next: T) => T = current => current
+): T[] => {
+  const result = [...existing];
+  const positions = new Map<string, number>();
+  result.forEach((item, index) => positions.set(key(item), index));
+
+  incoming.forEach(item => {
+    const itemKey = key(item);
+    const position = positions.get(itemKey);
+    if (position === undefined) {
+      positions.set(itemKey, result.length);
+      result.push(item);
+    } else {
+      result[position] = combine(result[position], item);
+    }
+  });
+  return result;
+};
+
+// The first definition keeps its key and nullability flags: it comes from
+// the spec sheet when there is one, and a model's guess must not override it.
+const mergeColumn = (current: ColumnDefinition, next: ColumnDefinition): ColumnDefinition => ({
+  ...current,
+  dataType: current.dataType || next.dataType,
+  description: current.description || next.description,
+  constraints: current.constraints || next.constraints
+    ? Array.from(new Set([...(current.constraints || []), ...(next.constraints || [])]))
+    : undefined,
+});
+
+const constraintKey = (c: Constraint) => `${c.type}|${c.columns.map(normalize).sort().join(',')}|${normalize(c.reference || c.expression)}`;
+
+const relationshipKey = (r: Relationship) =>
+  [r.fromTable, r.fromColumn, r.toTable, r.toColumn].map(normalize).join('|');
+
+const mergeTable = (current: TableSpecification, next: TableSpecification): TableSpecification => ({
+  tableName: current.tableName,
+  columns: mergeBy(current.columns, next.columns, c => normalize(c.name), mergeColumn),
+  constraints: mergeBy(current.constraints, next.constraints, constraintKey),
+  relationships: mergeBy(current.relationships, next.relationships, relationshipKey),
+});
+
+const mergeRequirement = (current: FunctionalRequirement, next: FunctionalRequirement): FunctionalRequirement => ({
+  ...current,
+  businessLogic: current.businessLogic || next.businessLogic,
+  transformations: mergeBy(current.transformations, next.transformations, t => normalize(t.name)),
+});
+
+// Ids are assigned per chunk by the model, so two chunks can both produce
+// "BR001" for unrelated rules. Deduplicate on content instead.
+const requirementKey = (r: FunctionalRequirement) => normalize(r.description);
+const ruleKey = (r: BusinessRule) => normalize(r.sqlCondition) || normalize(r.rule);
+const scenarioKey = (s: TestScenario) => normalize(s.name);
+
+/** Suffixes repeated ids (`BR001`, `BR001_2`) so merged items stay addressable. */
+const uniqueIds = <T extends { id: string }>(items: T[]): T[] => {
+  const seen = new Map<string, number>();
+  return items.map(item => {
+    const count = (seen.get(item.id) || 0) + 1;
+    seen.set(item.id, count);
+    return count === 1 ? item : { ...item, id: `${item.id}_${count}` };
+  });
+};
+
+export const emptyKnowledge = (): ParsedKnowledge => ({
+  tableSpecifications: [],
+  functionalRequirements: [],
+  businessRules: [],
+  testScenarios: [],
+});
+
+/**
+ * Where each part's ids ended up: an item merged into an earlier duplicate
+ * takes that item's id, and a repeated id its suffixed form. `merged` is the
+ * merge of `parts` before `uniqueIds` gave it `renamed`.
+ */
+const idMaps = <T extends { id: string }>(
+  parts: T[][],
+  merged: T[],
+  renamed: T[],
+  key: (item: T) => string
+): Map<string, string>[] =>
+  parts.map(items => new Map(items.map(item => [item.id, renamed[merged.findIndex(entry => key(entry) === key(item))].id])));
+
+/** The scenario with its and its queries' links rewritten to the merged ids. */
+const relinkScenario = (scenario: TestScenario, ids: Map<string, string>): TestScenario => {
+  const relink = (covers: string[]) => Array.from(new Set(covers.map(id => ids.get(id) ?? id)));
+  return {
+    ...scenario,
+    ...(scenario.covers ? { covers: relink(scenario.covers) } : {}),
+    testQueries: scenario.testQueries.map(query => (query.covers ? { ...query, covers: relink(query.covers) } : query)),
+  };
+};
+
+/**
+ * Reduces partial extraction results into a single deduplicated knowledge
+ * base. Scenarios keep pointing at the requirements and rules they covered
+ * in their own part, whatever ids those have after the merge.
+ */
+export const mergeKnowledge = (parts: ParsedKnowledge[]): ParsedKnowledge => {
+  const merged = parts.reduce<Omit<ParsedKnowledge, 'testScenarios'>>((acc, part) => ({
+    tableSpecifications: mergeBy(acc.tableSpecifications, part.tableSpecifications, t => normalize(t.tableName), mergeTable),
+    functionalRequirements: mergeBy(acc.functionalRequirements, part.functionalRequirements, requirementKey, mergeRequirement),
+    businessRules: mergeBy(acc.businessRules, part.businessRules, ruleKey),
+  }), emptyKnowledge());
+
+  const functionalRequirements = uniqueIds(merged.functionalRequirements);
+  const businessRules = uniqueIds(merged.businessRules);
+  const requirementIds = idMaps(parts.map(part => part.functionalRequirements), merged.functionalRequirements, functionalRequirements, requirementKey);
+  const ruleIds = idMaps(parts.map(part => part.businessRules), merged.businessRules, businessRules, ruleKey);
+
+  const testScenarios = parts.reduce<TestScenario[]>((acc, part, index) => {
+    // `covers` mixes requirement and rule ids, which use different prefixes
+    const ids = new Map([...requirementIds[index], ...ruleIds[index]]);
+    return mergeBy(acc, part.testScenarios.map(scenario => relinkScenario(scenario, ids)), scenarioKey);
+  }, []);
+
+  return {
+    ...merged,
+    functionalRequirements,
+    businessRules,
+    testScenarios: uniqueIds(testScenarios),
+  };
+};
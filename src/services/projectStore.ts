@@ -0,0 +1,164 @@
+import type { ParsedKnowledge, SQLQuery } from './GroqService';
+import type { LoadedSheet } from './dataLoader';
+import type { SqlDialect } from './sqlDialect';
+import type { SqlFinding } from './sqlChecker';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** When the project was last opened; the most recent one is restored on startup. */
+  openedAt: Date;
+}
+
+/** An uploaded file with the data of its sheets, so it can be loaded again. */
+export interface ProjectFile {
+  name: string;
+  size: number;
+  uploadedAt: Date;
+  sheets: LoadedSheet[];
+  /** Specification table each sheet is mapped to, by sheet name. */
+  mappings: Record<string, string | undefined>;
+}
+
+export interface ProjectQuery extends SQLQuery {
+  timestamp: Date;
+  /** Name given in the query library; the description is shown until then. */
+  name?: string;
+  tags?: string[];
+  favorite?: boolean;
+}
+
+export interface ProjectMessage {
+  id: string;
+  type: 'user' | 'bot';
+  content: string;
+  timestamp: Date;
+  queries?: SQLQuery[];
+  findings?: Record<string, SqlFinding[]>;
+  isError?: boolean;
+}
+
+export interface ProjectContent {
+  knowledge: ParsedKnowledge | null;
+  dialect: SqlDialect;
+  files: ProjectFile[];
+  queries: ProjectQuery[];
+  /** Chat history; unset until the chat is first used. */
+  messages?: ProjectMessage[];
+}
+
+export interface Project extends ProjectSummary, ProjectContent {}
+
+export class ProjectStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectStoreError';
+  }
+}
+
+const DATABASE_NAME = 'excel-sql-analyzer';
+const DATABASE_VERSION = 1;
+const PROJECTS = 'projects';
+
+const summaryOf = ({ id, name, createdAt, updatedAt, openedAt }: Project): ProjectSummary =>
+  ({ id, name, createdAt, updatedAt, openedAt });
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new ProjectStoreError(request.error?.message ?? 'IndexedDB request failed'));
+  });
+
+/**
+ * Named projects kept in the browser's IndexedDB, each with its knowledge
+ * base, uploaded data, generated queries and chat history, so a reload does
+ * not mean parsing the workbook, and spending LLM quota, again.
+ */
+class ProjectStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (!this.isAvailable()) {
+          reject(new ProjectStoreError('This browser does not support IndexedDB'));
+          return;
+        }
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(PROJECTS)) {
+            request.result.createObjectStore(PROJECTS, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new ProjectStoreError(request.error?.message ?? 'Could not open the project database'));
+        request.onblocked = () => reject(new ProjectStoreError('The project database is in use by another tab'));
+      });
+      // Let a later call try again rather than keep the failure
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.getDatabase();
+    return db.transaction(PROJECTS, mode).objectStore(PROJECTS);
+  }
+
+  /** Every project, most recently opened first. */
+  async list(): Promise<ProjectSummary[]> {
+    const projects = await promisify((await this.objectStore('readonly')).getAll() as IDBRequest<Project[]>);
+    return projects.map(summaryOf).sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+  }
+
+  async get(id: string): Promise<Project | undefined> {
+    return promisify((await this.objectStore('readonly')).get(id) as IDBRequest<Project | undefined>);
+  }
+
+  async create(name: string, content: ProjectContent): Promise<Project> {
+    const now = new Date();
+    const project: Project = { id: newId(), name: name.trim() || 'Untitled project', createdAt: now, updatedAt: now, openedAt: now, ...content };
+    await promisify((await this.objectStore('readwrite')).add(project));
+    return project;
+  }
+
+  /** Loads a project and marks it as the one to restore next time. */
+  async open(id: string): Promise<Project> {
+    const project = await this.get(id);
+    if (!project) throw new ProjectStoreError('The project no longer exists');
+    const opened = { ...project, openedAt: new Date() };
+    await promisify((await this.objectStore('readwrite')).put(opened));
+    return opened;
+  }
+
+  async save(id: string, content: ProjectContent): Promise<void> {
+    const project = await this.get(id);
+    if (!project) throw new ProjectStoreError('The project no longer exists');
+    await promisify((await this.objectStore('readwrite')).put({ ...project, ...content, updatedAt: new Date() }));
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const project = await this.get(id);
+    if (!project) throw new ProjectStoreError('The project no longer exists');
+    await promisify((await this.objectStore('readwrite')).put({ ...project, name: name.trim() || project.name, updatedAt: new Date() }));
+  }
+
+  async remove(id: string): Promise<void> {
+    await promisify((await this.objectStore('readwrite')).delete(id));
+  }
+}
+
+export default new ProjectStore();
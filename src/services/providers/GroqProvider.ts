@@ -0,0 +1,83 @@
+import Groq from 'groq-sdk';
+import { abortError, CompletionRequest, LLMProvider, LLMProviderError, TokenHandler } from './LLMProvider';
+
+export const DEFAULT_GROQ_MODEL = 'mixtral-8x7b-32768';
+export const DEFAULT_GROQ_CONTEXT_WINDOW = 32768;
+
+export class GroqProvider implements LLMProvider {
+  readonly kind = 'groq' as const;
+  readonly model: string;
+  readonly contextWindow: number;
+  private groq: Groq;
+  private apiKey: string;
+
+  constructor(
+    apiKey: string,
+    model: string = DEFAULT_GROQ_MODEL,
+    contextWindow: number = DEFAULT_GROQ_CONTEXT_WINDOW
+  ) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.contextWindow = contextWindow;
+    this.groq = new Groq({
+      apiKey: this.apiKey,
+      // The app has no backend, so the key necessarily lives in the browser.
+      dangerouslyAllowBrowser: true,
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.apiKey.length > 0;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      const response = await this.groq.chat.completions.create({
+        messages: request.messages,
+        model: this.model,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }, { signal: request.signal });
+
+      return response.choices[0]?.message.content ?? '';
+    } catch (error) {
+      throw this.wrapError(error, request);
+    }
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    let text = '';
+    try {
+      const stream = await this.groq.chat.completions.create({
+        messages: request.messages,
+        model: this.model,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+      }, { signal: request.signal });
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      }
+      return text;
+    } catch (error) {
+      throw this.wrapError(error, request);
+    }
+  }
+
+  private wrapError(error: unknown, request: CompletionRequest): Error {
+    if (request.signal?.aborted) {
+      return abortError();
+    }
+    const status = error instanceof Groq.APIError ? error.status : undefined;
+    return new LLMProviderError(
+      `Groq request failed: ${error instanceof Error ? error.message : String(error)}`,
+      this.kind,
+      status
+    );
+  }
+}
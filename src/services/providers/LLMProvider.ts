@@ -0,0 +1,65 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export type ProviderKind = 'groq' | 'openai' | 'local' | 'mock';
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  /** Overrides the provider's default context window size, in tokens. */
+  contextWindow?: number;
+  /** Mock provider only: URL of a JSON file of recorded responses. */
+  recordingsUrl?: string;
+}
+
+/**
+ * A chat-completion backend. GroqService only talks to this interface, so
+ * adapters can be swapped without touching the prompts or response parsing.
+ */
+export interface LLMProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  /** Total tokens (prompt and response) the model accepts per request. */
+  readonly contextWindow: number;
+
+  /** True when the provider has everything it needs to answer requests. */
+  isConfigured(): boolean;
+
+  complete(request: CompletionRequest): Promise<string>;
+
+  /**
+   * Like `complete`, but reports the response token by token as it arrives.
+   * Resolves with the full text; rejects if `request.signal` is aborted.
+   */
+  stream(request: CompletionRequest, onToken: TokenHandler): Promise<string>;
+}
+
+/** Providers reject with this when the caller aborts, so cancellation is not reported as a failure. */
+export const abortError = (): Error => new DOMException('The request was aborted', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderKind,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
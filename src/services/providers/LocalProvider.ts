@@ -0,0 +1,26 @@
+import { ProviderKind } from './LLMProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+// Ollama serves an OpenAI-compatible API under /v1; llama.cpp's server does
+// the same at its root, so point VITE_LLM_BASE_URL at http://localhost:8080/v1.
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+// Ollama's default num_ctx; set VITE_LLM_CONTEXT_WINDOW if the server allows more.
+export const DEFAULT_LOCAL_CONTEXT_WINDOW = 8192;
+
+/** A self-hosted Ollama or llama.cpp server. No API key is required. */
+export class LocalProvider extends OpenAICompatibleProvider {
+  readonly kind: ProviderKind = 'local';
+
+  constructor(
+    baseUrl: string = DEFAULT_LOCAL_BASE_URL,
+    model: string = DEFAULT_LOCAL_MODEL,
+    contextWindow: number = DEFAULT_LOCAL_CONTEXT_WINDOW
+  ) {
+    super(baseUrl, '', model, contextWindow);
+  }
+
+  isConfigured(): boolean {
+    return this.baseUrl.length > 0;
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  abortError,
+  ChatMessage,
+  CompletionRequest,
+  LLMProvider,
+  LLMProviderError,
+  ProviderKind,
+  TokenHandler,
+} from './LLMProvider';
+
+export interface RecordedResponse {
+  fingerprint: string;
+  /** Kept alongside the fingerprint so recordings stay readable when diffed. */
+  messages: ChatMessage[];
+  response: string;
+}
+
+/** Stable FNV-1a hash of the request messages; sampling settings are ignored. */
+export const fingerprintMessages = (messages: ChatMessage[]): string => {
+  const text = JSON.stringify(messages.map(m => [m.role, m.content]));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Replays responses captured by RecordingProvider. Lookups are by request
+ * fingerprint, so the same prompt always yields the same answer and a prompt
+ * that was never recorded fails loudly instead of returning something plausible.
+ */
+export class MockProvider implements LLMProvider {
+  readonly kind: ProviderKind = 'mock';
+  readonly model = 'mock';
+  readonly contextWindow: number;
+  private recordings = new Map<string, string>();
+  private recordingsUrl?: string;
+  private loaded: Promise<void> | null = null;
+
+  constructor(recordings: RecordedResponse[] = [], recordingsUrl?: string, contextWindow = 32768) {
+    this.addRecordings(recordings);
+    this.recordingsUrl = recordingsUrl;
+    this.contextWindow = contextWindow;
+  }
+
+  static fromJSON(json: string): MockProvider {
+    return new MockProvider(JSON.parse(json) as RecordedResponse[]);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  addRecordings(recordings: RecordedResponse[]): void {
+    recordings.forEach(r => this.recordings.set(r.fingerprint, r.response));
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    await this.loadRecordings();
+    if (request.signal?.aborted) throw abortError();
+
+    const fingerprint = fingerprintMessages(request.messages);
+    const response = this.recordings.get(fingerprint);
+    if (response === undefined) {
+      throw new LLMProviderError(`No recorded response for request ${fingerprint}`, this.kind);
+    }
+    return response;
+  }
+
+  /** Replays the recorded response split on whitespace, one piece per token. */
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    const response = await this.complete(request);
+    for (const token of response.match(/\s*\S+\s*/g) || []) {
+      if (request.signal?.aborted) throw abortError();
+      onToken(token);
+    }
+    return response;
+  }
+
+  private loadRecordings(): Promise<void> {
+    if (!this.recordingsUrl) return Promise.resolve();
+    if (!this.loaded) {
+      const url = this.recordingsUrl;
+      this.loaded = fetch(url)
+        .then(response => {
+          if (!response.ok) {
+            throw new LLMProviderError(`Could not load recordings from ${url}: ${response.status}`, this.kind);
+          }
+          return response.json() as Promise<RecordedResponse[]>;
+        })
+        .then(recordings => this.addRecordings(recordings))
+        .catch(error => {
+          // Forget the failure so the next request fetches again
+          this.loaded = null;
+          throw error;
+        });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Passes requests through to a real provider and keeps every exchange, so a
+ * session can be saved with `toJSON()` and replayed offline by MockProvider.
+ */
+export class RecordingProvider implements LLMProvider {
+  private recorded: RecordedResponse[] = [];
+
+  constructor(private inner: LLMProvider) {}
+
+  get kind(): ProviderKind {
+    return this.inner.kind;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  get contextWindow(): number {
+    return this.inner.contextWindow;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return this.record(request, await this.inner.complete(request));
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    return this.record(request, await this.inner.stream(request, onToken));
+  }
+
+  getRecordings(): RecordedResponse[] {
+    return [...this.recorded];
+  }
+
+  exportRecordings(): string {
+    return JSON.stringify(this.recorded, null, 2);
+  }
+
+  private record(request: CompletionRequest, response: string): string {
+    this.recorded.push({
+      fingerprint: fingerprintMessages(request.messages),
+      messages: request.messages,
+      response,
+    });
+    return response;
+  }
+}
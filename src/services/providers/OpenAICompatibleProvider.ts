@@ -0,0 +1,138 @@
+import {
+  abortError,
+  CompletionRequest,
+  LLMProvider,
+  LLMProviderError,
+  ProviderKind,
+  TokenHandler,
+} from './LLMProvider';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+export const DEFAULT_OPENAI_CONTEXT_WINDOW = 128000;
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Speaks the `/chat/completions` wire format directly with fetch, which covers
+ * OpenAI itself and the many gateways that mimic it.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly kind: ProviderKind = 'openai';
+  readonly model: string;
+  readonly contextWindow: number;
+  protected baseUrl: string;
+  protected apiKey: string;
+
+  constructor(
+    baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+    apiKey: string = '',
+    model: string = DEFAULT_OPENAI_MODEL,
+    contextWindow: number = DEFAULT_OPENAI_CONTEXT_WINDOW
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+    this.contextWindow = contextWindow;
+  }
+
+  isConfigured(): boolean {
+    return this.apiKey.length > 0;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const body: ChatCompletionResponse = await response.json();
+    return body.choices?.[0]?.message?.content ?? '';
+  }
+
+  async stream(request: CompletionRequest, onToken: TokenHandler): Promise<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new LLMProviderError(`${this.baseUrl} did not return a response stream`, this.kind);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Server-sent events: one `data: {...}` line per chunk, ending with `data: [DONE]`.
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+          const chunk: ChatCompletionChunk = JSON.parse(data);
+          const token = chunk.choices?.[0]?.delta?.content;
+          if (token) {
+            text += token;
+            onToken(token);
+          }
+        }
+      }
+    } catch (error) {
+      if (request.signal?.aborted) throw abortError();
+      throw new LLMProviderError(
+        `Stream from ${this.baseUrl} failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.kind
+      );
+    }
+    return text;
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream,
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw abortError();
+      throw new LLMProviderError(
+        `Could not reach ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+        this.kind
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMProviderError(
+        `${this.baseUrl} responded with ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`,
+        this.kind,
+        response.status
+      );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,52 @@
+import { GroqProvider } from './GroqProvider';
+import { LLMProvider, ProviderConfig, ProviderKind } from './LLMProvider';
+import { LocalProvider } from './LocalProvider';
+import { MockProvider } from './MockProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export * from './LLMProvider';
+export { GroqProvider } from './GroqProvider';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export { LocalProvider } from './LocalProvider';
+export { MockProvider, RecordingProvider, fingerprintMessages } from './MockProvider';
+export type { RecordedResponse } from './MockProvider';
+
+const PROVIDER_KINDS: ProviderKind[] = ['groq', 'openai', 'local', 'mock'];
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  switch (config.kind) {
+    case 'groq':
+      return new GroqProvider(config.apiKey || '', config.model || undefined, config.contextWindow);
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        config.baseUrl || undefined,
+        config.apiKey || '',
+        config.model || undefined,
+        config.contextWindow
+      );
+    case 'local':
+      return new LocalProvider(config.baseUrl || undefined, config.model || undefined, config.contextWindow);
+    case 'mock':
+      return new MockProvider([], config.recordingsUrl || undefined, config.contextWindow);
+  }
+};
+
+/**
+ * Builds the provider selected by the VITE_LLM_* variables. Without any
+ * configuration the app keeps its original behaviour and talks to Groq.
+ */
+export const createProviderFromEnv = (): LLMProvider => {
+  const env = import.meta.env;
+  const requested = (env.VITE_LLM_PROVIDER || 'groq').toLowerCase() as ProviderKind;
+  const kind = PROVIDER_KINDS.includes(requested) ? requested : 'groq';
+  const contextWindow = Number(env.VITE_LLM_CONTEXT_WINDOW) || undefined;
+
+  return createProvider({
+    kind,
+    model: env.VITE_LLM_MODEL,
+    apiKey: kind === 'groq' ? env.VITE_LLM_API_KEY || env.VITE_GROQ_API_KEY : env.VITE_LLM_API_KEY,
+    baseUrl: env.VITE_LLM_BASE_URL,
+    recordingsUrl: env.VITE_LLM_MOCK_RECORDINGS,
+    contextWindow,
+  });
+};
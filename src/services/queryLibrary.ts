@@ -0,0 +1,100 @@
+import type { SQLQuery } from './GroqService';
+import type { ProjectQuery } from './projectStore';
+import { dialectLabel } from './sqlDialect';
+import type { ZipEntry } from './zip';
+
+/** Scenario filter values besides a scenario name. */
+export const ALL = 'all';
+export const NO_SCENARIO = 'none';
+
+export interface QueryFilter {
+  search: string;
+  category: SQLQuery['category'] | typeof ALL;
+  /** A `testScenario`, ALL, or NO_SCENARIO for queries not linked to one. */
+  scenario: string;
+  tag: string;
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_FILTER: QueryFilter = { search: '', category: ALL, scenario: ALL, tag: ALL, favoritesOnly: false };
+
+export const queryTitle = (query: ProjectQuery): string => query.name?.trim() || query.description.trim() || query.id;
+
+/** Every word of `search` appears in the query's name, description, SQL, tags, scenario or category. */
+const matchesSearch = (query: ProjectQuery, search: string) => {
+  const text = [query.name, query.description, query.query, query.testScenario, query.category, ...(query.tags ?? [])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+export const filterQueries = <T extends ProjectQuery>(queries: T[], filter: QueryFilter): T[] =>
+  queries.filter(query =>
+    matchesSearch(query, filter.search) &&
+    (filter.category === ALL || query.category === filter.category) &&
+    (filter.scenario === ALL || (filter.scenario === NO_SCENARIO ? !query.testScenario : query.testScenario === filter.scenario)) &&
+    (filter.tag === ALL || (query.tags ?? []).includes(filter.tag)) &&
+    (!filter.favoritesOnly || query.favorite === true));
+
+/** Distinct values in first-seen order, for the filter lists. */
+export const scenariosOf = (queries: ProjectQuery[]): string[] =>
+  Array.from(new Set(queries.map(query => query.testScenario).filter((scenario): scenario is string => !!scenario)));
+
+export const tagsOf = (queries: ProjectQuery[]): string[] =>
+  Array.from(new Set(queries.flatMap(query => query.tags ?? []))).sort((a, b) => a.localeCompare(b));
+
+/** Tags as typed, e.g. "daily, finance": trimmed, without blanks or repeats. */
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+/** `queries` with the query `id` moved to where `targetId` is. */
+export const moveQuery = <T extends ProjectQuery>(queries: T[], id: string, targetId: string): T[] => {
+  const from = queries.findIndex(query => query.id === id);
+  const to = queries.findIndex(query => query.id === targetId);
+  if (from < 0 || to < 0 || from === to) return queries;
+  const next = [...queries];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+};
+
+const fileSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'query';
+
+/** A file name for the query from its title, made unique against `used`, which it is added to. */
+export const queryFileName = (query: ProjectQuery, used = new Set<string>()): string => {
+  const base = fileSlug(queryTitle(query));
+  let name = `${base}.sql`;
+  for (let n = 2; used.has(name); n++) name = `${base}_${n}.sql`;
+  used.add(name);
+  return name;
+};
+
+const commentLines = (text: string) => text.split('\n').map(line => `-- ${line}`.trimEnd()).join('\n');
+
+/** The query with a comment header saying what it is. */
+export const querySql = (query: ProjectQuery): string => {
+  const header = [
+    queryTitle(query),
+    query.name?.trim() && query.description.trim() ? query.description.trim() : '',
+    `Category: ${query.category}`,
+    query.dialect ? `Dialect: ${dialectLabel(query.dialect)}` : '',
+    query.testScenario ? `Test scenario: ${query.testScenario}` : '',
+    query.tags?.length ? `Tags: ${query.tags.join(', ')}` : '',
+    `Generated on ${query.timestamp.toLocaleString()}`,
+  ].filter(Boolean).join('\n');
+  const sql = query.query.trim();
+  return `${commentLines(header)}\n\n${sql}${sql.endsWith(';') ? '' : ';'}\n`;
+};
+
+/** All the queries in one script, each under its header. */
+export const combinedScript = (queries: ProjectQuery[]): string =>
+  [
+    commentLines(`${queries.length} quer${queries.length !== 1 ? 'ies' : 'y'} exported on ${new Date().toLocaleString()}`),
+    ...queries.map(querySql),
+  ].join(`\n${'-- '.padEnd(72, '=')}\n`);
+
+/** One named .sql file per query, for a zip. */
+export const queryFiles = (queries: ProjectQuery[]): ZipEntry[] => {
+  const used = new Set<string>();
+  return queries.map(query => ({ name: queryFileName(query, used), content: querySql(query) }));
+};
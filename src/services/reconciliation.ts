@@ -0,0 +1,378 @@
+import type { ColumnDefinition, DataTransformation, ParsedKnowledge, SQLQuery, TableSpecification } from './GroqService';
+import { formatIdentifier, formatTableName } from './ddlGenerator';
+import { normalizeIdentifier } from './dataLoader';
+import { typeCategory } from './sqlChecker';
+import { SqlDialect, transpileQuery } from './sqlDialect';
+import { parseSql, parseSqlExpression, SelectStatement, SqlSyntaxError, Statement, TableSource } from './sqlParser';
+
+/** Where the value of a target column comes from. */
+export interface ColumnMapping {
+  target: string;
+  /** SQL over the source rows that gives the column's value. */
+  source: string;
+  origin: 'transformation' | 'name';
+}
+
+export interface ReconciliationSuite {
+  /** The source rows shaped like the target, as every query compares them. */
+  sourceQuery: string;
+  mappings: ColumnMapping[];
+  /** Target key columns that diffs and checksums join on; empty when the key is not mapped. */
+  keyColumns: string[];
+  queries: SQLQuery[];
+  warnings: string[];
+}
+
+type TableReference = TableSource & { kind: 'table' };
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const bareName = (tableName: string) => tableName.split('.').pop() || tableName;
+
+/** Whether a reference such as `crm.customers` or `customers` names the table. */
+const refersTo = (name: string[], tableName: string) =>
+  sameName(name.join('.'), tableName) || sameName(name[name.length - 1], bareName(tableName));
+
+const readsTable = (from: TableSource[], tableName: string) =>
+  from.some(source => source.kind === 'table' && refersTo((source as TableReference).name, tableName));
+
+const parseStatements = (sql: string): Statement[] => {
+  try {
+    return parseSql(sql);
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    return [];
+  }
+};
+
+const isExpression = (sql: string) => {
+  if (/^(SELECT|WITH|INSERT|UPDATE|DELETE|MERGE|CREATE|ALTER|DROP|TRUNCATE)\b/i.test(sql)) return false;
+  try {
+    parseSqlExpression(sql);
+    return true;
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    return false;
+  }
+};
+
+const logicOf = (transformation: DataTransformation) => transformation.sqlLogic.trim().replace(/;\s*$/, '');
+
+const targetColumn = (target: TableSpecification, name: string) =>
+  target.columns.find(column => sameName(column.name, name) || normalizeIdentifier(column.name) === normalizeIdentifier(name));
+
+/**
+ * Transformations that move rows from `source` to `target`: an INSERT into
+ * the target or a SELECT that reads the source, or an UPDATE or DELETE on
+ * either table.
+ */
+export const linkingTransformations = (
+  knowledge: ParsedKnowledge,
+  source: TableSpecification,
+  target: TableSpecification
+): DataTransformation[] =>
+  knowledge.functionalRequirements.flatMap(requirement => requirement.transformations).filter(transformation => {
+    const logic = logicOf(transformation);
+    if (isExpression(logic)) return Boolean(targetColumn(target, transformation.name));
+    return parseStatements(logic).some(statement => {
+      switch (statement.kind) {
+        case 'insert':
+          return refersTo(statement.table.name, target.tableName) && Boolean(statement.query && readsTable(statement.query.from, source.tableName));
+        case 'select':
+          return readsTable(statement.from, source.tableName);
+        case 'update':
+        case 'delete':
+          return refersTo(statement.table.name, target.tableName) || refersTo(statement.table.name, source.tableName);
+        default:
+          return false;
+      }
+    });
+  });
+
+/** Name of a select item's output column, if it has one. */
+const outputName = (sql: string, item: SelectStatement['items'][number]) =>
+  item.alias ?? (item.expression.kind === 'column' ? item.expression.path[item.expression.path.length - 1] : undefined) ??
+  (item.expression.kind === 'star' ? undefined : sql.slice(item.expression.start, item.expression.end));
+
+/** Text of a SELECT from its FROM keyword on, without ORDER BY, which a derived table may not have. */
+const fromClause = (sql: string, select: SelectStatement) => {
+  let end = select.end;
+  if (select.orderBy.length > 0) {
+    const head = sql.slice(0, select.orderBy[0].start);
+    const order = [...head.matchAll(/\bORDER\s+BY\b/gi)].pop();
+    if (order?.index !== undefined) end = order.index;
+  }
+  return `FROM ${sql.slice(select.from[0].start, end).trim()}`;
+};
+
+interface SourceShape {
+  mappings: ColumnMapping[];
+  /** FROM ... of the transformation's query; the bare source table otherwise. */
+  from: string;
+  conditions: string[];
+}
+
+/**
+ * Maps target columns to source expressions. The first INSERT into the
+ * target, or SELECT over the source, decides the rows and most columns;
+ * expression transformations named after a target column add to it, and
+ * target columns named like a source column fill the rest.
+ */
+const shapeSource = (
+  source: TableSpecification,
+  target: TableSpecification,
+  transformations: DataTransformation[],
+  warnings: string[]
+): SourceShape => {
+  const mapped = new Map<string, ColumnMapping>();
+  const add = (name: string, expression: string, origin: ColumnMapping['origin']) => {
+    const column = targetColumn(target, name);
+    if (column && !mapped.has(column.name)) mapped.set(column.name, { target: column.name, source: expression, origin });
+  };
+  let from = `FROM ${formatTableName(source.tableName)}`;
+  let conditions: string[] = [];
+  let shaped = false;
+
+  for (const transformation of transformations) {
+    const logic = logicOf(transformation);
+    if (isExpression(logic)) {
+      add(transformation.name, logic, 'transformation');
+      continue;
+    }
+    for (const statement of parseStatements(logic)) {
+      if (statement.kind === 'update' && refersTo(statement.table.name, target.tableName)) {
+        const columns = statement.assignments.map(assignment => assignment.column.path[assignment.column.path.length - 1]);
+        warnings.push(`"${transformation.name}" updates ${columns.join(', ')} in ${target.tableName} after loading; differences there may be expected`);
+      } else if (statement.kind === 'delete' && refersTo(statement.table.name, target.tableName)) {
+        warnings.push(`"${transformation.name}" deletes rows from ${target.tableName}; the row counts may differ on purpose`);
+      }
+      if (shaped) continue;
+
+      let select: SelectStatement | undefined;
+      let names: (string | undefined)[] = [];
+      if (statement.kind === 'insert' && refersTo(statement.table.name, target.tableName) && statement.query) {
+        select = statement.query;
+        names = statement.columns.length > 0
+          ? statement.columns.map(column => column.name)
+          : target.columns.map(column => column.name);
+      } else if (statement.kind === 'select') {
+        select = statement;
+        names = select.items.map(item => outputName(logic, item));
+      }
+      if (!select || !readsTable(select.from, source.tableName)) continue;
+      if (select.with.length > 0 || select.compound.length > 0 || ('with' in statement && statement.with.length > 0)) {
+        warnings.push(`"${transformation.name}" uses WITH or a set operation; columns are matched by name instead`);
+        continue;
+      }
+
+      select.items.forEach((item, index) => {
+        if (item.expression.kind === 'star') return;
+        const name = names[index];
+        if (name) add(name, logic.slice(item.expression.start, item.expression.end), 'transformation');
+      });
+      if (select.items.some(item => item.expression.kind === 'star')) {
+        source.columns.forEach(column => add(column.name, formatIdentifier(column.name), 'name'));
+      }
+      from = fromClause(logic, select);
+      conditions = transformation.conditions.map(condition => condition.trim()).filter(condition => condition && isExpression(condition));
+      shaped = true;
+    }
+  }
+
+  if (!shaped) {
+    source.columns.forEach(column => add(column.name, formatIdentifier(column.name), 'name'));
+    if (transformations.length > 0) {
+      warnings.push(`No transformation reads ${source.tableName} into ${target.tableName}; columns are matched by name`);
+    }
+  }
+
+  // Keep the target's column order
+  const mappings = target.columns.flatMap(column => mapped.get(column.name) ?? []);
+  return { mappings, from, conditions };
+};
+
+const primaryKey = (table: TableSpecification): string[] => {
+  const constraint = table.constraints.find(entry => entry.type === 'PRIMARY_KEY' && entry.columns.length > 0);
+  return constraint ? constraint.columns : table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+};
+
+const indent = (sql: string, depth = 1) => sql.split('\n').map(line => `${'  '.repeat(depth)}${line}`).join('\n');
+
+const setDifference = (dialect: SqlDialect) => (dialect === 'oracle' ? 'MINUS' : 'EXCEPT');
+
+const asText = (expression: string, dialect: SqlDialect) => {
+  switch (dialect) {
+    case 'sqlserver': return `CAST(${expression} AS NVARCHAR(4000))`;
+    case 'oracle': return `TO_CHAR(${expression})`;
+    case 'snowflake': return `TO_VARCHAR(${expression})`;
+    default: return `CAST(${expression} AS TEXT)`;
+  }
+};
+
+/** MD5 of the columns' text joined with `|`, with NULL written as `<NULL>` so it differs from an empty string. */
+const rowHash = (expressions: string[], dialect: SqlDialect) => {
+  const parts = expressions.map(expression => `COALESCE(${asText(expression, dialect)}, '<NULL>')`);
+  switch (dialect) {
+    case 'sqlserver': return `CONVERT(CHAR(32), HASHBYTES('MD5', CONCAT(${parts.join(", '|', ")})), 2)`;
+    case 'oracle': return `STANDARD_HASH(${parts.join(" || '|' || ")}, 'MD5')`;
+    default: return `MD5(${parts.join(" || '|' || ")})`;
+  }
+};
+
+/** Null-safe inequality that every supported dialect accepts. */
+const differs = (left: string, right: string) =>
+  `(${left} <> ${right} OR (${left} IS NULL AND ${right} IS NOT NULL) OR (${left} IS NOT NULL AND ${right} IS NULL))`;
+
+const isNumeric = (column: ColumnDefinition) => typeCategory(column.dataType) === 'numeric';
+
+/**
+ * Builds a reconciliation suite between a source table and the target table
+ * it is loaded into: row counts, sums of numeric columns, EXCEPT diffs both
+ * ways and, when the target's primary key is mapped, a full-outer-join diff,
+ * a diff per column and a checksum per key. Source rows are shaped like the
+ * target through the transformations that link the tables. Every query
+ * returns the rows that break the reconciliation, so each expects no rows.
+ */
+export const generateReconciliationSuite = (
+  source: TableSpecification,
+  target: TableSpecification,
+  transformations: DataTransformation[],
+  dialect: SqlDialect
+): ReconciliationSuite => {
+  const warnings: string[] = [];
+  const { mappings, from, conditions } = shapeSource(source, target, transformations, warnings);
+
+  const unmapped = target.columns.filter(column => !mappings.some(mapping => mapping.target === column.name));
+  if (unmapped.length > 0) {
+    warnings.push(`No source value for ${unmapped.map(column => column.name).join(', ')}; not reconciled`);
+  }
+
+  const projection = mappings.length > 0
+    ? mappings.map(mapping => `${mapping.source} AS ${formatIdentifier(mapping.target)}`).join(',\n       ')
+    : '*';
+  const shaped = `SELECT ${projection}\n${from}`;
+  const sourceQuery = conditions.length > 0
+    ? `SELECT *\nFROM (\n${indent(shaped)}\n) src\nWHERE ${conditions.map(condition => `(${condition})`).join(' AND ')}`
+    : shaped;
+
+  const targetTable = formatTableName(target.tableName);
+  const sourceRows = `(\n${indent(sourceQuery)}\n)`;
+  const columns = mappings.map(mapping => formatIdentifier(mapping.target));
+  const key = primaryKey(target);
+  const keyColumns = key.every(name => mappings.some(mapping => sameName(mapping.target, name)))
+    ? key.map(name => mappings.find(mapping => sameName(mapping.target, name))!.target)
+    : [];
+  if (key.length === 0) {
+    warnings.push(`${target.tableName} has no primary key; the key-based diffs and checksums are left out`);
+  } else if (keyColumns.length === 0) {
+    warnings.push(`The key of ${target.tableName} (${key.join(', ')}) has no source value; the key-based diffs and checksums are left out`);
+  }
+  const keys = keyColumns.map(formatIdentifier);
+  const valueColumns = mappings.filter(mapping => !keyColumns.includes(mapping.target)).map(mapping => formatIdentifier(mapping.target));
+  const numericColumns = target.columns
+    .filter(column => isNumeric(column) && !keyColumns.includes(column.name) && mappings.some(mapping => mapping.target === column.name))
+    .map(column => formatIdentifier(column.name));
+
+  const scenario = `Reconciliation: ${source.tableName} → ${target.tableName}`;
+  const idPrefix = `recon_${normalizeIdentifier(bareName(source.tableName))}_${normalizeIdentifier(bareName(target.tableName))}`;
+  const queries: SQLQuery[] = [];
+  const add = (id: string, description: string, sql: string) => {
+    const { query, warnings: conversionWarnings } = transpileQuery(sql, dialect, [source, target]);
+    conversionWarnings.forEach(warning => {
+      if (!warnings.includes(warning)) warnings.push(warning);
+    });
+    queries.push({
+      id: `${idPrefix}_${id}`,
+      query,
+      description,
+      category: 'VALIDATION',
+      testScenario: scenario,
+      dialect,
+      expectation: { type: 'NO_ROWS' },
+    });
+  };
+  const joinOn = keys.map(column => `s.${column} = t.${column}`).join(' AND ');
+
+  add(
+    'row_count',
+    `Row counts of ${source.tableName} and ${target.tableName} match`,
+    `SELECT s.row_count AS source_rows, t.row_count AS target_rows
+FROM (SELECT COUNT(*) AS row_count FROM ${sourceRows} src) s
+CROSS JOIN (SELECT COUNT(*) AS row_count FROM ${targetTable}) t
+WHERE s.row_count <> t.row_count`
+  );
+
+  if (numericColumns.length > 0) {
+    const sums = numericColumns.map((column, index) => `SUM(${column}) AS sum_${index + 1}`).join(', ');
+    add(
+      'sums',
+      `Sums of ${numericColumns.join(', ')} match between ${source.tableName} and ${target.tableName}`,
+      `SELECT ${numericColumns.map((column, index) => `s.sum_${index + 1} AS source_${normalizeIdentifier(column)}, t.sum_${index + 1} AS target_${normalizeIdentifier(column)}`).join(',\n       ')}
+FROM (SELECT ${sums}
+      FROM ${sourceRows} src) s
+CROSS JOIN (SELECT ${sums}
+            FROM ${targetTable}) t
+WHERE ${numericColumns.map((_, index) => differs(`s.sum_${index + 1}`, `t.sum_${index + 1}`)).join('\n   OR ')}`
+    );
+  }
+
+  if (columns.length > 0) {
+    const columnList = columns.join(', ');
+    add(
+      'missing_in_target',
+      `Every ${source.tableName} row arrives in ${target.tableName} unchanged`,
+      `SELECT ${columnList} FROM ${sourceRows} src
+${setDifference(dialect)}
+SELECT ${columnList} FROM ${targetTable}`
+    );
+    add(
+      'unexpected_in_target',
+      `${target.tableName} holds no rows that ${source.tableName} does not produce`,
+      `SELECT ${columnList} FROM ${targetTable}
+${setDifference(dialect)}
+SELECT ${columnList} FROM ${sourceRows} src`
+    );
+  }
+
+  if (keys.length > 0) {
+    const keyOf = (alias: string) => keys.map(column => `${alias}.${column}`);
+    const missing = `s.${keys[0]} IS NULL`;
+    const extra = `t.${keys[0]} IS NULL`;
+    add(
+      'full_diff',
+      `Rows of ${source.tableName} and ${target.tableName} match key by key (full outer join)`,
+      `SELECT ${keys.map(column => `COALESCE(s.${column}, t.${column}) AS ${column}`).join(', ')},
+       CASE WHEN ${missing} THEN 'only in target'
+            WHEN ${extra} THEN 'only in source'
+            ELSE 'values differ' END AS difference${valueColumns.map(column => `,\n       s.${column} AS source_${normalizeIdentifier(column)}, t.${column} AS target_${normalizeIdentifier(column)}`).join('')}
+FROM ${sourceRows} s
+FULL OUTER JOIN ${targetTable} t ON ${joinOn}
+WHERE ${[missing, extra, ...valueColumns.map(column => differs(`s.${column}`, `t.${column}`))].join('\n   OR ')}`
+    );
+
+    valueColumns.forEach(column => {
+      add(
+        `diff_${normalizeIdentifier(column)}`,
+        `${column} matches between ${source.tableName} and ${target.tableName} for every key`,
+        `SELECT ${keyOf('s').join(', ')}, s.${column} AS source_value, t.${column} AS target_value
+FROM ${sourceRows} s
+JOIN ${targetTable} t ON ${joinOn}
+WHERE ${differs(`s.${column}`, `t.${column}`)}`
+      );
+    });
+
+    if (valueColumns.length > 0) {
+      const hashed = (alias: string) => `SELECT ${keys.join(', ')}, ${rowHash(valueColumns, dialect)} AS row_hash FROM ${alias}`;
+      add(
+        'checksum',
+        `Checksums of each ${target.tableName} row match the ${source.tableName} row with the same key`,
+        `SELECT ${keyOf('s').join(', ')}, s.row_hash AS source_hash, t.row_hash AS target_hash
+FROM (${hashed(`${sourceRows} src`)}) s
+JOIN (${hashed(targetTable)}) t ON ${joinOn}
+WHERE s.row_hash <> t.row_hash`
+      );
+    }
+  }
+
+  return { sourceQuery, mappings, keyColumns, queries, warnings };
+};
@@ -0,0 +1,202 @@
+import type { BusinessRule, ParsedKnowledge, TableSpecification } from './GroqService';
+import SqlEngine, { qualifiedName, QueryResult } from './SqlEngine';
+import { engineLimitation, transpileForEngine } from './sqlDialect';
+import { Expression, parseSql, parseSqlExpression, SqlSyntaxError } from './sqlParser';
+
+export type RuleStatus = 'pass' | 'fail' | 'error' | 'needs-artefact' | 'not-runnable';
+
+export interface CompiledRule {
+  ruleId: string;
+  /** Table the rule is checked against, when it could be worked out. */
+  tableName?: string;
+  /** Query returning the rows that break the rule, in the dialect the rule is written in. */
+  violationQuery?: string;
+  /** Why the rule could not be compiled. */
+  error?: string;
+  /** Something the reader should know about how the rule was read. */
+  note?: string;
+}
+
+export interface RuleReport extends CompiledRule {
+  status: RuleStatus;
+  /** `violationQuery` rewritten for the in-browser engine, which runs SQLite. */
+  engineQuery?: string;
+  message: string;
+  rowsChecked?: number;
+  violationCount?: number;
+  durationMs?: number;
+}
+
+export const VIOLATION_PAGE_SIZE = 20;
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const bareName = (tableName: string) => tableName.split('.').pop() || tableName;
+
+const findTable = (name: string, knowledge: ParsedKnowledge): TableSpecification | undefined =>
+  knowledge.tableSpecifications.find(spec => sameName(spec.tableName, name)) ??
+  knowledge.tableSpecifications.find(spec => sameName(bareName(spec.tableName), bareName(name)));
+
+/** Column references in a condition, leaving out those inside subqueries. */
+const columnReferences = (node: unknown, found: (Expression & { kind: 'column' })[] = []) => {
+  if (Array.isArray(node)) {
+    node.forEach(item => columnReferences(item, found));
+  } else if (node && typeof node === 'object') {
+    const record = node as { kind?: string };
+    if (record.kind === 'column') {
+      found.push(node as Expression & { kind: 'column' });
+    } else if (record.kind !== 'select') {
+      Object.values(node).forEach(value => columnReferences(value, found));
+    }
+  }
+  return found;
+};
+
+// "CHECK (amount > 0);" and "(amount > 0)" both come down to "amount > 0"
+export const cleanCondition = (condition: string) =>
+  condition.trim().replace(/;\s*$/, '').replace(/^CHECK\s*(?=\()/i, '').trim();
+
+export interface TableMatch {
+  spec?: TableSpecification;
+  /** Why no table could be picked. */
+  error?: string;
+  /** Other tables that would also have fitted. */
+  note?: string;
+}
+
+/**
+ * The table an expression's columns belong to: the one they are qualified
+ * with or, failing that, the first one that has all of them.
+ */
+export const tableForExpression = (expression: Expression, knowledge: ParsedKnowledge): TableMatch => {
+  const columns = columnReferences(expression);
+  if (columns.length === 0) return { error: 'No columns are named' };
+
+  const qualifiers = [...new Set(columns.filter(column => column.path.length > 1).map(column => column.path.slice(0, -1).join('.')))];
+  const qualifiedTables = [...new Set(qualifiers.map(qualifier => findTable(qualifier, knowledge)))];
+  if (qualifiedTables.includes(undefined)) {
+    const unknown = qualifiers.filter(qualifier => !findTable(qualifier, knowledge));
+    return { error: `Table ${unknown.join(', ')} is not in the knowledge base` };
+  }
+  if (qualifiedTables.length > 1) {
+    const names = qualifiedTables.map(spec => spec!.tableName).join(', ');
+    return { error: `Columns of several tables are used (${names}); write it as a SELECT instead` };
+  }
+
+  const unqualified = [...new Set(columns.filter(column => column.path.length === 1).map(column => column.path[0]))];
+  const hasAll = (spec: TableSpecification) =>
+    unqualified.every(name => spec.columns.some(column => sameName(column.name, name)));
+  const candidates = qualifiedTables.length ? [qualifiedTables[0]!] : knowledge.tableSpecifications.filter(hasAll);
+
+  const spec = candidates[0];
+  if (!spec || !hasAll(spec)) {
+    return {
+      error: `No table in the knowledge base has ${unqualified.length > 1 ? 'all of the columns' : 'the column'} ${unqualified.join(', ')}`,
+    };
+  }
+  return {
+    spec,
+    note: candidates.length > 1
+      ? `Also matches ${candidates.slice(1).map(candidate => candidate.tableName).join(', ')}; using ${spec.tableName}.`
+      : undefined,
+  };
+};
+
+/**
+ * Turns a rule's `sqlCondition` into a query for the rows that break it.
+ * A condition is what valid rows satisfy, so violations are the rows where
+ * it is false; as with a CHECK constraint, rows where it is NULL pass. The
+ * table is the one its columns are qualified with or, failing that, the one
+ * that has all of them. A condition written as a SELECT is taken to return
+ * the violating rows already.
+ */
+export const compileRule = (rule: BusinessRule, knowledge: ParsedKnowledge): CompiledRule => {
+  const condition = cleanCondition(rule.sqlCondition);
+  if (!condition) return { ruleId: rule.id, error: 'The rule has no SQL condition' };
+
+  try {
+    if (/^(SELECT|WITH)\b/i.test(condition)) {
+      const [statement] = parseSql(condition);
+      if (statement?.kind !== 'select') return { ruleId: rule.id, error: 'The condition is not a single SELECT' };
+      const source = statement.from.find(from => from.kind === 'table');
+      const spec = source?.kind === 'table' ? findTable(source.name.join('.'), knowledge) : undefined;
+      return {
+        ruleId: rule.id,
+        tableName: spec?.tableName,
+        violationQuery: condition,
+        note: 'The condition is a query; every row it returns counts as a violation.',
+      };
+    }
+
+    const match = tableForExpression(parseSqlExpression(condition), knowledge);
+    if (!match.spec) return { ruleId: rule.id, error: match.error };
+
+    return {
+      ruleId: rule.id,
+      tableName: match.spec.tableName,
+      violationQuery: `SELECT *\nFROM ${qualifiedName(match.spec.tableName)}\nWHERE NOT (${condition})`,
+      note: match.note,
+    };
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      return { ruleId: rule.id, error: `Could not read the condition: ${error.message}` };
+    }
+    throw error;
+  }
+};
+
+const scalar = (result: QueryResult) => Number(result.rows[0]?.[0] ?? 0);
+
+/**
+ * Checks a rule against the loaded data: rows checked, violating rows and
+ * status. TRIGGER and PROCEDURE rules need code in the database and are only
+ * reported, not evaluated.
+ */
+export const validateRule = async (rule: BusinessRule, knowledge: ParsedKnowledge): Promise<RuleReport> => {
+  const compiled = compileRule(rule, knowledge);
+
+  if (rule.validationType !== 'CHECK') {
+    return {
+      ...compiled,
+      status: 'needs-artefact',
+      message: `Needs a database ${rule.validationType === 'TRIGGER' ? 'trigger' : 'stored procedure'} to enforce; not evaluated against the data.`,
+    };
+  }
+  if (!compiled.violationQuery) {
+    return { ...compiled, status: 'error', message: compiled.error ?? 'The rule could not be compiled' };
+  }
+
+  const { query: engineQuery, warnings } = transpileForEngine(compiled.violationQuery, knowledge.tableSpecifications);
+  try {
+    await SqlEngine.ensureSchema(knowledge);
+    const violations = await SqlEngine.execute(`SELECT COUNT(*) FROM (${engineQuery})`, { rollback: true });
+    const rowsChecked = compiled.tableName
+      ? scalar(await SqlEngine.execute(`SELECT COUNT(*) FROM ${qualifiedName(compiled.tableName)}`))
+      : undefined;
+    const violationCount = scalar(violations);
+    const checked = rowsChecked !== undefined ? ` of ${rowsChecked}` : '';
+
+    return {
+      ...compiled,
+      engineQuery,
+      status: violationCount > 0 ? 'fail' : 'pass',
+      message: violationCount > 0
+        ? `Broken by ${violationCount}${checked} row${violationCount !== 1 || rowsChecked !== undefined ? 's' : ''}`
+        : rowsChecked === 0 ? 'No rows to check; the table is empty' : `All${checked} rows satisfy the rule`,
+      rowsChecked,
+      violationCount,
+      durationMs: violations.durationMs,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const limitation = engineLimitation(message, warnings);
+    return { ...compiled, engineQuery, status: limitation ? 'not-runnable' : 'error', message: limitation ?? message };
+  }
+};
+
+/** One page of the rows that break a rule, for drilling into a report. */
+export const fetchViolations = async (report: RuleReport, page: number): Promise<QueryResult> =>
+  SqlEngine.execute(
+    `SELECT * FROM (${report.engineQuery ?? report.violationQuery}) LIMIT ${VIOLATION_PAGE_SIZE} OFFSET ${page * VIOLATION_PAGE_SIZE}`,
+    { rollback: true }
+  );
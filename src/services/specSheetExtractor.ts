@@ -0,0 +1,269 @@
+import * as XLSX from 'xlsx';
+import type { WorkSheet } from 'xlsx';
+import type {
+  ColumnDefinition,
+  Constraint,
+  Relationship,
+  TableSpecification,
+  WorkbookData,
+} from './GroqService';
+
+type ColumnRole = 'name' | 'dataType' | 'nullable' | 'mandatory' | 'primaryKey' | 'constraints' | 'description';
+
+interface HeaderLayout {
+  row: number;
+  columns: Partial<Record<ColumnRole, number>>;
+}
+
+export interface SpecSheetExtraction {
+  tables: TableSpecification[];
+  /** Sheets with at least one recognised specification table. */
+  recognisedSheets: string[];
+  /** Sheets that need an LLM to interpret. */
+  unrecognisedSheets: string[];
+}
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().replace(/[_\-/&]+/g, ' ').replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+
+const TRUTHY = ['y', 'yes', 'true', 'x', '1', 'pk', '✓', '✔'];
+
+// Order matters: "Target Stage Table Column Data Type" mentions "column" too,
+// so the more specific roles are tried before falling back to the name role.
+const classifyHeader = (text: string): ColumnRole | null => {
+  const header = normalizeHeader(text);
+  // Header cells are short labels; long cells are descriptions that merely mention "data type".
+  if (!header || header.split(' ').length > 8) return null;
+  if (/\bdata ?type\b/.test(header) || header === 'type' || header === 'datatype') return 'dataType';
+  if (/\bconstraints?\b/.test(header)) return 'constraints';
+  if (header === 'pk' || /\bprimary key\b/.test(header) || header === 'key' || header === 'is pk') return 'primaryKey';
+  if (/\bnullable\b/.test(header) || header === 'null' || header === 'nulls allowed' || header === 'allow nulls') return 'nullable';
+  if (/\b(mandatory|required|not null)\b/.test(header)) return 'mandatory';
+  if (/\b(description|comments?|definition|notes?)\b/.test(header)) return 'description';
+  if (/\b(column|field|attribute)\b/.test(header) || header === 'name') return 'name';
+  return null;
+};
+
+// Specs often list the source field next to the target column; the target is the one we build.
+const nameScore = (text: string): number => {
+  const header = normalizeHeader(text);
+  let score = 0;
+  if (/\bcolumn name\b/.test(header)) score += 3;
+  if (/\btarget\b/.test(header)) score += 2;
+  if (/\bcolumn\b/.test(header)) score += 1;
+  if (/\bsource\b/.test(header)) score -= 2;
+  return score;
+};
+
+const detectHeader = (cells: string[], row: number): HeaderLayout | null => {
+  const columns: HeaderLayout['columns'] = {};
+  let bestName = -Infinity;
+
+  cells.forEach((cell, index) => {
+    const role = classifyHeader(cell);
+    if (!role) return;
+    if (role === 'name') {
+      const score = nameScore(cell);
+      if (score > bestName) {
+        bestName = score;
+        columns.name = index;
+      }
+    } else if (columns[role] === undefined) {
+      columns[role] = index;
+    }
+  });
+
+  return columns.name !== undefined && columns.dataType !== undefined ? { row, columns } : null;
+};
+
+const TABLE_LABEL = /^(target( stage)? table|table name|table)$/;
+
+/** Looks above the header for a "Target Table: X" style label; falls back to the sheet name. */
+const findTableName = (rows: string[][], headerRow: number, floor: number, sheetName: string): string => {
+  for (let row = headerRow - 1; row >= floor; row--) {
+    const cells = rows[row] || [];
+    const labelIndex = cells.findIndex(cell => TABLE_LABEL.test(normalizeHeader(cell)));
+    if (labelIndex >= 0) {
+      const value = cells.slice(labelIndex + 1).find(cell => cell.trim());
+      if (value) return value.trim();
+    }
+  }
+  return sheetName.trim();
+};
+
+const cell = (cells: string[], index: number | undefined): string =>
+  index === undefined ? '' : (cells[index] || '').trim();
+
+const isTruthy = (value: string) => TRUTHY.includes(value.trim().toLowerCase());
+
+const splitColumnList = (list: string) =>
+  list.split(',').map(part => part.trim().replace(/^["'`[]|["'`\]]$/g, '')).filter(Boolean);
+
+interface ParsedConstraintCell {
+  notNull: boolean;
+  primaryKey: boolean;
+  constraints: Omit<Constraint, 'name'>[];
+  relationships: Omit<Relationship, 'toTable' | 'toColumn'>[];
+  lines: string[];
+}
+
+/**
+ * Understands the constraint notation used in FRS column tables, e.g.
+ * `NOT NULL`, `PRIMARY KEY (id)`, `UNIQUE (a, b)`, `CHECK (x > 0)` and
+ * `FOREIGN KEY REFERENCES schema.table (column)`.
+ */
+const parseConstraintCell = (text: string, columnName: string): ParsedConstraintCell => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const result: ParsedConstraintCell = {
+    notNull: /\bNOT NULL\b/i.test(flat),
+    primaryKey: /\bPRIMARY KEY\b/i.test(flat),
+    constraints: [],
+    relationships: [],
+    lines: text.split(/\r?\n/).map(line => line.trim()).filter(Boolean),
+  };
+
+  const unique = flat.match(/\bUNIQUE\b(?:\s*\(([^)]*)\))?/i);
+  if (unique) {
+    result.constraints.push({ type: 'UNIQUE', columns: unique[1] ? splitColumnList(unique[1]) : [columnName] });
+  }
+
+  const check = flat.match(/\bCHECK\s*\((.*)\)/i);
+  if (check) {
+    result.constraints.push({ type: 'CHECK', columns: [columnName], expression: check[1].trim() });
+  }
+
+  const foreignKey = flat.match(/\bREFERENCES\s+([\w."]+)\s*\(\s*([\w"]+)\s*\)/i);
+  if (foreignKey) {
+    const [, table, column] = foreignKey;
+    const toTable = table.replace(/"/g, '');
+    const toColumn = column.replace(/"/g, '');
+    result.constraints.push({ type: 'FOREIGN_KEY', columns: [columnName], reference: `${toTable}(${toColumn})` });
+    // Recorded from the referenced ("one") side, matching ONE_TO_MANY.
+    result.relationships.push({ fromTable: toTable, fromColumn: toColumn, type: 'ONE_TO_MANY' });
+  }
+
+  return result;
+};
+
+const constraintName = (prefix: string, tableName: string, columns: string[]) =>
+  [prefix, tableName.split('.').pop(), ...columns].join('_').replace(/[^A-Za-z0-9_]/g, '_');
+
+const buildTable = (
+  tableName: string,
+  layout: HeaderLayout,
+  rows: string[][],
+  end: number
+): TableSpecification => {
+  const columns: ColumnDefinition[] = [];
+  const constraints: Constraint[] = [];
+  const relationships: Relationship[] = [];
+
+  for (let row = layout.row + 1; row < end; row++) {
+    const cells = rows[row] || [];
+    const name = cell(cells, layout.columns.name);
+    if (!name || /^-+$/.test(name)) continue;
+
+    const constraintText = cell(cells, layout.columns.constraints);
+    const parsed = parseConstraintCell(constraintText, name);
+    const nullableCell = cell(cells, layout.columns.nullable);
+    const mandatoryCell = cell(cells, layout.columns.mandatory);
+
+    const isPrimaryKey = parsed.primaryKey || isTruthy(cell(cells, layout.columns.primaryKey));
+    let isNullable = !parsed.notNull && !isPrimaryKey;
+    if (nullableCell) isNullable = isTruthy(nullableCell) || /^null$/i.test(nullableCell);
+    if (mandatoryCell) isNullable = !isTruthy(mandatoryCell);
+
+    const column: ColumnDefinition = {
+      name,
+      dataType: cell(cells, layout.columns.dataType).replace(/\s+/g, ' ').toUpperCase(),
+      isNullable: isPrimaryKey ? false : isNullable,
+      isPrimaryKey,
+    };
+    const description = cell(cells, layout.columns.description);
+    if (description) column.description = description;
+    if (parsed.lines.length > 0) column.constraints = parsed.lines;
+    columns.push(column);
+
+    parsed.constraints.forEach(c => {
+      constraints.push({ ...c, name: constraintName(c.type === 'FOREIGN_KEY' ? 'fk' : c.type === 'UNIQUE' ? 'uq' : 'ck', tableName, c.columns) });
+    });
+    parsed.relationships.forEach(r => {
+      relationships.push({ ...r, toTable: tableName, toColumn: name });
+    });
+  }
+
+  const primaryKey = columns.filter(c => c.isPrimaryKey).map(c => c.name);
+  if (primaryKey.length > 0) {
+    constraints.unshift({ name: constraintName('pk', tableName, []), type: 'PRIMARY_KEY', columns: primaryKey });
+  }
+
+  // The same UNIQUE (a, b) is usually repeated on every participating column.
+  const seen = new Set<string>();
+  const dedupedConstraints = constraints.filter(c => {
+    const key = `${c.type}|${c.columns.join(',').toLowerCase()}|${c.reference || c.expression || ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { tableName, columns, constraints: dedupedConstraints, relationships };
+};
+
+const sheetRows = (sheet: WorkSheet): string[][] =>
+  XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true })
+    .map(row => row.map(value => String(value ?? '')));
+
+const isBlank = (cells: string[] | undefined) => !cells || cells.every(value => !value.trim());
+
+/** Finds every column-specification table in a sheet. */
+export const extractTablesFromSheet = (sheet: WorkSheet, sheetName: string): TableSpecification[] => {
+  const rows = sheetRows(sheet);
+  const tables: TableSpecification[] = [];
+  let floor = 0;
+  let row = 0;
+
+  while (row < rows.length) {
+    const layout = detectHeader(rows[row] || [], row);
+    if (!layout) {
+      row++;
+      continue;
+    }
+
+    // A table ends at the first blank row or the next header row.
+    let end = row + 1;
+    while (end < rows.length && !isBlank(rows[end]) && !detectHeader(rows[end], end)) {
+      end++;
+    }
+
+    const table = buildTable(findTableName(rows, row, floor, sheetName), layout, rows, end);
+    if (table.columns.length > 0) {
+      tables.push(table);
+    }
+    floor = end;
+    row = end;
+  }
+
+  return tables;
+};
+
+/**
+ * Rule-based pass over the workbook. Sheets laid out as "Column Name / Data
+ * Type / Nullable / PK / Description" tables are converted exactly; anything
+ * else is reported as unrecognised so it can be sent to the LLM instead.
+ */
+export const extractSpecSheets = (workbookData: WorkbookData): SpecSheetExtraction => {
+  const extraction: SpecSheetExtraction = { tables: [], recognisedSheets: [], unrecognisedSheets: [] };
+
+  workbookData.SheetNames.forEach(sheetName => {
+    const sheet = workbookData.Sheets[sheetName];
+    const tables = sheet ? extractTablesFromSheet(sheet, sheetName) : [];
+    if (tables.length > 0) {
+      extraction.tables.push(...tables);
+      extraction.recognisedSheets.push(sheetName);
+    } else {
+      extraction.unrecognisedSheets.push(sheetName);
+    }
+  });
+
+  return extraction;
+};
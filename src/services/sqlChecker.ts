@@ -0,0 +1,545 @@
+import type { ColumnDefinition, ParsedKnowledge, TableSpecification } from './GroqService';
+import {
+  CommonTableExpression,
+  Expression,
+  parseSql,
+  SelectStatement,
+  SourceSpan,
+  SqlSyntaxError,
+  Statement,
+  TableSource,
+} from './sqlParser';
+
+export type FindingCode =
+  | 'syntax'
+  | 'unknown-table'
+  | 'unknown-column'
+  | 'ambiguous-column'
+  | 'column-count'
+  | 'type-mismatch';
+
+export interface SqlFinding {
+  code: FindingCode;
+  /** Errors stop the query from running as intended; warnings may be deliberate. */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Where in the query text the problem is. */
+  span?: SourceSpan;
+}
+
+type TypeCategory = 'numeric' | 'text' | 'date' | 'boolean';
+
+interface ValueType {
+  category: TypeCategory;
+  /** Declared length of a character column. */
+  length?: number;
+  /** Where the type came from, e.g. `visit_date (DATE)`, for messages. */
+  source?: string;
+}
+
+interface ColumnInfo {
+  name: string;
+  type?: ValueType;
+}
+
+interface Relation {
+  /** Name used to qualify columns: the alias, or the table name. */
+  name: string;
+  /** Full name, so `schema.table.column` also resolves. */
+  qualifiedName?: string;
+  /** `null` when the columns are not known, e.g. an unknown table or a table function. */
+  columns: ColumnInfo[] | null;
+}
+
+interface Scope {
+  relations: Relation[];
+  /** Select-list aliases, which ORDER BY may use. */
+  aliases: string[];
+  ctes: Map<string, Relation>;
+  parent?: Scope;
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Maps a declared type such as `VARCHAR2(50)` or `NUMBER(10,2)` to what it can be compared with. */
+export const typeCategory = (dataType: string): TypeCategory | undefined => {
+  const type = dataType.trim().toUpperCase();
+  if (/^(BOOL|BOOLEAN|BIT)\b/.test(type)) return 'boolean';
+  if (/^(DATE|TIME|TIMESTAMP|DATETIME|SMALLDATETIME|DATETIME2|DATETIMEOFFSET|TIMESTAMP_NTZ|TIMESTAMP_LTZ|TIMESTAMP_TZ)\b/.test(type)) {
+    return 'date';
+  }
+  if (/^(INT|INTEGER|BIGINT|SMALLINT|TINYINT|NUMBER|NUMERIC|DECIMAL|DEC|FLOAT|REAL|DOUBLE|MONEY|SMALLMONEY|SERIAL|BIGSERIAL|BINARY_FLOAT|BINARY_DOUBLE)\b/.test(type)) {
+    return 'numeric';
+  }
+  if (/^(CHAR|CHARACTER|VARCHAR|VARCHAR2|NCHAR|NVARCHAR|NVARCHAR2|TEXT|NTEXT|STRING|CLOB|NCLOB)\b/.test(type)) {
+    return 'text';
+  }
+  return undefined;
+};
+
+const columnType = (column: ColumnDefinition): ValueType | undefined => {
+  const category = typeCategory(column.dataType || '');
+  if (!category) return undefined;
+  const length = category === 'text' ? column.dataType.match(/\(\s*(\d+)/)?.[1] : undefined;
+  return { category, length: length ? Number(length) : undefined, source: `${column.name} (${column.dataType})` };
+};
+
+const tableRelation = (spec: TableSpecification, name: string): Relation => ({
+  name,
+  qualifiedName: spec.tableName,
+  columns: spec.columns.map(column => ({ name: column.name, type: columnType(column) })),
+});
+
+const NUMERIC_TEXT = /^\s*[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?\s*$/;
+const DATE_TEXT = /^\s*\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?\s*$|^\s*\d{1,2}[-/][A-Za-z0-9]{1,3}[-/]\d{2,4}\s*$/;
+
+const NUMERIC_FUNCTIONS = new Set([
+  'COUNT', 'COUNT_BIG', 'SUM', 'AVG', 'ROUND', 'TRUNC', 'FLOOR', 'CEIL', 'CEILING', 'ABS', 'MOD', 'POWER', 'SQRT',
+  'LENGTH', 'LEN', 'CHAR_LENGTH', 'CHARACTER_LENGTH', 'ROW_NUMBER', 'RANK', 'DENSE_RANK', 'NTILE', 'DATEDIFF',
+  'DATEDIFF_BIG', 'DATEPART', 'EXTRACT', 'DATE_PART', 'INSTR', 'CHARINDEX', 'POSITION', 'TO_NUMBER', 'STDDEV', 'VARIANCE',
+]);
+const TEXT_FUNCTIONS = new Set([
+  'UPPER', 'LOWER', 'TRIM', 'LTRIM', 'RTRIM', 'SUBSTR', 'SUBSTRING', 'CONCAT', 'CONCAT_WS', 'REPLACE', 'LPAD', 'RPAD',
+  'LEFT', 'RIGHT', 'TO_CHAR', 'INITCAP', 'STRING_AGG', 'LISTAGG', 'GROUP_CONCAT', 'DATENAME', 'FORMAT',
+]);
+const DATE_FUNCTIONS = new Set([
+  'NOW', 'GETDATE', 'SYSDATETIME', 'GETUTCDATE', 'TO_DATE', 'TO_TIMESTAMP', 'DATEADD', 'ADD_MONTHS', 'DATE_TRUNC',
+  'DATETRUNC', 'LAST_DAY', 'EOMONTH', 'DATEFROMPARTS', 'MAKE_DATE',
+]);
+// Functions that return the type of their first argument.
+const PASS_THROUGH_FUNCTIONS = new Set(['MIN', 'MAX', 'COALESCE', 'NVL', 'ISNULL', 'IFNULL', 'NULLIF', 'LAG', 'LEAD', 'FIRST_VALUE', 'LAST_VALUE']);
+
+const DATE_KEYWORDS = new Set(['CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'LOCALTIME', 'LOCALTIMESTAMP', 'SYSDATE', 'SYSTIMESTAMP']);
+
+const describeType = (type: ValueType) => type.source ?? type.category;
+
+const isLiteral = (expression: Expression) => expression.kind === 'literal' ||
+  (expression.kind === 'unary' && expression.operand.kind === 'literal');
+
+/** Distance between two names, for "did you mean" suggestions. */
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const suggestion = (name: string, candidates: string[]): string => {
+  const normalize = (value: string) => value.toLowerCase().replace(/_/g, '');
+  const best = candidates
+    .map(candidate => ({ candidate, distance: editDistance(normalize(name), normalize(candidate)) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return best && best.distance <= Math.max(1, Math.floor(name.length / 4)) ? ` Did you mean ${best.candidate}?` : '';
+};
+
+class Checker {
+  findings: SqlFinding[] = [];
+
+  constructor(private knowledge: ParsedKnowledge) {}
+
+  private report(code: FindingCode, message: string, span?: SourceSpan) {
+    const severity = code === 'type-mismatch' ? 'warning' : 'error';
+    if (!this.findings.some(finding => finding.message === message && finding.span?.start === span?.start)) {
+      this.findings.push({ code, severity, message, span: span && { start: span.start, end: span.end } });
+    }
+  }
+
+  checkStatement(statement: Statement) {
+    if (statement.kind === 'other') return;
+    const scope: Scope = { relations: [], aliases: [], ctes: new Map() };
+    if (statement.kind !== 'select') this.registerCtes(statement.with, scope);
+
+    switch (statement.kind) {
+      case 'select':
+        this.checkSelect(statement, scope);
+        break;
+      case 'insert': {
+        const target = this.resolveTable(statement.table, scope);
+        statement.columns.forEach(column => this.findColumn(target, column.name, column.span));
+        const width = statement.columns.length || target.columns?.length;
+        statement.values.forEach(row => {
+          if (width !== undefined && row.length !== width) {
+            this.report('column-count', `INSERT into ${target.name} provides ${row.length} value(s) for ${width} column(s)`, row[0]);
+          }
+          row.forEach((value, index) => {
+            const column = statement.columns.length
+              ? this.findColumn(target, statement.columns[index]?.name, undefined, false)
+              : target.columns?.[index];
+            this.checkAssignment(column, value, scope);
+          });
+        });
+        if (statement.query) {
+          const output = this.checkSelect(statement.query, { relations: [], aliases: [], ctes: scope.ctes });
+          if (width !== undefined && output && output.length !== width) {
+            this.report('column-count', `INSERT into ${target.name} selects ${output.length} column(s) for ${width} column(s)`, statement.query);
+          }
+        }
+        break;
+      }
+      case 'update': {
+        const target = this.resolveTable(statement.table, scope);
+        const inner: Scope = { relations: [target], aliases: [], ctes: scope.ctes };
+        statement.from.forEach(source => inner.relations.push(this.resolveSource(source, scope)));
+        statement.joinConditions.forEach(condition => this.checkExpression(condition, inner));
+        statement.assignments.forEach(({ column, value }) => {
+          this.checkAssignment(this.checkColumn(column, inner), value, inner);
+        });
+        if (statement.where) this.checkExpression(statement.where, inner);
+        break;
+      }
+      case 'delete': {
+        const target = this.resolveTable(statement.table, scope);
+        const inner: Scope = { relations: [target], aliases: [], ctes: scope.ctes };
+        statement.from.forEach(source => inner.relations.push(this.resolveSource(source, scope)));
+        statement.joinConditions.forEach(condition => this.checkExpression(condition, inner));
+        if (statement.where) this.checkExpression(statement.where, inner);
+        break;
+      }
+    }
+  }
+
+  private registerCtes(ctes: CommonTableExpression[], scope: Scope) {
+    ctes.forEach(cte => {
+      // Registered before its body is checked so a recursive CTE can refer to itself.
+      const relation: Relation = { name: cte.name, columns: cte.columns.length ? cte.columns.map(name => ({ name })) : null };
+      scope.ctes.set(cte.name.toLowerCase(), relation);
+      const output = this.checkSelect(cte.query, { relations: [], aliases: [], ctes: scope.ctes, parent: scope.parent });
+      if (!cte.columns.length) relation.columns = output;
+    });
+  }
+
+  /** Checks a query and returns its output columns, or null when they cannot be listed. */
+  private checkSelect(statement: SelectStatement, outer: Scope): ColumnInfo[] | null {
+    const ctes = new Map(outer.ctes);
+    const cteScope: Scope = { ...outer, ctes };
+    if (statement.with.length) this.registerCtes(statement.with, cteScope);
+
+    // A subquery in an expression may refer to the columns of the query around it.
+    const scope: Scope = { relations: [], aliases: [], ctes, parent: outer.relations.length ? outer : outer.parent };
+    statement.from.forEach(source => scope.relations.push(this.resolveSource(source, cteScope)));
+    statement.usingColumns.forEach(column => {
+      if (!scope.relations.some(relation => relation.columns === null || relation.columns.some(c => sameName(c.name, column.name)))) {
+        this.report('unknown-column', `Column ${column.name} in USING does not exist in the joined tables`, column.span);
+      }
+    });
+    statement.joinConditions.forEach(condition => this.checkExpression(condition, scope));
+
+    const output: ColumnInfo[] = [];
+    let complete = true;
+    statement.items.forEach(item => {
+      const expression = item.expression;
+      if (expression.kind === 'star') {
+        const relations = expression.qualifier.length
+          ? [this.findRelation(expression.qualifier, scope, expression)].filter((relation): relation is Relation => !!relation)
+          : scope.relations;
+        relations.forEach(relation => {
+          if (relation.columns) output.push(...relation.columns); else complete = false;
+        });
+        if (expression.qualifier.length && relations.length === 0) complete = false;
+        return;
+      }
+      const type = this.checkExpression(expression, scope);
+      const name = item.alias ?? (expression.kind === 'column' ? expression.path[expression.path.length - 1] : '');
+      output.push({ name, type });
+      if (item.alias) scope.aliases.push(item.alias);
+    });
+
+    if (statement.where) this.checkExpression(statement.where, scope);
+    const withAliases: Scope = { ...scope, aliases: scope.aliases };
+    statement.groupBy.forEach(expression => this.checkExpression(expression, withAliases, true));
+    if (statement.having) this.checkExpression(statement.having, withAliases, true);
+
+    statement.compound.forEach(operand => {
+      const columns = this.checkSelect(operand, { relations: [], aliases: [], ctes, parent: scope.parent });
+      if (complete && columns && columns.length !== output.length) {
+        this.report('column-count', `Set operation combines ${output.length} column(s) with ${columns.length}`, operand);
+      }
+    });
+    // ORDER BY may name output columns as well as source columns.
+    const ordering: Scope = { ...scope, aliases: [...scope.aliases, ...output.map(column => column.name).filter(Boolean)] };
+    statement.orderBy.forEach(expression => this.checkExpression(expression, ordering, true));
+
+    return complete ? output : null;
+  }
+
+  private resolveSource(source: TableSource, scope: Scope): Relation {
+    if (source.kind === 'table') return this.resolveTable(source, scope);
+    if (source.kind === 'derived') {
+      const columns = this.checkSelect(source.query, { relations: [], aliases: [], ctes: scope.ctes, parent: scope.parent });
+      return {
+        name: source.alias ?? '',
+        columns: source.columnAliases.length ? source.columnAliases.map(name => ({ name })) : columns,
+      };
+    }
+    this.checkExpression(source.call, scope);
+    return { name: source.alias ?? '', columns: null };
+  }
+
+  private resolveTable(source: TableSource & { kind: 'table' }, scope: Scope): Relation {
+    const name = source.name.join('.');
+    if (source.name.length === 1) {
+      const cte = this.findCte(source.name[0], scope);
+      if (cte) return { ...cte, name: source.alias || cte.name };
+    }
+
+    const specs = this.knowledge.tableSpecifications;
+    const bare = source.name[source.name.length - 1];
+    const spec = specs.find(candidate => sameName(candidate.tableName, name)) ??
+      (source.name.length === 1 ? specs.find(candidate => sameName(candidate.tableName.split('.').pop()!, bare)) : undefined);
+    if (spec) return tableRelation(spec, source.alias || bare);
+
+    if (!sameName(name, 'dual')) {
+      const known = specs.map(candidate => candidate.tableName);
+      this.report('unknown-table', `Table ${name} is not in the knowledge base.${suggestion(name, known)}`, source);
+    }
+    return { name: source.alias || bare, qualifiedName: name, columns: null };
+  }
+
+  private findCte(name: string, scope: Scope): Relation | undefined {
+    return scope.ctes.get(name.toLowerCase());
+  }
+
+  private findRelation(qualifier: string[], scope: Scope, span: SourceSpan): Relation | undefined {
+    const qualified = qualifier.join('.');
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const relation = current.relations.find(candidate =>
+        sameName(candidate.name, qualified) || (candidate.qualifiedName && sameName(candidate.qualifiedName, qualified))
+      );
+      if (relation) return relation;
+    }
+    this.report('unknown-table', `${qualified} is not a table or alias in this query`, span);
+    return undefined;
+  }
+
+  private findColumn(relation: Relation, name: string | undefined, span?: SourceSpan, report = true): ColumnInfo | undefined {
+    if (!name || !relation.columns) return undefined;
+    const column = relation.columns.find(candidate => sameName(candidate.name, name));
+    if (!column && report) {
+      const names = relation.columns.map(candidate => candidate.name);
+      this.report('unknown-column', `Column ${name} does not exist in ${relation.qualifiedName ?? relation.name}.${suggestion(name, names)}`, span);
+    }
+    return column;
+  }
+
+  private checkColumn(expression: Expression & { kind: 'column' }, scope: Scope, allowAliases = false): ColumnInfo | undefined {
+    const name = expression.path[expression.path.length - 1];
+    if (expression.path.length > 1) {
+      const relation = this.findRelation(expression.path.slice(0, -1), scope, expression);
+      return relation && this.findColumn(relation, name, expression);
+    }
+
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const matches = current.relations
+        .map(relation => ({ relation, column: relation.columns?.find(candidate => sameName(candidate.name, name)) }))
+        .filter(match => match.column);
+      if (matches.length > 1) {
+        const tables = matches.map(match => match.relation.name).join(', ');
+        this.report('ambiguous-column', `Column ${name} is ambiguous; it exists in ${tables}. Qualify it with a table alias.`, expression);
+        return matches[0].column;
+      }
+      if (matches.length === 1) return matches[0].column;
+      if (current.relations.some(relation => relation.columns === null)) return undefined;
+      if (current === scope && allowAliases && current.aliases.some(alias => sameName(alias, name))) return undefined;
+    }
+
+    const visible = scope.relations;
+    if (visible.length === 0) {
+      this.report('unknown-column', `Column ${name} is used without a FROM clause`, expression);
+    } else {
+      const names = visible.flatMap(relation => relation.columns?.map(column => column.name) ?? []);
+      const tables = visible.map(relation => relation.qualifiedName ?? relation.name).join(', ');
+      this.report('unknown-column', `Column ${name} does not exist in ${tables}.${suggestion(name, names)}`, expression);
+    }
+    return undefined;
+  }
+
+  /** Checks references and type use inside an expression and returns its type when it can tell. */
+  private checkExpression(expression: Expression, scope: Scope, allowAliases = false): ValueType | undefined {
+    const check = (inner: Expression) => this.checkExpression(inner, scope, allowAliases);
+
+    switch (expression.kind) {
+      case 'literal':
+        if (expression.type === 'number') return { category: 'numeric' };
+        if (expression.type === 'string') return { category: 'text' };
+        if (expression.type === 'date') return { category: 'date' };
+        if (expression.type === 'boolean') return { category: 'boolean' };
+        return undefined;
+      case 'column':
+        return this.checkColumn(expression, scope, allowAliases)?.type;
+      case 'star':
+        if (expression.qualifier.length) this.findRelation(expression.qualifier, scope, expression);
+        return undefined;
+      case 'parameter':
+        return undefined;
+      case 'keyword':
+        return DATE_KEYWORDS.has(expression.name) ? { category: 'date' } : undefined;
+      case 'function': {
+        const args = expression.args.map(check);
+        expression.window.forEach(check);
+        if (['SUM', 'AVG'].includes(expression.name) && args[0] && args[0].category !== 'numeric' && expression.args[0].kind === 'column') {
+          this.report('type-mismatch', `${expression.name} over ${describeType(args[0])}, which is not numeric`, expression);
+        }
+        if (NUMERIC_FUNCTIONS.has(expression.name)) return { category: 'numeric' };
+        if (TEXT_FUNCTIONS.has(expression.name)) return { category: 'text' };
+        if (DATE_FUNCTIONS.has(expression.name)) return { category: 'date' };
+        if (PASS_THROUGH_FUNCTIONS.has(expression.name)) return args.find(Boolean);
+        return undefined;
+      }
+      case 'cast': {
+        check(expression.expression);
+        const category = typeCategory(expression.dataType);
+        return category && { category };
+      }
+      case 'unary': {
+        const operand = check(expression.operand);
+        return expression.operator === 'NOT' ? { category: 'boolean' } : operand;
+      }
+      case 'binary': {
+        const left = check(expression.left);
+        const right = check(expression.right);
+        if (['=', '<>', '!=', '<', '>', '<=', '>='].includes(expression.operator)) {
+          this.checkComparison(expression.left, left, expression.right, right);
+          return { category: 'boolean' };
+        }
+        if (['AND', 'OR'].includes(expression.operator) || expression.operator.startsWith('IS')) return { category: 'boolean' };
+        if (expression.operator === '||') return { category: 'text' };
+        if (left?.category === 'date' || right?.category === 'date') return { category: 'date' };
+        if (left?.category === 'numeric' && right?.category === 'numeric') return { category: 'numeric' };
+        return undefined;
+      }
+      case 'case': {
+        const operand = expression.operand && check(expression.operand);
+        let result: ValueType | undefined;
+        expression.branches.forEach(branch => {
+          const when = check(branch.when);
+          if (expression.operand) this.checkComparison(expression.operand, operand, branch.when, when);
+          result = result ?? check(branch.then);
+        });
+        const otherwise = expression.otherwise && check(expression.otherwise);
+        return result ?? otherwise;
+      }
+      case 'in': {
+        const type = check(expression.expression);
+        expression.list.forEach(item => this.checkComparison(expression.expression, type, item, check(item)));
+        if (expression.query) this.checkSelect(expression.query, scope);
+        return { category: 'boolean' };
+      }
+      case 'between': {
+        const type = check(expression.expression);
+        this.checkComparison(expression.expression, type, expression.low, check(expression.low));
+        this.checkComparison(expression.expression, type, expression.high, check(expression.high));
+        return { category: 'boolean' };
+      }
+      case 'isNull':
+        check(expression.expression);
+        return { category: 'boolean' };
+      case 'like': {
+        const type = check(expression.expression);
+        check(expression.pattern);
+        if (type && type.category !== 'text' && expression.expression.kind === 'column') {
+          this.report('type-mismatch', `LIKE on ${describeType(type)}, which is not a text column`, expression);
+        }
+        return { category: 'boolean' };
+      }
+      case 'exists':
+        this.checkSelect(expression.query, scope);
+        return { category: 'boolean' };
+      case 'subquery': {
+        const columns = this.checkSelect(expression.query, scope);
+        return columns?.length === 1 ? columns[0].type : undefined;
+      }
+      case 'list':
+        expression.items.forEach(check);
+        return undefined;
+    }
+  }
+
+  /** Flags comparisons between a column and a value of a different kind. */
+  private checkComparison(left: Expression, leftType: ValueType | undefined, right: Expression, rightType: ValueType | undefined) {
+    if (!leftType || !rightType) return;
+    // Only comparisons involving a declared column can be judged against the model.
+    if (!leftType.source && !rightType.source) return;
+    const [column, columnExpression, other, otherExpression] = leftType.source
+      ? [leftType, left, rightType, right]
+      : [rightType, right, leftType, left];
+    const problem = this.mismatch(column, other, otherExpression);
+    if (problem) {
+      this.report('type-mismatch', `${describeType(column)} is compared with ${problem}`, {
+        start: Math.min(columnExpression.start, otherExpression.start),
+        end: Math.max(columnExpression.end, otherExpression.end),
+      });
+    }
+  }
+
+  private checkAssignment(column: ColumnInfo | undefined, value: Expression, scope: Scope) {
+    const type = this.checkExpression(value, scope);
+    if (!column?.type || !type) return;
+    const problem = this.mismatch(column.type, type, value);
+    if (problem) this.report('type-mismatch', `${describeType(column.type)} is given ${problem}`, value);
+  }
+
+  /** Describes why `value` does not fit `column`, or returns '' when it does. */
+  private mismatch(column: ValueType, value: ValueType, expression: Expression): string {
+    const literal = expression.kind === 'literal' && expression.type === 'string' ? expression.value : undefined;
+
+    if (literal !== undefined) {
+      if (column.category === 'numeric' && !NUMERIC_TEXT.test(literal)) return `the text '${literal}'`;
+      if (column.category === 'date' && !DATE_TEXT.test(literal)) return `'${literal}', which is not a date`;
+      if (column.category === 'text' && column.length !== undefined && literal.length > column.length) {
+        return `'${literal}', which is longer than ${column.length} characters`;
+      }
+      return '';
+    }
+    if (column.category === value.category || column.category === 'boolean' || value.category === 'boolean') return '';
+    if (value.category === 'text' && !value.source && !isLiteral(expression)) return '';
+    return `${describeType(value)}${value.source ? '' : ' value'}`;
+  }
+}
+
+/**
+ * Parses a query and checks it against the knowledge base: unknown tables and
+ * columns, ambiguous references, and comparisons or assignments that do not
+ * fit a column's declared data type. A query that does not parse yields a
+ * single syntax finding. Statements other than SELECT, INSERT, UPDATE and
+ * DELETE are not checked.
+ */
+export const checkQuery = (sql: string, knowledge: ParsedKnowledge): SqlFinding[] => {
+  let statements: Statement[];
+  try {
+    statements = parseSql(sql);
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      return [{ code: 'syntax', severity: 'error', message: error.message, span: { start: error.start, end: error.end } }];
+    }
+    throw error;
+  }
+
+  const checker = new Checker(knowledge);
+  statements.forEach(statement => checker.checkStatement(statement));
+  return checker.findings;
+};
+
+export const hasErrors = (findings: SqlFinding[]) => findings.some(finding => finding.severity === 'error');
+
+/** Line and column of a finding, 1-based, for messages. */
+export const findingLocation = (sql: string, finding: SqlFinding): string => {
+  if (!finding.span) return '';
+  const before = sql.slice(0, finding.span.start).split('\n');
+  return `line ${before.length}, column ${before[before.length - 1].length + 1}`;
+};
+
+/** Plain-text list of findings, as sent back to the model for a fix. */
+export const formatFindings = (sql: string, findings: SqlFinding[]): string =>
+  findings
+    .map(finding => {
+      const location = findingLocation(sql, finding);
+      return `- ${finding.severity.toUpperCase()}${location ? ` at ${location}` : ''}: ${finding.message}`;
+    })
+    .join('\n');
@@ -0,0 +1,865 @@
+import type { TableSpecification } from './GroqService';
+import {
+  closingParen,
+  isSignificant,
+  joinTokens,
+  keyword,
+  nextSignificant,
+  openingParen,
+  previousSignificant,
+  Token,
+  tokenize,
+  unquote,
+} from './sqlTokenizer';
+
+export type SqlDialect = 'postgresql' | 'sqlserver' | 'oracle' | 'snowflake';
+
+export const SQL_DIALECTS: { id: SqlDialect; label: string }[] = [
+  { id: 'postgresql', label: 'PostgreSQL' },
+  { id: 'sqlserver', label: 'SQL Server' },
+  { id: 'oracle', label: 'Oracle' },
+  { id: 'snowflake', label: 'Snowflake' },
+];
+
+export const DEFAULT_DIALECT: SqlDialect = 'postgresql';
+
+export const dialectLabel = (dialect: SqlDialect): string =>
+  SQL_DIALECTS.find(entry => entry.id === dialect)?.label ?? dialect;
+
+/** What a query can be rewritten for: a workspace dialect, or the SQLite the browser engine runs. */
+type Target = SqlDialect | 'sqlite';
+
+const targetLabel = (target: Target) => (target === 'sqlite' ? 'SQLite' : dialectLabel(target));
+
+const PROMPT_RULES: Record<SqlDialect, string[]> = {
+  postgresql: [
+    'Quote identifiers that need it with double quotes.',
+    'Limit rows with LIMIT n [OFFSET m].',
+    "Use CURRENT_DATE and CURRENT_TIMESTAMP; add time with date + INTERVAL '1 day'; use EXTRACT(part FROM date).",
+    'Concatenate strings with ||.',
+  ],
+  sqlserver: [
+    'Quote identifiers that need it with [brackets].',
+    'Limit rows with SELECT TOP n, or ORDER BY ... OFFSET m ROWS FETCH NEXT n ROWS ONLY.',
+    'Use GETDATE() and CAST(GETDATE() AS DATE); use DATEADD, DATEDIFF and DATEPART.',
+    'Concatenate strings with + or CONCAT().',
+  ],
+  oracle: [
+    'Quote identifiers that need it with double quotes.',
+    'Limit rows with FETCH FIRST n ROWS ONLY or OFFSET m ROWS FETCH NEXT n ROWS ONLY.',
+    'Use SYSDATE, TRUNC(SYSDATE) and SYSTIMESTAMP; add days with date + n and months with ADD_MONTHS; use EXTRACT(part FROM date).',
+    'Concatenate strings with ||. Do not use AS before table aliases.',
+  ],
+  snowflake: [
+    'Quote identifiers that need it with double quotes.',
+    'Limit rows with LIMIT n [OFFSET m].',
+    'Use CURRENT_DATE() and CURRENT_TIMESTAMP(); use DATEADD, DATEDIFF and EXTRACT(part FROM date).',
+    'Concatenate strings with ||.',
+  ],
+};
+
+/** Prompt section telling the model which dialect to write. */
+export const dialectPromptRules = (dialect: SqlDialect): string =>
+  [
+    `Write every query in ${dialectLabel(dialect)} SQL.`,
+    'Use single quotes for string and date literals, never double quotes.',
+    ...PROMPT_RULES[dialect],
+  ].map(rule => `- ${rule}`).join('\n');
+
+export interface TranspileResult {
+  query: string;
+  /** Constructs that were found but have no automatic translation to the target. */
+  warnings: string[];
+}
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+type Pass = (tokens: Token[], target: Target, context: PassContext) => Replacement[];
+
+interface PassContext {
+  warnings: Set<string>;
+  /** Lower-cased table, schema and column names of the knowledge base. */
+  knownNames: Set<string>;
+  /** Runs the same pass over a sub-expression, e.g. a function argument. */
+  convert: (sql: string) => string;
+}
+
+const applyPass = (sql: string, pass: Pass, target: Target, shared: Omit<PassContext, 'convert'>): string => {
+  const tokens = tokenize(sql);
+  const context: PassContext = { ...shared, convert: text => applyPass(text, pass, target, shared) };
+  // Earlier first; at the same start an insertion goes before a replacement,
+  // and a longer replacement wins over one nested inside it.
+  const replacements = pass(tokens, target, context).sort((a, b) =>
+    a.start - b.start || (a.start === a.end ? -1 : 0) - (b.start === b.end ? -1 : 0) || b.end - a.end
+  );
+
+  let result = '';
+  let position = 0;
+  replacements.forEach(replacement => {
+    if (replacement.start < position) return;
+    result += joinTokens(tokens.slice(position, replacement.start)) + replacement.text;
+    position = replacement.end;
+  });
+  return result + joinTokens(tokens.slice(position));
+};
+
+const textOf = (tokens: Token[], start: number, end: number) => joinTokens(tokens.slice(start, end)).trim();
+
+/** Significant tokens upper-cased and joined without spaces, for comparing short expressions. */
+const compact = (tokens: Token[], start: number, end: number) =>
+  tokens.slice(start, end).filter(isSignificant).map(token => token.text.toUpperCase()).join('');
+
+/** Arguments of the call whose `(` is at `open`, as trimmed source text. */
+const callArguments = (tokens: Token[], open: number, close: number): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let start = open + 1;
+  for (let index = open + 1; index < close; index++) {
+    const text = tokens[index].text;
+    if (text === '(') depth++;
+    if (text === ')') depth--;
+    if (text === ',' && depth === 0) {
+      args.push(textOf(tokens, start, index));
+      start = index + 1;
+    }
+  }
+  const last = textOf(tokens, start, close);
+  return last || args.length > 0 ? [...args, last] : args;
+};
+
+// Keywords that can precede `(` without being a function name.
+const CLAUSE_KEYWORDS = new Set([
+  'AND', 'OR', 'NOT', 'IN', 'EXISTS', 'SELECT', 'FROM', 'WHERE', 'ON', 'JOIN', 'WHEN', 'THEN', 'ELSE', 'AS', 'BY',
+  'IS', 'LIKE', 'ILIKE', 'BETWEEN', 'HAVING', 'VALUES', 'SET', 'RETURN', 'UNION', 'ALL', 'ANY', 'SOME', 'CASE',
+  'DISTINCT', 'WITH', 'INTO', 'USING', 'OVER',
+]);
+
+/** Start of the operand that ends at `end`: a literal, a dotted name or a parenthesised expression or call. */
+const operandStart = (tokens: Token[], end: number): number => {
+  let start = end;
+  if (tokens[end].text === ')') {
+    start = openingParen(tokens, end);
+    if (start < 0) return -1;
+    const name = previousSignificant(tokens, start);
+    if (name >= 0 && (tokens[name].type === 'quoted' || (tokens[name].type === 'word' && !CLAUSE_KEYWORDS.has(keyword(tokens[name]))))) {
+      start = name;
+    }
+  } else if (tokens[end].type === 'string') {
+    // Typed literals such as DATE '2024-01-01'
+    const type = previousSignificant(tokens, end);
+    if (['DATE', 'TIMESTAMP'].includes(keyword(tokens[type]))) return type;
+    return end;
+  }
+  for (;;) {
+    const dot = previousSignificant(tokens, start);
+    if (dot < 0 || tokens[dot].text !== '.') return start;
+    const part = previousSignificant(tokens, dot);
+    if (part < 0) return start;
+    start = part;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Quoting
+// ---------------------------------------------------------------------------
+
+const COMPARISON_OPERATORS = ['=', '<>', '!=', '<', '>', '<=', '>='];
+
+/**
+ * A double-quoted token is a string literal written with the wrong quotes when
+ * it is compared against, matched with LIKE, returned from a CASE branch or
+ * listed in IN (...) or VALUES (...). Double quotes are also ANSI identifier
+ * quotes, so a token that qualifies a name (`"b"."id"`) or names a table or
+ * column of the knowledge base is left an identifier.
+ */
+const isMisquotedLiteral = (tokens: Token[], index: number, knownNames: Set<string>): boolean => {
+  if (tokens[nextSignificant(tokens, index)]?.text === '.') return false;
+  if (knownNames.has(unquote(tokens[index].text).toLowerCase())) return false;
+  const previous = tokens[previousSignificant(tokens, index)];
+  if (!previous) return false;
+  if (previous.type === 'operator' && COMPARISON_OPERATORS.includes(previous.text)) return true;
+  if (['LIKE', 'ILIKE', 'THEN', 'ELSE'].includes(keyword(previous))) return true;
+  if (previous.text !== '(' && previous.text !== ',') return false;
+
+  let depth = 0;
+  for (let open = index - 1; open >= 0; open--) {
+    if (tokens[open].text === ')') depth++;
+    if (tokens[open].text === '(') {
+      if (depth === 0) return ['IN', 'VALUES'].includes(keyword(tokens[previousSignificant(tokens, open)]));
+      depth--;
+    }
+  }
+  return false;
+};
+
+// `arr[1]` and ARRAY[1, 2] are subscripts, not bracket-quoted names.
+const isSubscript = (tokens: Token[], index: number): boolean => {
+  const previous = tokens[index - 1];
+  if (!previous) return false;
+  return previous.text === ')' || previous.type === 'quoted' ||
+    (previous.type === 'word' && !CLAUSE_KEYWORDS.has(keyword(previous)));
+};
+
+const quoteIdentifier = (name: string, target: Target) =>
+  target === 'sqlserver' ? `[${name.replace(/]/g, ']]')}]` : `"${name.replace(/"/g, '""')}"`;
+
+const rewriteQuoting: Pass = (tokens, target, context) => {
+  const replacements: Replacement[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type !== 'quoted') return;
+    let text: string;
+    if (token.text.startsWith('"') && isMisquotedLiteral(tokens, index, context.knownNames)) {
+      text = `'${unquote(token.text).replace(/'/g, "''")}'`;
+    } else if (token.text.startsWith('[') && isSubscript(tokens, index)) {
+      return;
+    } else {
+      text = quoteIdentifier(unquote(token.text), target);
+    }
+    if (text !== token.text) {
+      replacements.push({ start: index, end: index + 1, text });
+    }
+  });
+  return replacements;
+};
+
+// ---------------------------------------------------------------------------
+// String concatenation
+// ---------------------------------------------------------------------------
+
+/** End of the operand that starts at `start`. */
+const operandEnd = (tokens: Token[], start: number): number => {
+  let end = start;
+  if (tokens[start].text === '(') {
+    end = closingParen(tokens, start);
+  } else if (tokens[start].type === 'word' || tokens[start].type === 'quoted') {
+    const next = nextSignificant(tokens, start);
+    if (tokens[next]?.text === '(' && !CLAUSE_KEYWORDS.has(keyword(tokens[start]))) end = closingParen(tokens, next);
+  }
+  if (end < 0) return -1;
+  for (;;) {
+    const dot = nextSignificant(tokens, end);
+    if (tokens[dot]?.text !== '.') return end;
+    const part = nextSignificant(tokens, dot);
+    if (part >= tokens.length) return end;
+    end = part;
+  }
+};
+
+const isStringOperand = (tokens: Token[], start: number, end: number) =>
+  tokens[start].type === 'string' || (start !== end && ['CONCAT', 'CAST', 'CONVERT'].includes(keyword(tokens[start])) &&
+    tokens.slice(start, end + 1).some(token => /CHAR|TEXT|STRING/i.test(token.text)));
+
+/**
+ * `+` means concatenation in T-SQL only. Elsewhere a chain `a + b + c` is
+ * rewritten to `||` when one of its operands is a string literal.
+ */
+const rewriteConcatenation: Pass = (tokens, target) => {
+  if (target === 'sqlserver') {
+    return tokens.flatMap((token, index) =>
+      token.type === 'operator' && token.text === '||' ? [{ start: index, end: index + 1, text: '+' }] : []
+    );
+  }
+
+  const replacements: Replacement[] = [];
+  const visited = new Set<number>();
+  tokens.forEach((token, index) => {
+    if (token.type !== 'operator' || token.text !== '+' || visited.has(index)) return;
+
+    // Walk left to the start of the chain, then right across every operand.
+    let first = index;
+    for (;;) {
+      const start = operandStart(tokens, previousSignificant(tokens, first));
+      const before = previousSignificant(tokens, start);
+      if (start < 0 || tokens[before]?.text !== '+') break;
+      first = before;
+    }
+
+    const operators: number[] = [];
+    let isString = false;
+    let position = operandStart(tokens, previousSignificant(tokens, first));
+    while (position >= 0 && position < tokens.length) {
+      const end = operandEnd(tokens, position);
+      if (end < 0) break;
+      isString = isString || isStringOperand(tokens, position, end);
+      const operator = nextSignificant(tokens, end);
+      if (tokens[operator]?.text !== '+') break;
+      operators.push(operator);
+      position = nextSignificant(tokens, operator);
+    }
+
+    operators.forEach(operator => visited.add(operator));
+    if (isString) {
+      operators.forEach(operator => replacements.push({ start: operator, end: operator + 1, text: '||' }));
+    }
+  });
+  return replacements;
+};
+
+// ---------------------------------------------------------------------------
+// Date functions
+// ---------------------------------------------------------------------------
+
+type DatePart = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour' | 'minute' | 'second';
+
+const DATE_PART_ALIASES: Record<string, DatePart> = {
+  year: 'year', years: 'year', yy: 'year', yyyy: 'year',
+  quarter: 'quarter', quarters: 'quarter', qq: 'quarter', q: 'quarter',
+  month: 'month', months: 'month', mm: 'month', m: 'month', mon: 'month', mons: 'month',
+  week: 'week', weeks: 'week', wk: 'week', ww: 'week',
+  day: 'day', days: 'day', dd: 'day', d: 'day',
+  hour: 'hour', hours: 'hour', hh: 'hour',
+  minute: 'minute', minutes: 'minute', mi: 'minute', n: 'minute',
+  second: 'second', seconds: 'second', ss: 'second', s: 'second',
+};
+
+const datePart = (text: string): DatePart | undefined =>
+  DATE_PART_ALIASES[text.replace(/^'|'$/g, '').trim().toLowerCase()];
+
+const CURRENT_DATE: Record<Target, string> = {
+  postgresql: 'CURRENT_DATE',
+  sqlserver: 'CAST(GETDATE() AS DATE)',
+  oracle: 'TRUNC(SYSDATE)',
+  snowflake: 'CURRENT_DATE()',
+  sqlite: 'CURRENT_DATE',
+};
+
+const CURRENT_TIMESTAMP: Record<Target, string> = {
+  postgresql: 'CURRENT_TIMESTAMP',
+  sqlserver: 'GETDATE()',
+  oracle: 'SYSTIMESTAMP',
+  snowflake: 'CURRENT_TIMESTAMP()',
+  sqlite: 'CURRENT_TIMESTAMP',
+};
+
+// Spellings that already work in each dialect and are left alone.
+const NATIVE_CURRENT_DATE: Record<Target, string[]> = {
+  postgresql: ['CURRENT_DATE'],
+  sqlserver: ['CAST(GETDATE()ASDATE)'],
+  oracle: ['TRUNC(SYSDATE)', 'CURRENT_DATE'],
+  snowflake: ['CURRENT_DATE()', 'CURRENT_DATE'],
+  sqlite: ['CURRENT_DATE'],
+};
+
+const NATIVE_CURRENT_TIMESTAMP: Record<Target, string[]> = {
+  postgresql: ['NOW()', 'CURRENT_TIMESTAMP', 'LOCALTIMESTAMP'],
+  sqlserver: ['GETDATE()', 'SYSDATETIME()', 'CURRENT_TIMESTAMP'],
+  oracle: ['SYSDATE', 'SYSTIMESTAMP', 'CURRENT_TIMESTAMP', 'LOCALTIMESTAMP'],
+  snowflake: ['CURRENT_TIMESTAMP()', 'CURRENT_TIMESTAMP', 'SYSDATE()', 'LOCALTIMESTAMP'],
+  sqlite: ['CURRENT_TIMESTAMP'],
+};
+
+const CURRENT_DATE_FORMS = ['CURRENT_DATE', 'CURRENT_DATE()', 'CAST(GETDATE()ASDATE)', 'CAST(SYSDATETIME()ASDATE)', 'TRUNC(SYSDATE)'];
+const CURRENT_TIMESTAMP_FORMS = [
+  'NOW()', 'GETDATE()', 'SYSDATETIME()', 'CURRENT_TIMESTAMP', 'CURRENT_TIMESTAMP()', 'SYSTIMESTAMP', 'SYSDATE', 'SYSDATE()', 'LOCALTIMESTAMP',
+];
+
+const isInteger = (text: string) => /^[+-]?\d+$/.test(text);
+
+const negate = (amount: string) => (isInteger(amount) ? String(-Number(amount)) : `-(${amount})`);
+
+const times = (amount: string, factor: number) => (isInteger(amount) ? String(Number(amount) * factor) : `(${amount}) * ${factor}`);
+
+// SQLite date modifiers; quarters and weeks are counted in months and days
+const SQLITE_MODIFIER: Record<DatePart, { unit: string; factor: number }> = {
+  year: { unit: 'year', factor: 1 },
+  quarter: { unit: 'month', factor: 3 },
+  month: { unit: 'month', factor: 1 },
+  week: { unit: 'day', factor: 7 },
+  day: { unit: 'day', factor: 1 },
+  hour: { unit: 'hour', factor: 1 },
+  minute: { unit: 'minute', factor: 1 },
+  second: { unit: 'second', factor: 1 },
+};
+
+const renderDateAdd = (part: DatePart, amount: string, date: string, target: Target): string => {
+  switch (target) {
+    case 'sqlite': {
+      // date() for whole days and more keeps date-only values comparable with ISO date text
+      const { unit, factor } = SQLITE_MODIFIER[part];
+      const count = factor === 1 ? amount : times(amount, factor);
+      const modifier = isInteger(count) ? `'${count} ${unit}'` : `(${count}) || ' ${unit}'`;
+      return `${['hour', 'minute', 'second'].includes(unit) ? 'datetime' : 'date'}(${date}, ${modifier})`;
+    }
+    case 'sqlserver':
+    case 'snowflake':
+      return `DATEADD(${part}, ${amount}, ${date})`;
+    case 'postgresql':
+      return isInteger(amount)
+        ? `(${date} + INTERVAL '${amount} ${part}')`
+        : `(${date} + (${amount}) * INTERVAL '1 ${part}')`;
+    case 'oracle':
+      if (part === 'day' || part === 'week') {
+        const days = part === 'week' ? times(amount, 7) : amount;
+        if (isInteger(days)) return `(${date} ${Number(days) < 0 ? '-' : '+'} ${Math.abs(Number(days))})`;
+        return `(${date} + ${part === 'week' ? days : `(${days})`})`;
+      }
+      if (part === 'month') return `ADD_MONTHS(${date}, ${amount})`;
+      if (part === 'quarter') return `ADD_MONTHS(${date}, ${times(amount, 3)})`;
+      if (part === 'year') return `ADD_MONTHS(${date}, ${times(amount, 12)})`;
+      return `(${date} + NUMTODSINTERVAL(${amount}, '${part.toUpperCase()}'))`;
+  }
+};
+
+const SQLITE_FORMAT: Partial<Record<DatePart, string>> = {
+  year: '%Y', month: '%m', week: '%W', day: '%d', hour: '%H', minute: '%M', second: '%S',
+};
+
+const sqliteExtract = (part: DatePart, date: string) =>
+  part === 'quarter'
+    ? `((CAST(strftime('%m', ${date}) AS INTEGER) + 2) / 3)`
+    : `CAST(strftime('${SQLITE_FORMAT[part]}', ${date}) AS INTEGER)`;
+
+const extractYear = (date: string, target: Target) => (target === 'sqlite' ? sqliteExtract('year', date) : `EXTRACT(YEAR FROM ${date})`);
+const extractMonth = (date: string, target: Target) => (target === 'sqlite' ? sqliteExtract('month', date) : `EXTRACT(MONTH FROM ${date})`);
+
+/** DATEDIFF counts crossed boundaries, which the rewrites below preserve. Null when there is no equivalent. */
+const renderDateDiff = (part: DatePart, start: string, end: string, target: Target): string | null => {
+  if (target === 'sqlserver' || target === 'snowflake') return `DATEDIFF(${part}, ${start}, ${end})`;
+  const years = `(${extractYear(end, target)} - ${extractYear(start, target)})`;
+  switch (part) {
+    case 'day':
+      if (target === 'sqlite') return `CAST(julianday(date(${end})) - julianday(date(${start})) AS INTEGER)`;
+      return target === 'postgresql'
+        ? `(CAST(${end} AS DATE) - CAST(${start} AS DATE))`
+        : `(TRUNC(${end}) - TRUNC(${start}))`;
+    case 'month':
+      return `(${years} * 12 + ${extractMonth(end, target)} - ${extractMonth(start, target)})`;
+    case 'year':
+      return years;
+    default:
+      return null;
+  }
+};
+
+const renderExtract = (part: DatePart, date: string, target: Target, warnings: Set<string>): string => {
+  if (target === 'sqlserver') return `DATEPART(${part}, ${date})`;
+  if (target === 'sqlite') return sqliteExtract(part, date);
+  if (target === 'oracle' && (part === 'quarter' || part === 'week')) {
+    warnings.add(`Oracle has no EXTRACT(${part.toUpperCase()}); use TO_CHAR(date, '${part === 'quarter' ? 'Q' : 'IW'}') instead`);
+  }
+  return `EXTRACT(${part.toUpperCase()} FROM ${date})`;
+};
+
+const UNSUPPORTED_FUNCTIONS: Record<string, { unsupported: Target[]; hint: string }> = {
+  TO_CHAR: { unsupported: ['sqlserver', 'sqlite'], hint: 'use FORMAT() or CONVERT()' },
+  FORMAT: { unsupported: ['postgresql', 'oracle', 'snowflake', 'sqlite'], hint: 'use TO_CHAR()' },
+  CONVERT: { unsupported: ['postgresql', 'oracle', 'snowflake', 'sqlite'], hint: 'use CAST() or TO_CHAR()' },
+  DATE_TRUNC: { unsupported: ['sqlserver', 'oracle', 'sqlite'], hint: "use DATETRUNC() on SQL Server 2022 or TRUNC(date, 'MM') on Oracle" },
+  DATETRUNC: { unsupported: ['postgresql', 'oracle', 'snowflake', 'sqlite'], hint: 'use DATE_TRUNC()' },
+};
+
+// Null-handling and string functions SQLite spells differently, by the number of arguments they take
+const SQLITE_RENAMES: Record<string, { name: string; args: number }> = {
+  NVL: { name: 'IFNULL', args: 2 },
+  ISNULL: { name: 'IFNULL', args: 2 },
+  LEN: { name: 'LENGTH', args: 1 },
+};
+
+/** Rewrites `date +/- INTERVAL '3 days'` (or Oracle's `INTERVAL '3' DAY`) at the operator `index`. */
+const rewriteInterval = (tokens: Token[], index: number, target: Target, context: PassContext): Replacement | null => {
+  const intervalIndex = nextSignificant(tokens, index);
+  const literalIndex = nextSignificant(tokens, intervalIndex);
+  if (keyword(tokens[intervalIndex]) !== 'INTERVAL' || tokens[literalIndex]?.type !== 'string') return null;
+
+  const literal = tokens[literalIndex].text.replace(/^'|'$/g, '').trim();
+  const unitIndex = nextSignificant(tokens, literalIndex);
+  const unit = datePart(keyword(tokens[unitIndex]));
+  const match = literal.match(/^([+-]?\d+)\s*([A-Za-z]*)$/);
+  const part = unit ?? (match ? datePart(match[2]) : undefined);
+  if (!match || !part || (unit && match[2])) {
+    context.warnings.add(`INTERVAL '${literal}' could not be converted`);
+    return null;
+  }
+  // Oracle understands its own INTERVAL '3' DAY form.
+  if (target === 'oracle' && unit) return null;
+
+  const operandEndIndex = previousSignificant(tokens, index);
+  const start = operandEndIndex >= 0 ? operandStart(tokens, operandEndIndex) : -1;
+  if (start < 0) return null;
+
+  const amount = tokens[index].text === '-' ? negate(match[1]) : match[1];
+  const end = (unit ? unitIndex : literalIndex) + 1;
+  const date = context.convert(textOf(tokens, start, operandEndIndex + 1));
+  return { start, end, text: renderDateAdd(part, amount, date, target) };
+};
+
+/** Rewrites PostgreSQL's `value::type` at the operator `index` to CAST(value AS type). */
+const rewriteCast = (tokens: Token[], index: number, context: PassContext): Replacement | null => {
+  const operandEndIndex = previousSignificant(tokens, index);
+  const start = operandEndIndex >= 0 ? operandStart(tokens, operandEndIndex) : -1;
+  const typeIndex = nextSignificant(tokens, index);
+  if (start < 0 || tokens[typeIndex]?.type !== 'word') return null;
+
+  let typeEnd = typeIndex;
+  const open = nextSignificant(tokens, typeIndex);
+  if (tokens[open]?.text === '(') typeEnd = closingParen(tokens, open);
+  if (typeEnd < 0) return null;
+
+  const value = context.convert(textOf(tokens, start, operandEndIndex + 1));
+  return { start, end: typeEnd + 1, text: `CAST(${value} AS ${textOf(tokens, typeIndex, typeEnd + 1)})` };
+};
+
+const rewriteDates: Pass = (tokens, target, context) => {
+  const replacements: Replacement[] = [];
+  const { warnings, convert } = context;
+
+  tokens.forEach((token, index) => {
+    if (token.type === 'operator') {
+      let replacement: Replacement | null = null;
+      if ((token.text === '+' || token.text === '-') && ['sqlserver', 'oracle', 'sqlite'].includes(target)) {
+        replacement = rewriteInterval(tokens, index, target, context);
+      } else if (token.text === '::' && ['sqlserver', 'oracle', 'sqlite'].includes(target)) {
+        replacement = rewriteCast(tokens, index, context);
+      }
+      if (replacement) replacements.push(replacement);
+      return;
+    }
+
+    const name = keyword(token);
+    if (!name) return;
+    const open = nextSignificant(tokens, index);
+    const isCall = tokens[open]?.text === '(';
+    const close = isCall ? closingParen(tokens, open) : index;
+    if (close < 0) return;
+    const call = compact(tokens, index, close + 1);
+
+    const unsupported = UNSUPPORTED_FUNCTIONS[name];
+    if (isCall && unsupported?.unsupported.includes(target)) {
+      warnings.add(`${name}() is not available in ${targetLabel(target)}${target === 'sqlite' ? '' : `; ${unsupported.hint}`}`);
+      return;
+    }
+    const rename = SQLITE_RENAMES[name];
+    if (isCall && target === 'sqlite' && rename && callArguments(tokens, open, close).length === rename.args) {
+      replacements.push({ start: index, end: index + 1, text: rename.name });
+      return;
+    }
+
+    // CURRENT_DATE and friends; the longer CAST(GETDATE() AS DATE) form is tried first.
+    const bare = isCall && compact(tokens, open, close + 1) !== '()' ? '' : name;
+    for (const [forms, native, rendered] of [
+      [CURRENT_DATE_FORMS, NATIVE_CURRENT_DATE[target], CURRENT_DATE[target]],
+      [CURRENT_TIMESTAMP_FORMS, NATIVE_CURRENT_TIMESTAMP[target], CURRENT_TIMESTAMP[target]],
+    ] as const) {
+      const candidates = [call, bare].filter(Boolean);
+      const matched = candidates.find(candidate => (forms as readonly string[]).includes(candidate));
+      if (matched) {
+        if (!(native as readonly string[]).includes(matched)) {
+          replacements.push({ start: index, end: matched === call ? close + 1 : index + 1, text: rendered });
+        }
+        return;
+      }
+    }
+    if (!isCall) return;
+
+    const args = callArguments(tokens, open, close);
+    const replace = (text: string) => replacements.push({ start: index, end: close + 1, text });
+
+    if (name === 'DATEADD' && args.length === 3 && datePart(args[0])) {
+      replace(renderDateAdd(datePart(args[0])!, convert(args[1]), convert(args[2]), target));
+    } else if (name === 'ADD_MONTHS' && args.length === 2 && target !== 'oracle' && target !== 'snowflake') {
+      replace(renderDateAdd('month', convert(args[1]), convert(args[0]), target));
+    } else if (name === 'DATEDIFF' && args.length === 3 && datePart(args[0])) {
+      const rendered = renderDateDiff(datePart(args[0])!, convert(args[1]), convert(args[2]), target);
+      if (rendered) {
+        replace(rendered);
+      } else {
+        warnings.add(`DATEDIFF(${args[0]}, ...) has no ${targetLabel(target)} equivalent and was left unchanged`);
+      }
+    } else if ((name === 'DATEPART' || name === 'DATE_PART') && args.length === 2 && datePart(args[0])) {
+      replace(renderExtract(datePart(args[0])!, convert(args[1]), target, warnings));
+    } else if (['YEAR', 'MONTH', 'DAY'].includes(name) && args.length === 1 && ['postgresql', 'oracle', 'sqlite'].includes(target)) {
+      replace(renderExtract(datePart(name)!, convert(args[0]), target, warnings));
+    } else if (name === 'EXTRACT' && (target === 'sqlserver' || target === 'sqlite')) {
+      const from = tokens.findIndex((t, i) => i > open && i < close && keyword(t) === 'FROM');
+      const part = from > 0 ? datePart(textOf(tokens, open + 1, from)) : undefined;
+      if (part) replace(renderExtract(part, convert(textOf(tokens, from + 1, close)), target, warnings));
+    }
+  });
+
+  return replacements;
+};
+
+// ---------------------------------------------------------------------------
+// Row limits
+// ---------------------------------------------------------------------------
+
+interface RowLimit {
+  kind: 'top' | 'limit' | 'fetch';
+  /** Tokens of the original clause, removed unless the clause is already in the target form. */
+  start: number;
+  end: number;
+  count: string;
+  offset?: string;
+  /** Index of the SELECT keyword the clause belongs to. */
+  select: number;
+}
+
+// ---------------------------------------------------------------------------
+// Set operators
+// ---------------------------------------------------------------------------
+
+/**
+ * Oracle spells the set difference MINUS; the other targets use EXCEPT. Only
+ * a keyword followed by the next query (`SELECT`, `(` or `ALL`/`DISTINCT`)
+ * is rewritten, so a column named `minus` stays as it is.
+ */
+const rewriteSetOperators: Pass = (tokens, target) => {
+  const [from, to] = target === 'oracle' ? ['EXCEPT', 'MINUS'] : ['MINUS', 'EXCEPT'];
+  return tokens.flatMap((token, index) => {
+    if (keyword(token) !== from) return [];
+    const next = tokens[nextSignificant(tokens, index)];
+    if (!next || !(next.text === '(' || ['SELECT', 'ALL', 'DISTINCT'].includes(keyword(next)))) return [];
+    return [{ start: index, end: index + 1, text: to }];
+  });
+};
+
+/** Paren depth of every token; a `(` and its `)` share the depth outside them. */
+const parenDepths = (tokens: Token[]): number[] => {
+  let depth = 0;
+  return tokens.map(token => {
+    if (token.text === ')') depth--;
+    const current = depth;
+    if (token.text === '(') depth++;
+    return current;
+  });
+};
+
+const SET_OPERATORS = ['UNION', 'INTERSECT', 'EXCEPT', 'MINUS'];
+
+/** Where a tail clause goes: after the last significant token of the SELECT at `select`. */
+const selectEnd = (tokens: Token[], depths: number[], select: number): number => {
+  const depth = depths[select];
+  let index = select + 1;
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (depths[index] < depth || (depths[index] === depth && (token.text === ';' || SET_OPERATORS.includes(keyword(token))))) break;
+    index++;
+  }
+  return previousSignificant(tokens, index) + 1;
+};
+
+/**
+ * First SELECT of the compound query (`... UNION SELECT ...`) whose last
+ * branch starts at `select`, or -1 when that SELECT is not in a compound.
+ */
+const compoundStart = (tokens: Token[], depths: number[], select: number): number => {
+  let start = select;
+  let compound = false;
+  for (let index = select - 1; index >= 0; index--) {
+    if (depths[index] < depths[select] || (depths[index] === depths[select] && tokens[index].text === ';')) break;
+    if (depths[index] !== depths[select]) continue;
+    if (SET_OPERATORS.includes(keyword(tokens[index]))) compound = true;
+    if (keyword(tokens[index]) === 'SELECT') start = index;
+  }
+  return compound ? start : -1;
+};
+
+const owningSelect = (tokens: Token[], depths: number[], from: number): number => {
+  for (let index = from - 1; index >= 0; index--) {
+    if (depths[index] < depths[from]) return -1;
+    if (depths[index] === depths[from] && keyword(tokens[index]) === 'SELECT') return index;
+  }
+  return -1;
+};
+
+const hasOrderBy = (tokens: Token[], depths: number[], select: number, end: number) =>
+  tokens.some((token, index) =>
+    index > select && index < end && depths[index] === depths[select] && keyword(token) === 'ORDER'
+  );
+
+/** The count in `TOP 5`, `TOP (5)`, `LIMIT 5` or `FETCH FIRST 5 ROWS`, and the index of its last token. */
+const readCount = (tokens: Token[], index: number): { count: string; last: number } | null => {
+  if (tokens[index]?.text === '(') {
+    const close = closingParen(tokens, index);
+    return close < 0 ? null : { count: textOf(tokens, index + 1, close), last: close };
+  }
+  const token = tokens[index];
+  return token && (token.type === 'number' || token.type === 'word') ? { count: token.text, last: index } : null;
+};
+
+const findRowLimits = (tokens: Token[], depths: number[], warnings: Set<string>): RowLimit[] => {
+  const limits: RowLimit[] = [];
+
+  tokens.forEach((token, index) => {
+    const name = keyword(token);
+    if (name === 'SELECT') {
+      let top = nextSignificant(tokens, index);
+      if (['DISTINCT', 'ALL'].includes(keyword(tokens[top]))) top = nextSignificant(tokens, top);
+      if (keyword(tokens[top]) !== 'TOP') return;
+      const count = readCount(tokens, nextSignificant(tokens, top));
+      if (!count) return;
+      const after = nextSignificant(tokens, count.last);
+      if (['PERCENT', 'WITH'].includes(keyword(tokens[after]))) {
+        warnings.add('TOP ... PERCENT and WITH TIES have no automatic translation');
+        return;
+      }
+      limits.push({ kind: 'top', start: top, end: after, count: count.count, select: index });
+      return;
+    }
+
+    if (name === 'LIMIT') {
+      const count = readCount(tokens, nextSignificant(tokens, index));
+      const select = owningSelect(tokens, depths, index);
+      if (!count || select < 0 || count.count.toUpperCase() === 'ALL') return;
+      let last = count.last;
+      let offset: string | undefined;
+      const offsetIndex = nextSignificant(tokens, last);
+      if (keyword(tokens[offsetIndex]) === 'OFFSET') {
+        const value = readCount(tokens, nextSignificant(tokens, offsetIndex));
+        if (value) {
+          offset = value.count;
+          last = value.last;
+        }
+      }
+      limits.push({ kind: 'limit', start: index, end: last + 1, count: count.count, offset, select });
+      return;
+    }
+
+    // [OFFSET m ROWS] FETCH FIRST|NEXT n ROWS ONLY
+    if (name === 'OFFSET' || name === 'FETCH') {
+      const previous = tokens[previousSignificant(tokens, index)];
+      if (name === 'FETCH' && ['ROWS', 'ROW'].includes(keyword(previous))) return; // part of an OFFSET clause
+      if (name === 'OFFSET' && limits.some(limit => limit.start < index && limit.end > index)) return;
+      const select = owningSelect(tokens, depths, index);
+      if (select < 0) return;
+
+      let position = index;
+      let offset: string | undefined;
+      if (name === 'OFFSET') {
+        const value = readCount(tokens, nextSignificant(tokens, index));
+        const rows = value ? nextSignificant(tokens, value.last) : -1;
+        if (!value || !['ROWS', 'ROW'].includes(keyword(tokens[rows]))) return;
+        offset = value.count;
+        position = nextSignificant(tokens, rows);
+        if (keyword(tokens[position]) !== 'FETCH') return;
+      }
+      const first = nextSignificant(tokens, position);
+      const count = ['FIRST', 'NEXT'].includes(keyword(tokens[first])) ? readCount(tokens, nextSignificant(tokens, first)) : null;
+      const rows = count ? nextSignificant(tokens, count.last) : -1;
+      const only = rows >= 0 ? nextSignificant(tokens, rows) : -1;
+      if (!count || !['ROWS', 'ROW'].includes(keyword(tokens[rows])) || keyword(tokens[only]) !== 'ONLY') return;
+      limits.push({ kind: 'fetch', start: index, end: only + 1, count: count.count, offset, select });
+    }
+  });
+
+  return limits;
+};
+
+const NATIVE_LIMIT: Record<Target, RowLimit['kind'][]> = {
+  postgresql: ['limit', 'fetch'],
+  sqlserver: ['top'],
+  oracle: ['fetch'],
+  snowflake: ['limit', 'fetch'],
+  sqlite: ['limit'],
+};
+
+const rewriteRowLimits: Pass = (tokens, target, context) => {
+  const depths = parenDepths(tokens);
+  const replacements: Replacement[] = [];
+  if (target !== 'oracle' && tokens.some(token => keyword(token) === 'ROWNUM')) {
+    context.warnings.add('ROWNUM is Oracle-only; rewrite the filter as a row limit by hand');
+  }
+
+  findRowLimits(tokens, depths, context.warnings).forEach(limit => {
+    // SQL Server also accepts OFFSET ... FETCH when there is an offset.
+    const isNative = NATIVE_LIMIT[target].includes(limit.kind) ||
+      (target === 'sqlserver' && limit.kind === 'fetch' && limit.offset !== undefined);
+    if (isNative) return;
+
+    // Remove the clause with the whitespace before it (TOP: after it).
+    const removal = limit.kind === 'top'
+      ? { start: limit.start, end: limit.end, text: '' }
+      : { start: previousSignificant(tokens, limit.start) + 1, end: limit.end, text: '' };
+
+    const end = selectEnd(tokens, depths, limit.select);
+    // Puts `text` at the end of the SELECT, in place of the clause when that is where it was.
+    const placeTail = (text: string) => {
+      if (removal.end === end) {
+        replacements.push({ ...removal, text });
+      } else {
+        replacements.push(removal, { start: end, end, text });
+      }
+    };
+
+    // A limit after the last branch of a compound limits the whole result, so
+    // in SQL Server it cannot become a TOP on that branch. OFFSET ... FETCH
+    // does the same when an ORDER BY sorts the whole result; without one the
+    // compound is wrapped in a derived table.
+    const compound = limit.kind === 'top' ? -1 : compoundStart(tokens, depths, limit.select);
+    if (target === 'sqlserver' && compound >= 0) {
+      const fetch = ` OFFSET ${limit.offset ?? 0} ROWS FETCH NEXT ${limit.count} ROWS ONLY`;
+      if (hasOrderBy(tokens, depths, limit.select, end)) {
+        placeTail(fetch);
+      } else {
+        replacements.push({ start: compound, end: compound, text: limit.offset === undefined ? `SELECT TOP ${limit.count} * FROM (` : 'SELECT * FROM (' });
+        placeTail(limit.offset === undefined ? ') t' : `) t ORDER BY (SELECT NULL)${fetch}`);
+      }
+      return;
+    }
+
+    if (target === 'sqlserver' && limit.offset === undefined) {
+      let after = limit.select;
+      const next = nextSignificant(tokens, after);
+      if (['DISTINCT', 'ALL'].includes(keyword(tokens[next]))) after = next;
+      replacements.push(removal, { start: after + 1, end: after + 1, text: ` TOP ${limit.count}` });
+      return;
+    }
+
+    if (target === 'postgresql' || target === 'snowflake' || target === 'sqlite') {
+      placeTail(` LIMIT ${limit.count}${limit.offset !== undefined ? ` OFFSET ${limit.offset}` : ''}`);
+    } else if (limit.offset !== undefined) {
+      const orderBy = target === 'sqlserver' && !hasOrderBy(tokens, depths, limit.select, end) ? ' ORDER BY (SELECT NULL)' : '';
+      placeTail(`${orderBy} OFFSET ${limit.offset} ROWS FETCH NEXT ${limit.count} ROWS ONLY`);
+    } else {
+      placeTail(` FETCH FIRST ${limit.count} ROWS ONLY`);
+    }
+  });
+
+  return replacements;
+};
+
+const knownNamesOf = (tables: TableSpecification[]): Set<string> =>
+  new Set(tables.flatMap(table => [
+    ...table.tableName.split('.'),
+    ...table.columns.map(column => column.name),
+  ]).map(name => name.toLowerCase()));
+
+const transpile = (sql: string, target: Target, tables: TableSpecification[]): TranspileResult => {
+  const shared = { warnings: new Set<string>(), knownNames: knownNamesOf(tables) };
+  const query = [rewriteQuoting, rewriteConcatenation, rewriteSetOperators, rewriteDates, rewriteRowLimits]
+    .reduce((text, pass) => applyPass(text, pass, target, shared), sql);
+  return { query, warnings: [...shared.warnings] };
+};
+
+/**
+ * Rewrites a query for `target`. The input may be in any of the supported
+ * dialects, or a mix of them as LLM output often is: each pass recognises the
+ * spellings of every dialect and emits the target's. Quoting and string
+ * concatenation, MINUS and EXCEPT, row limits (LIMIT, TOP, FETCH FIRST) and
+ * common date functions are covered; anything else is left as written and reported in
+ * `warnings` when it is known not to work in the target. The names of
+ * `tables` are never mistaken for misquoted strings.
+ */
+export const transpileQuery = (sql: string, target: SqlDialect, tables: TableSpecification[] = []): TranspileResult =>
+  transpile(sql, target, tables);
+
+/**
+ * Rewrites a query written for any workspace dialect into the SQLite the
+ * in-browser engine runs. `warnings` name what the engine cannot run.
+ */
+export const transpileForEngine = (sql: string, tables: TableSpecification[] = []): TranspileResult =>
+  transpile(sql, 'sqlite', tables);
+
+/**
+ * Why a query that failed in the browser engine cannot be run there: it uses
+ * something written for another database that had no SQLite translation.
+ * Null when the failure is the query's own, e.g. a missing column.
+ */
+export const engineLimitation = (error: string, warnings: string[]): string | null =>
+  warnings.length > 0 || /no such function/i.test(error)
+    ? `Not runnable in the browser engine: ${[...warnings, error].join('; ')}`
+    : null;
@@ -0,0 +1,1013 @@
+import { isSignificant, keyword, Token, tokenize, unquote } from './sqlTokenizer';
+
+/** Character offsets into the query text, for pointing findings at the source. */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type Expression =
+  | (SourceSpan & { kind: 'literal'; type: 'number' | 'string' | 'null' | 'boolean' | 'date' | 'interval'; value: string })
+  | (SourceSpan & { kind: 'column'; path: string[] })
+  | (SourceSpan & { kind: 'star'; qualifier: string[] })
+  | (SourceSpan & { kind: 'parameter' })
+  /** Niladic built-ins such as CURRENT_DATE or SYSDATE. */
+  | (SourceSpan & { kind: 'keyword'; name: string })
+  | (SourceSpan & { kind: 'function'; name: string; args: Expression[]; window: Expression[] })
+  | (SourceSpan & { kind: 'binary'; operator: string; left: Expression; right: Expression })
+  | (SourceSpan & { kind: 'unary'; operator: string; operand: Expression })
+  | (SourceSpan & { kind: 'case'; operand?: Expression; branches: { when: Expression; then: Expression }[]; otherwise?: Expression })
+  | (SourceSpan & { kind: 'cast'; expression: Expression; dataType: string })
+  | (SourceSpan & { kind: 'in'; expression: Expression; list: Expression[]; query?: SelectStatement; negated: boolean })
+  | (SourceSpan & { kind: 'between'; expression: Expression; low: Expression; high: Expression; negated: boolean })
+  | (SourceSpan & { kind: 'isNull'; expression: Expression; negated: boolean })
+  | (SourceSpan & { kind: 'like'; expression: Expression; pattern: Expression; negated: boolean })
+  | (SourceSpan & { kind: 'exists'; query: SelectStatement })
+  | (SourceSpan & { kind: 'subquery'; query: SelectStatement })
+  | (SourceSpan & { kind: 'list'; items: Expression[] });
+
+export interface SelectItem {
+  expression: Expression;
+  alias?: string;
+}
+
+export type TableSource =
+  | (SourceSpan & { kind: 'table'; name: string[]; alias?: string })
+  | (SourceSpan & { kind: 'derived'; query: SelectStatement; alias?: string; columnAliases: string[] })
+  | (SourceSpan & { kind: 'tableFunction'; call: Expression; alias?: string });
+
+export interface CommonTableExpression extends SourceSpan {
+  name: string;
+  columns: string[];
+  query: SelectStatement;
+}
+
+export interface SelectStatement extends SourceSpan {
+  kind: 'select';
+  with: CommonTableExpression[];
+  items: SelectItem[];
+  from: TableSource[];
+  /** ON conditions of the joins in `from`. */
+  joinConditions: Expression[];
+  /** Columns named in JOIN ... USING (...). */
+  usingColumns: { name: string; span: SourceSpan }[];
+  where?: Expression;
+  groupBy: Expression[];
+  having?: Expression;
+  orderBy: Expression[];
+  /** Right-hand operands of UNION, INTERSECT, EXCEPT and MINUS. */
+  compound: SelectStatement[];
+}
+
+export interface InsertStatement extends SourceSpan {
+  kind: 'insert';
+  with: CommonTableExpression[];
+  table: TableSource & { kind: 'table' };
+  columns: { name: string; span: SourceSpan }[];
+  values: Expression[][];
+  query?: SelectStatement;
+}
+
+export interface UpdateStatement extends SourceSpan {
+  kind: 'update';
+  with: CommonTableExpression[];
+  table: TableSource & { kind: 'table' };
+  assignments: { column: Expression & { kind: 'column' }; value: Expression }[];
+  from: TableSource[];
+  joinConditions: Expression[];
+  where?: Expression;
+}
+
+export interface DeleteStatement extends SourceSpan {
+  kind: 'delete';
+  with: CommonTableExpression[];
+  table: TableSource & { kind: 'table' };
+  from: TableSource[];
+  joinConditions: Expression[];
+  where?: Expression;
+}
+
+/** Any other statement (DDL, MERGE, procedural code); parsed no further. */
+export interface OtherStatement extends SourceSpan {
+  kind: 'other';
+  keyword: string;
+}
+
+export type Statement = SelectStatement | InsertStatement | UpdateStatement | DeleteStatement | OtherStatement;
+
+export class SqlSyntaxError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'SqlSyntaxError';
+  }
+}
+
+// Words that end an expression or a table reference, so they are never read as aliases.
+const RESERVED = new Set([
+  'ALL', 'AND', 'ANY', 'APPLY', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CROSS', 'DESC', 'DISTINCT', 'ELSE', 'END',
+  'EXCEPT', 'EXISTS', 'FETCH', 'FOR', 'FROM', 'FULL', 'GROUP', 'HAVING', 'ILIKE', 'IN', 'INNER', 'INTERSECT', 'INTO',
+  'IS', 'JOIN', 'LATERAL', 'LEFT', 'LIKE', 'LIMIT', 'MINUS', 'NATURAL', 'NOT', 'NULL', 'NULLS', 'OFFSET', 'ON',
+  'OR', 'ORDER', 'OUTER', 'OVER', 'QUALIFY', 'RETURNING', 'RIGHT', 'SELECT', 'SET', 'THEN', 'UNION', 'USING',
+  'VALUES', 'WHEN', 'WHERE', 'WINDOW', 'WITH',
+]);
+
+const NILADIC = new Set([
+  'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_TIMESTAMP', 'LOCALTIME', 'LOCALTIMESTAMP', 'SYSDATE', 'SYSTIMESTAMP',
+  'CURRENT_USER', 'SESSION_USER', 'SYSTEM_USER', 'USER', 'ROWNUM', 'ROWID', 'LEVEL',
+]);
+
+// Functions whose first argument is a date part keyword rather than an expression.
+const DATE_PART_FUNCTIONS = new Set(['DATEADD', 'DATEDIFF', 'DATEDIFF_BIG', 'DATEPART', 'DATENAME', 'DATETRUNC', 'TIMESTAMPADD', 'TIMESTAMPDIFF']);
+
+const COMPARISONS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=']);
+
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(private sql: string) {
+    this.tokens = tokenize(sql).filter(isSignificant);
+  }
+
+  parseStatements(): Statement[] {
+    const statements: Statement[] = [];
+    while (!this.atEnd()) {
+      if (this.accept(';')) continue;
+      statements.push(this.parseStatement());
+      if (!this.atEnd() && !this.accept(';')) {
+        throw this.error(`Unexpected ${this.describe(this.peek())}`);
+      }
+    }
+    return statements;
+  }
+
+  parseStandaloneExpression(): Expression {
+    const expression = this.parseExpression();
+    this.accept(';');
+    if (!this.atEnd()) throw this.error(`Unexpected ${this.describe(this.peek())}`);
+    return expression;
+  }
+
+  // -------------------------------------------------------------------------
+  // Token helpers
+  // -------------------------------------------------------------------------
+
+  private atEnd() {
+    return this.position >= this.tokens.length;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private peekKeyword(offset = 0) {
+    return keyword(this.peek(offset));
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (!token) throw this.error('Unexpected end of query');
+    this.position++;
+    return token;
+  }
+
+  private accept(text: string): Token | undefined {
+    const token = this.peek();
+    if (token && token.type !== 'string' && token.type !== 'quoted' && token.text.toUpperCase() === text) {
+      this.position++;
+      return token;
+    }
+    return undefined;
+  }
+
+  /** Accepts the first of several alternatives that matches. */
+  private acceptAny(...texts: string[]): Token | undefined {
+    for (const text of texts) {
+      const token = this.accept(text);
+      if (token) return token;
+    }
+    return undefined;
+  }
+
+  private expect(text: string): Token {
+    const token = this.accept(text);
+    if (!token) throw this.error(`Expected ${text} but found ${this.describe(this.peek())}`);
+    return token;
+  }
+
+  private acceptSequence(...words: string[]): boolean {
+    if (words.every((word, index) => this.peek(index)?.text.toUpperCase() === word)) {
+      this.position += words.length;
+      return true;
+    }
+    return false;
+  }
+
+  private describe(token: Token | undefined) {
+    return token ? `"${token.text}"` : 'end of query';
+  }
+
+  private error(message: string, token: Token | undefined = this.peek()): SqlSyntaxError {
+    const start = token ? token.start : this.sql.length;
+    return new SqlSyntaxError(message, start, token ? token.start + token.text.length : start);
+  }
+
+  private endOfPrevious() {
+    const token = this.tokens[this.position - 1];
+    return token ? token.start + token.text.length : 0;
+  }
+
+  private startOfNext() {
+    return this.peek()?.start ?? this.sql.length;
+  }
+
+  /** Skips a balanced `( ... )` group starting at the current `(`. */
+  private skipParenthesised() {
+    this.expect('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.text === '(') depth++;
+      if (token.text === ')') depth--;
+    }
+  }
+
+  private identifier(): string {
+    const token = this.peek();
+    if (token?.type === 'quoted') {
+      this.position++;
+      return unquote(token.text);
+    }
+    if (token?.type === 'word' && !RESERVED.has(keyword(token))) {
+      this.position++;
+      return token.text;
+    }
+    throw this.error(`Expected a name but found ${this.describe(token)}`);
+  }
+
+  private acceptAlias(): string | undefined {
+    if (this.accept('AS')) return this.identifier();
+    const token = this.peek();
+    if (token?.type === 'quoted' || (token?.type === 'word' && !RESERVED.has(keyword(token)))) {
+      return this.identifier();
+    }
+    return undefined;
+  }
+
+  /** A dotted name such as `schema.table`. */
+  private qualifiedName(): string[] {
+    const parts = [this.identifier()];
+    while (this.peek()?.text === '.' && this.peek(1)?.text !== '*') {
+      this.position++;
+      parts.push(this.identifier());
+    }
+    return parts;
+  }
+
+  // -------------------------------------------------------------------------
+  // Statements
+  // -------------------------------------------------------------------------
+
+  private parseStatement(): Statement {
+    const start = this.startOfNext();
+    const first = this.peekKeyword();
+
+    if (first === 'WITH') {
+      const ctes = this.parseWith();
+      const body = this.parseStatement();
+      if (body.kind === 'other') throw this.error('Expected SELECT, INSERT, UPDATE or DELETE after WITH');
+      return { ...body, with: ctes, start };
+    }
+    if (first === 'SELECT' || this.peek()?.text === '(') return this.parseQuery();
+    if (first === 'INSERT') return this.parseInsert();
+    if (first === 'UPDATE') return this.parseUpdate();
+    if (first === 'DELETE') return this.parseDelete();
+
+    // Not checked; skip to the end of the statement.
+    let depth = 0;
+    while (!this.atEnd() && !(depth === 0 && this.peek()?.text === ';')) {
+      const token = this.next();
+      if (token.text === '(') depth++;
+      if (token.text === ')') depth--;
+    }
+    return { kind: 'other', keyword: first || (this.tokens[0]?.text ?? ''), start, end: this.endOfPrevious() };
+  }
+
+  private parseWith(): CommonTableExpression[] {
+    this.expect('WITH');
+    this.acceptAny('RECURSIVE');
+    const ctes: CommonTableExpression[] = [];
+    do {
+      const start = this.startOfNext();
+      const name = this.identifier();
+      const columns: string[] = [];
+      if (this.accept('(')) {
+        do columns.push(this.identifier()); while (this.accept(','));
+        this.expect(')');
+      }
+      this.expect('AS');
+      if (!this.acceptSequence('NOT', 'MATERIALIZED')) this.accept('MATERIALIZED');
+      this.expect('(');
+      const query = this.parseQuery();
+      this.expect(')');
+      ctes.push({ name, columns, query, start, end: this.endOfPrevious() });
+    } while (this.accept(','));
+    return ctes;
+  }
+
+  /** A SELECT with any set operations, ORDER BY and row limit. */
+  private parseQuery(): SelectStatement {
+    const start = this.startOfNext();
+    const ctes = this.peekKeyword() === 'WITH' ? this.parseWith() : [];
+    const query = this.parseQueryTerm();
+    query.with = ctes;
+    query.start = start;
+
+    while (['UNION', 'INTERSECT', 'EXCEPT', 'MINUS'].includes(this.peekKeyword())) {
+      this.next();
+      this.acceptAny('ALL', 'DISTINCT');
+      query.compound.push(this.parseQueryTerm());
+    }
+
+    if (this.acceptSequence('ORDER', 'BY')) {
+      query.orderBy = this.parseOrderList();
+    }
+    this.parseRowLimit();
+    if (this.accept('FOR')) {
+      // FOR UPDATE [OF ...] [NOWAIT]
+      while (!this.atEnd() && this.peek()?.text !== ';' && this.peek()?.text !== ')') this.next();
+    }
+    query.end = this.endOfPrevious();
+    return query;
+  }
+
+  private parseQueryTerm(): SelectStatement {
+    if (this.peek()?.text === '(') {
+      this.expect('(');
+      const query = this.parseQuery();
+      this.expect(')');
+      return query;
+    }
+    return this.parseSelectCore();
+  }
+
+  private parseSelectCore(): SelectStatement {
+    const start = this.startOfNext();
+    this.expect('SELECT');
+    const statement: SelectStatement = {
+      kind: 'select', with: [], items: [], from: [], joinConditions: [], usingColumns: [], groupBy: [], orderBy: [],
+      compound: [], start, end: start,
+    };
+
+    if (this.accept('DISTINCT')) {
+      if (this.accept('ON')) {
+        this.expect('(');
+        do statement.groupBy.push(this.parseExpression()); while (this.accept(','));
+        this.expect(')');
+      }
+    } else {
+      this.acceptAny('ALL');
+    }
+    if (this.accept('TOP')) {
+      if (this.peek()?.text === '(') this.skipParenthesised(); else this.next();
+      this.acceptAny('PERCENT');
+      this.acceptSequence('WITH', 'TIES');
+    }
+
+    do statement.items.push(this.parseSelectItem()); while (this.accept(','));
+
+    if (this.accept('INTO')) {
+      // SELECT ... INTO new_table (T-SQL)
+      this.qualifiedName();
+    }
+    if (this.accept('FROM')) {
+      this.parseFromList(statement);
+    }
+    if (this.accept('WHERE')) {
+      statement.where = this.parseExpression();
+    }
+    if (this.acceptSequence('GROUP', 'BY')) {
+      do {
+        if (this.acceptSequence('GROUPING', 'SETS')) {
+          statement.groupBy.push(this.parsePrimary());
+        } else {
+          statement.groupBy.push(this.parseExpression());
+        }
+      } while (this.accept(','));
+    }
+    if (this.accept('HAVING')) {
+      statement.having = this.parseExpression();
+    }
+    if (this.accept('QUALIFY')) {
+      statement.having = statement.having
+        ? this.combine(statement.having, this.parseExpression())
+        : this.parseExpression();
+    }
+    if (this.accept('WINDOW')) {
+      do {
+        this.identifier();
+        this.expect('AS');
+        this.skipParenthesised();
+      } while (this.accept(','));
+    }
+    statement.end = this.endOfPrevious();
+    return statement;
+  }
+
+  private combine(left: Expression, right: Expression): Expression {
+    return { kind: 'binary', operator: 'AND', left, right, start: left.start, end: right.end };
+  }
+
+  private parseSelectItem(): SelectItem {
+    const token = this.peek();
+    if (token?.text === '*') {
+      this.next();
+      return { expression: { kind: 'star', qualifier: [], start: token.start, end: token.start + 1 } };
+    }
+
+    // qualifier.*
+    let offset = 0;
+    while ((this.peek(offset)?.type === 'word' || this.peek(offset)?.type === 'quoted') && this.peek(offset + 1)?.text === '.') {
+      offset += 2;
+    }
+    if (offset > 0 && this.peek(offset)?.text === '*') {
+      const start = this.startOfNext();
+      const qualifier: string[] = [];
+      while (this.peek()?.text !== '*') {
+        qualifier.push(this.identifier());
+        this.expect('.');
+      }
+      this.next();
+      return { expression: { kind: 'star', qualifier, start, end: this.endOfPrevious() } };
+    }
+
+    const expression = this.parseExpression();
+    return { expression, alias: this.acceptAlias() };
+  }
+
+  private parseOrderList(): Expression[] {
+    const items: Expression[] = [];
+    do {
+      items.push(this.parseExpression());
+      this.acceptAny('ASC', 'DESC');
+      if (this.accept('NULLS')) {
+        if (!this.accept('FIRST')) this.expect('LAST');
+      }
+    } while (this.accept(','));
+    return items;
+  }
+
+  private parseRowLimit() {
+    for (;;) {
+      if (this.accept('LIMIT')) {
+        if (!this.accept('ALL')) this.parseExpression();
+        if (this.accept(',')) this.parseExpression();
+      } else if (this.accept('OFFSET')) {
+        this.parseExpression();
+        this.acceptAny('ROWS', 'ROW');
+      } else if (this.accept('FETCH')) {
+        if (!this.accept('FIRST')) this.expect('NEXT');
+        if (!['ROWS', 'ROW'].includes(this.peekKeyword())) this.parseExpression();
+        this.acceptAny('PERCENT');
+        if (!this.accept('ROWS')) this.expect('ROW');
+        if (!this.accept('ONLY') && !this.acceptSequence('WITH', 'TIES')) this.expect('ONLY');
+      } else {
+        return;
+      }
+    }
+  }
+
+  private parseFromList(target: { from: TableSource[]; joinConditions: Expression[]; usingColumns?: SelectStatement['usingColumns'] }) {
+    do {
+      this.parseJoinedSource(target);
+    } while (this.accept(','));
+  }
+
+  private parseJoinedSource(target: { from: TableSource[]; joinConditions: Expression[]; usingColumns?: SelectStatement['usingColumns'] }) {
+    this.parseTableSource(target);
+    for (;;) {
+      this.acceptAny('NATURAL');
+      const applies = this.acceptSequence('CROSS', 'APPLY') || this.acceptSequence('OUTER', 'APPLY');
+      if (!applies) {
+        if (this.accept('LEFT') || this.accept('RIGHT') || this.accept('FULL')) {
+          this.acceptAny('OUTER');
+        } else {
+          this.acceptAny('INNER', 'CROSS');
+        }
+        if (!this.accept('JOIN')) return;
+      }
+      this.parseTableSource(target);
+      if (applies) continue;
+
+      if (this.accept('ON')) {
+        target.joinConditions.push(this.parseExpression());
+      } else if (this.accept('USING')) {
+        this.expect('(');
+        do {
+          const start = this.startOfNext();
+          const name = this.identifier();
+          target.usingColumns?.push({ name, span: { start, end: this.endOfPrevious() } });
+        } while (this.accept(','));
+        this.expect(')');
+      }
+    }
+  }
+
+  private parseTableSource(target: { from: TableSource[]; joinConditions: Expression[]; usingColumns?: SelectStatement['usingColumns'] }) {
+    const start = this.startOfNext();
+    this.acceptAny('LATERAL');
+
+    if (this.peek()?.text === '(') {
+      const isQuery = ['SELECT', 'WITH'].includes(this.peekKeyword(1)) || this.peek(1)?.text === '(';
+      this.expect('(');
+      if (isQuery) {
+        const query = this.parseQuery();
+        this.expect(')');
+        const alias = this.acceptAlias();
+        const columnAliases: string[] = [];
+        if (alias && this.accept('(')) {
+          do columnAliases.push(this.identifier()); while (this.accept(','));
+          this.expect(')');
+        }
+        target.from.push({ kind: 'derived', query, alias, columnAliases, start, end: this.endOfPrevious() });
+      } else {
+        // A parenthesised join: (a JOIN b ON ...)
+        this.parseJoinedSource(target);
+        this.expect(')');
+      }
+      return;
+    }
+
+    const name = this.qualifiedName();
+    if (this.peek()?.text === '(') {
+      const call = this.parseFunctionCall(name.join('.'), start);
+      target.from.push({ kind: 'tableFunction', call, alias: this.acceptAlias(), start, end: this.endOfPrevious() });
+      return;
+    }
+    const end = this.endOfPrevious();
+    const alias = this.acceptAlias();
+    // Table hints: WITH (NOLOCK)
+    if (this.peekKeyword() === 'WITH' && this.peek(1)?.text === '(') {
+      this.next();
+      this.skipParenthesised();
+    }
+    target.from.push({ kind: 'table', name, alias, start, end });
+  }
+
+  private parseTableName(): TableSource & { kind: 'table' } {
+    const start = this.startOfNext();
+    const name = this.qualifiedName();
+    const end = this.endOfPrevious();
+    return { kind: 'table', name, start, end };
+  }
+
+  private parseInsert(): InsertStatement {
+    const start = this.startOfNext();
+    this.expect('INSERT');
+    this.acceptAny('INTO');
+    const table = this.parseTableName();
+    table.alias = this.peekKeyword() === 'AS' ? this.acceptAlias() : undefined;
+
+    const columns: InsertStatement['columns'] = [];
+    if (this.peek()?.text === '(' && !['SELECT', 'WITH'].includes(this.peekKeyword(1))) {
+      this.expect('(');
+      do {
+        const columnStart = this.startOfNext();
+        const name = this.qualifiedName();
+        columns.push({ name: name[name.length - 1], span: { start: columnStart, end: this.endOfPrevious() } });
+      } while (this.accept(','));
+      this.expect(')');
+    }
+
+    const statement: InsertStatement = { kind: 'insert', with: [], table, columns, values: [], start, end: start };
+    if (this.accept('VALUES')) {
+      do {
+        this.expect('(');
+        const row: Expression[] = [];
+        do row.push(this.parseExpression()); while (this.accept(','));
+        this.expect(')');
+        statement.values.push(row);
+      } while (this.accept(','));
+    } else if (this.acceptSequence('DEFAULT', 'VALUES')) {
+      // nothing to check
+    } else {
+      statement.query = this.parseQuery();
+    }
+    this.parseReturning();
+    statement.end = this.endOfPrevious();
+    return statement;
+  }
+
+  private parseUpdate(): UpdateStatement {
+    const start = this.startOfNext();
+    this.expect('UPDATE');
+    const table = this.parseTableName();
+    table.alias = this.peekKeyword() === 'SET' ? undefined : this.acceptAlias();
+    this.expect('SET');
+
+    const statement: UpdateStatement = {
+      kind: 'update', with: [], table, assignments: [], from: [], joinConditions: [], start, end: start,
+    };
+    do {
+      const columnStart = this.startOfNext();
+      const path = this.qualifiedName();
+      const column = { kind: 'column' as const, path, start: columnStart, end: this.endOfPrevious() };
+      this.expect('=');
+      statement.assignments.push({ column, value: this.parseExpression() });
+    } while (this.accept(','));
+
+    if (this.accept('FROM')) this.parseFromList(statement);
+    if (this.accept('WHERE')) statement.where = this.parseExpression();
+    this.parseReturning();
+    statement.end = this.endOfPrevious();
+    return statement;
+  }
+
+  private parseDelete(): DeleteStatement {
+    const start = this.startOfNext();
+    this.expect('DELETE');
+    this.acceptAny('FROM');
+    const table = this.parseTableName();
+    table.alias = ['WHERE', 'USING', 'FROM'].includes(this.peekKeyword()) ? undefined : this.acceptAlias();
+
+    const statement: DeleteStatement = { kind: 'delete', with: [], table, from: [], joinConditions: [], start, end: start };
+    if (this.accept('USING') || this.accept('FROM')) this.parseFromList(statement);
+    if (this.accept('WHERE')) statement.where = this.parseExpression();
+    this.parseReturning();
+    statement.end = this.endOfPrevious();
+    return statement;
+  }
+
+  private parseReturning() {
+    if (this.accept('RETURNING')) {
+      do this.parseSelectItem(); while (this.accept(','));
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Expressions, lowest precedence first
+  // -------------------------------------------------------------------------
+
+  parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private binary(operator: string, left: Expression, right: Expression): Expression {
+    return { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.accept('OR')) left = this.binary('OR', left, this.parseAnd());
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.accept('AND')) left = this.binary('AND', left, this.parseNot());
+    return left;
+  }
+
+  private parseNot(): Expression {
+    const token = this.accept('NOT');
+    if (token) {
+      const operand = this.parseNot();
+      return { kind: 'unary', operator: 'NOT', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token?.type === 'operator' && COMPARISONS.has(token.text)) {
+      this.next();
+      // = ANY (subquery), > ALL (...)
+      if (['ANY', 'ALL', 'SOME'].includes(this.peekKeyword()) && this.peek(1)?.text === '(') {
+        this.next();
+      }
+      return this.binary(token.text, left, this.parseAdditive());
+    }
+
+    if (this.accept('IS')) {
+      const negated = !!this.accept('NOT');
+      if (this.accept('NULL')) {
+        return { kind: 'isNull', expression: left, negated, start: left.start, end: this.endOfPrevious() };
+      }
+      if (this.acceptSequence('DISTINCT', 'FROM')) {
+        return this.binary(negated ? 'IS NOT DISTINCT FROM' : 'IS DISTINCT FROM', left, this.parseAdditive());
+      }
+      // IS [NOT] TRUE / FALSE / UNKNOWN
+      const value = this.next();
+      return { kind: 'isNull', expression: left, negated, start: left.start, end: value.start + value.text.length };
+    }
+
+    const negated = this.peekKeyword() === 'NOT' && ['IN', 'BETWEEN', 'LIKE', 'ILIKE'].includes(this.peekKeyword(1));
+    if (negated) this.next();
+
+    if (this.accept('IN')) {
+      this.expect('(');
+      if (['SELECT', 'WITH'].includes(this.peekKeyword())) {
+        const query = this.parseQuery();
+        this.expect(')');
+        return { kind: 'in', expression: left, list: [], query, negated, start: left.start, end: this.endOfPrevious() };
+      }
+      const list: Expression[] = [];
+      do list.push(this.parseExpression()); while (this.accept(','));
+      this.expect(')');
+      return { kind: 'in', expression: left, list, negated, start: left.start, end: this.endOfPrevious() };
+    }
+    if (this.accept('BETWEEN')) {
+      this.acceptAny('SYMMETRIC');
+      const low = this.parseAdditive();
+      this.expect('AND');
+      const high = this.parseAdditive();
+      return { kind: 'between', expression: left, low, high, negated, start: left.start, end: high.end };
+    }
+    if (this.accept('LIKE') || this.accept('ILIKE')) {
+      const pattern = this.parseAdditive();
+      if (this.accept('ESCAPE')) this.parseAdditive();
+      return { kind: 'like', expression: left, pattern, negated, start: left.start, end: this.endOfPrevious() };
+    }
+    if (negated) throw this.error('Expected IN, BETWEEN or LIKE after NOT');
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const token = this.peek();
+      if (token?.type !== 'operator' || !['+', '-', '||', '&', '|', '^'].includes(token.text)) return left;
+      this.next();
+      left = this.binary(token.text, left, this.parseMultiplicative());
+    }
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token?.type !== 'operator' || !['*', '/', '%'].includes(token.text)) return left;
+      this.next();
+      left = this.binary(token.text, left, this.parseUnary());
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token?.type === 'operator' && ['-', '+', '~'].includes(token.text)) {
+      this.next();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: token.text, operand, start: token.start, end: operand.end };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+    for (;;) {
+      if (this.accept('::')) {
+        const dataType = this.parseDataType();
+        expression = { kind: 'cast', expression, dataType, start: expression.start, end: this.endOfPrevious() };
+      } else if (this.accept('COLLATE')) {
+        this.next();
+      } else if (this.acceptSequence('AT', 'TIME', 'ZONE')) {
+        this.parsePrimary();
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  /** A type name such as `VARCHAR(20)` or `DOUBLE PRECISION`, as written. */
+  private parseDataType(): string {
+    const start = this.startOfNext();
+    this.identifier();
+    while (this.peek()?.type === 'word' && !RESERVED.has(this.peekKeyword()) && this.peek()?.text !== ')') {
+      // multi-word types: DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE
+      if (['PRECISION', 'VARYING', 'ZONE', 'TIME', 'LOCAL'].includes(this.peekKeyword())) this.next(); else break;
+    }
+    if (this.peekKeyword() === 'WITH' && this.peekKeyword(1) === 'TIME') this.acceptSequence('WITH', 'TIME', 'ZONE');
+    if (this.peek()?.text === '(') this.skipParenthesised();
+    return this.sql.slice(start, this.endOfPrevious());
+  }
+
+  parsePrimary(): Expression {
+    const token = this.peek();
+    if (!token) throw this.error('Unexpected end of query');
+    const start = token.start;
+    const end = () => this.endOfPrevious();
+
+    if (token.type === 'number') {
+      this.next();
+      return { kind: 'literal', type: 'number', value: token.text, start, end: end() };
+    }
+    if (token.type === 'string') {
+      this.next();
+      return { kind: 'literal', type: 'string', value: unquote(token.text.replace(/^[Nn]/, '')).replace(/''/g, "'"), start, end: end() };
+    }
+    if (token.text === '?' || (token.text === ':' && this.peek(1)?.type === 'word')) {
+      this.next();
+      if (token.text === ':') this.next();
+      return { kind: 'parameter', start, end: end() };
+    }
+    if (token.text === '(') {
+      this.next();
+      if (['SELECT', 'WITH'].includes(this.peekKeyword())) {
+        const query = this.parseQuery();
+        this.expect(')');
+        return { kind: 'subquery', query, start, end: end() };
+      }
+      const first = this.parseExpression();
+      if (this.accept(',')) {
+        const items = [first];
+        do items.push(this.parseExpression()); while (this.accept(','));
+        this.expect(')');
+        return { kind: 'list', items, start, end: end() };
+      }
+      this.expect(')');
+      return { ...first, start, end: end() };
+    }
+    if (token.type === 'quoted') {
+      return this.parseNameOrCall();
+    }
+    if (token.type !== 'word') {
+      throw this.error(`Unexpected ${this.describe(token)}`);
+    }
+
+    const name = keyword(token);
+    if (token.text.startsWith('@')) {
+      this.next();
+      return { kind: 'parameter', start, end: end() };
+    }
+    if (name === 'NULL') {
+      this.next();
+      return { kind: 'literal', type: 'null', value: 'NULL', start, end: end() };
+    }
+    if (name === 'TRUE' || name === 'FALSE') {
+      this.next();
+      return { kind: 'literal', type: 'boolean', value: name, start, end: end() };
+    }
+    if (['DATE', 'TIMESTAMP', 'TIME'].includes(name) && this.peek(1)?.type === 'string') {
+      this.next();
+      const literal = this.next();
+      return { kind: 'literal', type: 'date', value: unquote(literal.text), start, end: end() };
+    }
+    if (name === 'INTERVAL') {
+      this.next();
+      const value = this.parsePrimary();
+      // INTERVAL '3' DAY [TO SECOND]
+      if (this.peek()?.type === 'word' && !RESERVED.has(this.peekKeyword())) {
+        this.next();
+        if (this.accept('TO')) this.next();
+      }
+      return { kind: 'literal', type: 'interval', value: this.sql.slice(value.start, value.end), start, end: end() };
+    }
+    if (name === 'CASE') return this.parseCase();
+    if (name === 'EXISTS') {
+      this.next();
+      this.expect('(');
+      const query = this.parseQuery();
+      this.expect(')');
+      return { kind: 'exists', query, start, end: end() };
+    }
+    if (['CAST', 'TRY_CAST', 'SAFE_CAST'].includes(name) && this.peek(1)?.text === '(') {
+      this.next();
+      this.expect('(');
+      const expression = this.parseExpression();
+      this.expect('AS');
+      const dataType = this.parseDataType();
+      this.expect(')');
+      return { kind: 'cast', expression, dataType, start, end: end() };
+    }
+    if (NILADIC.has(name) && this.peek(1)?.text !== '(' && this.peek(1)?.text !== '.') {
+      this.next();
+      return { kind: 'keyword', name, start, end: end() };
+    }
+    if (RESERVED.has(name)) {
+      throw this.error(`Unexpected ${this.describe(token)}`);
+    }
+    return this.parseNameOrCall();
+  }
+
+  private parseCase(): Expression {
+    const start = this.expect('CASE').start;
+    const operand = this.peekKeyword() === 'WHEN' ? undefined : this.parseExpression();
+    const branches: { when: Expression; then: Expression }[] = [];
+    while (this.accept('WHEN')) {
+      const when = this.parseExpression();
+      this.expect('THEN');
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (branches.length === 0) throw this.error('Expected WHEN');
+    const otherwise = this.accept('ELSE') ? this.parseExpression() : undefined;
+    this.expect('END');
+    return { kind: 'case', operand, branches, otherwise, start, end: this.endOfPrevious() };
+  }
+
+  private parseNameOrCall(): Expression {
+    const start = this.startOfNext();
+    const path = [this.nameToken()];
+    while (this.peek()?.text === '.') {
+      this.next();
+      if (this.peek()?.text === '*') {
+        this.next();
+        return { kind: 'star', qualifier: path, start, end: this.endOfPrevious() };
+      }
+      path.push(this.nameToken());
+    }
+    if (this.peek()?.text === '(') {
+      return this.parseFunctionCall(path.join('.'), start);
+    }
+    return { kind: 'column', path, start, end: this.endOfPrevious() };
+  }
+
+  // Column and function names may be non-reserved keywords such as YEAR or LEFT.
+  private nameToken(): string {
+    const token = this.next();
+    if (token.type === 'quoted') return unquote(token.text);
+    if (token.type === 'word') return token.text;
+    throw this.error(`Expected a name but found ${this.describe(token)}`, token);
+  }
+
+  private parseFunctionCall(name: string, start: number): Expression {
+    const upper = name.toUpperCase();
+    const args: Expression[] = [];
+    const window: Expression[] = [];
+    this.expect('(');
+
+    if ((upper === 'EXTRACT' || upper === 'DATE_PART') && this.peek()?.type === 'word') {
+      this.next();
+      if (!this.accept('FROM')) this.expect(',');
+    } else if (DATE_PART_FUNCTIONS.has(upper)) {
+      this.next();
+      this.expect(',');
+    } else if (upper === 'CONVERT' && this.peek()?.type === 'word' && this.peek(1)?.text !== '.' && this.peek(1)?.text !== ',') {
+      // CONVERT(type, value [, style]) in T-SQL
+      this.parseDataType();
+      this.expect(',');
+    } else if (upper === 'TRIM') {
+      this.acceptAny('BOTH', 'LEADING', 'TRAILING');
+      if (this.accept('FROM')) args.push(this.parseExpression());
+    }
+
+    if (this.accept('*')) {
+      args.push({ kind: 'star', qualifier: [], start: this.endOfPrevious() - 1, end: this.endOfPrevious() });
+    } else if (this.peek()?.text !== ')') {
+      this.acceptAny('DISTINCT', 'ALL');
+      do {
+        args.push(upper === 'POSITION' ? this.parseAdditive() : this.parseExpression());
+        if (this.accept('AS')) this.parseDataType();
+        if (this.acceptSequence('ORDER', 'BY')) window.push(...this.parseOrderList());
+        if (!this.acceptSequence('IGNORE', 'NULLS')) this.acceptSequence('RESPECT', 'NULLS');
+      } while (this.accept(',') || this.accept('FROM') || this.accept('FOR') || this.accept('IN') || this.accept('SEPARATOR'));
+    }
+    this.expect(')');
+
+    if (this.acceptSequence('WITHIN', 'GROUP')) {
+      this.expect('(');
+      this.expect('ORDER');
+      this.expect('BY');
+      window.push(...this.parseOrderList());
+      this.expect(')');
+    }
+    if (this.accept('FILTER')) {
+      this.expect('(');
+      this.expect('WHERE');
+      window.push(this.parseExpression());
+      this.expect(')');
+    }
+    if (!this.acceptSequence('IGNORE', 'NULLS')) this.acceptSequence('RESPECT', 'NULLS');
+    if (this.accept('OVER')) {
+      if (this.peek()?.text === '(') {
+        this.expect('(');
+        if (this.peek()?.type === 'word' && !['PARTITION', 'ORDER', 'ROWS', 'RANGE', 'GROUPS'].includes(this.peekKeyword())) {
+          this.next(); // named window
+        }
+        if (this.acceptSequence('PARTITION', 'BY')) {
+          do window.push(this.parseExpression()); while (this.accept(','));
+        }
+        if (this.acceptSequence('ORDER', 'BY')) window.push(...this.parseOrderList());
+        // Frame clauses (ROWS BETWEEN ...) hold no column references.
+        let depth = 0;
+        while (!(depth === 0 && this.peek()?.text === ')')) {
+          const token = this.next();
+          if (token.text === '(') depth++;
+          if (token.text === ')') depth--;
+        }
+        this.expect(')');
+      } else {
+        this.identifier();
+      }
+    }
+
+    return { kind: 'function', name: upper, args, window, start, end: this.endOfPrevious() };
+  }
+}
+
+/** Parses one or more `;`-separated statements. Throws SqlSyntaxError. */
+export const parseSql = (sql: string): Statement[] => new Parser(sql).parseStatements();
+
+/** Parses a lone expression such as a CHECK condition. Throws SqlSyntaxError. */
+export const parseSqlExpression = (sql: string): Expression => new Parser(sql).parseStandaloneExpression();
@@ -0,0 +1,106 @@
+export type TokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  /** `"name"`, `[name]` or `` `name` ``. */
+  | 'quoted'
+  | 'number'
+  | 'word'
+  | 'operator'
+  | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  /** Offset of the token in the source text. */
+  start: number;
+}
+
+const RULES: [TokenType, RegExp][] = [
+  ['whitespace', /\s+/y],
+  ['comment', /--[^\n]*|\/\*[\s\S]*?(\*\/|$)/y],
+  ['string', /[Nn]?'(?:[^']|'')*'?/y],
+  ['quoted', /"(?:[^"]|"")*"?|\[[^\]]*\]?|`[^`]*`?/y],
+  ['number', /(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/y],
+  ['word', /[A-Za-z_@#][A-Za-z0-9_$#@]*/y],
+  ['operator', /::|\|\||<>|!=|<=|>=|[-+*/%=<>~^&|!]/y],
+  ['punctuation', /[(),;.]/y],
+];
+
+/**
+ * Splits SQL into tokens without interpreting it. Every character ends up in
+ * exactly one token, so joining the token texts gives back the input.
+ */
+export const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < sql.length) {
+    let matched = false;
+    for (const [type, pattern] of RULES) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(sql);
+      if (match && match[0].length > 0) {
+        tokens.push({ type, text: match[0], start: position });
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      tokens.push({ type: 'punctuation', text: sql[position], start: position });
+      position++;
+    }
+  }
+
+  return tokens;
+};
+
+export const isSignificant = (token: Token) => token.type !== 'whitespace' && token.type !== 'comment';
+
+/** Upper-cased text of a word token, or '' for anything else. */
+export const keyword = (token: Token | undefined) => (token?.type === 'word' ? token.text.toUpperCase() : '');
+
+/** Index of the next significant token after `index`, or `tokens.length`. */
+export const nextSignificant = (tokens: Token[], index: number): number => {
+  let next = index + 1;
+  while (next < tokens.length && !isSignificant(tokens[next])) next++;
+  return next;
+};
+
+/** Index of the previous significant token before `index`, or -1. */
+export const previousSignificant = (tokens: Token[], index: number): number => {
+  let previous = index - 1;
+  while (previous >= 0 && !isSignificant(tokens[previous])) previous--;
+  return previous;
+};
+
+/** Index of the `)` that closes the `(` at `open`, or -1 if it is never closed. */
+export const closingParen = (tokens: Token[], open: number): number => {
+  let depth = 0;
+  for (let index = open; index < tokens.length; index++) {
+    if (tokens[index].text === '(') depth++;
+    if (tokens[index].text === ')' && --depth === 0) return index;
+  }
+  return -1;
+};
+
+/** Index of the `(` that opens the `)` at `close`, or -1. */
+export const openingParen = (tokens: Token[], close: number): number => {
+  let depth = 0;
+  for (let index = close; index >= 0; index--) {
+    if (tokens[index].text === ')') depth++;
+    if (tokens[index].text === '(' && --depth === 0) return index;
+  }
+  return -1;
+};
+
+/** The unquoted name inside a `quoted` token. */
+export const unquote = (text: string): string => {
+  if (text.startsWith('[')) return text.slice(1, text.endsWith(']') ? -1 : undefined);
+  const quote = text[0];
+  const inner = text.slice(1, text.endsWith(quote) && text.length > 1 ? -1 : undefined);
+  return quote === '"' ? inner.replace(/""/g, '"') : inner;
+};
+
+export const joinTokens = (tokens: Token[]) => tokens.map(token => token.text).join('');
@@ -0,0 +1,247 @@
+import * as XLSX from 'xlsx';
+import type { ParsedKnowledge, SQLQuery, TableSpecification, TestScenario } from './GroqService';
+import { sheetName } from './dataGenerator';
+import { identifiersIn } from './knowledgeDiff';
+import { describeExpectation, inferExpectation, runScenario } from './testRunner';
+import { queryCovers, scenarioOf, traceItems } from './traceability';
+import { dialectLabel } from './sqlDialect';
+
+export type TestCaseField =
+  | 'testId'
+  | 'scenario'
+  | 'requirement'
+  | 'requirementDescription'
+  | 'description'
+  | 'steps'
+  | 'sql'
+  | 'expectedResult'
+  | 'actualResult'
+  | 'status'
+  | 'tables'
+  | 'category'
+  | 'dialect'
+  | 'source'
+  /** Left empty for the tester to fill in, e.g. "Tester" or "Date". */
+  | 'blank';
+
+export interface TemplateColumn {
+  header: string;
+  field: TestCaseField;
+}
+
+export type SheetGrouping = 'table' | 'requirement';
+
+export const TEST_CASE_FIELDS: { id: TestCaseField; label: string }[] = [
+  { id: 'testId', label: 'Test ID' },
+  { id: 'scenario', label: 'Scenario' },
+  { id: 'requirement', label: 'Requirement ids' },
+  { id: 'requirementDescription', label: 'Requirement descriptions' },
+  { id: 'description', label: 'Description' },
+  { id: 'steps', label: 'Steps' },
+  { id: 'sql', label: 'SQL' },
+  { id: 'expectedResult', label: 'Expected result' },
+  { id: 'actualResult', label: 'Actual result' },
+  { id: 'status', label: 'Status' },
+  { id: 'tables', label: 'Tables' },
+  { id: 'category', label: 'Category' },
+  { id: 'dialect', label: 'Dialect' },
+  { id: 'source', label: 'Source' },
+  { id: 'blank', label: 'Empty column' },
+];
+
+export const DEFAULT_TEMPLATE: TemplateColumn[] = [
+  { header: 'Test ID', field: 'testId' },
+  { header: 'Requirement', field: 'requirement' },
+  { header: 'Steps', field: 'steps' },
+  { header: 'SQL', field: 'sql' },
+  { header: 'Expected Result', field: 'expectedResult' },
+  { header: 'Actual Result', field: 'actualResult' },
+  { header: 'Status', field: 'status' },
+];
+
+// Column widths in characters, so long text does not open as a sliver.
+const FIELD_WIDTHS: Partial<Record<TestCaseField, number>> = {
+  description: 40,
+  requirementDescription: 40,
+  steps: 50,
+  sql: 60,
+  expectedResult: 35,
+  actualResult: 35,
+};
+
+const TEMPLATE_STORAGE_KEY = 'excel-sql-analyzer/test-case-template';
+
+/** The template saved in this browser, or the default one. */
+export const loadTemplate = (): TemplateColumn[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) ?? 'null');
+    const fields = TEST_CASE_FIELDS.map(field => field.id);
+    if (Array.isArray(saved) && saved.length > 0 && saved.every(column =>
+      typeof column?.header === 'string' && fields.includes(column?.field))) {
+      return saved;
+    }
+  } catch {
+    // Unreadable or unavailable storage falls back to the default
+  }
+  return DEFAULT_TEMPLATE;
+};
+
+export const saveTemplate = (template: TemplateColumn[]): void => {
+  try {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+  } catch {
+    // Not saved, e.g. in private browsing; the template still applies to this export
+  }
+};
+
+export interface TestCase {
+  /** Unique across scenario and stored queries, which may share ids. */
+  key: string;
+  query: SQLQuery;
+  scenario?: TestScenario;
+  source: 'Test scenario' | 'Stored query';
+  requirementIds: string[];
+  /** Knowledge tables the SQL names, in the order it names them. */
+  tables: string[];
+  actualResult: string;
+  status: string;
+}
+
+/** Knowledge tables a query names, first mentioned first. */
+const tablesUsedBy = (sql: string, tables: TableSpecification[]): string[] => {
+  const used: string[] = [];
+  identifiersIn(sql).forEach(name => {
+    const table = tables.find(spec => spec.tableName.toLowerCase() === name)
+      ?? tables.find(spec => spec.tableName.split('.').pop()!.toLowerCase() === name);
+    if (table && !used.includes(table.tableName)) used.push(table.tableName);
+  });
+  return used;
+};
+
+/**
+ * One test case per scenario query, plus, when given, the stored queries from
+ * the SQL panel. A stored query belongs to the scenario its `testScenario`
+ * names; the others are listed as their own test cases.
+ */
+export const collectTestCases = (knowledge: ParsedKnowledge, storedQueries: SQLQuery[] = []): TestCase[] => {
+  const tables = knowledge.tableSpecifications;
+  const build = (key: string, query: SQLQuery, scenario: TestScenario | undefined, source: TestCase['source']): TestCase => ({
+    key,
+    query,
+    scenario,
+    source,
+    requirementIds: queryCovers(query, scenario),
+    tables: tablesUsedBy(query.query, tables),
+    actualResult: '',
+    status: 'Not run',
+  });
+  return [
+    ...knowledge.testScenarios.flatMap(scenario =>
+      scenario.testQueries.map(query => build(`scenario:${scenario.id}/${query.id}`, query, scenario, 'Test scenario'))),
+    ...storedQueries.map(query => build(`stored:${query.id}`, query, scenarioOf(query, knowledge.testScenarios), 'Stored query')),
+  ];
+};
+
+const STATUS_LABELS = { pass: 'Pass', fail: 'Fail', error: 'Error', 'not-runnable': 'Not run' } as const;
+
+/**
+ * Runs every test case against the loaded data and fills in its actual
+ * result and status. Stored queries that are not validation queries are
+ * skipped, as they have nothing to check.
+ */
+export const runTestCases = async (cases: TestCase[], knowledge: ParsedKnowledge): Promise<TestCase[]> => {
+  const results: TestCase[] = [];
+  for (const testCase of cases) {
+    const { query, scenario } = testCase;
+    if (testCase.source === 'Stored query' && query.category !== 'VALIDATION' && !query.expectation) {
+      results.push(testCase);
+      continue;
+    }
+    const single: TestScenario = {
+      id: scenario?.id ?? query.id,
+      name: scenario?.name ?? query.description,
+      description: scenario?.description ?? '',
+      expectedResults: scenario?.expectedResults ?? '',
+      testQueries: [query],
+    };
+    const [outcome] = (await runScenario(single, knowledge)).queries;
+    results.push({ ...testCase, actualResult: outcome.message, status: STATUS_LABELS[outcome.status] });
+  }
+  return results;
+};
+
+const expectedResult = (testCase: TestCase): string => {
+  const { query, scenario } = testCase;
+  const expectation = query.expectation ?? (scenario || query.category === 'VALIDATION'
+    ? inferExpectation(scenario?.expectedResults ?? '', query.query)
+    : undefined);
+  const lines = [expectation && describeExpectation(expectation), scenario?.expectedResults].filter((line): line is string => !!line);
+  return Array.from(new Set(lines)).join('\n');
+};
+
+const steps = (testCase: TestCase): string => [
+  `1. Load the test data${testCase.tables.length > 0 ? ` for ${testCase.tables.join(', ')}` : ''}`,
+  `2. Run the SQL query${testCase.query.description ? `: ${testCase.query.description}` : ''}`,
+  '3. Compare the result with the expected result',
+].join('\n');
+
+const cellValue = (testCase: TestCase, field: TestCaseField, descriptions: Map<string, string>): string => {
+  switch (field) {
+    case 'testId': return testCase.query.id;
+    case 'scenario': return testCase.scenario?.name ?? '';
+    case 'requirement': return testCase.requirementIds.join(', ');
+    case 'requirementDescription': return testCase.requirementIds.map(id => descriptions.get(id) ?? id).join('\n');
+    case 'description': return testCase.query.description;
+    case 'steps': return steps(testCase);
+    case 'sql': return testCase.query.query;
+    case 'expectedResult': return expectedResult(testCase);
+    case 'actualResult': return testCase.actualResult;
+    case 'status': return testCase.status;
+    case 'tables': return testCase.tables.join(', ');
+    case 'category': return testCase.query.category;
+    case 'dialect': return testCase.query.dialect ? dialectLabel(testCase.query.dialect) : '';
+    case 'source': return testCase.source;
+    case 'blank': return '';
+  }
+};
+
+/** Sheet titles a test case is listed under, in the order the knowledge base has them. */
+const groupCases = (cases: TestCase[], knowledge: ParsedKnowledge, grouping: SheetGrouping): [string, TestCase[]][] => {
+  const keys = grouping === 'table'
+    ? knowledge.tableSpecifications.map(table => table.tableName)
+    : traceItems(knowledge).map(item => item.id);
+  const fallback = grouping === 'table' ? 'Other' : 'Not linked';
+  // A query over several tables goes with the first one it names; one that
+  // covers several requirements is listed under each of them.
+  const sheetsOf = (testCase: TestCase) => {
+    const matches = grouping === 'table' ? testCase.tables.slice(0, 1) : testCase.requirementIds.filter(id => keys.includes(id));
+    return matches.length > 0 ? matches : [fallback];
+  };
+  return [...keys, fallback]
+    .map(key => [key, cases.filter(testCase => sheetsOf(testCase).includes(key))] as [string, TestCase[]])
+    .filter(([, grouped]) => grouped.length > 0);
+};
+
+/** The test cases as a workbook laid out by `template`, one sheet per table or per requirement. */
+export const toTestCaseWorkbook = (
+  cases: TestCase[],
+  knowledge: ParsedKnowledge,
+  template: TemplateColumn[],
+  grouping: SheetGrouping
+): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+  const descriptions = new Map(traceItems(knowledge).map(item => [item.id, item.description]));
+  groupCases(cases, knowledge, grouping).forEach(([title, grouped]) => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      template.map(column => column.header),
+      ...grouped.map(testCase => template.map(column => cellValue(testCase, column.field, descriptions))),
+    ]);
+    sheet['!cols'] = template.map(column => ({ wch: FIELD_WIDTHS[column.field] ?? Math.max(12, column.header.length + 2) }));
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName(title, used));
+  });
+  if (workbook.SheetNames.length === 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([template.map(column => column.header)]), 'Test cases');
+  }
+  return workbook;
+};
@@ -0,0 +1,401 @@
+import type { ParsedKnowledge, SQLQuery, TableSpecification, TestExpectation, TestScenario } from './GroqService';
+import { foreignKeysOf, formatIdentifier, formatTableName } from './ddlGenerator';
+import { splitTableName } from './SqlEngine';
+import { cleanCondition, compileRule } from './ruleValidator';
+import { parseSql, SqlSyntaxError } from './sqlParser';
+import { describeExpectation, inferExpectation } from './testRunner';
+import { toYaml } from './yaml';
+import type { ZipEntry } from './zip';
+
+/** How the dbt project knows the tables: as sources it reads, or as models it builds. */
+export type DbtRelationKind = 'source' | 'model';
+
+export interface TestExportOptions {
+  relationKind: DbtRelationKind;
+  /** Source name for tables without a schema; schema-qualified tables use their schema. */
+  sourceName: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: TestExportOptions = { relationKind: 'source', sourceName: 'raw' };
+
+export interface TestExport {
+  files: ZipEntry[];
+  /** Column tests in the dbt schema file. */
+  genericTests: number;
+  /** SQL files in the dbt tests folder. */
+  singularTests: number;
+  /** Expectations across the Great Expectations suites. */
+  expectations: number;
+  /** What could not be exported, and why. */
+  notes: string[];
+}
+
+interface Expectation {
+  type: string;
+  kwargs: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+}
+
+/** Renders a table name for the framework the SQL is written for. */
+type Relation = (table: TableSpecification) => string;
+
+interface Check {
+  /** File name, without extension, of the dbt singular test. */
+  name: string;
+  comment: string;
+  table?: TableSpecification;
+  /** Rows that break the check, with each knowledge table written by `relation`. */
+  sql: (relation: Relation) => string;
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const bareName = (tableName: string) => tableName.split('.').pop() || tableName;
+
+const findTable = (name: string, knowledge: ParsedKnowledge): TableSpecification | undefined =>
+  knowledge.tableSpecifications.find(spec => sameName(spec.tableName, name)) ??
+  knowledge.tableSpecifications.find(spec => sameName(bareName(spec.tableName), bareName(name)));
+
+const fileSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'test';
+
+const quoteLiteral = (value: string | number) => (typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`);
+
+const stripSemicolon = (sql: string) => sql.trim().replace(/;\s*$/, '');
+
+const indent = (sql: string) => sql.split('\n').map(line => `  ${line}`).join('\n');
+
+const primaryKeyOf = (table: TableSpecification): string[] => {
+  const columns = table.columns.filter(column => column.isPrimaryKey).map(column => column.name);
+  return columns.length > 0
+    ? columns
+    : table.constraints.find(constraint => constraint.type === 'PRIMARY_KEY')?.columns ?? [];
+};
+
+const uniqueKeysOf = (table: TableSpecification): string[][] => {
+  const keys = [primaryKeyOf(table), ...table.constraints.filter(constraint => constraint.type === 'UNIQUE').map(constraint => constraint.columns)];
+  return keys.filter((key, index) => key.length > 0 && keys.findIndex(other => other.join(',') === key.join(',')) === index);
+};
+
+const notNullColumns = (table: TableSpecification): string[] => {
+  const key = primaryKeyOf(table);
+  return table.columns
+    .filter(column => !column.isNullable || key.some(name => sameName(name, column.name)))
+    .map(column => column.name);
+};
+
+interface Reference {
+  column: string;
+  table: TableSpecification;
+  field: string;
+}
+
+/**
+ * Single-column foreign keys, from constraints and relationships, whose
+ * referenced table is in the knowledge base. When the key does not say which
+ * column it references, the referenced table's primary key is used.
+ */
+const referencesOf = (table: TableSpecification, knowledge: ParsedKnowledge, notes: string[]): Reference[] =>
+  foreignKeysOf(table, knowledge).flatMap(key => {
+    const referenced = findTable(key.referencedTable, knowledge);
+    const field = key.referencedColumns[0] ?? (referenced && primaryKeyOf(referenced).length === 1 ? primaryKeyOf(referenced)[0] : undefined);
+    if (!referenced || !field || key.columns.length !== 1 || key.referencedColumns.length > 1) {
+      notes.push(`${table.tableName}: foreign key ${key.name} is not a single-column key to a known table, so it has no relationship test`);
+      return [];
+    }
+    return [{ column: key.columns[0], table: referenced, field }];
+  });
+
+/** `sql` with every table of the knowledge base it reads written by `relation`. */
+const replaceTables = (sql: string, knowledge: ParsedKnowledge, relation: Relation): string => {
+  const spans: { start: number; end: number; table: TableSpecification }[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      const record = node as { kind?: string; name?: unknown; start?: number; end?: number };
+      if (record.kind === 'table' && Array.isArray(record.name)) {
+        const table = findTable(record.name.join('.'), knowledge);
+        if (table) spans.push({ start: record.start!, end: record.end!, table });
+      }
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(parseSql(sql));
+  return spans
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, span) => `${text.slice(0, span.start)}${relation(span.table)}${text.slice(span.end)}`, sql);
+};
+
+/** The first table of the knowledge base a query reads, so the GX check can live in its suite. */
+const firstTableOf = (sql: string, knowledge: ParsedKnowledge): TableSpecification | undefined => {
+  let first: TableSpecification | undefined;
+  replaceTables(sql, knowledge, table => {
+    first = table;
+    return table.tableName;
+  });
+  return first;
+};
+
+/**
+ * The query and the column a VALUE_EQUALS expectation compares. Without a
+ * column the first one is compared, and given a name when it has none, as in
+ * `SELECT COUNT(*) FROM ...`.
+ */
+const comparedColumn = (sql: string, expectation: TestExpectation): { sql: string; column: string } | undefined => {
+  if (expectation.column) return { sql, column: expectation.column };
+  const [statement] = parseSql(sql);
+  const item = statement?.kind === 'select' ? statement.items[0] : undefined;
+  if (!item || item.expression.kind === 'star') return undefined;
+  if (item.alias) return { sql, column: item.alias };
+  if (item.expression.kind === 'column') return { sql, column: item.expression.path[item.expression.path.length - 1] };
+  const { end } = item.expression;
+  return { sql: `${sql.slice(0, end)} as actual_value${sql.slice(end)}`, column: 'actual_value' };
+};
+
+/**
+ * A query for the rows that make a test query fail: the query itself when it
+ * should return nothing, or a wrapper that returns a row when the result is
+ * not what the expectation wants. Both dbt and GX fail a check that returns rows.
+ */
+const failingRows = (sql: string, expectation: TestExpectation): string | undefined => {
+  switch (expectation.type) {
+    case 'NO_ROWS':
+      return sql;
+    case 'HAS_ROWS':
+      return `select 1 as no_rows_returned\nwhere not exists (\n${indent(sql)}\n)`;
+    case 'ROW_COUNT': {
+      const operator = expectation.operator === '!=' ? '<>' : expectation.operator ?? '=';
+      return `select count(*) as row_count\nfrom (\n${indent(sql)}\n) result\nhaving not (count(*) ${operator} ${Number(expectation.value ?? 0)})`;
+    }
+    case 'VALUE_EQUALS': {
+      const compared = comparedColumn(sql, expectation);
+      if (!compared || expectation.value === undefined) return undefined;
+      const name = `result.${formatIdentifier(compared.column)}`;
+      return `select *\nfrom (\n${indent(compared.sql)}\n) result\nwhere ${name} is null or ${name} <> ${quoteLiteral(expectation.value)}`;
+    }
+  }
+};
+
+const keyChecks = (table: TableSpecification): Check[] =>
+  uniqueKeysOf(table)
+    .filter(key => key.length > 1)
+    .map(key => {
+      const columns = key.map(formatIdentifier).join(', ');
+      return {
+        name: `unique_${fileSlug(bareName(table.tableName))}_${key.map(fileSlug).join('_')}`,
+        comment: `${table.tableName}: (${key.join(', ')}) is unique`,
+        table,
+        sql: relation => `select ${columns}, count(*) as row_count\nfrom ${relation(table)}\ngroup by ${columns}\nhaving count(*) > 1`,
+      };
+    });
+
+const constraintChecks = (table: TableSpecification): Check[] =>
+  table.constraints
+    .filter(constraint => constraint.type === 'CHECK' && constraint.expression)
+    .map(constraint => ({
+      name: `check_${fileSlug(bareName(table.tableName))}_${fileSlug(constraint.name)}`,
+      comment: `${table.tableName}: CHECK ${constraint.name} (${constraint.expression})`,
+      table,
+      sql: relation => `select *\nfrom ${relation(table)}\nwhere not (${cleanCondition(constraint.expression!)})`,
+    }));
+
+/** Business rules as checks; only CHECK rules, as the others need code in the database. */
+const ruleChecks = (knowledge: ParsedKnowledge, notes: string[]): Check[] =>
+  knowledge.businessRules.flatMap(rule => {
+    if (rule.validationType !== 'CHECK') {
+      notes.push(`${rule.id}: ${rule.validationType} rules need code in the database and are not exported`);
+      return [];
+    }
+    const compiled = compileRule(rule, knowledge);
+    const condition = cleanCondition(rule.sqlCondition);
+    const table = compiled.tableName ? findTable(compiled.tableName, knowledge) : undefined;
+    if (!compiled.violationQuery) {
+      notes.push(`${rule.id}: ${compiled.error ?? 'the rule could not be compiled'}`);
+      return [];
+    }
+    const isQuery = /^(SELECT|WITH)\b/i.test(condition);
+    if (!isQuery && !table) {
+      notes.push(`${rule.id}: no table in the knowledge base has its columns`);
+      return [];
+    }
+    return [{
+      name: `rule_${fileSlug(rule.id)}`,
+      comment: `${rule.id}: ${rule.rule}`,
+      table,
+      sql: (relation: Relation) => isQuery
+        ? replaceTables(condition, knowledge, relation)
+        : `select *\nfrom ${relation(table!)}\nwhere not (${condition})`,
+    }];
+  });
+
+const scenarioChecks = (knowledge: ParsedKnowledge, notes: string[]): Check[] =>
+  knowledge.testScenarios.flatMap((scenario: TestScenario) => scenario.testQueries.flatMap((query: SQLQuery) => {
+    const label = `${scenario.id}/${query.id}`;
+    if (['INSERT', 'UPDATE', 'DELETE'].includes(query.category)) {
+      notes.push(`${label}: ${query.category} queries change data and cannot be a test`);
+      return [];
+    }
+    const sql = stripSemicolon(query.query);
+    const expectation = query.expectation ?? inferExpectation(scenario.expectedResults, sql);
+    try {
+      const failing = failingRows(sql, expectation);
+      if (!failing) {
+        notes.push(`${label}: set the column the expected value is compared with, as the query selects *`);
+        return [];
+      }
+      const table = firstTableOf(sql, knowledge);
+      return [{
+        name: `scenario_${fileSlug(scenario.id)}_${fileSlug(query.id)}`,
+        comment: `${scenario.id} ${scenario.name}: ${query.description}\n-- Expected: ${describeExpectation(expectation)}`,
+        table,
+        sql: (relation: Relation) => replaceTables(failing, knowledge, relation),
+      }];
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error;
+      notes.push(`${label}: could not read the query (${error.message})`);
+      return [];
+    }
+  }));
+
+const dbtRelation = (options: TestExportOptions): Relation => table => {
+  const { schema, table: name } = splitTableName(table.tableName);
+  return options.relationKind === 'model' ? `ref('${name}')` : `source('${schema ?? options.sourceName}', '${name}')`;
+};
+
+const dbtSchema = (knowledge: ParsedKnowledge, options: TestExportOptions, notes: string[]) => {
+  const relation = dbtRelation(options);
+  let count = 0;
+  const entries = knowledge.tableSpecifications.map(table => {
+    const notNull = notNullColumns(table);
+    const unique = uniqueKeysOf(table).filter(key => key.length === 1).map(key => key[0]);
+    const references = referencesOf(table, knowledge, notes);
+    const columns = table.columns.map(column => {
+      const tests: unknown[] = [
+        ...(notNull.includes(column.name) ? ['not_null'] : []),
+        ...(unique.some(name => sameName(name, column.name)) ? ['unique'] : []),
+        ...references
+          .filter(reference => sameName(reference.column, column.name))
+          .map(reference => ({ relationships: { to: relation(reference.table), field: reference.field } })),
+      ];
+      count += tests.length;
+      return {
+        name: column.name,
+        description: column.description || undefined,
+        data_type: column.dataType || undefined,
+        tests: tests.length > 0 ? tests : undefined,
+      };
+    });
+    return { table, entry: { name: splitTableName(table.tableName).table, columns } };
+  });
+
+  if (options.relationKind === 'model') {
+    return { yaml: toYaml({ version: 2, models: entries.map(({ entry }) => entry) }), count };
+  }
+  const sources = new Map<string, unknown[]>();
+  entries.forEach(({ table, entry }) => {
+    const source = splitTableName(table.tableName).schema ?? options.sourceName;
+    sources.set(source, [...(sources.get(source) ?? []), entry]);
+  });
+  return {
+    yaml: toYaml({ version: 2, sources: Array.from(sources, ([name, tables]) => ({ name, tables })) }),
+    count,
+  };
+};
+
+const gxSuite = (table: TableSpecification, knowledge: ParsedKnowledge, checks: Check[]): Expectation[] => {
+  const batch: Relation = spec => (spec === table ? '{batch}' : formatTableName(spec.tableName));
+  const column = (type: string, name: string): Expectation => ({ type, kwargs: { column: name } });
+  return [
+    ...notNullColumns(table).map(name => column('expect_column_values_to_not_be_null', name)),
+    ...uniqueKeysOf(table).map(key => (key.length === 1
+      ? column('expect_column_values_to_be_unique', key[0])
+      : { type: 'expect_compound_columns_to_be_unique', kwargs: { column_list: key } })),
+    ...referencesOf(table, knowledge, []).map(reference => {
+      const name = formatIdentifier(reference.column);
+      return {
+        type: 'unexpected_rows_expectation',
+        kwargs: {
+          unexpected_rows_query: `SELECT * FROM {batch} WHERE ${name} IS NOT NULL AND ${name} NOT IN ` +
+            `(SELECT ${formatIdentifier(reference.field)} FROM ${formatTableName(reference.table.tableName)})`,
+        },
+        meta: { check: `${table.tableName}.${reference.column} references ${reference.table.tableName}.${reference.field}` },
+      };
+    }),
+    ...checks
+      .filter(check => check.table === table)
+      .map(check => ({
+        type: 'unexpected_rows_expectation',
+        kwargs: { unexpected_rows_query: check.sql(batch) },
+        meta: { check: check.comment.replace(/\n-- /g, '; ') },
+      })),
+  ];
+};
+
+const readme = (options: TestExportOptions) => `# Tests generated from the specification
+
+## dbt
+
+Copy \`dbt/models/schema.yml\` and \`dbt/tests/\` into your dbt project, then run \`dbt test\`.
+
+- \`schema.yml\` declares the tables as ${options.relationKind === 'model' ? 'models' : 'sources'} with \`not_null\`, \`unique\` and \`relationships\` tests.
+- Each file in \`tests/\` is a singular test for a composite key, a CHECK constraint, a business rule or a test scenario query. It returns the rows that break the check.
+
+## Great Expectations
+
+\`great_expectations/expectations/\` has one suite per table, in the Great Expectations 1.x JSON format.
+Rules and test queries are \`unexpected_rows_expectation\`s, where \`{batch}\` is the table of the suite.
+`;
+
+/**
+ * The knowledge base as dbt tests and Great Expectations suites, as the
+ * files of a folder to download. Column nullability and keys become built-in
+ * tests; CHECK constraints, business rules and test scenario queries become
+ * SQL that returns the rows that break them.
+ */
+export const buildTestExport = (knowledge: ParsedKnowledge, options: TestExportOptions = DEFAULT_EXPORT_OPTIONS): TestExport => {
+  const notes: string[] = [];
+  const schema = dbtSchema(knowledge, options, notes);
+  const checks = [
+    ...knowledge.tableSpecifications.flatMap(table => [...keyChecks(table), ...constraintChecks(table)]),
+    ...ruleChecks(knowledge, notes),
+    ...scenarioChecks(knowledge, notes),
+  ];
+
+  const relation = dbtRelation(options);
+  const used = new Set<string>();
+  const unique = (name: string) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) candidate = `${name}_${n}`;
+    used.add(candidate);
+    return candidate;
+  };
+  const files: ZipEntry[] = [
+    { name: 'README.md', content: readme(options) },
+    { name: 'dbt/models/schema.yml', content: schema.yaml },
+    ...checks.map(check => ({
+      name: `dbt/tests/${unique(check.name)}.sql`,
+      content: `-- ${check.comment}\n${check.sql(table => `{{ ${relation(table)} }}`)}\n`,
+    })),
+  ];
+
+  checks.filter(check => !check.table).forEach(check => {
+    notes.push(`${check.name}: reads no table of the knowledge base, so it is only in dbt`);
+  });
+
+  let expectations = 0;
+  const suites = new Set<string>();
+  knowledge.tableSpecifications.forEach(table => {
+    const suite = gxSuite(table, knowledge, checks);
+    if (suite.length === 0) return;
+    expectations += suite.length;
+    let name = fileSlug(table.tableName);
+    for (let n = 2; suites.has(name); n++) name = `${fileSlug(table.tableName)}_${n}`;
+    suites.add(name);
+    files.push({
+      name: `great_expectations/expectations/${name}.json`,
+      content: `${JSON.stringify({ name: table.tableName, expectations: suite, meta: { notes: 'Generated from the specification' } }, null, 2)}\n`,
+    });
+  });
+
+  return { files, genericTests: schema.count, singularTests: checks.length, expectations, notes };
+};
@@ -0,0 +1,212 @@
+import type { SqlValue } from 'sql.js';
+import type { ParsedKnowledge, SQLQuery, TestExpectation, TestScenario } from './GroqService';
+import SqlEngine, { QueryResult } from './SqlEngine';
+import { engineLimitation, transpileForEngine } from './sqlDialect';
+
+export type TestStatus = 'pass' | 'fail' | 'error' | 'not-runnable';
+
+export interface QueryOutcome {
+  queryId: string;
+  description: string;
+  status: TestStatus;
+  expectation: TestExpectation;
+  /** True when the expectation was worked out from the scenario's expectedResults text. */
+  inferred: boolean;
+  message: string;
+  columns: string[];
+  /** Rows that broke the expectation, up to MAX_OFFENDING_ROWS. */
+  offendingRows: SqlValue[][];
+  offendingCount: number;
+  durationMs?: number;
+}
+
+export interface ScenarioOutcome {
+  scenarioId: string;
+  status: TestStatus;
+  queries: QueryOutcome[];
+  ranAt: Date;
+}
+
+const MAX_OFFENDING_ROWS = 100;
+
+const NO_ROWS_TEXT = /\b(no|zero|0)\s+(rows?|records?|results?|violations?|duplicates?|orphans?|errors?|mismatch(es)?)\b|\b(empty|none)\b/i;
+const ROW_COUNT_TEXT = /\b(?:exactly\s+)?(\d+)\s+(?:rows?|records?)\b/i;
+const HAS_ROWS_TEXT = /\b(at least one|one or more|some)\s+(rows?|records?)\b|\breturns?\s+(the\s+)?(rows|records|data)\b/i;
+const VALUE_TEXT = /\b(?:count|value|result|total)\s+(?:should\s+)?(?:be|equals?|is|=)\s+('[^']*'|-?\d+(?:\.\d+)?)/i;
+const COUNT_QUERY = /^\s*SELECT\s+COUNT\s*\(/i;
+const READ_QUERY = /^[\s(]*(SELECT|WITH)\b/i;
+
+/**
+ * Reads an expectation out of free-text expected results such as "No rows
+ * should be returned" or "Count should be 0". Falls back to NO_ROWS, or to
+ * a value of 0 for a bare COUNT query, as test queries select the rows that
+ * break a rule.
+ */
+export const inferExpectation = (expectedResults: string, query: string): TestExpectation => {
+  const value = expectedResults.match(VALUE_TEXT);
+  if (value) {
+    const text = value[1];
+    return { type: 'VALUE_EQUALS', value: text.startsWith("'") ? text.slice(1, -1) : Number(text) };
+  }
+  if (NO_ROWS_TEXT.test(expectedResults)) {
+    return COUNT_QUERY.test(query) && !/\bGROUP\s+BY\b/i.test(query) ? { type: 'VALUE_EQUALS', value: 0 } : { type: 'NO_ROWS' };
+  }
+  const count = expectedResults.match(ROW_COUNT_TEXT);
+  if (count) return { type: 'ROW_COUNT', operator: '=', value: Number(count[1]) };
+  if (HAS_ROWS_TEXT.test(expectedResults)) return { type: 'HAS_ROWS' };
+  return COUNT_QUERY.test(query) && !/\bGROUP\s+BY\b/i.test(query) ? { type: 'VALUE_EQUALS', value: 0 } : { type: 'NO_ROWS' };
+};
+
+export const describeExpectation = (expectation: TestExpectation): string => {
+  switch (expectation.type) {
+    case 'NO_ROWS':
+      return 'No rows';
+    case 'HAS_ROWS':
+      return 'At least one row';
+    case 'ROW_COUNT':
+      return `Row count ${expectation.operator ?? '='} ${expectation.value}`;
+    case 'VALUE_EQUALS':
+      return `${expectation.column ?? 'First column'} = ${JSON.stringify(expectation.value)}`;
+  }
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+
+const compare = (actual: number, operator: NonNullable<TestExpectation['operator']>, expected: number) => {
+  switch (operator) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+};
+
+// Numbers compare numerically, so 1 matches '1.0'; everything else as trimmed text.
+const sameValue = (actual: SqlValue, expected: string | number) => {
+  if (actual === null) return false;
+  const actualNumber = Number(actual);
+  const expectedNumber = Number(expected);
+  if (String(actual).trim() !== '' && String(expected).trim() !== '' && !Number.isNaN(actualNumber) && !Number.isNaN(expectedNumber)) {
+    return actualNumber === expectedNumber;
+  }
+  return String(actual).trim() === String(expected).trim();
+};
+
+type Verdict = Pick<QueryOutcome, 'status' | 'message'> & { offending: SqlValue[][] };
+
+/** Checks a result against an expectation. */
+export const evaluateExpectation = (result: QueryResult, expectation: TestExpectation): Verdict => {
+  const rows = result.rows;
+  const count = result.rowCount;
+
+  switch (expectation.type) {
+    case 'NO_ROWS':
+      return count === 0
+        ? { status: 'pass', message: result.isMutation ? 'No rows affected' : 'No rows returned', offending: [] }
+        : { status: 'fail', message: `${plural(count, 'row')} ${result.isMutation ? 'affected' : 'returned'}; expected none`, offending: rows };
+
+    case 'HAS_ROWS':
+      return count > 0
+        ? { status: 'pass', message: `${plural(count, 'row')} returned`, offending: [] }
+        : { status: 'fail', message: 'No rows returned; expected at least one', offending: [] };
+
+    case 'ROW_COUNT': {
+      const expected = Number(expectation.value);
+      if (expectation.value === undefined || Number.isNaN(expected)) {
+        return { status: 'error', message: 'The expectation has no row count to compare with', offending: [] };
+      }
+      const operator = expectation.operator ?? '=';
+      return compare(count, operator, expected)
+        ? { status: 'pass', message: `${plural(count, 'row')}, as expected`, offending: [] }
+        : { status: 'fail', message: `${plural(count, 'row')}; expected ${operator} ${expected}`, offending: rows };
+    }
+
+    case 'VALUE_EQUALS': {
+      if (expectation.value === undefined) {
+        return { status: 'error', message: 'The expectation has no value to compare with', offending: [] };
+      }
+      const columnIndex = expectation.column
+        ? result.columns.findIndex(column => column.toLowerCase() === expectation.column!.toLowerCase())
+        : 0;
+      if (columnIndex < 0 || result.columns.length === 0) {
+        return { status: 'error', message: `The result has no column ${expectation.column ?? ''}`.trim(), offending: [] };
+      }
+      if (rows.length === 0) {
+        return { status: 'fail', message: `No rows returned; expected ${JSON.stringify(expectation.value)}`, offending: [] };
+      }
+      const offending = rows.filter(row => !sameValue(row[columnIndex], expectation.value!));
+      const column = result.columns[columnIndex];
+      return offending.length === 0
+        ? { status: 'pass', message: `${column} = ${JSON.stringify(expectation.value)}`, offending: [] }
+        : {
+          status: 'fail',
+          message: offending.length === 1 && rows.length === 1
+            ? `${column} is ${JSON.stringify(offending[0][columnIndex])}; expected ${JSON.stringify(expectation.value)}`
+            : `${plural(offending.length, 'row')} where ${column} is not ${JSON.stringify(expectation.value)}`,
+          offending,
+        };
+    }
+  }
+};
+
+const runQuery = async (query: SQLQuery, scenario: TestScenario, knowledge: ParsedKnowledge): Promise<QueryOutcome> => {
+  const expectation = query.expectation ?? inferExpectation(scenario.expectedResults, query.query);
+  const base = { queryId: query.id, description: query.description, expectation, inferred: !query.expectation };
+  // Written for the workspace dialect; the engine runs SQLite
+  const { query: sql, warnings } = transpileForEngine(query.query, knowledge.tableSpecifications);
+  try {
+    await SqlEngine.ensureSchema(knowledge);
+    // Rolled back so INSERT/UPDATE/DELETE tests leave the loaded data as it was
+    const result = await SqlEngine.execute(sql, { rollback: true });
+    // A SELECT read as a write would count stale changed rows instead of its own
+    const verdict: Verdict = READ_QUERY.test(sql) && result.isMutation
+      ? { status: 'error', message: 'The query returned no result set', offending: [] }
+      : evaluateExpectation(result, expectation);
+    return {
+      ...base,
+      status: verdict.status,
+      message: verdict.message,
+      columns: result.columns,
+      offendingRows: verdict.offending.slice(0, MAX_OFFENDING_ROWS),
+      offendingCount: verdict.offending.length,
+      durationMs: result.durationMs,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const limitation = engineLimitation(message, warnings);
+    return {
+      ...base,
+      status: limitation ? 'not-runnable' : 'error',
+      message: limitation ?? message,
+      columns: [],
+      offendingRows: [],
+      offendingCount: 0,
+    };
+  }
+};
+
+/**
+ * A scenario fails if any query fails, and errors if any query could not be
+ * checked. Queries the engine cannot run leave it unverified, not passed.
+ */
+const overallStatus = (statuses: TestStatus[]): TestStatus => {
+  if (statuses.length === 0 || statuses.includes('error')) return 'error';
+  if (statuses.includes('fail')) return 'fail';
+  return statuses.includes('not-runnable') ? 'not-runnable' : 'pass';
+};
+
+/** Runs a scenario's queries against the loaded data and checks each result. */
+export const runScenario = async (scenario: TestScenario, knowledge: ParsedKnowledge): Promise<ScenarioOutcome> => {
+  const queries: QueryOutcome[] = [];
+  for (const query of scenario.testQueries) {
+    queries.push(await runQuery(query, scenario, knowledge));
+  }
+  return {
+    scenarioId: scenario.id,
+    status: overallStatus(queries.map(query => query.status)),
+    queries,
+    ranAt: new Date(),
+  };
+};
@@ -0,0 +1,168 @@
+import * as XLSX from 'xlsx';
+import type { ParsedKnowledge, SQLQuery, TestScenario } from './GroqService';
+
+export type TraceItemKind = 'requirement' | 'businessRule';
+
+/** A functional requirement or business rule that tests should cover. */
+export interface TraceItem {
+  id: string;
+  kind: TraceItemKind;
+  description: string;
+}
+
+export interface Coverage {
+  /** Scenarios that cover the item themselves or through one of their queries. */
+  scenarioIds: string[];
+  /** Scenario and stored queries that cover the item, directly or through their scenario. */
+  queryIds: string[];
+}
+
+export interface TraceabilityMatrix {
+  items: TraceItem[];
+  scenarios: TestScenario[];
+  /** Stored queries, from the SQL panel, that belong to a scenario or cover something themselves. */
+  storedQueries: SQLQuery[];
+  coverage: Record<string, Coverage>;
+  /** Ids of the items no scenario or query covers. */
+  uncovered: string[];
+}
+
+export const traceItems = (knowledge: ParsedKnowledge): TraceItem[] => [
+  ...knowledge.functionalRequirements.map(requirement => ({ id: requirement.id, kind: 'requirement' as const, description: requirement.description })),
+  ...knowledge.businessRules.map(rule => ({ id: rule.id, kind: 'businessRule' as const, description: rule.rule })),
+];
+
+/** The scenario a stored query was generated for, by the name or id in `testScenario`. */
+export const scenarioOf = (query: SQLQuery, scenarios: TestScenario[]): TestScenario | undefined =>
+  query.testScenario === undefined
+    ? undefined
+    : scenarios.find(scenario => scenario.name === query.testScenario || scenario.id === query.testScenario);
+
+/** What a query covers: its own links, or else its scenario's. */
+export const queryCovers = (query: SQLQuery, scenario?: TestScenario): string[] =>
+  query.covers ?? scenario?.covers ?? [];
+
+/** What a scenario covers, itself or through any of its queries. */
+export const scenarioCovers = (scenario: TestScenario): string[] =>
+  Array.from(new Set([...(scenario.covers ?? []), ...scenario.testQueries.flatMap(query => query.covers ?? [])]));
+
+/** `covers` with `id` added, or removed when it is already there. */
+export const toggleCover = (covers: string[], id: string): string[] =>
+  covers.includes(id) ? covers.filter(existing => existing !== id) : [...covers, id];
+
+export const buildTraceability = (knowledge: ParsedKnowledge, queries: SQLQuery[] = []): TraceabilityMatrix => {
+  const items = traceItems(knowledge);
+  const scenarios = knowledge.testScenarios;
+  const storedQueries = queries.filter(query => scenarioOf(query, scenarios) || query.covers);
+
+  const coverage: Record<string, Coverage> = Object.fromEntries(items.map(item => [item.id, { scenarioIds: [], queryIds: [] }]));
+  const add = (ids: string[], list: keyof Coverage, value: string) => ids.forEach(id => {
+    if (coverage[id] && !coverage[id][list].includes(value)) coverage[id][list].push(value);
+  });
+
+  scenarios.forEach(scenario => {
+    add(scenarioCovers(scenario), 'scenarioIds', scenario.id);
+    scenario.testQueries.forEach(query => add(queryCovers(query, scenario), 'queryIds', query.id));
+  });
+  storedQueries.forEach(query => {
+    const scenario = scenarioOf(query, scenarios);
+    const covers = queryCovers(query, scenario);
+    add(covers, 'queryIds', query.id);
+    if (scenario) add(covers, 'scenarioIds', scenario.id);
+  });
+
+  return {
+    items,
+    scenarios,
+    storedQueries,
+    coverage,
+    uncovered: items.filter(item => coverage[item.id].scenarioIds.length === 0 && coverage[item.id].queryIds.length === 0).map(item => item.id),
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (texts: string[], id: string) => {
+  const pattern = new RegExp(`(^|[^A-Za-z0-9_-])${escapeRegExp(id)}($|[^A-Za-z0-9_-])`, 'i');
+  return texts.some(text => pattern.test(text));
+};
+
+/**
+ * Cleans up the links of generated scenarios: ids the knowledge base does not
+ * have are dropped, and a scenario the model left unlinked is linked to the
+ * requirements and rules its text mentions by id.
+ */
+export const linkCoverage = (scenarios: TestScenario[], knowledge: ParsedKnowledge): TestScenario[] => {
+  const ids = traceItems(knowledge).map(item => item.id).filter(Boolean);
+  const known = (covers: string[] | undefined) => covers?.filter(id => ids.includes(id));
+  return scenarios.map(scenario => {
+    const texts = [scenario.name, scenario.description, scenario.expectedResults, ...scenario.testQueries.map(query => query.description)];
+    const covers = known(scenario.covers);
+    return {
+      ...scenario,
+      covers: covers && covers.length > 0 ? covers : ids.filter(id => mentions(texts, id)),
+      testQueries: scenario.testQueries.map(query => {
+        const { covers: queryLinks, ...rest } = query;
+        const linked = known(queryLinks);
+        return linked && linked.length > 0 ? { ...rest, covers: linked } : rest;
+      }),
+    };
+  });
+};
+
+const KIND_LABELS: Record<TraceItemKind, string> = {
+  requirement: 'Requirement',
+  businessRule: 'Business rule',
+};
+
+export const traceItemLabel = (kind: TraceItemKind) => KIND_LABELS[kind];
+
+/**
+ * The matrix as a workbook: a "Matrix" sheet with a column per scenario, a
+ * "Links" sheet with one row per covering scenario or query, and an
+ * "Uncovered" sheet listing what no test covers.
+ */
+export const toTraceabilityWorkbook = (matrix: TraceabilityMatrix): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  const { items, scenarios, storedQueries, coverage } = matrix;
+
+  const matrixRows = items.map(item => [
+    item.id,
+    traceItemLabel(item.kind),
+    item.description,
+    matrix.uncovered.includes(item.id) ? 'No' : 'Yes',
+    coverage[item.id].scenarioIds.length,
+    coverage[item.id].queryIds.length,
+    ...scenarios.map(scenario => (coverage[item.id].scenarioIds.includes(scenario.id) ? 'X' : '')),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['Id', 'Type', 'Description', 'Covered', 'Scenarios', 'Queries', ...scenarios.map(scenario => `${scenario.id}: ${scenario.name}`)],
+    ...matrixRows,
+  ]), 'Matrix');
+
+  const linkRows = items.flatMap(item => [
+    ...scenarios.flatMap(scenario => {
+      const queries = scenario.testQueries.filter(query => queryCovers(query, scenario).includes(item.id));
+      if (queries.length === 0) {
+        return scenario.covers?.includes(item.id) ? [[item.id, traceItemLabel(item.kind), scenario.id, scenario.name, '', '', 'Test scenario']] : [];
+      }
+      return queries.map(query => [item.id, traceItemLabel(item.kind), scenario.id, scenario.name, query.id, query.description, 'Test scenario']);
+    }),
+    ...storedQueries.flatMap(query => {
+      const scenario = scenarioOf(query, scenarios);
+      return queryCovers(query, scenario).includes(item.id)
+        ? [[item.id, traceItemLabel(item.kind), scenario?.id ?? '', scenario?.name ?? '', query.id, query.description, 'Stored query']]
+        : [];
+    }),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['Requirement or rule', 'Type', 'Scenario id', 'Scenario', 'Query id', 'Query', 'Source'],
+    ...linkRows,
+  ]), 'Links');
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['Id', 'Type', 'Description'],
+    ...items.filter(item => matrix.uncovered.includes(item.id)).map(item => [item.id, traceItemLabel(item.kind), item.description]),
+  ]), 'Uncovered');
+  return workbook;
+};
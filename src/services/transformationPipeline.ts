@@ -0,0 +1,430 @@
+import type { SqlValue } from 'sql.js';
+import type { DataTransformation, FunctionalRequirement, ParsedKnowledge } from './GroqService';
+import SqlEngine, { qualifiedName, quoteIdentifier, QueryResult } from './SqlEngine';
+import { normalizeIdentifier } from './dataLoader';
+import { tableForExpression } from './ruleValidator';
+import { engineLimitation, transpileForEngine } from './sqlDialect';
+import { Expression, parseSql, parseSqlExpression, SqlSyntaxError, TableSource } from './sqlParser';
+
+export type StepKind = 'query' | 'insert' | 'derive' | 'update' | 'delete';
+export type StepStatus = 'ok' | 'error' | 'skipped' | 'not-runnable';
+
+export interface StepOutcome {
+  name: string;
+  kind?: StepKind;
+  status: StepStatus;
+  message: string;
+  /** SQLite that built the step's table. */
+  sql?: string;
+  /** Table the step read, and the intermediate table holding its result. */
+  inputTable?: string;
+  outputTable?: string;
+  rowsBefore?: number;
+  rowsAfter?: number;
+  /** Conditions that are not SQL, so were shown but not applied. */
+  ignoredConditions: string[];
+  durationMs?: number;
+}
+
+export interface TargetComparison {
+  expectedTable: string;
+  actualTable: string;
+  status: 'match' | 'mismatch' | 'error';
+  message: string;
+  expectedRows: number;
+  actualRows: number;
+  /** Columns both tables have, compared value by value. */
+  columns: string[];
+  /** Columns the pipeline produced that the actual table lacks, and the reverse. */
+  missingColumns: string[];
+  extraColumns: string[];
+  onlyExpected: number;
+  onlyActual: number;
+  onlyExpectedSample: SqlValue[][];
+  onlyActualSample: SqlValue[][];
+}
+
+export interface PipelineRun {
+  requirementId: string;
+  steps: StepOutcome[];
+  /** Intermediate table of the last step that ran: the expected target. */
+  resultTable?: string;
+  /** Table the pipeline writes, e.g. the INSERT target, when it names one. */
+  targetName?: string;
+  comparison?: TargetComparison;
+  ranAt: Date;
+}
+
+export const STEP_PAGE_SIZE = 20;
+
+// Rows shown from each side of a target comparison.
+const SAMPLE_ROWS = 20;
+
+interface PipelineState {
+  /** Tables an earlier step changed or wrote, lower-cased, mapped to the step table holding the result. */
+  replaced: Map<string, string>;
+  /** Result of the last step, which a derive step reads, and the table name it stands for. */
+  current?: { table: string; name: string };
+  /** Table the last INSERT, UPDATE or DELETE wrote. */
+  target?: string;
+}
+
+type TableReference = TableSource & { kind: 'table' };
+
+const bareName = (tableName: string) => tableName.split('.').pop() || tableName;
+
+const stepTable = (requirement: FunctionalRequirement, index: number) =>
+  `pipeline_${normalizeIdentifier(requirement.id) || 'requirement'}_step${index + 1}`;
+
+const tableReferences = (node: unknown, found: TableReference[] = []) => {
+  if (Array.isArray(node)) {
+    node.forEach(item => tableReferences(item, found));
+  } else if (node && typeof node === 'object') {
+    const record = node as { kind?: string; name?: unknown };
+    if (record.kind === 'table' && Array.isArray(record.name)) found.push(node as TableReference);
+    Object.values(node).forEach(value => tableReferences(value, found));
+  }
+  return found;
+};
+
+const replacementFor = (state: PipelineState, name: string[]) =>
+  state.replaced.get(name.join('.').toLowerCase()) ?? state.replaced.get(name[name.length - 1].toLowerCase());
+
+/**
+ * Points references to tables an earlier step changed at that step's table.
+ * The original name stays on as an alias so qualified columns still resolve.
+ * `offset` is where `sql` starts in the text the spans refer to.
+ */
+const rewriteTables = (sql: string, node: unknown, state: PipelineState, offset = 0, cteNames: string[] = []) =>
+  tableReferences(node)
+    .filter(reference => !(reference.name.length === 1 && cteNames.includes(reference.name[0].toLowerCase())))
+    .flatMap(reference => {
+      const table = replacementFor(state, reference.name);
+      if (!table) return [];
+      const alias = reference.alias ? '' : ` AS ${quoteIdentifier(reference.name[reference.name.length - 1])}`;
+      return [{ start: reference.start - offset, end: reference.end - offset, text: `${quoteIdentifier(table)}${alias}` }];
+    })
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, replacement) => text.slice(0, replacement.start) + replacement.text + text.slice(replacement.end), sql);
+
+/** The knowledge base's name for a table, so `customers` and `crm.customers` are one table. */
+const canonicalName = (tableName: string, knowledge: ParsedKnowledge) => {
+  const specs = knowledge.tableSpecifications;
+  const spec = specs.find(entry => entry.tableName.toLowerCase() === tableName.toLowerCase()) ??
+    specs.find(entry => bareName(entry.tableName).toLowerCase() === bareName(tableName).toLowerCase());
+  return spec?.tableName ?? tableName;
+};
+
+/** Where a table's rows currently live: an earlier step's table, or the loaded table. */
+const physicalTable = (state: PipelineState, tableName: string) =>
+  replacementFor(state, tableName.split('.')) ?? tableName;
+
+const countRows = async (tableName: string) => {
+  const result = await SqlEngine.execute(`SELECT COUNT(*) FROM ${qualifiedName(tableName)}`);
+  return Number(result.rows[0]?.[0] ?? 0);
+};
+
+const splitConditions = (conditions: string[]) => {
+  const applied: string[] = [];
+  const ignored: string[] = [];
+  conditions.map(condition => condition.trim()).filter(Boolean).forEach(condition => {
+    try {
+      parseSqlExpression(condition);
+      applied.push(condition);
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error;
+      ignored.push(condition);
+    }
+  });
+  return { applied, ignored };
+};
+
+const whereClause = (conditions: string[]) =>
+  conditions.length > 0 ? `\nWHERE ${conditions.map(condition => `(${condition})`).join(' AND ')}` : '';
+
+const firstTable = (from: TableSource[]) => from.find((source): source is TableReference => source.kind === 'table');
+
+interface StepPlan {
+  kind: StepKind;
+  /** SQLite that fills the output table, which already holds a copy of the input for update and delete. */
+  build: (output: string) => string;
+  input?: string;
+  /** Table the step's result stands for, e.g. the table a derive step extended. */
+  name?: string;
+  /** Table that later steps read from this step's result instead. */
+  replaces?: string;
+}
+
+/**
+ * Works out what a transformation does from its `sqlLogic`: a SELECT is
+ * run as it is, INSERT ... SELECT produces the rows it would insert,
+ * UPDATE and DELETE change a copy of their table, and an expression adds a
+ * column named after the transformation to the previous step's result.
+ * SQL `conditions` filter the rows the step works on.
+ */
+const planStep = async (
+  transformation: DataTransformation,
+  conditions: string[],
+  state: PipelineState,
+  knowledge: ParsedKnowledge
+): Promise<StepPlan | string> => {
+  const logic = transformation.sqlLogic.trim().replace(/;\s*$/, '');
+  if (!logic) return 'The transformation has no SQL logic';
+
+  if (!/^(SELECT|WITH|INSERT|UPDATE|DELETE|MERGE|CREATE|ALTER|DROP|TRUNCATE)\b/i.test(logic)) {
+    let expression: Expression;
+    try {
+      expression = parseSqlExpression(logic);
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) throw error;
+      return `Not runnable SQL (${error.message}); the step is described only`;
+    }
+    let input = state.current;
+    if (!input) {
+      const match = tableForExpression(expression, knowledge);
+      if (!match.spec) return `Could not tell which table the expression reads: ${match.error}`;
+      input = { table: physicalTable(state, match.spec.tableName), name: match.spec.tableName };
+    }
+    const column = normalizeIdentifier(transformation.name) || 'derived_value';
+    const { table, name } = input;
+    const alias = quoteIdentifier(bareName(name));
+    // A column of the same name is replaced rather than duplicated
+    const kept = ((await SqlEngine.columnsOf(table)) ?? [])
+      .filter(existing => existing.toLowerCase() !== column)
+      .map(existing => `${alias}.${quoteIdentifier(existing)}`);
+    return {
+      kind: 'derive',
+      input: table,
+      name,
+      replaces: name,
+      build: output => `CREATE TABLE ${quoteIdentifier(output)} AS\nSELECT ${[...kept, `${logic} AS ${quoteIdentifier(column)}`].join(', ')}\nFROM ${qualifiedName(table)} AS ${alias}${whereClause(conditions)}`,
+    };
+  }
+
+  const statements = parseSql(logic);
+  if (statements.length !== 1) return 'The SQL logic holds more than one statement';
+  const [statement] = statements;
+  const cteNames = statement.kind === 'other' ? [] : statement.with.map(cte => cte.name.toLowerCase());
+
+  switch (statement.kind) {
+    case 'select': {
+      const source = firstTable(statement.from);
+      const query = rewriteTables(logic, statement, state, 0, cteNames);
+      return {
+        kind: 'query',
+        input: source && physicalTable(state, source.name.join('.')),
+        name: source && canonicalName(source.name.join('.'), knowledge),
+        build: output => `CREATE TABLE ${quoteIdentifier(output)} AS\nSELECT * FROM (\n${query}\n) AS step_rows${whereClause(conditions)}`,
+      };
+    }
+
+    case 'insert': {
+      if (!statement.query) return 'INSERT ... VALUES adds fixed rows rather than transforming data';
+      const source = firstTable(statement.query.from);
+      const query = rewriteTables(logic.slice(statement.query.start, statement.query.end), statement.query, state, statement.query.start, cteNames);
+      const columns = statement.columns.length > 0 ? `(${statement.columns.map(column => quoteIdentifier(column.name)).join(', ')})` : '';
+      const target = canonicalName(statement.table.name.join('.'), knowledge);
+      return {
+        kind: 'insert',
+        input: source && physicalTable(state, source.name.join('.')),
+        name: target,
+        replaces: target,
+        build: output => `CREATE TABLE ${quoteIdentifier(output)} AS\nWITH step_rows${columns} AS (\n${query}\n)\nSELECT * FROM step_rows${whereClause(conditions)}`,
+      };
+    }
+
+    case 'update':
+    case 'delete': {
+      const target = canonicalName(statement.table.name.join('.'), knowledge);
+      const input = physicalTable(state, target);
+      const build = (output: string) => {
+        const redirected: PipelineState = { ...state, replaced: new Map(state.replaced).set(target.toLowerCase(), output) };
+        redirected.replaced.set(bareName(target).toLowerCase(), output);
+        const filter = conditions.map(condition => `(${condition})`).join(' AND ');
+        const change = rewriteTables(logic, statement, redirected, 0, cteNames) +
+          (filter ? `${statement.where ? ' AND ' : '\nWHERE '}${filter}` : '');
+        return `CREATE TABLE ${quoteIdentifier(output)} AS SELECT * FROM ${qualifiedName(input)};\n${change}`;
+      };
+      return { kind: statement.kind, input, name: target, replaces: target, build };
+    }
+
+    default:
+      return `${statement.keyword} statements cannot run as a pipeline step; use SELECT, INSERT ... SELECT, UPDATE or DELETE`;
+  }
+};
+
+const runStep = async (
+  transformation: DataTransformation,
+  output: string,
+  state: PipelineState,
+  knowledge: ParsedKnowledge
+): Promise<StepOutcome> => {
+  const { applied, ignored } = splitConditions(transformation.conditions ?? []);
+  const base = { name: transformation.name, ignoredConditions: ignored };
+  // Written for the workspace dialect; the engine runs SQLite
+  const logic = transpileForEngine(transformation.sqlLogic, knowledge.tableSpecifications);
+  const conditions = applied.map(condition => transpileForEngine(condition, knowledge.tableSpecifications));
+  const warnings = [...new Set([logic, ...conditions].flatMap(result => result.warnings))];
+
+  let plan: StepPlan | string;
+  try {
+    plan = await planStep(
+      { ...transformation, sqlLogic: logic.query },
+      conditions.map(condition => condition.query),
+      state,
+      knowledge
+    );
+  } catch (error) {
+    if (!(error instanceof SqlSyntaxError)) throw error;
+    plan = `Could not read the SQL logic: ${error.message}`;
+  }
+  if (typeof plan === 'string') return { ...base, status: 'skipped', message: plan };
+
+  const sql = plan.build(output);
+  try {
+    const rowsBefore = plan.input ? await countRows(plan.input) : undefined;
+    const result = await SqlEngine.execute(`DROP TABLE IF EXISTS ${quoteIdentifier(output)};\n${sql}`);
+    const rowsAfter = await countRows(output);
+
+    if (plan.replaces) {
+      state.replaced.set(plan.replaces.toLowerCase(), output);
+      state.replaced.set(bareName(plan.replaces).toLowerCase(), output);
+      if (plan.kind !== 'derive') state.target = plan.replaces;
+    }
+    state.current = { table: output, name: plan.name ?? output };
+
+    const changed = plan.kind === 'update' ? `; ${result.rowCount} updated` : '';
+    return {
+      ...base,
+      kind: plan.kind,
+      status: 'ok',
+      message: rowsBefore !== undefined ? `${rowsBefore} → ${rowsAfter} rows${changed}` : `${rowsAfter} rows`,
+      sql,
+      inputTable: plan.input,
+      outputTable: output,
+      rowsBefore,
+      rowsAfter,
+      durationMs: result.durationMs,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const limitation = engineLimitation(message, warnings);
+    return {
+      ...base,
+      kind: plan.kind,
+      status: limitation ? 'not-runnable' : 'error',
+      message: limitation ?? message,
+      sql,
+      inputTable: plan.input,
+    };
+  }
+};
+
+/**
+ * Compares the pipeline's result with the table the developers produced, on
+ * the columns both have. Rows are compared as sets, so the row counts are
+ * what shows duplicates.
+ */
+export const compareWithTarget = async (expectedTable: string, actualTable: string): Promise<TargetComparison> => {
+  const base = {
+    expectedTable, actualTable, expectedRows: 0, actualRows: 0, columns: [], missingColumns: [], extraColumns: [],
+    onlyExpected: 0, onlyActual: 0, onlyExpectedSample: [], onlyActualSample: [],
+  };
+  try {
+    const expectedColumns = await SqlEngine.columnsOf(expectedTable);
+    const actualColumns = await SqlEngine.columnsOf(actualTable);
+    if (!expectedColumns) return { ...base, status: 'error', message: 'The pipeline result is gone; run it again' };
+    if (!actualColumns) return { ...base, status: 'error', message: `${actualTable} is not loaded` };
+
+    const has = (columns: string[], name: string) => columns.some(column => column.toLowerCase() === name.toLowerCase());
+    const columns = expectedColumns.filter(column => has(actualColumns, column));
+    const missingColumns = expectedColumns.filter(column => !has(actualColumns, column));
+    const extraColumns = actualColumns.filter(column => !has(expectedColumns, column));
+    const expectedRows = await countRows(expectedTable);
+    const actualRows = await countRows(actualTable);
+    if (columns.length === 0) {
+      return { ...base, expectedRows, actualRows, missingColumns, extraColumns, status: 'mismatch', message: 'The tables have no columns in common' };
+    }
+
+    const list = columns.map(quoteIdentifier).join(', ');
+    const difference = (from: string, without: string) =>
+      `SELECT ${list} FROM ${qualifiedName(from)} EXCEPT SELECT ${list} FROM ${qualifiedName(without)}`;
+    const measure = async (from: string, without: string): Promise<[number, SqlValue[][]]> => {
+      const count = await SqlEngine.execute(`SELECT COUNT(*) FROM (${difference(from, without)})`);
+      const sample: QueryResult = await SqlEngine.execute(`${difference(from, without)} LIMIT ${SAMPLE_ROWS}`);
+      return [Number(count.rows[0]?.[0] ?? 0), sample.rows];
+    };
+    const [onlyExpected, onlyExpectedSample] = await measure(expectedTable, actualTable);
+    const [onlyActual, onlyActualSample] = await measure(actualTable, expectedTable);
+
+    const matches = expectedRows === actualRows && onlyExpected === 0 && onlyActual === 0 && missingColumns.length === 0;
+    const problems = [
+      expectedRows !== actualRows && `${expectedRows} rows expected, ${actualRows} found`,
+      onlyExpected > 0 && `${onlyExpected} expected rows missing`,
+      onlyActual > 0 && `${onlyActual} unexpected rows`,
+      missingColumns.length > 0 && `missing columns ${missingColumns.join(', ')}`,
+    ].filter(Boolean);
+    return {
+      ...base,
+      status: matches ? 'match' : 'mismatch',
+      message: matches ? `All ${actualRows} rows match on ${columns.length} columns` : problems.join('; '),
+      expectedRows,
+      actualRows,
+      columns,
+      missingColumns,
+      extraColumns,
+      onlyExpected,
+      onlyActual,
+      onlyExpectedSample,
+      onlyActualSample,
+    };
+  } catch (error) {
+    return { ...base, status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Runs a requirement's transformations in order over the loaded tables.
+ * Each step writes an intermediate table, and later steps see the changes
+ * earlier ones made: a table an UPDATE changed, or an INSERT filled, is read
+ * from that step's table from then on. The loaded data itself is never
+ * changed. A step that fails, or that the engine cannot run, stops the
+ * pipeline; steps that are not SQL are skipped.
+ */
+export const runPipeline = async (
+  requirement: FunctionalRequirement,
+  knowledge: ParsedKnowledge,
+  targetTable?: string
+): Promise<PipelineRun> => {
+  await SqlEngine.ensureSchema(knowledge);
+  const state: PipelineState = { replaced: new Map() };
+  const steps: StepOutcome[] = [];
+  let failed = false;
+
+  for (const [index, transformation] of requirement.transformations.entries()) {
+    if (failed) {
+      steps.push({ name: transformation.name, status: 'skipped', message: 'An earlier step did not run', ignoredConditions: [] });
+      continue;
+    }
+    const outcome = await runStep(transformation, stepTable(requirement, index), state, knowledge);
+    failed = outcome.status === 'error' || outcome.status === 'not-runnable';
+    steps.push(outcome);
+  }
+
+  const resultTable = state.current?.table;
+
+  return {
+    requirementId: requirement.id,
+    steps,
+    resultTable,
+    targetName: state.target,
+    comparison: resultTable && targetTable ? await compareWithTarget(resultTable, targetTable) : undefined,
+    ranAt: new Date(),
+  };
+};
+
+/** One page of an intermediate table, for inspecting a step's result. */
+export const fetchStepRows = async (tableName: string, page: number): Promise<QueryResult> =>
+  SqlEngine.execute(
+    `SELECT * FROM ${qualifiedName(tableName)} LIMIT ${STEP_PAGE_SIZE} OFFSET ${page * STEP_PAGE_SIZE}`
+  );
@@ -0,0 +1,252 @@
+import type {
+  BusinessRule,
+  ColumnDefinition,
+  Constraint,
+  DataTransformation,
+  FunctionalRequirement,
+  ParsedKnowledge,
+  Relationship,
+  SQLQuery,
+  TableSpecification,
+  TestExpectation,
+  TestScenario,
+} from './GroqService';
+import { SQL_DIALECTS } from './sqlDialect';
+
+export interface ValidationIssue {
+  /** JSONPath-style location of the problem, e.g. `$.tableSpecifications[0].columns`. */
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * A validator checks an unknown value at `path` and either returns the typed
+ * value (with defaults filled in) or pushes issues and returns undefined.
+ */
+type Validator<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+
+interface FieldOptions<T> {
+  /** Used when the field is absent. A field that is present but wrong still fails. */
+  default?: () => T;
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const string = (): Validator<string> => (value, path, issues) => {
+  if (typeof value === 'string') return value;
+  issues.push({ path, message: `expected string, got ${describe(value)}` });
+  return undefined;
+};
+
+const boolean = (): Validator<boolean> => (value, path, issues) => {
+  if (typeof value === 'boolean') return value;
+  issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+  return undefined;
+};
+
+const stringOrNumber = (): Validator<string | number> => (value, path, issues) => {
+  if (typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))) return value;
+  issues.push({ path, message: `expected string or number, got ${describe(value)}` });
+  return undefined;
+};
+
+const oneOf = <T extends string>(allowed: readonly T[]): Validator<T> => (value, path, issues) => {
+  if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return value as T;
+  issues.push({
+    path,
+    message: `expected one of ${allowed.map(a => `"${a}"`).join(', ')}, got ${JSON.stringify(value)}`,
+  });
+  return undefined;
+};
+
+const arrayOf = <T>(item: Validator<T>): Validator<T[]> => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected array, got ${describe(value)}` });
+    return undefined;
+  }
+  const before = issues.length;
+  const items = value.map((entry, index) => item(entry, `${path}[${index}]`, issues));
+  return issues.length === before ? (items as T[]) : undefined;
+};
+
+type Shape<T> = { [K in keyof T]-?: [Validator<NonNullable<T[K]>>, FieldOptions<NonNullable<T[K]>>?] };
+
+const object = <T>(shape: Shape<T>, optional: (keyof T)[] = []): Validator<T> => (value, path, issues) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ path, message: `expected object, got ${describe(value)}` });
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  const before = issues.length;
+  const result: Record<string, unknown> = {};
+
+  (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+    const [validate, options] = shape[key];
+    const fieldPath = `${path}.${key}`;
+    const fieldValue = record[key];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (options?.default) {
+        result[key] = options.default();
+      } else if (!optional.includes(key)) {
+        issues.push({ path: fieldPath, message: 'is required' });
+      }
+      return;
+    }
+    result[key] = validate(fieldValue, fieldPath, issues);
+  });
+
+  return issues.length === before ? (result as T) : undefined;
+};
+
+const emptyList = <T>() => (): T[] => [];
+
+const columnDefinition = object<ColumnDefinition>(
+  {
+    name: [string()],
+    dataType: [string()],
+    isNullable: [boolean(), { default: () => true }],
+    isPrimaryKey: [boolean(), { default: () => false }],
+    description: [string()],
+    constraints: [arrayOf(string())],
+  },
+  ['description', 'constraints']
+);
+
+const constraint = object<Constraint>(
+  {
+    name: [string()],
+    type: [oneOf(['PRIMARY_KEY', 'FOREIGN_KEY', 'UNIQUE', 'CHECK'] as const)],
+    columns: [arrayOf(string())],
+    reference: [string()],
+    expression: [string()],
+  },
+  ['reference', 'expression']
+);
+
+const relationship = object<Relationship>({
+  fromTable: [string()],
+  toTable: [string()],
+  fromColumn: [string()],
+  toColumn: [string()],
+  type: [oneOf(['ONE_TO_ONE', 'ONE_TO_MANY', 'MANY_TO_MANY'] as const)],
+});
+
+const tableSpecification = object<TableSpecification>({
+  tableName: [string()],
+  columns: [arrayOf(columnDefinition)],
+  constraints: [arrayOf(constraint), { default: emptyList<Constraint>() }],
+  relationships: [arrayOf(relationship), { default: emptyList<Relationship>() }],
+});
+
+const dataTransformation = object<DataTransformation>({
+  name: [string()],
+  description: [string(), { default: () => '' }],
+  sqlLogic: [string()],
+  conditions: [arrayOf(string()), { default: emptyList<string>() }],
+});
+
+const functionalRequirement = object<FunctionalRequirement>({
+  id: [string()],
+  description: [string()],
+  businessLogic: [string(), { default: () => '' }],
+  transformations: [arrayOf(dataTransformation), { default: emptyList<DataTransformation>() }],
+});
+
+const businessRule = object<BusinessRule>({
+  id: [string()],
+  rule: [string()],
+  sqlCondition: [string()],
+  validationType: [oneOf(['CHECK', 'TRIGGER', 'PROCEDURE'] as const)],
+});
+
+let generatedIdCounter = 0;
+const generatedId = (prefix: string) => () => `${prefix}_${Date.now()}_${generatedIdCounter++}`;
+
+const testExpectation = object<TestExpectation>(
+  {
+    type: [oneOf(['NO_ROWS', 'HAS_ROWS', 'ROW_COUNT', 'VALUE_EQUALS'] as const)],
+    operator: [oneOf(['=', '!=', '<', '<=', '>', '>='] as const)],
+    value: [stringOrNumber()],
+    column: [string()],
+  },
+  ['operator', 'value', 'column']
+);
+
+const sqlQuery = object<SQLQuery>(
+  {
+    id: [string(), { default: generatedId('query') }],
+    query: [string()],
+    description: [string(), { default: () => '' }],
+    category: [oneOf(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'VALIDATION'] as const), { default: () => 'SELECT' as const }],
+    testScenario: [string()],
+    dialect: [oneOf(SQL_DIALECTS.map(dialect => dialect.id))],
+    expectation: [testExpectation],
+    covers: [arrayOf(string())],
+  },
+  ['testScenario', 'dialect', 'expectation', 'covers']
+);
+
+const testScenario = object<TestScenario>(
+  {
+    id: [string(), { default: generatedId('scenario') }],
+    name: [string()],
+    description: [string(), { default: () => '' }],
+    testQueries: [arrayOf(sqlQuery)],
+    expectedResults: [string()],
+    covers: [arrayOf(string())],
+  },
+  ['covers']
+);
+
+const parsedKnowledge = object<ParsedKnowledge>({
+  tableSpecifications: [arrayOf(tableSpecification)],
+  functionalRequirements: [arrayOf(functionalRequirement), { default: emptyList<FunctionalRequirement>() }],
+  businessRules: [arrayOf(businessRule), { default: emptyList<BusinessRule>() }],
+  testScenarios: [arrayOf(testScenario), { default: emptyList<TestScenario>() }],
+});
+
+const run = <T>(validator: Validator<T>) => (value: unknown): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+  const result = validator(value, '$', issues);
+  return issues.length === 0 ? { ok: true, value: result as T } : { ok: false, issues };
+};
+
+export const validateColumnDefinition = run(columnDefinition);
+export const validateConstraint = run(constraint);
+export const validateRelationship = run(relationship);
+export const validateTableSpecification = run(tableSpecification);
+export const validateDataTransformation = run(dataTransformation);
+export const validateFunctionalRequirement = run(functionalRequirement);
+export const validateBusinessRule = run(businessRule);
+export const validateSQLQuery = run(sqlQuery);
+export const validateTestScenario = run(testScenario);
+export const validateParsedKnowledge = run(parsedKnowledge);
+export const validateSQLQueries = run(arrayOf(sqlQuery));
+export const validateTestScenarios = run(arrayOf(testScenario));
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+
+/** Raised once the model has used up its repair attempts and the output is still invalid. */
+export class LLMResponseValidationError extends Error {
+  constructor(
+    public readonly target: string,
+    public readonly issues: ValidationIssue[],
+    public readonly attempts: number
+  ) {
+    const shown = issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`The model returned invalid ${target} after ${attempts} attempt${attempts !== 1 ? 's' : ''}: ${shown}${more}`);
+    this.name = 'LLMResponseValidationError';
+  }
+}
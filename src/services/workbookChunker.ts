@@ -0,0 +1,156 @@
+import type { WorkSheet } from 'xlsx';
+import type { WorkbookData } from './GroqService';
+
+export interface WorkbookChunk {
+  /** Human-readable description used in progress messages, e.g. `Sheet "Orders" rows 1-120`. */
+  label: string;
+  sheetNames: string[];
+  text: string;
+  estimatedTokens: number;
+}
+
+// Rough but provider-agnostic: English text and spreadsheet cells average ~4 characters per token.
+const CHARS_PER_TOKEN = 4;
+
+// Leading rows of a sheet (title block, header row) are repeated in every block
+// of that sheet so the model knows what the columns mean. Capped so that the
+// repeated preamble never crowds out the rows themselves.
+const MAX_PREAMBLE_ROWS = 10;
+const MAX_PREAMBLE_SHARE = 0.25;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const getColumnIndex = (columnLetter: string): number => {
+  let index = 0;
+  for (let i = 0; i < columnLetter.length; i++) {
+    index = index * 26 + (columnLetter.charCodeAt(i) - 64);
+  }
+  return index;
+};
+
+const getColumnLetter = (index: number): string => {
+  let letter = '';
+  while (index > 0) {
+    index--;
+    letter = String.fromCharCode(65 + (index % 26)) + letter;
+    index = Math.floor(index / 26);
+  }
+  return letter;
+};
+
+/** One tab-separated line per non-empty row, in sheet order. */
+export const sheetToLines = (sheet: WorkSheet): string[] => {
+  const lines: string[] = [];
+  const range = sheet['!ref'];
+  if (!range) return lines;
+
+  const [start, end = start] = range.split(':');
+  const startCol = getColumnIndex(start.match(/[A-Z]+/)![0]);
+  const startRow = parseInt(start.match(/\d+/)![0]);
+  const endCol = getColumnIndex(end.match(/[A-Z]+/)![0]);
+  const endRow = parseInt(end.match(/\d+/)![0]);
+
+  for (let row = startRow; row <= endRow; row++) {
+    let line = '';
+    for (let col = startCol; col <= endCol; col++) {
+      const cell = sheet[getColumnLetter(col) + row];
+      if (cell && cell.v !== undefined) {
+        line += `${cell.v}\t`;
+      }
+    }
+    if (line.trim()) {
+      lines.push(line.trimEnd());
+    }
+  }
+  return lines;
+};
+
+const sheetHeading = (sheetName: string, suffix = '') => `\nSheet: ${sheetName}${suffix}\n`;
+
+const splitSheet = (sheetName: string, lines: string[], tokenBudget: number): WorkbookChunk[] => {
+  const preamble: string[] = [];
+  let preambleTokens = 0;
+  for (const line of lines.slice(0, MAX_PREAMBLE_ROWS)) {
+    const tokens = estimateTokens(line + '\n');
+    if (preambleTokens + tokens > tokenBudget * MAX_PREAMBLE_SHARE) break;
+    preamble.push(line);
+    preambleTokens += tokens;
+  }
+
+  const chunks: WorkbookChunk[] = [];
+  let blockStart = preamble.length;
+  while (blockStart < lines.length) {
+    const block: string[] = [];
+    let tokens = preambleTokens;
+    let index = blockStart;
+    // Always take at least one row, even if that single row is over budget.
+    while (index < lines.length && (block.length === 0 || tokens + estimateTokens(lines[index] + '\n') <= tokenBudget)) {
+      block.push(lines[index]);
+      tokens += estimateTokens(lines[index] + '\n');
+      index++;
+    }
+
+    const rows = `rows ${blockStart + 1}-${index} of ${lines.length}`;
+    const text = sheetHeading(sheetName, ` (${rows}; leading rows repeated for context)`) +
+      [...preamble, ...block].join('\n') + '\n';
+    chunks.push({
+      label: `Sheet "${sheetName}" ${rows}`,
+      sheetNames: [sheetName],
+      text,
+      estimatedTokens: estimateTokens(text),
+    });
+    blockStart = index;
+  }
+
+  if (chunks.length === 0 && preamble.length > 0) {
+    const text = sheetHeading(sheetName) + preamble.join('\n') + '\n';
+    chunks.push({ label: `Sheet "${sheetName}"`, sheetNames: [sheetName], text, estimatedTokens: estimateTokens(text) });
+  }
+  return chunks;
+};
+
+/**
+ * Splits a workbook into prompts that each fit `tokenBudget`. Small sheets are
+ * packed together; a sheet that is too large on its own is split into row
+ * blocks that each repeat the sheet's leading rows.
+ */
+export const chunkWorkbook = (workbookData: WorkbookData, tokenBudget: number): WorkbookChunk[] => {
+  const chunks: WorkbookChunk[] = [];
+  let pending: { sheetNames: string[]; text: string } | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    chunks.push({
+      label: pending.sheetNames.length === 1
+        ? `Sheet "${pending.sheetNames[0]}"`
+        : `Sheets ${pending.sheetNames.map(name => `"${name}"`).join(', ')}`,
+      sheetNames: pending.sheetNames,
+      text: pending.text,
+      estimatedTokens: estimateTokens(pending.text),
+    });
+    pending = null;
+  };
+
+  (workbookData.SheetNames || []).forEach(sheetName => {
+    const sheet = workbookData.Sheets[sheetName];
+    const lines = sheet ? sheetToLines(sheet) : [];
+    if (lines.length === 0) return;
+
+    const text = sheetHeading(sheetName) + lines.join('\n') + '\n';
+    if (estimateTokens(text) > tokenBudget) {
+      flush();
+      chunks.push(...splitSheet(sheetName, lines, tokenBudget));
+      return;
+    }
+
+    if (pending && estimateTokens(pending.text + text) > tokenBudget) {
+      flush();
+    }
+    pending = pending
+      ? { sheetNames: [...pending.sheetNames, sheetName], text: pending.text + text }
+      : { sheetNames: [sheetName], text };
+  });
+  flush();
+
+  return chunks;
+};
@@ -0,0 +1,346 @@
+/**
+ * The part of YAML that configuration files written by hand actually use:
+ * block mappings and sequences, plain, quoted and literal block scalars,
+ * flow collections of scalars, and comments. Anchors, tags and multiple
+ * documents are not supported.
+ */
+
+export class YamlSyntaxError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlSyntaxError';
+  }
+}
+
+// Plain scalars that would read back as something other than the same string.
+const RESERVED_PLAIN = /^(?:~|null|true|false|yes|no|on|off|[-+]?(?:\d[\d_]*\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|\.inf|\.nan)$/i;
+
+const isPlainSafe = (text: string) =>
+  text !== '' &&
+  !RESERVED_PLAIN.test(text) &&
+  /^[^\s\-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+  !/[\s]$/.test(text) &&
+  !/:\s|\s#|:$|[\n\r\t]/.test(text);
+
+const formatKey = (key: string) => (/^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key));
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  const text = String(value);
+  return isPlainSafe(text) ? text : JSON.stringify(text);
+};
+
+const isMultiline = (value: unknown): value is string =>
+  typeof value === 'string' && value.includes('\n') && !/[\r\t]/.test(value) && !/^\s/.test(value);
+
+const blockScalar = (text: string, indent: string) => {
+  const chomp = text.endsWith('\n') ? '' : '-';
+  const body = text.replace(/\n$/, '').split('\n').map(line => (line ? `${indent}${line}` : '')).join('\n');
+  return `|${chomp}\n${body}`;
+};
+
+const isEmptyCollection = (value: unknown) =>
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date) && Object.keys(value).length === 0);
+
+const isCollection = (value: unknown) =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !isEmptyCollection(value);
+
+/** Text after `key:` or `-`, including the line break before a nested block. */
+const valueText = (value: unknown, indent: string): string => {
+  if (isEmptyCollection(value)) return Array.isArray(value) ? ' []' : ' {}';
+  if (isMultiline(value)) return ` ${blockScalar(value, `${indent}  `)}`;
+  if (isCollection(value)) return `\n${emitNode(value, `${indent}  `)}`;
+  return ` ${formatScalar(value)}`;
+};
+
+const emitNode = (value: unknown, indent: string): string => {
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      // A mapping starts on the dash's line
+      if (isCollection(item) && !Array.isArray(item)) {
+        return `${indent}- ${emitNode(item, `${indent}  `).trimStart()}`;
+      }
+      return `${indent}-${valueText(item, indent)}`;
+    }).join('\n');
+  }
+  if (isCollection(value)) {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .map(([key, entry]) => `${indent}${formatKey(key)}:${valueText(entry, indent)}`)
+      .join('\n');
+  }
+  return `${indent}${formatScalar(value)}`;
+};
+
+/** Serialises JSON-compatible data as block-style YAML. */
+export const toYaml = (value: unknown): string => {
+  if (isEmptyCollection(value)) return `${Array.isArray(value) ? '[]' : '{}'}\n`;
+  if (isMultiline(value)) return `${blockScalar(value, '  ')}\n`;
+  return `${emitNode(value, '')}\n`;
+};
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+/** Removes a trailing comment that is outside quotes. */
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === '\\' && quote === '"') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      if (index === 0 || /[\s[{,:-]/.test(text[index - 1])) quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(text[index - 1]))) {
+      return text.slice(0, index).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const NUMBER = /^[-+]?(?:\d[\d_]*\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+const parseScalar = (raw: string, line: number): unknown => {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    if (!/^"(?:[^"\\]|\\.)*"$/.test(text)) throw new YamlSyntaxError('Unterminated double-quoted string', line);
+    try {
+      return JSON.parse(text.replace(/\\'/g, "'").replace(/\t/g, '\\t'));
+    } catch {
+      throw new YamlSyntaxError(`Invalid escape in ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) throw new YamlSyntaxError('Unterminated single-quoted string', line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[') || text.startsWith('{')) return parseFlow(text, line);
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^(true|yes|on)$/i.test(text)) return true;
+  if (/^(false|no|off)$/i.test(text)) return false;
+  if (NUMBER.test(text)) return Number(text.replace(/_/g, ''));
+  if (/^[&*!|>%@`]/.test(text)) throw new YamlSyntaxError(`Unsupported YAML syntax: ${text}`, line);
+  return text;
+};
+
+/** Flow collections such as `[a, "b", 3]` or `{ key: value }`, nested or not. */
+const parseFlow = (text: string, line: number): unknown => {
+  let position = 0;
+  const fail = (message: string): never => {
+    throw new YamlSyntaxError(message, line);
+  };
+  const skipSpaces = () => {
+    while (/\s/.test(text[position] ?? '')) position++;
+  };
+  const readScalar = (): string => {
+    skipSpaces();
+    const start = position;
+    const quote = text[position];
+    if (quote === '"' || quote === "'") {
+      for (position++; position < text.length; position++) {
+        if (quote === '"' && text[position] === '\\') position++;
+        else if (text[position] === quote) {
+          // '' is an escaped quote inside single quotes
+          if (quote === "'" && text[position + 1] === "'") position++;
+          else break;
+        }
+      }
+      position++;
+    } else {
+      while (position < text.length && !/[,\]}]/.test(text[position]) && !(text[position] === ':' && /[\s,\]}]/.test(text[position + 1] ?? ' '))) {
+        position++;
+      }
+    }
+    return text.slice(start, position).trim();
+  };
+  const readValue = (): unknown => {
+    skipSpaces();
+    const char = text[position];
+    if (char === '[') {
+      position++;
+      const items: unknown[] = [];
+      skipSpaces();
+      if (text[position] === ']') {
+        position++;
+        return items;
+      }
+      for (;;) {
+        items.push(readValue());
+        skipSpaces();
+        if (text[position] === ',') position++;
+        else if (text[position] === ']') {
+          position++;
+          return items;
+        } else fail('Expected , or ] in a flow sequence');
+      }
+    }
+    if (char === '{') {
+      position++;
+      const entries: Record<string, unknown> = {};
+      skipSpaces();
+      if (text[position] === '}') {
+        position++;
+        return entries;
+      }
+      for (;;) {
+        const key = parseScalar(readScalar(), line);
+        skipSpaces();
+        if (text[position] !== ':') fail('Expected : in a flow mapping');
+        position++;
+        entries[String(key)] = readValue();
+        skipSpaces();
+        if (text[position] === ',') position++;
+        else if (text[position] === '}') {
+          position++;
+          return entries;
+        } else fail('Expected , or } in a flow mapping');
+      }
+    }
+    return parseScalar(readScalar(), line);
+  };
+
+  const value = readValue();
+  skipSpaces();
+  if (position < text.length) fail(`Unexpected text after the flow collection: ${text.slice(position)}`);
+  return value;
+};
+
+// `key:` followed by a space, a comment or the end of the line.
+const MAPPING_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[\]{},][^#]*?)\s*:(?:\s+|$)/;
+
+class Parser {
+  private position = 0;
+
+  constructor(private lines: Line[], private raw: string[]) {}
+
+  parseDocument(): unknown {
+    if (this.lines.length === 0) return null;
+    const value = this.parseNode(this.lines[0].indent);
+    const rest = this.lines[this.position];
+    if (rest) throw new YamlSyntaxError('Unexpected indentation', rest.number);
+    return value;
+  }
+
+  private parseNode(indent: number): unknown {
+    const line = this.lines[this.position];
+    if (line.text === '-' || line.text.startsWith('- ')) return this.parseSequence(line.indent);
+    if (MAPPING_KEY.test(line.text)) return this.parseMapping(line.indent);
+    if (line.indent < indent) throw new YamlSyntaxError('Unexpected indentation', line.number);
+    this.position++;
+    if (/^[|>]/.test(line.text)) return this.blockScalar(line, indent - 1);
+    return parseScalar(line.text, line.number);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (let line = this.lines[this.position]; line && line.indent === indent && (line.text === '-' || line.text.startsWith('- ')); line = this.lines[this.position]) {
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.position++;
+        items.push(this.nestedValue(indent));
+        continue;
+      }
+      // Read what follows the dash as a line of its own, one level deeper
+      const offset = line.text.length - rest.length;
+      this.lines[this.position] = { number: line.number, indent: indent + offset, text: rest };
+      items.push(this.parseNode(indent + offset));
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const entries: Record<string, unknown> = {};
+    for (let line = this.lines[this.position]; line && line.indent === indent; line = this.lines[this.position]) {
+      const match = line.text.match(MAPPING_KEY);
+      if (!match) throw new YamlSyntaxError(`Expected "key: value", got ${line.text}`, line.number);
+      const key = String(parseScalar(match[1], line.number));
+      if (Object.prototype.hasOwnProperty.call(entries, key)) {
+        throw new YamlSyntaxError(`Duplicate key "${key}"`, line.number);
+      }
+      const rest = line.text.slice(match[0].length);
+      this.position++;
+      if (!rest) {
+        entries[key] = this.nestedValue(indent, true);
+      } else if (/^[|>][-+]?$/.test(rest)) {
+        entries[key] = this.blockScalar({ ...line, text: rest }, indent);
+      } else {
+        entries[key] = parseScalar(rest, line.number);
+      }
+    }
+    const next = this.lines[this.position];
+    if (next && next.indent > indent) throw new YamlSyntaxError('Unexpected indentation', next.number);
+    return entries;
+  }
+
+  /** The block under `key:` or `-`; a sequence may sit at the key's own indentation. */
+  private nestedValue(indent: number, allowSameIndent = false): unknown {
+    const next = this.lines[this.position];
+    if (!next) return null;
+    if (next.indent > indent) return this.parseNode(next.indent);
+    if (allowSameIndent && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  /** `|` or `>` scalar; its lines are read from the raw text, comments and all. */
+  private blockScalar(header: Line, parentIndent: number): string {
+    const folded = header.text.startsWith('>');
+    const chomp = header.text.slice(1);
+    const lines: string[] = [];
+    let contentIndent = -1;
+    let rawIndex = header.number;
+    for (; rawIndex < this.raw.length; rawIndex++) {
+      const text = this.raw[rawIndex];
+      if (text.trim() === '') {
+        lines.push('');
+        continue;
+      }
+      const indent = text.length - text.trimStart().length;
+      if (contentIndent < 0) contentIndent = indent;
+      if (indent <= parentIndent || indent < contentIndent) break;
+      lines.push(text.slice(contentIndent));
+    }
+    // Skip the parsed lines the block covered
+    while (this.lines[this.position] && this.lines[this.position].number <= rawIndex) this.position++;
+
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+    // Folding joins lines with spaces; an empty line stands for a line break
+    const body = folded
+      ? lines.reduce((text, line, index) => {
+        if (index === 0) return line;
+        if (line === '') return `${text}\n`;
+        return lines[index - 1] === '' ? text + line : `${text} ${line}`;
+      }, '')
+      : lines.join('\n');
+    if (chomp === '-') return body;
+    return `${body}\n`;
+  }
+}
+
+/** Parses a YAML document; errors name the line they were found on. */
+export const parseYaml = (text: string): unknown => {
+  const raw = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const lines: Line[] = [];
+  raw.forEach((source, index) => {
+    // Document markers start in column 0, where block scalar content, always
+    // indented, never does: an indented `---` in a description is text.
+    if (/^(---|\.\.\.)\s*$/.test(source)) {
+      if (lines.length > 0 && source.trim() === '---') throw new YamlSyntaxError('Only one document per file is supported', index + 1);
+      return;
+    }
+    if (/^\s*\t/.test(source)) throw new YamlSyntaxError('Tabs cannot be used for indentation', index + 1);
+    const stripped = stripComment(source);
+    if (!stripped.trim()) return;
+    lines.push({ number: index + 1, indent: stripped.length - stripped.trimStart().length, text: stripped.trim() });
+  });
+  return new Parser(lines, raw).parseDocument();
+};
@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GROQ_API_KEY?: string;
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_MOCK_RECORDINGS?: string;
+  readonly VITE_LLM_CONTEXT_WINDOW?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}